@@ -28,6 +28,65 @@ export const config = {
     password: process.env.ODOO_PASSWORD || "admin",
   },
 
+  barcodes: {
+    internalPrefix: process.env.INTERNAL_BARCODE_PREFIX || "SLK",
+  },
+
+  returns: {
+    // Ubicación de Odoo (nombre completo o código de barras) para devoluciones en cuarentena
+    quarantineLocation:
+      process.env.RETURNS_QUARANTINE_LOCATION || "WH/Stock/Cuarentena",
+  },
+
+  receipts: {
+    // Recepción ciega obligatoria: para todas las recepciones o solo las de
+    // los proveedores indicados (ids de partner de Odoo separados por comas)
+    blindAll: process.env.RECEIPT_BLIND_ALL === "true",
+    blindSuppliers: (process.env.RECEIPT_BLIND_SUPPLIERS || "")
+      .split(",")
+      .filter(Boolean)
+      .map((id) => parseInt(id)),
+  },
+
+  picking: {
+    // Estrategia de recorrido por defecto y dimensiones del almacén (metros)
+    pathStrategy: process.env.PICK_PATH_STRATEGY || "serpentine",
+    aisleSpacing: parseFloat(process.env.PICK_AISLE_SPACING || "3"),
+    blockLength: parseFloat(process.env.PICK_BLOCK_LENGTH || "1.2"),
+    blocksPerAisle: parseInt(process.env.PICK_BLOCKS_PER_AISLE || "20"),
+    maxWaveOrders: parseInt(process.env.PICK_MAX_WAVE_ORDERS || "8"),
+  },
+
+  locations: {
+    // Esquema del código de ubicación: rango "desde-hasta" de cada segmento.
+    // Pasillo en letras; bloque, nivel y posición en dígitos (sin posición si está vacío)
+    aisles: process.env.LOCATION_AISLES || "A-Z",
+    blocks: process.env.LOCATION_BLOCKS || "00-99",
+    levels: process.env.LOCATION_LEVELS || "0-5",
+    positions: process.env.LOCATION_POSITIONS || "",
+  },
+
+  tasks: {
+    // Minutos sin completar tras los que una tarea reclamada vuelve a la cola
+    claimTimeoutMinutes: parseInt(
+      process.env.TASK_CLAIM_TIMEOUT_MINUTES || "30"
+    ),
+  },
+
+  criticalChanges: {
+    // "confirm": el propio operario confirma con token; "supervisor": las
+    // reglas indicadas pasan a la cola de aprobación de un supervisor
+    mode: process.env.CRITICAL_CHANGE_MODE || "confirm",
+    approvalRules: (
+      process.env.CRITICAL_CHANGE_APPROVAL_RULES ||
+      "stock_zero,stock_large_change"
+    ).split(","),
+    // Horas tras las que una solicitud sin revisar caduca
+    approvalExpireHours: parseInt(
+      process.env.CRITICAL_CHANGE_APPROVAL_HOURS || "24"
+    ),
+  },
+
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || "12"),
     deviceSecret: process.env.DEVICE_SECRET || "device_secret",
@@ -3,9 +3,11 @@ import { Request, Response, NextFunction } from "express";
 import { ProductService } from "../../services/product.service";
 import { ValidationService } from "../../services/validation.service";
 import { OptimisticUpdateService } from "../../services/optimistic-update.service";
+import { ReasonCodeService } from "../../services/reason-code.service";
 import { ApiResponse } from "../../types/common.types";
 import { logger } from "../../utils/logger";
 import { AppError } from "../../middlewares/error.middleware";
+import { BarcodeValidator } from "../../utils/barcode.validator";
 
 export class AdvancedProductController {
   /**
@@ -21,7 +23,13 @@ export class AdvancedProductController {
 
     try {
       const { id } = req.params;
-      const { location, stock, skipValidation = false } = req.body;
+      const {
+        location,
+        stock,
+        lots,
+        reasonCode,
+        skipValidation = false,
+      } = req.body;
       const userId = req.user!.userId;
       const deviceId = req.deviceId!;
       const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
@@ -80,7 +88,8 @@ export class AdvancedProductController {
         product.product,
         { location, stock },
         userId,
-        deviceId
+        deviceId,
+        ReasonCodeService.roleFor(req.user!.permissions)
       );
 
       // Aplicar cambios temporalmente (optimistic update)
@@ -98,7 +107,13 @@ export class AdvancedProductController {
         // Intentar la actualización real
         const result = await ProductService.updateProduct(
           product.product.id,
-          { location, stock },
+          {
+            location,
+            stock,
+            lots,
+            reasonCode,
+            role: ReasonCodeService.roleFor(req.user!.permissions),
+          },
           userId,
           deviceId,
           ipAddress
@@ -219,7 +234,8 @@ export class AdvancedProductController {
 
       const result = await OptimisticUpdateService.undoLastOperation(
         userId,
-        deviceId
+        deviceId,
+        ReasonCodeService.roleFor(req.user!.permissions)
       );
 
       if (!result.success) {
@@ -269,7 +285,8 @@ export class AdvancedProductController {
 
       const result = await OptimisticUpdateService.redoLastOperation(
         userId,
-        deviceId
+        deviceId,
+        ReasonCodeService.roleFor(req.user!.permissions)
       );
 
       if (!result.success) {
@@ -359,7 +376,13 @@ export class AdvancedProductController {
 
       res.status(200).json({
         success: validation.isValid,
-        data: validation,
+        data: {
+          ...validation,
+          type: BarcodeValidator.detectType(barcode),
+          normalized: validation.isValid
+            ? BarcodeValidator.normalize(barcode)
+            : null,
+        },
         message: validation.isValid
           ? "Código de barras válido"
           : "Código de barras inválido",
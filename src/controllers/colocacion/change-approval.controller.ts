@@ -0,0 +1,166 @@
+// src/controllers/colocacion/change-approval.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { ChangeApprovalService } from "../../services/change-approval.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+
+export class ChangeApprovalController {
+  /**
+   * GET /api/v1/colocacion/approvals?limit=N
+   * Cola de cambios críticos pendientes de aprobación
+   */
+  public getQueue = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const approvals = await ChangeApprovalService.getQueue(limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          approvals: approvals.map((approval) =>
+            ChangeApprovalService.summarize(approval)
+          ),
+          count: approvals.length,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo cola de aprobaciones:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/approvals/notifications
+   * Resultados de las solicitudes del operario aún no recibidos en la PDA
+   */
+  public getNotifications = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const approvals = await ChangeApprovalService.getNotifications(
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          approvals: approvals.map((approval) =>
+            ChangeApprovalService.summarize(approval)
+          ),
+          count: approvals.length,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo notificaciones de aprobación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/approvals/:id
+   * Estado de una solicitud (solicitante o supervisor)
+   */
+  public getApproval = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const approval = await ChangeApprovalService.getApproval(
+        req.params.id,
+        req.user!.userId,
+        Boolean(req.user!.permissions?.colocacion?.admin)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { approval: ChangeApprovalService.summarize(approval) },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo solicitud de aprobación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/approvals/:id/approve
+   * Aprobar y aplicar el cambio crítico
+   */
+  public approve = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const approval = await ChangeApprovalService.approve(
+        req.params.id,
+        req.body.note,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const failed = approval.status === "failed";
+
+      res.status(failed ? 207 : 200).json({
+        success: !failed,
+        data: { approval: ChangeApprovalService.summarize(approval) },
+        message: failed
+          ? `Cambio aprobado, pero no se ha podido aplicar: ${approval.error}`
+          : "Cambio aprobado y aplicado",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error aprobando cambio crítico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/approvals/:id/reject
+   * Rechazar el cambio crítico sin aplicarlo
+   */
+  public reject = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const approval = await ChangeApprovalService.reject(
+        req.params.id,
+        req.body.note,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { approval: ChangeApprovalService.summarize(approval) },
+        message: "Cambio rechazado",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error rechazando cambio crítico:", error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,299 @@
+// src/controllers/colocacion/cycle-count.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { CycleCountService } from "../../services/cycle-count.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+
+export class CycleCountController {
+  /**
+   * GET /api/v1/colocacion/cycle-counts/plans
+   * Listar planes de inventario cíclico
+   */
+  public getPlans = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const plans = await CycleCountService.getPlans();
+
+      res.status(200).json({
+        success: true,
+        data: { plans, count: plans.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo planes de inventario cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/cycle-counts/plans
+   * Crear plan de inventario cíclico (por clase ABC o por pasillos)
+   */
+  public createPlan = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const plan = await CycleCountService.createPlan(
+        req.body,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { plan },
+        message: `Plan de inventario cíclico ${plan.name} creado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando plan de inventario cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/colocacion/cycle-counts/plans/:id
+   * Modificar plan de inventario cíclico
+   */
+  public updatePlan = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const plan = await CycleCountService.updatePlan(
+        req.params.id,
+        req.body,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { plan },
+        message: `Plan de inventario cíclico ${plan.name} actualizado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error actualizando plan de inventario cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/cycle-counts/plans/:id/generate
+   * Generar ahora los conteos de un plan
+   */
+  public generate = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const plan = await CycleCountService.requirePlan(req.params.id);
+      const counts = await CycleCountService.generateForPlan(
+        plan,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          counts: counts.map((count) => CycleCountService.summarize(count)),
+        },
+        message: `${counts.length} conteos generados para ${plan.name}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error generando conteos cíclicos:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/cycle-counts/review?limit=N
+   * Conteos con variaciones pendientes de revisión
+   */
+  public getReviewQueue = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const counts = await CycleCountService.getReviewQueue(
+        Math.min(limit, 200)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { counts, count: counts.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo conteos en revisión:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/cycle-counts/:id
+   * Obtener conteo (sin cantidades esperadas mientras está abierto)
+   */
+  public getCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const count = await CycleCountService.getCount(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: { count: CycleCountService.summarize(count) },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo conteo cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/cycle-counts/:id/submit
+   * Registrar conteo escaneando la ubicación
+   * (la tarea se reclama en la cola general de tareas)
+   */
+  public submitCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { location, items } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { count, recount } = await CycleCountService.submitCount(
+        req.params.id,
+        { location, items },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const messages = {
+        posted: "Conteo registrado",
+        recount: "Hay diferencias: se ha generado un reconteo",
+        review: "Hay diferencias: el conteo pasa a revisión del supervisor",
+      };
+
+      // El operario no ve las diferencias: el reconteo también es ciego
+      res.status(200).json({
+        success: true,
+        data: {
+          countId: count.id,
+          status: count.status,
+          recountId: recount?.id,
+          recountTaskId: recount?.warehouse_task_id,
+        },
+        message: messages[count.status as keyof typeof messages],
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando conteo cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/cycle-counts/:id/approve
+   * Aprobar conteo en revisión y ajustar el stock
+   */
+  public approveCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const count = await CycleCountService.approveCount(
+        req.params.id,
+        req.body.note,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { count: CycleCountService.summarize(count) },
+        message: `Conteo de ${count.location} aprobado y ajustado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error aprobando conteo cíclico:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/cycle-counts/:id/reject
+   * Rechazar conteo en revisión sin ajustar el stock
+   */
+  public rejectCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const count = await CycleCountService.rejectCount(
+        req.params.id,
+        req.body.note,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { count: CycleCountService.summarize(count) },
+        message: `Conteo de ${count.location} rechazado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error rechazando conteo cíclico:", error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,345 @@
+// src/controllers/colocacion/inventory-session.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { InventorySessionService } from "../../services/inventory-session.service";
+import { InventorySessionStatus } from "../../models/InventorySession";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const SESSION_STATUSES: InventorySessionStatus[] = [
+  "open",
+  "closed",
+  "cancelled",
+];
+
+export class InventorySessionController {
+  /**
+   * GET /api/v1/colocacion/inventory-sessions?status=open
+   * Listar sesiones de inventario físico
+   */
+  public getSessions = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const status = req.query.status as InventorySessionStatus | undefined;
+      if (status && !SESSION_STATUSES.includes(status)) {
+        throw new AppError(
+          `Estado inválido. Valores permitidos: ${SESSION_STATUSES.join(", ")}`,
+          400
+        );
+      }
+
+      const sessions = await InventorySessionService.getSessions(status);
+
+      res.status(200).json({
+        success: true,
+        data: { sessions, count: sessions.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo sesiones de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/inventory-sessions
+   * Abrir sesión de inventario físico (congela las zonas indicadas)
+   */
+  public openSession = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { name, zones, teams } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await InventorySessionService.openSession(
+        { name, zones, teams },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { session },
+        message: `Inventario ${session.name} abierto`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error abriendo sesión de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/inventory-sessions/:id
+   * Obtener sesión de inventario
+   */
+  public getSession = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const session = await InventorySessionService.requireSession(
+        req.params.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { session },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo sesión de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/colocacion/inventory-sessions/:id/teams
+   * Asignar zonas a equipos
+   */
+  public updateTeams = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await InventorySessionService.updateTeams(
+        req.params.id,
+        req.body.teams,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { session },
+        message: `${session.teams.length} equipos asignados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error asignando equipos de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/inventory-sessions/:id/locations?zone=
+   * Hoja de conteo con el estado de cada ubicación (sin cantidades)
+   */
+  public getLocations = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const zone = (req.query.zone as string | undefined)?.toUpperCase();
+
+      const locations = await InventorySessionService.getLocations(
+        req.params.id,
+        zone
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { locations, count: locations.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo hoja de conteo:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/inventory-sessions/:id/counts
+   * Registrar el conteo de una ubicación
+   */
+  public submitCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { location, items } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { count, status } = await InventorySessionService.submitCount(
+        req.params.id,
+        { location, items },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const messages = {
+        second_count: "Conteo registrado: falta el segundo conteo",
+        agreed: "Ubicación contada",
+        disputed: "Los conteos no coinciden: se necesita un desempate",
+        resolved: "Ubicación contada tras el desempate",
+      };
+
+      // Sin cantidades esperadas ni del otro conteo: el conteo es ciego
+      res.status(201).json({
+        success: true,
+        data: {
+          countId: count.id,
+          location: count.location,
+          round: count.round,
+          status,
+        },
+        message: messages[status as keyof typeof messages],
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando conteo de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/inventory-sessions/:id/reconciliation
+   * Diferencias y valoración del inventario
+   */
+  public getReconciliation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const reconciliation = await InventorySessionService.getReconciliation(
+        req.params.id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: reconciliation,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo conciliación de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/inventory-sessions/:id/close
+   * Cerrar inventario: ajustar stock y enviar el ajuste a Odoo
+   */
+  public closeSession = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, reconciliation } =
+        await InventorySessionService.closeSession(
+          req.params.id,
+          userId,
+          deviceId,
+          ipAddress
+        );
+
+      res.status(200).json({
+        success: true,
+        data: { session, summary: reconciliation.summary },
+        message: session.odoo_error
+          ? `Inventario cerrado, pero el ajuste no se ha enviado a Odoo: ${session.odoo_error}`
+          : `Inventario ${session.name} cerrado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cerrando sesión de inventario:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/inventory-sessions/:id/odoo
+   * Reintentar el envío del ajuste de cierre a Odoo
+   */
+  public retryOdooPost = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await InventorySessionService.retryOdooPost(
+        req.params.id,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(session.odoo_error ? 207 : 200).json({
+        success: !session.odoo_error,
+        data: { session },
+        message: session.odoo_error
+          ? `Error enviando el ajuste a Odoo: ${session.odoo_error}`
+          : "Ajuste de inventario registrado en Odoo",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error reenviando inventario a Odoo:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/inventory-sessions/:id/cancel
+   * Cancelar inventario sin ajustar stock
+   */
+  public cancelSession = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await InventorySessionService.cancelSession(
+        req.params.id,
+        req.body.reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { session },
+        message: `Inventario ${session.name} cancelado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cancelando sesión de inventario:", error);
+      next(error);
+    }
+  };
+}
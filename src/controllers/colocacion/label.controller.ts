@@ -49,6 +49,7 @@ export class LabelController {
   /**
    * POST /api/v1/colocacion/labels/create
    * Crear etiqueta para un producto específico
+   * (con location se etiqueta una ubicación concreta, p. ej. de reserva)
    */
   public createLabel = async (
     req: Request,
@@ -56,7 +57,7 @@ export class LabelController {
     next: NextFunction
   ) => {
     try {
-      const { productId } = req.body;
+      const { productId, location } = req.body;
       const userId = req.user!.userId;
       const deviceId = req.deviceId!;
       const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
@@ -69,7 +70,8 @@ export class LabelController {
         productId,
         userId,
         deviceId,
-        ipAddress
+        ipAddress,
+        location
       );
 
       res.status(201).json({
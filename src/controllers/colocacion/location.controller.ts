@@ -0,0 +1,335 @@
+// src/controllers/colocacion/location.controller.ts
+import { Request, Response, NextFunction } from "express";
+import {
+  LocationService,
+  LocationFilters,
+} from "../../services/location.service";
+import { ProductService } from "../../services/product.service";
+import { LocationType } from "../../models/Location";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const LOCATION_TYPES: LocationType[] = [
+  "pick_face",
+  "reserve",
+  "quarantine",
+  "dock",
+];
+
+export class LocationController {
+  /**
+   * GET /api/v1/colocacion/locations?zone=&type=&blocked=&empty=&limit=N
+   * Listar ubicaciones del maestro con su ocupación
+   */
+  public getLocations = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const filters: LocationFilters = {};
+
+      if (req.query.zone) {
+        filters.zone = (req.query.zone as string).trim().toUpperCase();
+      }
+
+      if (req.query.type) {
+        const type = req.query.type as LocationType;
+        if (!LOCATION_TYPES.includes(type)) {
+          throw new AppError(
+            `Tipo inválido. Valores permitidos: ${LOCATION_TYPES.join(", ")}`,
+            400
+          );
+        }
+        filters.type = type;
+      }
+
+      if (req.query.blocked !== undefined) {
+        filters.blocked = req.query.blocked === "true";
+      }
+
+      if (req.query.empty !== undefined) {
+        filters.empty = req.query.empty === "true";
+      }
+
+      const limit = parseInt(req.query.limit as string);
+      if (limit > 0) {
+        filters.limit = Math.min(limit, 2000);
+      }
+
+      const locations = await LocationService.listLocations(filters);
+
+      res.status(200).json({
+        success: true,
+        data: { locations, count: locations.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error listando ubicaciones:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/locations/:code
+   * Obtener ubicación con su contenido
+   */
+  public getLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await LocationService.getLocation(req.params.code);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/locations
+   * Dar de alta una ubicación
+   */
+  public createLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { code, zone, type, capacity } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const location = await LocationService.createLocation(
+        { code, zone, type, capacity },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { location },
+        message: `Ubicación ${location.code} creada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/locations/bulk
+   * Generar ubicaciones para un rango (A01-A20, niveles 0-5)
+   */
+  public bulkCreate = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { range, levels, zone, type, capacity } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await LocationService.bulkCreate(
+        { range, levels, zone, type, capacity },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `${result.created.length} ubicaciones creadas, ${result.skipped.length} ya existían`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error generando ubicaciones:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/colocacion/locations/:code
+   * Modificar zona, tipo o capacidad
+   */
+  public updateLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { zone, type, capacity } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const location = await LocationService.updateLocation(
+        req.params.code,
+        { zone, type, capacity },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { location },
+        message: `Ubicación ${location.code} actualizada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error actualizando ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/locations/:from/move
+   * Mover todo el contenido de una ubicación (o los productos indicados) a otra
+   */
+  public moveLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { to, productIds, changeReason } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await ProductService.moveLocationContents(
+        req.params.from,
+        to,
+        productIds,
+        changeReason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `${result.moved.length} productos movidos de ${result.from} a ${result.to}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error moviendo contenido de ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/locations/:code/block
+   * Bloquear ubicación
+   */
+  public blockLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const location = await LocationService.blockLocation(
+        req.params.code,
+        req.body.reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { location },
+        message: `Ubicación ${location.code} bloqueada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error bloqueando ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/locations/:code/unblock
+   * Desbloquear ubicación
+   */
+  public unblockLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const location = await LocationService.unblockLocation(
+        req.params.code,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { location },
+        message: `Ubicación ${location.code} desbloqueada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error desbloqueando ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/colocacion/locations/:code
+   * Eliminar ubicación vacía
+   */
+  public deleteLocation = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      await LocationService.deleteLocation(
+        req.params.code,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Ubicación ${req.params.code} eliminada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error eliminando ubicación:", error);
+      next(error);
+    }
+  };
+}
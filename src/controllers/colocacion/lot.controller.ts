@@ -0,0 +1,117 @@
+// src/controllers/colocacion/lot.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { LotService } from "../../services/lot.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class LotController {
+  /**
+   * GET /api/v1/colocacion/lots/:lotNumber
+   * Buscar ubicaciones actuales de un lote o número de serie
+   */
+  public findByLotNumber = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { lotNumber } = req.params;
+
+      const locations = await LotService.findByLotNumber(lotNumber);
+
+      if (locations.length === 0) {
+        res.status(404).json({
+          success: false,
+          error: "Lote no encontrado",
+          message: `No hay existencias del lote ${lotNumber}`,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          lotNumber,
+          locations,
+          totalQuantity: locations.reduce((sum, l) => sum + l.quantity, 0),
+        },
+        message: `Lote ${lotNumber} encontrado en ${locations.length} ubicaciones`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error buscando lote:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/products/:id/lots
+   * Obtener lotes ubicados de un producto en orden FEFO
+   */
+  public getProductLots = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+
+      const lots = await LotService.getFefoStock(id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          lots,
+          count: lots.length,
+        },
+        message: `${lots.length} lotes ubicados encontrados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo lotes del producto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/expiring?days=N
+   * Informe de existencias caducadas o próximas a caducar
+   */
+  public getExpiring = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const days =
+        req.query.days !== undefined ? parseInt(req.query.days as string) : 30;
+
+      if (isNaN(days) || days < 0 || days > 365) {
+        throw new AppError("El parámetro days debe estar entre 0 y 365", 400);
+      }
+
+      const lots = await LotService.getExpiringLots(days);
+      const expired = lots.filter((lot) => lot.expired);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          days,
+          lots,
+          totals: {
+            expired: expired.length,
+            expiring: lots.length - expired.length,
+          },
+          lastAlert: await LotService.getLastExpiryAlert(),
+        },
+        message: `${lots.length} lotes caducan en los próximos ${days} días`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo informe de caducidades:", error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,112 @@
+// src/controllers/colocacion/product-barcode.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { ProductBarcodeService } from "../../services/product-barcode.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+
+export class ProductBarcodeController {
+  /**
+   * GET /api/v1/colocacion/products/:id/barcodes
+   * Listar códigos de barras del producto (principal y alternativos)
+   */
+  public getBarcodes = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+
+      const { product, barcodes } = await ProductBarcodeService.getBarcodes(id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          productId: product.id,
+          reference: product.reference,
+          barcodes,
+        },
+        message: `${barcodes.length} códigos de barras encontrados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo códigos de barras del producto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/products/:id/barcodes
+   * Añadir código de barras alternativo o de embalaje
+   */
+  public addBarcode = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const { barcode, type, unitsPerPackage } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const alias = await ProductBarcodeService.addBarcode(
+        id,
+        { barcode, type, unitsPerPackage },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          id: alias.id,
+          barcode: alias.barcode,
+          type: alias.type,
+          unitsPerPackage: Number(alias.units_per_package),
+        },
+        message: "Código de barras añadido correctamente",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error añadiendo código de barras:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/colocacion/products/:id/barcodes/:barcodeId
+   * Eliminar código de barras alternativo
+   */
+  public removeBarcode = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id, barcodeId } = req.params;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      await ProductBarcodeService.removeBarcode(
+        id,
+        barcodeId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Código de barras eliminado correctamente",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error eliminando código de barras:", error);
+      next(error);
+    }
+  };
+}
@@ -2,9 +2,23 @@
 import { Request, Response, NextFunction } from "express";
 import { ProductService } from "../../services/product.service";
 import { CacheService } from "../../services/cache.service";
+import { ReasonCodeService } from "../../services/reason-code.service";
+import { StockHistoryFilters } from "../../services/stock-movement.service";
+import { StockMovementSource } from "../../models/StockMovement";
 import { ApiResponse } from "../../types/common.types";
+import { LocationValidator } from "../../utils/location.validator";
 import { logger } from "../../utils/logger";
 import { auditLogger } from "../../utils/audit-logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const STOCK_MOVEMENT_SOURCES: StockMovementSource[] = [
+  "manual",
+  "receipt",
+  "pick",
+  "sync",
+  "transfer",
+  "count",
+];
 
 export class ProductController {
   /**
@@ -18,6 +32,7 @@ export class ProductController {
   ) => {
     try {
       const { barcode } = req.params;
+      const scanLocation = req.query.location as string | undefined;
       const userId = req.user!.userId;
       const deviceId = req.deviceId!;
       const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
@@ -32,7 +47,8 @@ export class ProductController {
         barcode,
         userId,
         deviceId,
-        ipAddress
+        ipAddress,
+        scanLocation
       );
 
       if (result.found && result.product) {
@@ -48,14 +64,22 @@ export class ProductController {
               location: result.product.location,
               stock: result.product.stock,
               status: result.product.status,
+              tracking: result.product.tracking,
               odoo_product_id: result.product.odoo_product_id,
               last_odoo_sync: result.product.last_odoo_sync,
             },
+            // Stock por ubicación: picking primero y después reservas
+            bins: result.bins || [],
             searchInfo: {
               found: result.found,
               source: result.source,
               searchDuration: result.searchDuration,
             },
+            // Datos del código GS1 (lote, caducidad, cantidad, SSCC)
+            gs1: result.gs1 || null,
+            // Embalaje leído: la cantidad por defecto es la del embalaje
+            packaging: result.packaging,
+            defaultQuantity: result.defaultQuantity,
           },
           message: "Producto encontrado",
           timestamp: new Date().toISOString(),
@@ -70,6 +94,7 @@ export class ProductController {
               source: result.source,
               searchDuration: result.searchDuration,
             },
+            gs1: result.gs1 || null,
           },
           error: "Producto no encontrado",
           message: `No se encontró ningún producto con el código de barras: ${barcode}`,
@@ -93,7 +118,7 @@ export class ProductController {
   ) => {
     try {
       const { id } = req.params;
-      const { location, stock } = req.body;
+      const { location, stock, lots, reasonCode } = req.body;
       const userId = req.user!.userId;
       const deviceId = req.deviceId!;
       const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
@@ -107,7 +132,13 @@ export class ProductController {
 
       const result = await ProductService.updateProduct(
         id,
-        { location, stock },
+        {
+          location,
+          stock,
+          lots,
+          reasonCode,
+          role: ReasonCodeService.roleFor(req.user!.permissions),
+        },
         userId,
         deviceId,
         ipAddress
@@ -138,6 +169,90 @@ export class ProductController {
     }
   };
 
+  /**
+   * GET /api/v1/colocacion/products/:id/bins
+   * Obtener stock por ubicación de un producto
+   */
+  public getBins = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { product, bins } = await ProductService.getBins(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          productId: product.id,
+          reference: product.reference,
+          stock: product.stock,
+          bins,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo ubicaciones del producto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/colocacion/products/:id/bins/:location
+   * Fijar la cantidad del producto en una ubicación (picking o reserva)
+   */
+  public updateBin = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id, location } = req.params;
+      const { quantity, pickFace, reasonCode } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await ProductService.updateBin(
+        id,
+        location,
+        {
+          quantity,
+          pickFace,
+          reasonCode,
+          role: ReasonCodeService.roleFor(req.user!.permissions),
+        },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          product: {
+            id: result.product.id,
+            barcode: result.product.barcode,
+            reference: result.product.reference,
+            location: result.product.location,
+            stock: result.product.stock,
+          },
+          bin: result.bin,
+          bins: result.bins,
+          changes: result.changes,
+          labelCreated: result.labelCreated,
+        },
+        message: result.bin
+          ? `Stock en ${result.bin.location}: ${result.bin.quantity}`
+          : `Ubicación ${location} vaciada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error actualizando ubicación del producto:", error);
+      next(error);
+    }
+  };
+
   /**
    * GET /api/v1/colocacion/products/:id/location-history
    * Obtener historial de ubicaciones de un producto
@@ -165,6 +280,63 @@ export class ProductController {
     }
   };
 
+  /**
+   * GET /api/v1/colocacion/products/:id/stock-history?source=&location=&limit=N
+   * Obtener los movimientos de stock de un producto
+   */
+  public getStockHistory = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const filters: StockHistoryFilters = {
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 500),
+      };
+
+      if (req.query.source) {
+        const source = req.query.source as StockMovementSource;
+        if (!STOCK_MOVEMENT_SOURCES.includes(source)) {
+          throw new AppError(
+            `Origen inválido. Valores permitidos: ${STOCK_MOVEMENT_SOURCES.join(
+              ", "
+            )}`,
+            400
+          );
+        }
+        filters.source = source;
+      }
+
+      if (req.query.location) {
+        filters.location = LocationValidator.validateAndClean(
+          req.query.location as string
+        );
+      }
+
+      const { product, movements } = await ProductService.getStockHistory(
+        id,
+        filters
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          productId: product.id,
+          reference: product.reference,
+          stock: Number(product.stock),
+          movements,
+          count: movements.length,
+        },
+        message: "Historial de stock obtenido",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo historial de stock:", error);
+      next(error);
+    }
+  };
+
   /**
    * GET /api/v1/colocacion/products/location/:location
    * Buscar productos por ubicación
@@ -181,12 +353,13 @@ export class ProductController {
 
       res.status(200).json({
         success: true,
-        data: products.map((product) => ({
+        data: products.map(({ product, quantity }) => ({
           id: product.id,
           barcode: product.barcode,
           reference: product.reference,
           description: product.description,
           stock: product.stock,
+          locationStock: quantity,
           status: product.status,
         })),
         message: `Productos encontrados en ubicación ${location}`,
@@ -0,0 +1,102 @@
+// src/controllers/colocacion/putaway.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { PutawayService } from "../../services/putaway.service";
+import { ReasonCodeService } from "../../services/reason-code.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+
+export class PutawayController {
+  /**
+   * GET /api/v1/colocacion/products/:id/putaway-suggestions
+   * Obtener sugerencias de ubicación para un producto recibido
+   */
+  public getSuggestions = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const limit = parseInt(req.query.limit as string) || 5;
+
+      const { product, suggestions } = await PutawayService.getSuggestions(
+        id,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          product: {
+            id: product.id,
+            barcode: product.barcode,
+            reference: product.reference,
+            description: product.description,
+            location: product.location,
+            stock: product.stock,
+            tracking: product.tracking,
+          },
+          suggestions,
+        },
+        message: `${suggestions.length} ubicaciones sugeridas`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo sugerencias de ubicación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/products/:id/putaway
+   * Confirmar la ubicación elegida para el producto
+   */
+  public confirmPutaway = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const { location, stock, lots, reasonCode } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await PutawayService.confirmPutaway(
+        id,
+        location,
+        stock,
+        lots,
+        reasonCode,
+        ReasonCodeService.roleFor(req.user!.permissions),
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          product: {
+            id: result.product.id,
+            barcode: result.product.barcode,
+            reference: result.product.reference,
+            description: result.product.description,
+            location: result.product.location,
+            stock: result.product.stock,
+            status: result.product.status,
+            last_odoo_sync: result.product.last_odoo_sync,
+          },
+          changes: result.changes,
+          labelCreated: result.labelCreated || false,
+        },
+        message: "Colocación confirmada correctamente",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error confirmando colocación:", error);
+      next(error);
+    }
+  };
+}
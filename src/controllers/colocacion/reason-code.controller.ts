@@ -0,0 +1,98 @@
+// src/controllers/colocacion/reason-code.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { ReasonCodeService } from "../../services/reason-code.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+
+export class ReasonCodeController {
+  /**
+   * GET /api/v1/colocacion/reason-codes
+   * Listar códigos de motivo (el operario solo ve los que puede usar)
+   */
+  public getCodes = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const role = ReasonCodeService.roleFor(req.user!.permissions);
+      const codes = await ReasonCodeService.getCodes(role);
+
+      res.status(200).json({
+        success: true,
+        data: { codes, count: codes.length, role },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo códigos de motivo:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/reason-codes
+   * Crear código de motivo
+   */
+  public createCode = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const code = await ReasonCodeService.createCode(
+        req.body,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { code },
+        message: `Código de motivo ${code.code} creado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando código de motivo:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/colocacion/reason-codes/:code
+   * Modificar código de motivo (roles permitidos, activación...)
+   */
+  public updateCode = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const code = await ReasonCodeService.updateCode(
+        req.params.code,
+        req.body,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { code },
+        message: `Código de motivo ${code.code} actualizado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error actualizando código de motivo:", error);
+      next(error);
+    }
+  };
+}
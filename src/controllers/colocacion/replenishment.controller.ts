@@ -0,0 +1,224 @@
+// src/controllers/colocacion/replenishment.controller.ts
+import { Request, Response, NextFunction } from "express";
+import {
+  ReplenishmentService,
+  ReplenishmentTaskStatus,
+} from "../../services/replenishment.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const TASK_STATUSES: ReplenishmentTaskStatus[] = [
+  "pending",
+  "completed",
+  "cancelled",
+];
+
+export class ReplenishmentController {
+  private replenishmentService: ReplenishmentService;
+
+  constructor() {
+    this.replenishmentService = new ReplenishmentService();
+  }
+
+  /**
+   * GET /api/v1/colocacion/replenishment/rules?productId=
+   * Listar reglas de reposición mínimo/máximo
+   */
+  public getRules = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const productId = req.query.productId as string | undefined;
+
+      const rules = await this.replenishmentService.getRules(productId);
+
+      res.status(200).json({
+        success: true,
+        data: { rules, count: rules.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo reglas de reposición:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/colocacion/replenishment/rules
+   * Crear o actualizar regla de reposición de un producto en una ubicación
+   */
+  public saveRule = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { productId, location, minQty, maxQty } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const rule = await this.replenishmentService.saveRule(
+        { productId, location, minQty, maxQty },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { rule },
+        message: `Regla de reposición guardada para ${rule.location}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error guardando regla de reposición:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/colocacion/replenishment/rules/:id
+   * Eliminar regla de reposición
+   */
+  public deleteRule = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      await this.replenishmentService.deleteRule(
+        req.params.id,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Regla de reposición eliminada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error eliminando regla de reposición:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/replenishment/tasks?status=pending&limit=N
+   * Cola de tareas de reposición
+   */
+  public getTasks = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const statuses = ((req.query.status as string) || "pending")
+        .split(",")
+        .map((status) => status.trim()) as ReplenishmentTaskStatus[];
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const invalid = statuses.filter((s) => !TASK_STATUSES.includes(s));
+      if (invalid.length > 0) {
+        throw new AppError(
+          `Estado inválido. Valores permitidos: ${TASK_STATUSES.join(", ")}`,
+          400
+        );
+      }
+
+      const tasks = await this.replenishmentService.getTasks(
+        statuses,
+        Math.min(limit, 200)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { statuses, tasks },
+        message: `${tasks.length} tareas de reposición`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo tareas de reposición:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/replenishment/tasks/:id/confirm
+   * Confirmar reposición escaneando origen, producto y destino
+   * (la tarea se reclama en la cola general de tareas)
+   */
+  public confirmTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { sourceLocation, barcode, destinationLocation, quantity } =
+        req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { task, product } = await this.replenishmentService.confirmTask(
+        req.params.id,
+        { sourceLocation, barcode, destinationLocation, quantity },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task, product },
+        message: `Reposición completada: ${task.confirmed_qty} en ${task.destination_location}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error confirmando tarea de reposición:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/colocacion/replenishment/tasks/:id
+   * Cancelar tarea de reposición abierta
+   */
+  public cancelTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await this.replenishmentService.cancelTask(
+        req.params.id,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: "Tarea de reposición cancelada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cancelando tarea de reposición:", error);
+      next(error);
+    }
+  };
+}
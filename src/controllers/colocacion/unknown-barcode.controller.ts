@@ -0,0 +1,226 @@
+// src/controllers/colocacion/unknown-barcode.controller.ts
+import { Request, Response, NextFunction } from "express";
+import {
+  UnknownBarcodeService,
+  UnknownBarcodeStatus,
+} from "../../services/unknown-barcode.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const QUEUE_STATUSES: UnknownBarcodeStatus[] = [
+  "pending",
+  "linked",
+  "created",
+  "dismissed",
+];
+
+export class UnknownBarcodeController {
+  private unknownBarcodeService: UnknownBarcodeService;
+
+  constructor() {
+    this.unknownBarcodeService = new UnknownBarcodeService();
+  }
+
+  /**
+   * GET /api/v1/colocacion/unknown-barcodes?status=pending&limit=N
+   * Cola de códigos de barras sin producto asociado
+   */
+  public getQueue = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const status = ((req.query.status as string) ||
+        "pending") as UnknownBarcodeStatus;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (!QUEUE_STATUSES.includes(status)) {
+        throw new AppError(
+          `Estado inválido. Valores permitidos: ${QUEUE_STATUSES.join(", ")}`,
+          400
+        );
+      }
+
+      const entries = await this.unknownBarcodeService.getQueue(
+        status,
+        Math.min(limit, 200)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { status, entries },
+        message: `${entries.length} códigos desconocidos`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo cola de códigos desconocidos:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/unknown-barcodes/report?days=N&limit=N
+   * Informe de códigos más buscados sin resultado
+   */
+  public getTopMisses = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const days =
+        req.query.days !== undefined ? parseInt(req.query.days as string) : 30;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      if (isNaN(days) || days < 1 || days > 365) {
+        throw new AppError("El parámetro days debe estar entre 1 y 365", 400);
+      }
+
+      const misses = await this.unknownBarcodeService.getTopMisses(
+        days,
+        Math.min(limit, 100)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { days, misses },
+        message: `${misses.length} códigos sin resultado en los últimos ${days} días`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error generando informe de códigos desconocidos:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/unknown-barcodes/:id/link
+   * Asociar código desconocido a un producto existente
+   */
+  public linkToProduct = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const { productId, type = "unit", unitsPerPackage, notes } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { entry, alias } = await this.unknownBarcodeService.linkToProduct(
+        id,
+        productId,
+        type,
+        unitsPerPackage,
+        notes,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          entry,
+          barcode: {
+            id: alias.id,
+            barcode: alias.barcode,
+            type: alias.type,
+            unitsPerPackage: Number(alias.units_per_package),
+          },
+        },
+        message: `Código ${entry.barcode} asociado al producto`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error asociando código desconocido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/unknown-barcodes/:id/create-product
+   * Crear producto borrador en Odoo para un código desconocido
+   */
+  public createDraftProduct = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const { name, reference } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { entry, product } =
+        await this.unknownBarcodeService.createDraftProduct(
+          id,
+          { name, reference },
+          userId,
+          deviceId,
+          ipAddress
+        );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          entry,
+          product: {
+            id: product.id,
+            barcode: product.barcode,
+            reference: product.reference,
+            description: product.description,
+            odooProductId: product.odoo_product_id,
+          },
+        },
+        message: "Producto borrador creado en Odoo",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando producto para código desconocido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/unknown-barcodes/:id/dismiss
+   * Descartar código desconocido
+   */
+  public dismiss = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const entry = await this.unknownBarcodeService.dismiss(
+        id,
+        reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { entry },
+        message: `Código ${entry.barcode} descartado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error descartando código desconocido:", error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,355 @@
+// src/controllers/colocacion/warehouse-task.controller.ts
+import { Request, Response, NextFunction } from "express";
+import {
+  WarehouseTaskService,
+  WarehouseTaskFilters,
+} from "../../services/warehouse-task.service";
+import {
+  WarehouseTaskType,
+  WarehouseTaskStatus,
+} from "../../models/WarehouseTask";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+const TASK_TYPES: WarehouseTaskType[] = [
+  "move",
+  "count",
+  "replenishment",
+  "putaway",
+  "cycle_count",
+];
+
+const TASK_STATUSES: WarehouseTaskStatus[] = [
+  "pending",
+  "assigned",
+  "claimed",
+  "completed",
+  "cancelled",
+];
+
+export class WarehouseTaskController {
+  /**
+   * GET /api/v1/colocacion/tasks?zone=&type=&limit=N
+   * Tareas disponibles para el operario
+   */
+  public getAvailableTasks = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const filters = this.parseFilters(req);
+
+      const tasks = await WarehouseTaskService.getAvailableTasks(
+        userId,
+        filters
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { tasks, count: tasks.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo tareas disponibles:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/tasks/queue?status=&zone=&type=&limit=N
+   * Cola de tareas para supervisores
+   */
+  public getQueue = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const filters = this.parseFilters(req);
+
+      if (req.query.status) {
+        const statuses = (req.query.status as string)
+          .split(",")
+          .map((status) => status.trim()) as WarehouseTaskStatus[];
+
+        const invalid = statuses.filter((s) => !TASK_STATUSES.includes(s));
+        if (invalid.length > 0) {
+          throw new AppError(
+            `Estado inválido. Valores permitidos: ${TASK_STATUSES.join(", ")}`,
+            400
+          );
+        }
+        filters.statuses = statuses;
+      }
+
+      const tasks = await WarehouseTaskService.getQueue(filters);
+
+      res.status(200).json({
+        success: true,
+        data: { tasks, count: tasks.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo cola de tareas:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/colocacion/tasks/zones
+   * Resumen de tareas abiertas por zona
+   */
+  public getZoneSummary = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const zones = await WarehouseTaskService.getZoneSummary();
+
+      res.status(200).json({
+        success: true,
+        data: { zones },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo resumen de tareas por zona:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/tasks
+   * Crear tarea manual en la cola
+   */
+  public createTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { type, priority, location, zone, description, payload } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.createTask(
+        { type, priority, location, zone, description, payload },
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { task },
+        message: "Tarea creada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/tasks/:id/claim
+   * Reclamar tarea desde la PDA
+   */
+  public claimTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.claimTask(
+        req.params.id,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: `Tarea reclamada hasta ${task.claim_expires_at?.toISOString()}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error reclamando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/tasks/:id/release
+   * Devolver tarea reclamada a la cola
+   */
+  public releaseTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.releaseTask(
+        req.params.id,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: "Tarea liberada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error liberando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/tasks/:id/complete
+   * Completar tarea reclamada
+   */
+  public completeTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.completeTask(
+        req.params.id,
+        userId,
+        deviceId,
+        req.body.result,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: "Tarea completada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error completando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/colocacion/tasks/:id/reassign
+   * Reasignar tarea a otro operario o devolverla a la cola
+   */
+  public reassignTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { operatorId } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.reassignTask(
+        req.params.id,
+        operatorId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: operatorId ? "Tarea reasignada" : "Tarea devuelta a la cola",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error reasignando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/colocacion/tasks/:id
+   * Cancelar tarea abierta
+   */
+  public cancelTask = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const task = await WarehouseTaskService.cancelTask(
+        req.params.id,
+        userId,
+        deviceId,
+        req.body?.reason,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { task },
+        message: "Tarea cancelada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cancelando tarea:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * Filtros comunes de zona, tipo y límite
+   */
+  private parseFilters(req: Request): WarehouseTaskFilters {
+    const filters: WarehouseTaskFilters = {};
+
+    if (req.query.zone) {
+      filters.zone = (req.query.zone as string).trim().toUpperCase();
+    }
+
+    if (req.query.type) {
+      const type = req.query.type as WarehouseTaskType;
+      if (!TASK_TYPES.includes(type)) {
+        throw new AppError(
+          `Tipo inválido. Valores permitidos: ${TASK_TYPES.join(", ")}`,
+          400
+        );
+      }
+      filters.type = type;
+    }
+
+    const limit = parseInt(req.query.limit as string);
+    if (limit > 0) {
+      filters.limit = Math.min(limit, 200);
+    }
+
+    return filters;
+  }
+}
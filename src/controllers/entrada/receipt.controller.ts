@@ -0,0 +1,385 @@
+// src/controllers/entrada/receipt.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { ReceiptService } from "../../services/receipt.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class ReceiptController {
+  private receiptService: ReceiptService;
+
+  constructor() {
+    this.receiptService = new ReceiptService();
+  }
+
+  /**
+   * GET /api/v1/entrada/pickings
+   * Listar recepciones abiertas en Odoo
+   */
+  public getOpenReceipts = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const receipts = await this.receiptService.getOpenReceipts(limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          receipts,
+          count: receipts.length,
+        },
+        message: `${receipts.length} recepciones abiertas encontradas`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo recepciones abiertas:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/start
+   * Abrir recepción y obtener sus líneas
+   */
+  public openReceipt = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { mode } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.receiptService.openReceipt(
+        pickingId,
+        mode,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: ReceiptService.presentSession(session),
+        message: `Recepción ${session.pickingName} abierta`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error abriendo recepción:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/scan
+   * Registrar escaneo de producto en la recepción
+   */
+  public scanBarcode = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { barcode, quantity, lotNumber, expiryDate } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, line } = await this.receiptService.scanBarcode(
+        pickingId,
+        barcode,
+        quantity,
+        lotNumber,
+        expiryDate,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          line: ReceiptService.presentLine(session, line),
+          summary: ReceiptService.presentSession(session).summary,
+        },
+        message:
+          session.mode === "blind"
+            ? `${line.productName}: ${line.receivedQty} contados`
+            : `${line.productName}: ${line.receivedQty}/${line.expectedQty}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando escaneo en recepción:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /api/v1/entrada/pickings/:id/lines/:moveId
+   * Confirmar cantidad recibida de una línea
+   */
+  public confirmLineQuantity = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const moveId = parseInt(req.params.moveId);
+      const { quantity, lots } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      if (isNaN(moveId)) {
+        throw new AppError("ID de línea inválido", 400);
+      }
+
+      const { session, line } = await this.receiptService.confirmLineQuantity(
+        pickingId,
+        moveId,
+        quantity,
+        lots,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          line: ReceiptService.presentLine(session, line),
+          summary: ReceiptService.presentSession(session).summary,
+        },
+        message: "Cantidad recibida confirmada",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error confirmando cantidad recibida:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/validate
+   * Validar la recepción en Odoo
+   */
+  public validateReceipt = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { createBackorder = true } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const summary = await this.receiptService.validateReceipt(
+        pickingId,
+        createBackorder,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { summary },
+        message: `Recepción ${summary.pickingName} validada en Odoo`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error validando recepción:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/submit
+   * Cerrar conteo ciego y generar informe de discrepancias
+   */
+  public submitBlindCount = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const report = await this.receiptService.submitBlindCount(
+        pickingId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      // El operario solo conoce el estado, no el detalle de las diferencias
+      res.status(200).json({
+        success: true,
+        data: {
+          pickingId: report.pickingId,
+          pickingName: report.pickingName,
+          status: report.status,
+        },
+        message:
+          report.status === "accepted"
+            ? "Conteo conforme, recepción validada en Odoo"
+            : "Conteo enviado a revisión del supervisor",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error enviando conteo ciego:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/entrada/discrepancies
+   * Listar informes de discrepancias pendientes de revisión
+   */
+  public getPendingDiscrepancies = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const reports = await this.receiptService.getPendingDiscrepancyReports();
+
+      res.status(200).json({
+        success: true,
+        data: {
+          reports,
+          count: reports.length,
+        },
+        message: `${reports.length} informes pendientes de revisión`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo informes de discrepancias:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/entrada/pickings/:id/discrepancy
+   * Obtener informe de discrepancias de una recepción
+   */
+  public getDiscrepancyReport = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+
+      const report = await this.receiptService.getDiscrepancyReport(pickingId);
+
+      res.status(200).json({
+        success: true,
+        data: { report },
+        message: `Informe de discrepancias de ${report.pickingName}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo informe de discrepancias:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/discrepancy/accept
+   * Aceptar informe de discrepancias y validar en Odoo
+   */
+  public acceptDiscrepancyReport = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { createBackorder = true, notes } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const report = await this.receiptService.acceptDiscrepancyReport(
+        pickingId,
+        createBackorder,
+        notes,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { report },
+        message: `Discrepancias aceptadas, recepción ${report.pickingName} validada en Odoo`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error aceptando informe de discrepancias:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/pickings/:id/discrepancy/reject
+   * Rechazar informe de discrepancias y solicitar reconteo
+   */
+  public rejectDiscrepancyReport = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { reason } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const report = await this.receiptService.rejectDiscrepancyReport(
+        pickingId,
+        reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { report },
+        message: `Discrepancias rechazadas, recepción ${report.pickingName} reabierta para reconteo`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error rechazando informe de discrepancias:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * Convertir el parámetro de ruta en ID de albarán de Odoo
+   */
+  private parsePickingId(id: string): number {
+    const pickingId = parseInt(id);
+    if (isNaN(pickingId)) {
+      throw new AppError("ID de albarán inválido", 400);
+    }
+    return pickingId;
+  }
+}
@@ -0,0 +1,245 @@
+// src/controllers/entrada/return.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { ReturnService } from "../../services/return.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class ReturnController {
+  private returnService: ReturnService;
+
+  constructor() {
+    this.returnService = new ReturnService();
+  }
+
+  /**
+   * GET /api/v1/entrada/returns/deliveries?reference=X
+   * Buscar entregas realizadas por albarán o pedido de venta
+   */
+  public searchDeliveries = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const reference = req.query.reference as string;
+      if (!reference || reference.trim().length < 3) {
+        throw new AppError(
+          "Indique al menos 3 caracteres del albarán o pedido",
+          400
+        );
+      }
+
+      const deliveries = await this.returnService.searchDeliveries(reference);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deliveries,
+          count: deliveries.length,
+        },
+        message: `${deliveries.length} entregas encontradas`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error buscando entregas para devolución:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/returns/:deliveryId/start
+   * Abrir devolución de una entrega
+   */
+  public openReturn = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const deliveryId = this.parseDeliveryId(req.params.deliveryId);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.returnService.openReturn(
+        deliveryId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...session,
+          totals: ReturnService.summarize(session),
+        },
+        message: `Devolución de ${session.deliveryName} abierta`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error abriendo devolución:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/entrada/returns/:deliveryId
+   * Obtener devolución en curso
+   */
+  public getReturn = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const deliveryId = this.parseDeliveryId(req.params.deliveryId);
+
+      const session = await this.returnService.getReturn(deliveryId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...session,
+          totals: ReturnService.summarize(session),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo devolución:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/returns/:deliveryId/scan
+   * Registrar artículo devuelto con su clasificación
+   */
+  public scanItem = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const deliveryId = this.parseDeliveryId(req.params.deliveryId);
+      const { barcode, quantity, grade, location, lotNumber } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, item, line } = await this.returnService.scanItem(
+        deliveryId,
+        barcode,
+        quantity,
+        grade,
+        location,
+        lotNumber,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          item,
+          line,
+          totals: ReturnService.summarize(session),
+        },
+        message: `${line.productName}: ${line.returnedQty}/${line.deliveredQty} devueltos`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando artículo devuelto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/entrada/returns/:deliveryId/items/:itemId
+   * Eliminar artículo registrado por error
+   */
+  public removeItem = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const deliveryId = this.parseDeliveryId(req.params.deliveryId);
+      const { itemId } = req.params;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.returnService.removeItem(
+        deliveryId,
+        itemId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          totals: ReturnService.summarize(session),
+        },
+        message: "Artículo eliminado de la devolución",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error eliminando artículo devuelto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/entrada/returns/:deliveryId/complete
+   * Crear la devolución en Odoo y reponer los artículos en stock
+   */
+  public completeReturn = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const deliveryId = this.parseDeliveryId(req.params.deliveryId);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await this.returnService.completeReturn(
+        deliveryId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const restockFailed = result.failed.length > 0;
+
+      res.status(restockFailed ? 207 : 200).json({
+        success: !restockFailed,
+        data: result,
+        message: restockFailed
+          ? `Devolución de ${result.deliveryName} validada en Odoo, pero no se han podido reponer ${result.failed.length} artículo(s)`
+          : `Devolución de ${result.deliveryName} validada en Odoo`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error completando devolución:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * Convertir el parámetro de ruta en ID de entrega de Odoo
+   */
+  private parseDeliveryId(id: string): number {
+    const deliveryId = parseInt(id);
+    if (isNaN(deliveryId)) {
+      throw new AppError("ID de entrega inválido", 400);
+    }
+    return deliveryId;
+  }
+}
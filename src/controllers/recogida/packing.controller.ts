@@ -0,0 +1,339 @@
+// src/controllers/recogida/packing.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { PackingService } from "../../services/packing.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class PackingController {
+  private packingService: PackingService;
+
+  constructor() {
+    this.packingService = new PackingService();
+  }
+
+  /**
+   * POST /api/v1/recogida/packing/:id/start
+   * Iniciar el empaquetado de un pedido preparado
+   */
+  public startPacking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.packingService.startPacking(
+        pickingId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          packing: session,
+          summary: PackingService.summarize(session),
+        },
+        message: `Empaquetado de ${session.pickingName} iniciado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error iniciando empaquetado:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/recogida/packing/:id
+   * Obtener empaquetado en curso
+   */
+  public getPacking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+
+      const session = await this.packingService.getPacking(pickingId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          packing: session,
+          summary: PackingService.summarize(session),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo empaquetado:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/packing/:id/parcels
+   * Abrir un nuevo bulto
+   */
+  public openParcel = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, parcel } = await this.packingService.openParcel(
+        pickingId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          parcel,
+          summary: PackingService.summarize(session),
+        },
+        message: `Bulto ${parcel.number} abierto`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error abriendo bulto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/packing/:id/parcels/:parcel/scan
+   * Escanear artículo dentro de un bulto
+   */
+  public scanItem = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const parcelNumber = this.parseParcelNumber(req.params.parcel);
+      const { barcode, quantity } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, parcel, line, extra } =
+        await this.packingService.scanItem(
+          pickingId,
+          parcelNumber,
+          barcode,
+          quantity,
+          userId,
+          deviceId,
+          ipAddress
+        );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          parcel,
+          line,
+          extra,
+          summary: PackingService.summarize(session),
+        },
+        message: extra
+          ? `Atención: ${line.productName} supera lo preparado (${line.packedQty}/${line.pickedQty})`
+          : `${line.productName}: ${line.packedQty}/${line.pickedQty}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error escaneando artículo en bulto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/recogida/packing/:id/parcels/:parcel/items/:moveId?quantity=
+   * Retirar unidades de un bulto abierto
+   */
+  public removeItem = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const parcelNumber = this.parseParcelNumber(req.params.parcel);
+      const moveId = parseInt(req.params.moveId);
+      const quantity = req.query.quantity
+        ? parseFloat(req.query.quantity as string)
+        : undefined;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      if (isNaN(moveId)) {
+        throw new AppError("ID de línea inválido", 400);
+      }
+
+      if (quantity !== undefined && (isNaN(quantity) || quantity <= 0)) {
+        throw new AppError("La cantidad debe ser mayor que cero", 400);
+      }
+
+      const { session, parcel } = await this.packingService.removeItem(
+        pickingId,
+        parcelNumber,
+        moveId,
+        quantity,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          parcel,
+          summary: PackingService.summarize(session),
+        },
+        message: `Unidades retiradas del bulto ${parcel.number}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error retirando artículo del bulto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/packing/:id/parcels/:parcel/close
+   * Cerrar bulto con peso y medidas
+   */
+  public closeParcel = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const parcelNumber = this.parseParcelNumber(req.params.parcel);
+      const { weight, dimensions } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, parcel, packingList, printJobId } =
+        await this.packingService.closeParcel(
+          pickingId,
+          parcelNumber,
+          weight,
+          dimensions,
+          userId,
+          deviceId,
+          ipAddress
+        );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          parcel,
+          packingList,
+          printJobId,
+          summary: PackingService.summarize(session),
+        },
+        message: packingList
+          ? `Empaquetado completado en ${packingList.totalParcels} bultos. Lista de contenido enviada a impresión`
+          : `Bulto ${parcel.number} cerrado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cerrando bulto:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/recogida/packing/:id/packing-list
+   * Obtener la lista de contenido del pedido
+   */
+  public getPackingList = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+
+      const packingList = await this.packingService.getPackingList(pickingId);
+
+      res.status(200).json({
+        success: true,
+        data: packingList,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo lista de contenido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/packing/:id/packing-list/print
+   * Reimprimir la lista de contenido
+   */
+  public printPackingList = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+
+      const { packingList, printJobId } =
+        await this.packingService.printPackingList(pickingId, userId, deviceId);
+
+      res.status(200).json({
+        success: true,
+        data: { packingList, printJobId },
+        message: `Lista de contenido de ${packingList.pickingName} enviada a impresión`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error imprimiendo lista de contenido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * Convertir el parámetro de ruta en ID de albarán de Odoo
+   */
+  private parsePickingId(id: string): number {
+    const pickingId = parseInt(id);
+    if (isNaN(pickingId)) {
+      throw new AppError("ID de pedido inválido", 400);
+    }
+    return pickingId;
+  }
+
+  /**
+   * Convertir el parámetro de ruta en número de bulto
+   */
+  private parseParcelNumber(parcel: string): number {
+    const parcelNumber = parseInt(parcel);
+    if (isNaN(parcelNumber) || parcelNumber < 1) {
+      throw new AppError("Número de bulto inválido", 400);
+    }
+    return parcelNumber;
+  }
+}
@@ -0,0 +1,317 @@
+// src/controllers/recogida/picking.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { PickingService } from "../../services/picking.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class PickingController {
+  private pickingService: PickingService;
+
+  constructor() {
+    this.pickingService = new PickingService();
+  }
+
+  /**
+   * GET /api/v1/recogida/pickings
+   * Listar pedidos de salida abiertos en Odoo
+   */
+  public getOpenPickings = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const pickings = await this.pickingService.getOpenPickings(limit);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          pickings,
+          count: pickings.length,
+        },
+        message: `${pickings.length} pedidos abiertos encontrados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo pedidos abiertos:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/pickings/:id/assign
+   * Asignar pedido a un operario / dispositivo
+   */
+  public assignPicking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { operatorId, deviceIdentifier = null } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.pickingService.assignPicking(
+        pickingId,
+        operatorId,
+        deviceIdentifier,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          picking: session,
+          summary: PickingService.summarize(session),
+        },
+        message: `Pedido ${session.pickingName} asignado`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error asignando pedido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/pickings/:id/start
+   * Iniciar la preparación del pedido
+   */
+  public startPicking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const session = await this.pickingService.startPicking(
+        pickingId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          picking: session,
+          summary: PickingService.summarize(session),
+        },
+        message: `Preparación de ${session.pickingName} iniciada`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error iniciando preparación:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/recogida/pickings/:id
+   * Obtener pedido en preparación
+   */
+  public getPicking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+
+      const session = await this.pickingService.getPicking(pickingId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          picking: session,
+          summary: PickingService.summarize(session),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo pedido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/recogida/pickings/:id/route?strategy=serpentine
+   * Ruta de recogida optimizada de las líneas pendientes
+   */
+  public getRoute = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const strategy = req.query.strategy as string | undefined;
+
+      const route = await this.pickingService.getRoute(pickingId, strategy);
+
+      res.status(200).json({
+        success: true,
+        data: route,
+        message: `${route.stops.length} paradas, ${route.totalDistance} m estimados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error calculando ruta de recogida:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/pickings/:id/scan
+   * Registrar recogida (ubicación + producto)
+   */
+  public scanPick = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const { location, barcode, quantity, lotNumber } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { session, line } = await this.pickingService.scanPick(
+        pickingId,
+        location,
+        barcode,
+        quantity,
+        lotNumber,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          line,
+          summary: PickingService.summarize(session),
+        },
+        message: `${line.productName}: ${line.pickedQty}/${line.expectedQty}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando recogida:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/pickings/:id/lines/:moveId/shortage
+   * Declarar falta en una línea (falta, sustituto o pendiente)
+   */
+  public reportShortage = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const moveId = parseInt(req.params.moveId);
+      const { type, substituteBarcode, reason } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      if (isNaN(moveId)) {
+        throw new AppError("ID de línea inválido", 400);
+      }
+
+      const { session, line } = await this.pickingService.reportShortage(
+        pickingId,
+        moveId,
+        type,
+        substituteBarcode,
+        reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          line,
+          substitute:
+            session.lines.find(
+              (l) => l.moveId === line.shortage?.substituteMoveId
+            ) || null,
+          summary: PickingService.summarize(session),
+        },
+        message: `Falta registrada en ${line.productName}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando falta:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/pickings/:id/validate
+   * Validar el pedido en Odoo
+   */
+  public validatePicking = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const pickingId = this.parsePickingId(req.params.id);
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const summary = await this.pickingService.validatePicking(
+        pickingId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const stockFailed = summary.stockErrors.length > 0;
+
+      res.status(stockFailed ? 207 : 200).json({
+        success: !stockFailed,
+        data: { summary },
+        message: stockFailed
+          ? `Pedido ${summary.pickingName} validado en Odoo, pero no se ha podido descontar el stock local de ${summary.stockErrors.length} línea(s)`
+          : `Pedido ${summary.pickingName} validado en Odoo`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error validando pedido:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * Convertir el parámetro de ruta en ID de albarán de Odoo
+   */
+  private parsePickingId(id: string): number {
+    const pickingId = parseInt(id);
+    if (isNaN(pickingId)) {
+      throw new AppError("ID de pedido inválido", 400);
+    }
+    return pickingId;
+  }
+}
@@ -0,0 +1,237 @@
+// src/controllers/recogida/wave.controller.ts
+import { Request, Response, NextFunction } from "express";
+import { WaveService } from "../../services/wave.service";
+import { ApiResponse } from "../../types/common.types";
+import { logger } from "../../utils/logger";
+import { AppError } from "../../middlewares/error.middleware";
+
+export class WaveController {
+  private waveService: WaveService;
+
+  constructor() {
+    this.waveService = new WaveService();
+  }
+
+  /**
+   * POST /api/v1/recogida/waves
+   * Crear oleada agrupando varios pedidos
+   */
+  public createWave = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { pickingIds } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const wave = await this.waveService.createWave(
+        pickingIds,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          wave,
+          summary: WaveService.summarize(wave),
+        },
+        message: `Oleada creada con ${wave.orders.length} pedidos y ${wave.instructions.length} instrucciones`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creando oleada:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/recogida/waves/:waveId
+   * Obtener oleada en preparación
+   */
+  public getWave = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const wave = await this.waveService.getWave(req.params.waveId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          wave,
+          summary: WaveService.summarize(wave),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error obteniendo oleada:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/waves/:waveId/scan
+   * Registrar recogida e indicar las cajas de destino
+   */
+  public scanWave = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const { location, barcode, quantity, lotNumber } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const { wave, instruction, putTo } = await this.waveService.scanWave(
+        req.params.waveId,
+        location,
+        barcode,
+        quantity,
+        lotNumber,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          instruction,
+          putTo,
+          summary: WaveService.summarize(wave),
+        },
+        message: putTo
+          .map((put) => `Caja ${put.slot}: ${put.quantity}`)
+          .join(", "),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando recogida de oleada:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/waves/:waveId/instructions/:instructionId/shortage
+   * Declarar falta en una instrucción de la oleada
+   */
+  public reportShortage = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const instructionId = parseInt(req.params.instructionId);
+      const { type, reason } = req.body;
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      if (isNaN(instructionId)) {
+        throw new AppError("ID de instrucción inválido", 400);
+      }
+
+      const { wave, instruction } = await this.waveService.reportShortage(
+        req.params.waveId,
+        instructionId,
+        type,
+        reason,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          instruction,
+          summary: WaveService.summarize(wave),
+        },
+        message: `Falta registrada en ${instruction.productName}`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error registrando falta en oleada:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/recogida/waves/:waveId/confirm
+   * Confirmar la oleada y validar cada pedido en Odoo
+   */
+  public confirmWave = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      const result = await this.waveService.confirmWave(
+        req.params.waveId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      const validated = result.orders.filter(
+        (order) => order.status === "validated"
+      ).length;
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.completed
+          ? `Oleada confirmada: ${validated} pedidos validados en Odoo`
+          : `Oleada confirmada parcialmente: ${validated} de ${result.orders.length} pedidos validados`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error confirmando oleada:", error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/recogida/waves/:waveId
+   * Cancelar oleada sin recogidas
+   */
+  public cancelWave = async (
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ) => {
+    try {
+      const userId = req.user!.userId;
+      const deviceId = req.deviceId!;
+      const ipAddress = req.ip || req.connection.remoteAddress || "unknown";
+
+      await this.waveService.cancelWave(
+        req.params.waveId,
+        userId,
+        deviceId,
+        ipAddress
+      );
+
+      res.status(200).json({
+        success: true,
+        message: "Oleada cancelada y pedidos liberados",
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error cancelando oleada:", error);
+      next(error);
+    }
+  };
+}
@@ -3,9 +3,16 @@ import { Request, Response, NextFunction } from "express";
 import { redis } from "../config/redis";
 import { AppError } from "./error.middleware";
 import { logger } from "../utils/logger";
+import { LocationValidator } from "../utils/location.validator";
+import { config } from "../config";
 import Product from "../models/Product";
+import { ChangeApprovalChanges } from "../models/ChangeApproval";
+import { ChangeApprovalService } from "../services/change-approval.service";
+import { ProductBinService } from "../services/product-bin.service";
+import { ReasonCodeService } from "../services/reason-code.service";
 
 interface CriticalChangeRule {
+  id: string; // identificador para config.criticalChanges.approvalRules
   field: string;
   condition: (oldValue: any, newValue: any, product: Product) => boolean;
   message: string;
@@ -16,6 +23,7 @@ interface CriticalChangeRule {
 interface CriticalChangeDetection {
   hasCriticalChanges: boolean;
   warnings: Array<{
+    rule: string;
     field: string;
     message: string;
     severity: "warning" | "critical";
@@ -31,6 +39,7 @@ interface CriticalChangeDetection {
  */
 const CRITICAL_CHANGE_RULES: CriticalChangeRule[] = [
   {
+    id: "stock_zero",
     field: "stock",
     condition: (oldValue: number, newValue: number) =>
       newValue === 0 && oldValue > 0,
@@ -40,6 +49,7 @@ const CRITICAL_CHANGE_RULES: CriticalChangeRule[] = [
     requiresConfirmation: true,
   },
   {
+    id: "stock_large_change",
     field: "stock",
     condition: (oldValue: number, newValue: number) => {
       const diff = Math.abs(newValue - oldValue);
@@ -51,6 +61,7 @@ const CRITICAL_CHANGE_RULES: CriticalChangeRule[] = [
     requiresConfirmation: true,
   },
   {
+    id: "stock_negative",
     field: "stock",
     condition: (oldValue: number, newValue: number) => newValue < 0,
     message: "El stock no puede ser negativo.",
@@ -58,6 +69,7 @@ const CRITICAL_CHANGE_RULES: CriticalChangeRule[] = [
     requiresConfirmation: false, // Este se rechaza directamente
   },
   {
+    id: "location_removed",
     field: "location",
     condition: (oldValue: string | null, newValue: string | null) =>
       oldValue !== null && newValue === null,
@@ -67,6 +79,7 @@ const CRITICAL_CHANGE_RULES: CriticalChangeRule[] = [
     requiresConfirmation: true,
   },
   {
+    id: "stock_very_high",
     field: "stock",
     condition: (oldValue: number, newValue: number, product: Product) => {
       // Stock muy alto comparado con el promedio (necesitaríamos calcular esto)
@@ -98,6 +111,12 @@ export const detectCriticalChanges = async (
       throw new AppError("Producto no encontrado", 404);
     }
 
+    // En modo supervisor los cambios de las reglas configuradas no se
+    // confirman con token: quedan en la cola de aprobación
+    if (await routeToSupervisor(req, res, product)) {
+      return;
+    }
+
     const detection = await detectCriticalChangesInData(
       product,
       { location, stock },
@@ -153,23 +172,126 @@ export const detectCriticalChanges = async (
 };
 
 /**
- * Detectar cambios críticos en los datos
+ * Middleware que solo envía a aprobación de un supervisor los cambios
+ * críticos configurados (para rutas sin confirmación por token)
  */
-async function detectCriticalChangesInData(
+const criticalChangeApproval =
+  (putaway: boolean) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (config.criticalChanges.mode !== "supervisor") {
+        return next();
+      }
+
+      const product = await Product.findByPk(req.params.id);
+      if (!product) {
+        throw new AppError("Producto no encontrado", 404);
+      }
+
+      if (await routeToSupervisor(req, res, product, putaway)) {
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const requireCriticalChangeApproval = criticalChangeApproval(false);
+
+// Put-away (POST .../putaway): la aprobación aplica la colocación, no mueve
+// la ubicación de picking
+export const requirePutawayApproval = criticalChangeApproval(true);
+
+/**
+ * Poner el cambio en la cola del supervisor si alguna regla configurada lo
+ * exige. Devuelve true si ya se ha respondido (202) sin aplicar el cambio.
+ */
+async function routeToSupervisor(
+  req: Request,
+  res: Response,
   product: Product,
-  newData: { location?: string | null; stock?: number },
-  userId: string
-): Promise<CriticalChangeDetection> {
-  const warnings: CriticalChangeDetection["warnings"] = [];
-  let requiresConfirmation = false;
+  putaway: boolean = false
+): Promise<boolean> {
+  if (config.criticalChanges.mode !== "supervisor") {
+    return false;
+  }
+
+  const { location, stock, lots, reasonCode, quantity, pickFace } = req.body;
+
+  // En PUT .../bins/:location las reglas se aplican al stock total que
+  // resulta de la nueva cantidad más el resto de ubicaciones
+  let changes: ChangeApprovalChanges = { location, stock, lots, reasonCode };
+  let newData: { location?: string | null; stock?: number } = {
+    location,
+    stock,
+  };
+  if (putaway) {
+    changes = { putaway, location, stock, lots, reasonCode };
+    newData = { stock };
+  } else if (req.params.location !== undefined) {
+    const bin = LocationValidator.validateAndClean(req.params.location);
+    const bins = await ProductBinService.getBins(product);
+    const others = bins
+      .filter((b) => b.location !== bin)
+      .reduce((sum, b) => sum + Number(b.quantity), 0);
+
+    changes = { bin, quantity, pickFace, reasonCode };
+    newData = { stock: Math.round((others + quantity) * 1000) / 1000 };
+  }
+
+  const detection = evaluateRules(product, newData);
+  const hits = detection.filter(({ rule }) =>
+    config.criticalChanges.approvalRules.includes(rule.id)
+  );
+  if (hits.length === 0) {
+    return false;
+  }
+
+  const approval = await ChangeApprovalService.requestApproval(
+    product,
+    changes,
+    hits.map(({ rule }) => ({
+      rule: rule.id,
+      message: rule.message,
+      severity: rule.severity,
+    })),
+    ReasonCodeService.roleFor(req.user!.permissions),
+    req.user!.userId,
+    req.deviceId!,
+    req.ip || req.connection.remoteAddress || "unknown"
+  );
+
+  res.status(202).json({
+    success: true,
+    data: { approval: ChangeApprovalService.summarize(approval) },
+    message:
+      "Cambio crítico enviado a un supervisor: se aplicará cuando lo apruebe",
+    timestamp: new Date().toISOString(),
+  });
+  return true;
+}
+
+/**
+ * Reglas que cumple el cambio, con los valores anterior y nuevo
+ */
+function evaluateRules(
+  product: Product,
+  newData: { location?: string | null; stock?: number }
+): Array<{ rule: CriticalChangeRule; oldValue: any; newValue: any }> {
+  const matches: Array<{
+    rule: CriticalChangeRule;
+    oldValue: any;
+    newValue: any;
+  }> = [];
 
-  // Verificar cada regla
   for (const rule of CRITICAL_CHANGE_RULES) {
     let oldValue: any;
     let newValue: any;
 
     if (rule.field === "stock" && newData.stock !== undefined) {
-      oldValue = product.stock;
+      oldValue = Number(product.stock);
       newValue = newData.stock;
     } else if (rule.field === "location" && newData.location !== undefined) {
       oldValue = product.location;
@@ -179,17 +301,37 @@ async function detectCriticalChangesInData(
     }
 
     if (rule.condition(oldValue, newValue, product)) {
-      warnings.push({
-        field: rule.field,
-        message: rule.message,
-        severity: rule.severity,
-        oldValue,
-        newValue,
-      });
+      matches.push({ rule, oldValue, newValue });
+    }
+  }
 
-      if (rule.requiresConfirmation) {
-        requiresConfirmation = true;
-      }
+  return matches;
+}
+
+/**
+ * Detectar cambios críticos en los datos
+ */
+async function detectCriticalChangesInData(
+  product: Product,
+  newData: { location?: string | null; stock?: number },
+  userId: string
+): Promise<CriticalChangeDetection> {
+  const warnings: CriticalChangeDetection["warnings"] = [];
+  let requiresConfirmation = false;
+
+  // Verificar cada regla
+  for (const { rule, oldValue, newValue } of evaluateRules(product, newData)) {
+    warnings.push({
+      rule: rule.id,
+      field: rule.field,
+      message: rule.message,
+      severity: rule.severity,
+      oldValue,
+      newValue,
+    });
+
+    if (rule.requiresConfirmation) {
+      requiresConfirmation = true;
     }
   }
 
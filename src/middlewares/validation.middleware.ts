@@ -2,6 +2,8 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
 import { AppError } from "./error.middleware";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
 
 /**
  * Middleware genérico para validación con Joi
@@ -56,24 +58,73 @@ export const authValidation = {
   }),
 };
 
+/**
+ * Código de ubicación según el esquema configurado (config.locations)
+ */
+const locationCode = Joi.string()
+  .custom((value, helpers) =>
+    value === LocationValidator.clean(value) &&
+    LocationValidator.validate(value)
+      ? value
+      : helpers.error("string.pattern.base")
+  )
+  .messages({
+    "string.pattern.base": `La ubicación debe tener el formato: ${LocationValidator.describeFormat()}`,
+  });
+
+/**
+ * Lotes / números de serie de productos con trazabilidad
+ */
+const lotsSchema = Joi.array()
+  .items(
+    Joi.object({
+      lotNumber: Joi.string().trim().min(1).max(100).required().messages({
+        "any.required": "El número de lote es requerido",
+        "string.max": "El número de lote no puede tener más de 100 caracteres",
+      }),
+
+      quantity: Joi.number().positive().precision(3).required().messages({
+        "number.positive": "La cantidad del lote debe ser mayor que cero",
+        "number.precision": "La cantidad puede tener máximo 3 decimales",
+        "any.required": "La cantidad del lote es requerida",
+      }),
+
+      expiryDate: Joi.date().iso().allow(null).messages({
+        "date.format": "La fecha de caducidad debe tener formato YYYY-MM-DD",
+      }),
+    })
+  )
+  .min(1)
+  .messages({
+    "array.min": "Debe indicar al menos un lote",
+  });
+
 /**
  * Esquemas de validación para colocación
  */
 export const colocacionValidation = {
   // Validación para actualización de producto
   updateProduct: Joi.object({
-    location: Joi.string()
-      .pattern(/^[A-Z]\d{2}[0-5]$/)
-      .allow(null, "")
-      .messages({
-        "string.pattern.base":
-          "La ubicación debe tener el formato: Letra + 2 dígitos + altura (0-5). Ejemplo: A213",
-      }),
+    location: locationCode.allow(null, ""),
 
     stock: Joi.number().min(0).precision(3).messages({
       "number.min": "El stock no puede ser negativo",
       "number.precision": "El stock puede tener máximo 3 decimales",
     }),
+
+    reasonCode: Joi.string()
+      .trim()
+      .max(50)
+      .when("stock", { is: Joi.exist(), then: Joi.required() })
+      .messages({
+        "string.max": "El código de motivo no puede superar 50 caracteres",
+        "any.required":
+          "El código de motivo es obligatorio al modificar el stock",
+      }),
+
+    lots: lotsSchema,
+
+    confirmationToken: Joi.string().max(100),
   })
     .min(1)
     .messages({
@@ -81,23 +132,866 @@ export const colocacionValidation = {
         "Debe proporcionar al menos un campo para actualizar (location o stock)",
     }),
 
+  // Validación para fijar el stock de una ubicación del producto
+  updateBin: Joi.object({
+    quantity: Joi.number().min(0).precision(3).required().messages({
+      "number.min": "La cantidad no puede ser negativa",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+      "any.required": "La cantidad es requerida",
+    }),
+
+    pickFace: Joi.boolean().default(false),
+
+    reasonCode: Joi.string().trim().max(50).required().messages({
+      "string.max": "El código de motivo no puede superar 50 caracteres",
+      "any.required": "El código de motivo es obligatorio",
+    }),
+  }),
+
+  // Validación para confirmar colocación sugerida
+  confirmPutaway: Joi.object({
+    location: locationCode.required().messages({
+      "any.required": "La ubicación es requerida",
+    }),
+
+    stock: Joi.number().min(0).precision(3).messages({
+      "number.min": "El stock no puede ser negativo",
+      "number.precision": "El stock puede tener máximo 3 decimales",
+    }),
+
+    reasonCode: Joi.string()
+      .trim()
+      .max(50)
+      .when("stock", { is: Joi.exist(), then: Joi.required() })
+      .messages({
+        "string.max": "El código de motivo no puede superar 50 caracteres",
+        "any.required":
+          "El código de motivo es obligatorio al indicar el stock recibido",
+      }),
+
+    lots: lotsSchema,
+  }),
+
+  // Validación para añadir código de barras alternativo
+  addBarcode: Joi.object({
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    type: Joi.string().valid("unit", "inner", "case").required().messages({
+      "any.only": "El tipo debe ser 'unit', 'inner' o 'case'",
+      "any.required": "El tipo de embalaje es requerido",
+    }),
+
+    unitsPerPackage: Joi.number().min(1).precision(3).messages({
+      "number.min": "Las unidades por embalaje deben ser al menos 1",
+      "number.precision": "Las unidades pueden tener máximo 3 decimales",
+    }),
+  }),
+
+  // Validación para asociar un código desconocido a un producto
+  linkUnknownBarcode: Joi.object({
+    productId: Joi.string().uuid().required().messages({
+      "string.guid": "El ID de producto debe ser un UUID válido",
+      "any.required": "El producto es requerido",
+    }),
+
+    type: Joi.string().valid("unit", "inner", "case").default("unit").messages({
+      "any.only": "El tipo debe ser 'unit', 'inner' o 'case'",
+    }),
+
+    unitsPerPackage: Joi.number().min(1).precision(3).messages({
+      "number.min": "Las unidades por embalaje deben ser al menos 1",
+      "number.precision": "Las unidades pueden tener máximo 3 decimales",
+    }),
+
+    notes: Joi.string().max(255).allow("").messages({
+      "string.max": "Las notas no pueden superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para crear producto borrador desde un código desconocido
+  createDraftProduct: Joi.object({
+    name: Joi.string().trim().min(3).max(255).required().messages({
+      "string.min": "El nombre debe tener al menos 3 caracteres",
+      "string.max": "El nombre no puede superar 255 caracteres",
+      "any.required": "El nombre del producto es requerido",
+    }),
+
+    reference: Joi.string().trim().max(100).messages({
+      "string.max": "La referencia no puede superar 100 caracteres",
+    }),
+  }),
+
+  // Validación para descartar un código desconocido
+  dismissUnknownBarcode: Joi.object({
+    reason: Joi.string().trim().min(3).max(255).required().messages({
+      "string.min": "El motivo debe tener al menos 3 caracteres",
+      "string.max": "El motivo no puede superar 255 caracteres",
+      "any.required": "El motivo es requerido",
+    }),
+  }),
+
+  // Validación para regla de reposición mínimo/máximo
+  saveReplenishmentRule: Joi.object({
+    productId: Joi.string().uuid().required().messages({
+      "string.guid": "El ID de producto debe ser un UUID válido",
+      "any.required": "El producto es requerido",
+    }),
+
+    location: locationCode.required().messages({
+      "any.required": "La ubicación es requerida",
+    }),
+
+    minQty: Joi.number().min(0).precision(3).required().messages({
+      "number.min": "El mínimo no puede ser negativo",
+      "any.required": "El mínimo es requerido",
+    }),
+
+    maxQty: Joi.number()
+      .greater(Joi.ref("minQty"))
+      .precision(3)
+      .required()
+      .messages({
+        "number.greater": "El máximo debe ser mayor que el mínimo",
+        "any.required": "El máximo es requerido",
+      }),
+  }),
+
+  // Validación para confirmar una reposición escaneando
+  confirmReplenishment: Joi.object({
+    sourceLocation: Joi.string().trim().max(100).required().messages({
+      "any.required": "La ubicación de origen es requerida",
+    }),
+
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    destinationLocation: locationCode.required().messages({
+      "any.required": "La ubicación de destino es requerida",
+    }),
+
+    quantity: Joi.number().positive().precision(3).messages({
+      "number.positive": "La cantidad debe ser mayor que cero",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+    }),
+  }),
+
+  // Validación para crear tarea en la cola de almacén
+  createWarehouseTask: Joi.object({
+    type: Joi.string().valid("move", "count", "putaway").required().messages({
+      "any.only": "El tipo debe ser move, count o putaway",
+      "any.required": "El tipo de tarea es requerido",
+    }),
+
+    priority: Joi.string()
+      .valid("low", "normal", "high", "urgent")
+      .default("normal")
+      .messages({
+        "any.only": "La prioridad debe ser low, normal, high o urgent",
+      }),
+
+    location: locationCode,
+
+    zone: Joi.string().trim().max(20).messages({
+      "string.max": "La zona no puede exceder 20 caracteres",
+    }),
+
+    description: Joi.string().trim().max(255).required().messages({
+      "string.max": "La descripción no puede exceder 255 caracteres",
+      "any.required": "La descripción es requerida",
+    }),
+
+    payload: Joi.object(),
+  }),
+
+  // Validación para completar tarea de almacén
+  completeWarehouseTask: Joi.object({
+    result: Joi.object(),
+  }),
+
+  // Validación para reasignar tarea (null = devolver a la cola)
+  reassignWarehouseTask: Joi.object({
+    operatorId: Joi.string().uuid().allow(null).required().messages({
+      "string.guid": "El ID de operario debe ser un UUID válido",
+      "any.required": "El operario es requerido (null para devolver a la cola)",
+    }),
+  }),
+
+  // Validación para cancelar tarea de almacén
+  cancelWarehouseTask: Joi.object({
+    reason: Joi.string().trim().max(255).messages({
+      "string.max": "El motivo no puede exceder 255 caracteres",
+    }),
+  }),
+
+  // Validación para plan de inventario cíclico
+  createCycleCountPlan: Joi.object({
+    name: Joi.string().trim().min(3).max(100).required().messages({
+      "string.min": "El nombre debe tener al menos 3 caracteres",
+      "string.max": "El nombre no puede exceder 100 caracteres",
+      "any.required": "El nombre del plan es requerido",
+    }),
+
+    strategy: Joi.string().valid("abc", "aisle").required().messages({
+      "any.only": "La estrategia debe ser abc o aisle",
+      "any.required": "La estrategia es requerida",
+    }),
+
+    abcClass: Joi.string()
+      .valid("A", "B", "C")
+      .when("strategy", { is: "abc", then: Joi.required() })
+      .messages({
+        "any.only": "La clase debe ser A, B o C",
+        "any.required": "La clase ABC es requerida",
+      }),
+
+    aisles: Joi.array()
+      .items(Joi.string().trim().max(5))
+      .min(1)
+      .when("strategy", { is: "aisle", then: Joi.required() })
+      .messages({
+        "array.min": "Debe indicar al menos un pasillo",
+        "any.required": "Los pasillos son requeridos",
+      }),
+
+    locationsPerDay: Joi.number()
+      .integer()
+      .min(1)
+      .max(1000)
+      .required()
+      .messages({
+        "number.min": "Debe contar al menos una ubicación al día",
+        "number.max": "No se pueden generar más de 1000 conteos al día",
+        "any.required": "Las ubicaciones por día son requeridas",
+      }),
+
+    tolerancePercent: Joi.number().min(0).max(100).precision(2).messages({
+      "number.min": "La tolerancia no puede ser negativa",
+      "number.max": "La tolerancia no puede superar el 100%",
+    }),
+
+    toleranceUnits: Joi.number().min(0).precision(3).messages({
+      "number.min": "La tolerancia no puede ser negativa",
+    }),
+
+    isActive: Joi.boolean(),
+  }),
+
+  // Validación para modificar plan de inventario cíclico
+  updateCycleCountPlan: Joi.object({
+    name: Joi.string().trim().min(3).max(100).messages({
+      "string.min": "El nombre debe tener al menos 3 caracteres",
+      "string.max": "El nombre no puede exceder 100 caracteres",
+    }),
+
+    strategy: Joi.string().valid("abc", "aisle").messages({
+      "any.only": "La estrategia debe ser abc o aisle",
+    }),
+
+    abcClass: Joi.string().valid("A", "B", "C").messages({
+      "any.only": "La clase debe ser A, B o C",
+    }),
+
+    aisles: Joi.array().items(Joi.string().trim().max(5)).min(1).messages({
+      "array.min": "Debe indicar al menos un pasillo",
+    }),
+
+    locationsPerDay: Joi.number().integer().min(1).max(1000).messages({
+      "number.min": "Debe contar al menos una ubicación al día",
+      "number.max": "No se pueden generar más de 1000 conteos al día",
+    }),
+
+    tolerancePercent: Joi.number().min(0).max(100).precision(2).messages({
+      "number.min": "La tolerancia no puede ser negativa",
+      "number.max": "La tolerancia no puede superar el 100%",
+    }),
+
+    toleranceUnits: Joi.number().min(0).precision(3).messages({
+      "number.min": "La tolerancia no puede ser negativa",
+    }),
+
+    isActive: Joi.boolean(),
+  })
+    .min(1)
+    .messages({
+      "object.min": "Debe indicar algún campo a modificar",
+    }),
+
+  // Validación para registrar un conteo cíclico
+  submitCycleCount: Joi.object({
+    location: locationCode.required().messages({
+      "any.required": "La ubicación escaneada es requerida",
+    }),
+
+    items: Joi.array()
+      .items(
+        Joi.object({
+          barcode: Joi.string().required().messages({
+            "any.required": "El código de barras es requerido",
+          }),
+
+          quantity: Joi.number().min(0).precision(3).required().messages({
+            "number.min": "La cantidad no puede ser negativa",
+            "number.precision": "La cantidad puede tener máximo 3 decimales",
+            "any.required": "La cantidad contada es requerida",
+          }),
+        })
+      )
+      .required()
+      .messages({
+        "any.required":
+          "Los productos contados son requeridos (vacío si no hay)",
+      }),
+  }),
+
+  // Validación para aprobar conteo en revisión
+  approveCycleCount: Joi.object({
+    note: Joi.string().trim().max(255).messages({
+      "string.max": "La nota no puede superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para rechazar conteo en revisión
+  rejectCycleCount: Joi.object({
+    note: Joi.string().trim().min(3).max(255).required().messages({
+      "string.min": "El motivo debe tener al menos 3 caracteres",
+      "string.max": "El motivo no puede superar 255 caracteres",
+      "any.required": "El motivo del rechazo es requerido",
+    }),
+  }),
+
+  // Validación para aprobar un cambio crítico
+  approveChange: Joi.object({
+    note: Joi.string().trim().max(255).messages({
+      "string.max": "La nota no puede superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para rechazar un cambio crítico
+  rejectChange: Joi.object({
+    note: Joi.string().trim().min(3).max(255).required().messages({
+      "string.min": "El motivo debe tener al menos 3 caracteres",
+      "string.max": "El motivo no puede superar 255 caracteres",
+      "any.required": "El motivo del rechazo es requerido",
+    }),
+  }),
+
+  // Validación para abrir sesión de inventario físico
+  openInventorySession: Joi.object({
+    name: Joi.string().trim().min(3).max(100).required().messages({
+      "string.min": "El nombre debe tener al menos 3 caracteres",
+      "string.max": "El nombre no puede exceder 100 caracteres",
+      "any.required": "El nombre del inventario es requerido",
+    }),
+
+    zones: Joi.array()
+      .items(Joi.string().trim().max(20))
+      .min(1)
+      .unique()
+      .required()
+      .messages({
+        "array.min": "Debe indicar al menos una zona",
+        "array.unique": "Hay zonas repetidas",
+        "any.required": "Las zonas a inventariar son requeridas",
+      }),
+
+    teams: Joi.array().items(
+      Joi.object({
+        name: Joi.string().trim().max(50).required().messages({
+          "any.required": "El nombre del equipo es requerido",
+        }),
+
+        zones: Joi.array()
+          .items(Joi.string().trim().max(20))
+          .min(1)
+          .required()
+          .messages({
+            "array.min": "Cada equipo debe tener al menos una zona",
+            "any.required": "Las zonas del equipo son requeridas",
+          }),
+
+        members: Joi.array()
+          .items(
+            Joi.string().uuid().messages({
+              "string.guid": "El ID de operario debe ser un UUID válido",
+            })
+          )
+          .min(1)
+          .required()
+          .messages({
+            "array.min": "Cada equipo debe tener al menos un operario",
+            "any.required": "Los operarios del equipo son requeridos",
+          }),
+      })
+    ),
+  }),
+
+  // Validación para asignar zonas a equipos de inventario
+  updateInventoryTeams: Joi.object({
+    teams: Joi.array()
+      .items(
+        Joi.object({
+          name: Joi.string().trim().max(50).required().messages({
+            "any.required": "El nombre del equipo es requerido",
+          }),
+
+          zones: Joi.array()
+            .items(Joi.string().trim().max(20))
+            .min(1)
+            .required()
+            .messages({
+              "array.min": "Cada equipo debe tener al menos una zona",
+              "any.required": "Las zonas del equipo son requeridas",
+            }),
+
+          members: Joi.array()
+            .items(
+              Joi.string().uuid().messages({
+                "string.guid": "El ID de operario debe ser un UUID válido",
+              })
+            )
+            .min(1)
+            .required()
+            .messages({
+              "array.min": "Cada equipo debe tener al menos un operario",
+              "any.required": "Los operarios del equipo son requeridos",
+            }),
+        })
+      )
+      .required()
+      .messages({
+        "any.required": "Los equipos son requeridos",
+      }),
+  }),
+
+  // Validación para registrar conteo de inventario físico
+  submitInventoryCount: Joi.object({
+    location: locationCode.required().messages({
+      "any.required": "La ubicación escaneada es requerida",
+    }),
+
+    items: Joi.array()
+      .items(
+        Joi.object({
+          barcode: Joi.string().required().messages({
+            "any.required": "El código de barras es requerido",
+          }),
+
+          quantity: Joi.number().min(0).precision(3).required().messages({
+            "number.min": "La cantidad no puede ser negativa",
+            "number.precision": "La cantidad puede tener máximo 3 decimales",
+            "any.required": "La cantidad contada es requerida",
+          }),
+        })
+      )
+      .required()
+      .messages({
+        "any.required":
+          "Los productos contados son requeridos (vacío si no hay)",
+      }),
+  }),
+
+  // Validación para cancelar sesión de inventario
+  cancelInventorySession: Joi.object({
+    reason: Joi.string().trim().max(255).messages({
+      "string.max": "El motivo no puede superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para alta de código de motivo de ajuste
+  createReasonCode: Joi.object({
+    code: Joi.string()
+      .trim()
+      .uppercase()
+      .pattern(/^[A-Z][A-Z0-9_]*$/)
+      .max(50)
+      .required()
+      .messages({
+        "string.pattern.base":
+          "El código solo admite letras, números y guiones bajos",
+        "string.max": "El código no puede superar 50 caracteres",
+        "any.required": "El código es requerido",
+      }),
+
+    label: Joi.string().trim().min(3).max(100).required().messages({
+      "string.min": "La descripción debe tener al menos 3 caracteres",
+      "string.max": "La descripción no puede exceder 100 caracteres",
+      "any.required": "La descripción es requerida",
+    }),
+
+    direction: Joi.string().valid("increase", "decrease", "any").messages({
+      "any.only": "El sentido debe ser increase, decrease o any",
+    }),
+
+    roles: Joi.array()
+      .items(Joi.string().valid("operator", "supervisor"))
+      .min(1)
+      .required()
+      .messages({
+        "any.only": "Los roles permitidos son operator y supervisor",
+        "array.min": "Debe indicar al menos un rol",
+        "any.required": "Los roles son requeridos",
+      }),
+
+    isActive: Joi.boolean(),
+  }),
+
+  // Validación para modificar un código de motivo
+  updateReasonCode: Joi.object({
+    label: Joi.string().trim().min(3).max(100).messages({
+      "string.min": "La descripción debe tener al menos 3 caracteres",
+      "string.max": "La descripción no puede exceder 100 caracteres",
+    }),
+
+    direction: Joi.string().valid("increase", "decrease", "any").messages({
+      "any.only": "El sentido debe ser increase, decrease o any",
+    }),
+
+    roles: Joi.array()
+      .items(Joi.string().valid("operator", "supervisor"))
+      .min(1)
+      .messages({
+        "any.only": "Los roles permitidos son operator y supervisor",
+        "array.min": "Debe indicar al menos un rol",
+      }),
+
+    isActive: Joi.boolean(),
+  })
+    .min(1)
+    .messages({
+      "object.min": "Debe indicar algún campo a modificar",
+    }),
+
+  // Validación para alta de ubicación en el maestro
+  createLocation: Joi.object({
+    code: locationCode.required().messages({
+      "any.required": "El código de ubicación es requerido",
+    }),
+
+    zone: Joi.string().trim().max(20).messages({
+      "string.max": "La zona no puede exceder 20 caracteres",
+    }),
+
+    type: Joi.string()
+      .valid("pick_face", "reserve", "quarantine", "dock")
+      .messages({
+        "any.only": "El tipo debe ser pick_face, reserve, quarantine o dock",
+      }),
+
+    capacity: Joi.number().min(0).precision(3).allow(null).messages({
+      "number.min": "La capacidad no puede ser negativa",
+    }),
+  }),
+
+  // Validación para generar ubicaciones por rango
+  bulkCreateLocations: Joi.object({
+    range: Joi.string()
+      .pattern(/^[A-Z]+\d+-[A-Z]+\d+$/)
+      .required()
+      .messages({
+        "string.pattern.base":
+          "El rango debe tener el formato pasillo + bloque. Ejemplo: A01-A20",
+        "any.required": "El rango es requerido",
+      }),
+
+    levels: Joi.string()
+      .pattern(/^\d+-\d+$/)
+      .messages({
+        "string.pattern.base":
+          "Los niveles deben tener el formato desde-hasta. Ejemplo: 0-5",
+      }),
+
+    zone: Joi.string().trim().max(20).messages({
+      "string.max": "La zona no puede exceder 20 caracteres",
+    }),
+
+    type: Joi.string()
+      .valid("pick_face", "reserve", "quarantine", "dock")
+      .messages({
+        "any.only": "El tipo debe ser pick_face, reserve, quarantine o dock",
+      }),
+
+    capacity: Joi.number().min(0).precision(3).allow(null).messages({
+      "number.min": "La capacidad no puede ser negativa",
+    }),
+  }),
+
+  // Validación para modificar ubicación del maestro
+  updateLocation: Joi.object({
+    zone: Joi.string().trim().max(20).messages({
+      "string.max": "La zona no puede exceder 20 caracteres",
+    }),
+
+    type: Joi.string()
+      .valid("pick_face", "reserve", "quarantine", "dock")
+      .messages({
+        "any.only": "El tipo debe ser pick_face, reserve, quarantine o dock",
+      }),
+
+    capacity: Joi.number().min(0).precision(3).allow(null).messages({
+      "number.min": "La capacidad no puede ser negativa",
+    }),
+  })
+    .min(1)
+    .messages({
+      "object.min": "Debe indicar zona, tipo o capacidad",
+    }),
+
+  // Validación para mover el contenido de una ubicación
+  moveLocation: Joi.object({
+    to: locationCode.required().messages({
+      "any.required": "La ubicación de destino es requerida",
+    }),
+
+    productIds: Joi.array()
+      .items(
+        Joi.string().uuid().messages({
+          "string.guid": "El ID de producto debe ser un UUID válido",
+        })
+      )
+      .min(1)
+      .unique()
+      .messages({
+        "array.min": "Debe indicar al menos un producto",
+        "array.unique": "Hay productos repetidos",
+      }),
+
+    changeReason: Joi.string().trim().max(255).messages({
+      "string.max": "El motivo no puede superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para bloquear ubicación
+  blockLocation: Joi.object({
+    reason: Joi.string().trim().min(3).max(255).required().messages({
+      "string.min": "El motivo debe tener al menos 3 caracteres",
+      "string.max": "El motivo no puede superar 255 caracteres",
+      "any.required": "El motivo del bloqueo es requerido",
+    }),
+  }),
+
   // Validación para código de barras
   barcode: Joi.string()
-    .pattern(/^[0-9]{13,14}$/)
+    .custom((value, helpers) =>
+      BarcodeValidator.validate(value)
+        ? value
+        : helpers.error("string.pattern.base")
+    )
     .required()
     .messages({
       "string.pattern.base":
-        "El código de barras debe ser EAN13 (13 dígitos) o DUN14 (14 dígitos)",
+        "El código de barras debe ser EAN8, UPC-A, EAN13, DUN14 o una referencia interna Code128",
       "any.required": "El código de barras es requerido",
     }),
 
   // Validación para ubicación
-  location: Joi.string()
-    .pattern(/^[A-Z]\d{2}[0-5]$/)
-    .required()
-    .messages({
-      "string.pattern.base":
-        "La ubicación debe tener el formato: Letra + 2 dígitos + altura (0-5). Ejemplo: A213",
+  location: locationCode.required().messages({
+    "any.required": "La ubicación es requerida",
+  }),
+};
+
+/**
+ * Esquemas de validación para entrada
+ */
+export const entradaValidation = {
+  // Validación para abrir recepción
+  startReceipt: Joi.object({
+    mode: Joi.string().valid("standard", "blind").messages({
+      "any.only": "El modo de recepción debe ser 'standard' o 'blind'",
+    }),
+  }),
+
+  // Validación para escaneo de producto en recepción
+  scanLine: Joi.object({
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    quantity: Joi.number().positive().precision(3).messages({
+      "number.positive": "La cantidad debe ser mayor que cero",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+    }),
+
+    lotNumber: Joi.string().trim().min(1).max(100).messages({
+      "string.max": "El número de lote no puede tener más de 100 caracteres",
+    }),
+
+    expiryDate: Joi.date().iso().messages({
+      "date.format": "La fecha de caducidad debe tener formato YYYY-MM-DD",
+    }),
+  }),
+
+  // Validación para confirmar cantidad de una línea
+  confirmLine: Joi.object({
+    quantity: Joi.number().min(0).precision(3).required().messages({
+      "number.min": "La cantidad no puede ser negativa",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+      "any.required": "La cantidad es requerida",
+    }),
+
+    lots: lotsSchema,
+  }),
+
+  // Validación para validar recepción
+  validateReceipt: Joi.object({
+    createBackorder: Joi.boolean(),
+  }),
+
+  // Validación para aceptar informe de discrepancias
+  acceptDiscrepancy: Joi.object({
+    createBackorder: Joi.boolean(),
+    notes: Joi.string().max(500).allow(""),
+  }),
+
+  // Validación para rechazar informe de discrepancias
+  rejectDiscrepancy: Joi.object({
+    reason: Joi.string().min(3).max(500).required().messages({
+      "string.min": "El motivo debe tener al menos 3 caracteres",
+      "any.required": "El motivo del rechazo es requerido",
+    }),
+  }),
+
+  // Validación para registrar artículo devuelto
+  scanReturnItem: Joi.object({
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    quantity: Joi.number().positive().precision(3).messages({
+      "number.positive": "La cantidad debe ser mayor que cero",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+    }),
+
+    grade: Joi.string()
+      .valid("restock", "quarantine", "scrap")
+      .required()
+      .messages({
+        "any.only":
+          "La clasificación debe ser 'restock', 'quarantine' o 'scrap'",
+        "any.required": "La clasificación del artículo es requerida",
+      }),
+
+    location: locationCode,
+
+    lotNumber: Joi.string().trim().min(1).max(100).messages({
+      "string.max": "El número de lote no puede tener más de 100 caracteres",
+    }),
+  }),
+};
+
+export const recogidaValidation = {
+  // Validación para asignar pedido a un operario
+  assignPicking: Joi.object({
+    operatorId: Joi.string().uuid().required().messages({
+      "string.guid": "El ID del operario debe ser un UUID válido",
+      "any.required": "El operario es requerido",
+    }),
+
+    deviceIdentifier: Joi.string().max(100).allow(null).messages({
+      "string.max": "El identificador de dispositivo es demasiado largo",
+    }),
+  }),
+
+  // Validación para registrar recogida
+  scanPick: Joi.object({
+    location: locationCode.required().messages({
       "any.required": "La ubicación es requerida",
     }),
+
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    quantity: Joi.number().positive().precision(3).messages({
+      "number.positive": "La cantidad debe ser mayor que cero",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+    }),
+
+    lotNumber: Joi.string().trim().min(1).max(100).messages({
+      "string.max": "El número de lote no puede tener más de 100 caracteres",
+    }),
+  }),
+
+  // Validación para declarar falta en una línea
+  reportShortage: Joi.object({
+    type: Joi.string()
+      .valid("short", "substitute", "backorder")
+      .required()
+      .messages({
+        "any.only": "El tipo debe ser 'short', 'substitute' o 'backorder'",
+        "any.required": "El tipo de falta es requerido",
+      }),
+
+    substituteBarcode: Joi.string()
+      .when("type", {
+        is: "substitute",
+        then: Joi.required(),
+        otherwise: Joi.forbidden(),
+      })
+      .messages({
+        "any.required": "El código del producto sustituto es requerido",
+        "any.unknown":
+          "Solo se indica sustituto en faltas de tipo 'substitute'",
+      }),
+
+    reason: Joi.string().max(255).allow("").messages({
+      "string.max": "El motivo no puede superar 255 caracteres",
+    }),
+  }),
+  // Validación para crear oleada de pedidos
+  createWave: Joi.object({
+    pickingIds: Joi.array()
+      .items(Joi.number().integer().positive())
+      .min(2)
+      .unique()
+      .required()
+      .messages({
+        "array.min": "Una oleada debe agrupar al menos 2 pedidos",
+        "array.unique": "No se puede repetir un pedido en la oleada",
+        "any.required": "Los pedidos de la oleada son requeridos",
+      }),
+  }),
+
+  // Validación para declarar falta en una instrucción de oleada
+  waveShortage: Joi.object({
+    type: Joi.string().valid("short", "backorder").required().messages({
+      "any.only": "El tipo debe ser 'short' o 'backorder'",
+      "any.required": "El tipo de falta es requerido",
+    }),
+
+    reason: Joi.string().max(255).allow("").messages({
+      "string.max": "El motivo no puede superar 255 caracteres",
+    }),
+  }),
+
+  // Validación para escanear artículo en un bulto
+  packItem: Joi.object({
+    barcode: Joi.string().required().messages({
+      "any.required": "El código de barras es requerido",
+    }),
+
+    quantity: Joi.number().positive().precision(3).messages({
+      "number.positive": "La cantidad debe ser mayor que cero",
+      "number.precision": "La cantidad puede tener máximo 3 decimales",
+    }),
+  }),
+
+  // Validación para cerrar bulto
+  closeParcel: Joi.object({
+    weight: Joi.number().positive().precision(3).required().messages({
+      "number.positive": "El peso debe ser mayor que cero",
+      "any.required": "El peso del bulto es requerido",
+    }),
+
+    dimensions: Joi.object({
+      length: Joi.number().positive().required(),
+      width: Joi.number().positive().required(),
+      height: Joi.number().positive().required(),
+    }).messages({
+      "number.positive": "Las medidas deben ser mayores que cero",
+      "any.required": "Indique largo, ancho y alto del bulto",
+    }),
+  }),
 };
@@ -0,0 +1,231 @@
+// src/models/ChangeApproval.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+import { ReasonCodeRole } from "./ReasonCode";
+
+type ChangeApprovalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "failed"
+  | "expired";
+
+interface ChangeApprovalChanges {
+  location?: string; // "" = quitar ubicación
+  stock?: number;
+  lots?: Array<{
+    lotNumber: string;
+    quantity: number;
+    expiryDate?: string | null;
+  }>;
+  reasonCode?: string;
+  bin?: string; // cambio de una ubicación concreta (PUT .../bins/:location)
+  quantity?: number;
+  pickFace?: boolean;
+  putaway?: boolean; // colocación tras recepción (POST .../putaway)
+}
+
+interface ChangeApprovalRuleHit {
+  rule: string;
+  message: string;
+  severity: "warning" | "critical";
+}
+
+interface ChangeApprovalAttributes {
+  id: string;
+  product_id: string;
+  status: ChangeApprovalStatus;
+  changes: ChangeApprovalChanges; // cambio solicitado, sin aplicar
+  rules: ChangeApprovalRuleHit[]; // reglas que exigen la aprobación
+  old_location: string | null; // valores al solicitar el cambio
+  old_stock: number;
+  requested_by: string;
+  requested_device: string;
+  requester_role: ReasonCodeRole;
+  reviewed_by: string | null;
+  reviewed_device: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  error: string | null; // error al aplicar el cambio aprobado
+  notified_at: Date | null; // resultado entregado a la PDA del operario
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ChangeApprovalCreationAttributes
+  extends Optional<
+    ChangeApprovalAttributes,
+    | "id"
+    | "status"
+    | "reviewed_by"
+    | "reviewed_device"
+    | "reviewed_at"
+    | "review_note"
+    | "error"
+    | "notified_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class ChangeApproval
+  extends Model<ChangeApprovalAttributes, ChangeApprovalCreationAttributes>
+  implements ChangeApprovalAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public status!: ChangeApprovalStatus;
+  public changes!: ChangeApprovalChanges;
+  public rules!: ChangeApprovalRuleHit[];
+  public old_location!: string | null;
+  public old_stock!: number;
+  public requested_by!: string;
+  public requested_device!: string;
+  public requester_role!: ReasonCodeRole;
+  public reviewed_by!: string | null;
+  public reviewed_device!: string | null;
+  public reviewed_at!: Date | null;
+  public review_note!: string | null;
+  public error!: string | null;
+  public notified_at!: Date | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  public product?: Product;
+
+  // Método para verificar si la solicitud espera al supervisor
+  public isPending(): boolean {
+    return this.status === "pending";
+  }
+}
+
+ChangeApproval.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    status: {
+      type: DataTypes.ENUM(
+        "pending",
+        "approved",
+        "rejected",
+        "failed",
+        "expired"
+      ),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+    changes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    rules: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    old_location: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    old_stock: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+    },
+    requested_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    requested_device: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    requester_role: {
+      type: DataTypes.ENUM("operator", "supervisor"),
+      allowNull: false,
+    },
+    reviewed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    reviewed_device: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    review_note: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    notified_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "change_approvals",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["status", "created_at"],
+      },
+      {
+        fields: ["requested_by", "notified_at"],
+      },
+      {
+        fields: ["product_id", "status"],
+      },
+    ],
+  }
+);
+
+ChangeApproval.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ChangeApproval;
+export {
+  ChangeApprovalAttributes,
+  ChangeApprovalCreationAttributes,
+  ChangeApprovalStatus,
+  ChangeApprovalChanges,
+  ChangeApprovalRuleHit,
+};
@@ -0,0 +1,214 @@
+// src/models/CycleCount.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import { LocationValidator } from "../utils/location.validator";
+import CycleCountPlan from "./CycleCountPlan";
+
+type CycleCountStatus =
+  | "pending"
+  | "recount"
+  | "review"
+  | "posted"
+  | "rejected";
+
+interface CycleCountLine {
+  productId: string;
+  reference: string;
+  expected: number;
+  counted: number;
+  variance: number;
+  withinTolerance: boolean;
+}
+
+interface CycleCountAttributes {
+  id: string;
+  plan_id: string | null; // plan que lo generó
+  warehouse_task_id: string | null;
+  location: string;
+  status: CycleCountStatus;
+  attempt: number; // 1 = primer conteo, 2 = reconteo
+  parent_count_id: string | null; // conteo que originó el reconteo
+  lines: CycleCountLine[] | null;
+  counted_by: string | null;
+  counted_at: Date | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CycleCountCreationAttributes
+  extends Optional<
+    CycleCountAttributes,
+    | "id"
+    | "plan_id"
+    | "warehouse_task_id"
+    | "status"
+    | "attempt"
+    | "parent_count_id"
+    | "lines"
+    | "counted_by"
+    | "counted_at"
+    | "reviewed_by"
+    | "reviewed_at"
+    | "review_note"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class CycleCount
+  extends Model<CycleCountAttributes, CycleCountCreationAttributes>
+  implements CycleCountAttributes
+{
+  public id!: string;
+  public plan_id!: string | null;
+  public warehouse_task_id!: string | null;
+  public location!: string;
+  public status!: CycleCountStatus;
+  public attempt!: number;
+  public parent_count_id!: string | null;
+  public lines!: CycleCountLine[] | null;
+  public counted_by!: string | null;
+  public counted_at!: Date | null;
+  public reviewed_by!: string | null;
+  public reviewed_at!: Date | null;
+  public review_note!: string | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si el conteo espera al operario
+  public isOpen(): boolean {
+    return this.status === "pending";
+  }
+}
+
+CycleCount.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    plan_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "cycle_count_plans",
+        key: "id",
+      },
+    },
+    warehouse_task_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "warehouse_tasks",
+        key: "id",
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    status: {
+      type: DataTypes.ENUM(
+        "pending",
+        "recount",
+        "review",
+        "posted",
+        "rejected"
+      ),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+    attempt: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+    },
+    parent_count_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "cycle_counts",
+        key: "id",
+      },
+    },
+    lines: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    counted_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    counted_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    reviewed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    review_note: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "cycle_counts",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["status", "created_at"],
+      },
+      {
+        fields: ["location", "counted_at"],
+      },
+      {
+        fields: ["plan_id"],
+      },
+    ],
+  }
+);
+
+CycleCount.belongsTo(CycleCountPlan, {
+  foreignKey: "plan_id",
+  as: "plan",
+});
+
+export default CycleCount;
+export {
+  CycleCountAttributes,
+  CycleCountCreationAttributes,
+  CycleCountStatus,
+  CycleCountLine,
+};
@@ -0,0 +1,153 @@
+// src/models/CycleCountPlan.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+type CycleCountStrategy = "abc" | "aisle";
+type AbcClass = "A" | "B" | "C";
+
+interface CycleCountPlanAttributes {
+  id: string;
+  name: string;
+  strategy: CycleCountStrategy;
+  abc_class: AbcClass | null; // solo para strategy = abc
+  aisles: string[] | null; // solo para strategy = aisle
+  locations_per_day: number;
+  tolerance_percent: number; // variación admitida sobre lo esperado
+  tolerance_units: number; // variación mínima admitida en unidades
+  is_active: boolean;
+  last_generated_at: Date | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CycleCountPlanCreationAttributes
+  extends Optional<
+    CycleCountPlanAttributes,
+    | "id"
+    | "abc_class"
+    | "aisles"
+    | "tolerance_percent"
+    | "tolerance_units"
+    | "is_active"
+    | "last_generated_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class CycleCountPlan
+  extends Model<CycleCountPlanAttributes, CycleCountPlanCreationAttributes>
+  implements CycleCountPlanAttributes
+{
+  public id!: string;
+  public name!: string;
+  public strategy!: CycleCountStrategy;
+  public abc_class!: AbcClass | null;
+  public aisles!: string[] | null;
+  public locations_per_day!: number;
+  public tolerance_percent!: number;
+  public tolerance_units!: number;
+  public is_active!: boolean;
+  public last_generated_at!: Date | null;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Variación admitida para una cantidad esperada
+  public toleranceFor(expected: number): number {
+    return Math.max(
+      Number(this.tolerance_units),
+      (Math.abs(expected) * Number(this.tolerance_percent)) / 100
+    );
+  }
+}
+
+CycleCountPlan.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    strategy: {
+      type: DataTypes.ENUM("abc", "aisle"),
+      allowNull: false,
+    },
+    abc_class: {
+      type: DataTypes.ENUM("A", "B", "C"),
+      allowNull: true,
+    },
+    aisles: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    locations_per_day: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    tolerance_percent: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    tolerance_units: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    last_generated_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "cycle_count_plans",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["is_active"],
+      },
+    ],
+  }
+);
+
+export default CycleCountPlan;
+export {
+  CycleCountPlanAttributes,
+  CycleCountPlanCreationAttributes,
+  CycleCountStrategy,
+  AbcClass,
+};
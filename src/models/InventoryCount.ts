@@ -0,0 +1,118 @@
+// src/models/InventoryCount.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import { LocationValidator } from "../utils/location.validator";
+
+interface InventoryCountLine {
+  productId: string;
+  quantity: number;
+}
+
+interface InventoryCountAttributes {
+  id: string;
+  session_id: string;
+  location: string;
+  round: number; // 1 y 2 = doble conteo, 3 = desempate
+  lines: InventoryCountLine[];
+  counted_by: string;
+  device_identifier: string | null;
+  created_at: Date;
+}
+
+interface InventoryCountCreationAttributes
+  extends Optional<
+    InventoryCountAttributes,
+    "id" | "device_identifier" | "created_at"
+  > {}
+
+class InventoryCount
+  extends Model<InventoryCountAttributes, InventoryCountCreationAttributes>
+  implements InventoryCountAttributes
+{
+  public id!: string;
+  public session_id!: string;
+  public location!: string;
+  public round!: number;
+  public lines!: InventoryCountLine[];
+  public counted_by!: string;
+  public device_identifier!: string | null;
+  public created_at!: Date;
+
+  // Cantidad contada de un producto (0 si no se contó)
+  public quantityOf(productId: string): number {
+    const line = this.lines.find((l) => l.productId === productId);
+    return line ? Number(line.quantity) : 0;
+  }
+}
+
+InventoryCount.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    session_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "inventory_sessions",
+        key: "id",
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    round: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+        max: 3,
+      },
+    },
+    lines: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    counted_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    device_identifier: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "inventory_counts",
+    timestamps: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ["session_id", "location", "round"],
+      },
+    ],
+  }
+);
+
+export default InventoryCount;
+export {
+  InventoryCountAttributes,
+  InventoryCountCreationAttributes,
+  InventoryCountLine,
+};
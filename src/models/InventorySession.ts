@@ -0,0 +1,159 @@
+// src/models/InventorySession.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+type InventorySessionStatus = "open" | "closed" | "cancelled";
+
+interface InventoryTeam {
+  name: string;
+  zones: string[];
+  members: string[]; // usuarios del equipo
+}
+
+interface InventorySessionAttributes {
+  id: string;
+  name: string;
+  status: InventorySessionStatus;
+  zones: string[]; // zonas congeladas mientras la sesión está abierta
+  teams: InventoryTeam[];
+  odoo_inventory_id: number | null; // ajuste de inventario de cierre
+  odoo_error: string | null; // último error al enviar el cierre a Odoo
+  opened_by: string;
+  closed_by: string | null;
+  closed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface InventorySessionCreationAttributes
+  extends Optional<
+    InventorySessionAttributes,
+    | "id"
+    | "status"
+    | "teams"
+    | "odoo_inventory_id"
+    | "odoo_error"
+    | "closed_by"
+    | "closed_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class InventorySession
+  extends Model<InventorySessionAttributes, InventorySessionCreationAttributes>
+  implements InventorySessionAttributes
+{
+  public id!: string;
+  public name!: string;
+  public status!: InventorySessionStatus;
+  public zones!: string[];
+  public teams!: InventoryTeam[];
+  public odoo_inventory_id!: number | null;
+  public odoo_error!: string | null;
+  public opened_by!: string;
+  public closed_by!: string | null;
+  public closed_at!: Date | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si la sesión sigue abierta
+  public isOpen(): boolean {
+    return this.status === "open";
+  }
+
+  // Comprobar si el usuario cuenta en la zona (sin equipos, cualquiera)
+  public canCount(userId: string, zone: string): boolean {
+    if (this.teams.length === 0) {
+      return true;
+    }
+    return this.teams.some(
+      (team) => team.members.includes(userId) && team.zones.includes(zone)
+    );
+  }
+}
+
+InventorySession.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM("open", "closed", "cancelled"),
+      allowNull: false,
+      defaultValue: "open",
+    },
+    zones: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    teams: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    odoo_inventory_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    odoo_error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    opened_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    closed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    closed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "inventory_sessions",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["status"],
+      },
+    ],
+  }
+);
+
+export default InventorySession;
+export {
+  InventorySessionAttributes,
+  InventorySessionCreationAttributes,
+  InventorySessionStatus,
+  InventoryTeam,
+};
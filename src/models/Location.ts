@@ -0,0 +1,153 @@
+// src/models/Location.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import { LocationValidator } from "../utils/location.validator";
+
+type LocationType = "pick_face" | "reserve" | "quarantine" | "dock";
+
+interface LocationAttributes {
+  id: string;
+  code: string;
+  zone: string;
+  type: LocationType;
+  capacity: number | null; // unidades; null = sin límite
+  is_blocked: boolean;
+  blocked_reason: string | null;
+  blocked_by: string | null;
+  blocked_at: Date | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface LocationCreationAttributes
+  extends Optional<
+    LocationAttributes,
+    | "id"
+    | "type"
+    | "capacity"
+    | "is_blocked"
+    | "blocked_reason"
+    | "blocked_by"
+    | "blocked_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class Location
+  extends Model<LocationAttributes, LocationCreationAttributes>
+  implements LocationAttributes
+{
+  public id!: string;
+  public code!: string;
+  public zone!: string;
+  public type!: LocationType;
+  public capacity!: number | null;
+  public is_blocked!: boolean;
+  public blocked_reason!: string | null;
+  public blocked_by!: string | null;
+  public blocked_at!: Date | null;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si la ubicación admite movimientos de stock
+  public isUsable(): boolean {
+    return !this.is_blocked;
+  }
+}
+
+Location.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      unique: true,
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    zone: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    type: {
+      type: DataTypes.ENUM("pick_face", "reserve", "quarantine", "dock"),
+      allowNull: false,
+      defaultValue: "pick_face",
+    },
+    capacity: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+    },
+    is_blocked: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    blocked_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    blocked_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    blocked_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "locations",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["code"],
+      },
+      {
+        fields: ["zone", "type"],
+      },
+      {
+        fields: ["is_blocked"],
+      },
+    ],
+  }
+);
+
+export default Location;
+export { LocationAttributes, LocationCreationAttributes, LocationType };
@@ -2,6 +2,10 @@
 import { Model, DataTypes, Optional } from "sequelize";
 import sequelize from "../config/database";
 import ProductLabel from "./ProductLabel";
+import ProductBarcode from "./ProductBarcode";
+import ProductBin from "./ProductBin";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
 
 interface ProductAttributes {
   id: string;
@@ -11,6 +15,7 @@ interface ProductAttributes {
   location: string | null;
   stock: number;
   status: "active" | "inactive";
+  tracking: "none" | "lot" | "serial";
   odoo_product_id: number;
   created_at: Date;
   updated_at: Date;
@@ -20,7 +25,7 @@ interface ProductAttributes {
 interface ProductCreationAttributes
   extends Optional<
     ProductAttributes,
-    "id" | "created_at" | "updated_at" | "last_odoo_sync"
+    "id" | "tracking" | "created_at" | "updated_at" | "last_odoo_sync"
   > {}
 
 class Product
@@ -34,16 +39,24 @@ class Product
   public location!: string | null;
   public stock!: number;
   public status!: "active" | "inactive";
+  public tracking!: "none" | "lot" | "serial";
   public odoo_product_id!: number;
   public created_at!: Date;
   public updated_at!: Date;
   public last_odoo_sync!: Date | null;
 
+  public bins?: ProductBin[];
+
   // Método para verificar si el producto está activo
   public isActive(): boolean {
     return this.status === "active";
   }
 
+  // Método para verificar si el producto se gestiona por lote o número de serie
+  public requiresLotTracking(): boolean {
+    return this.tracking === "lot" || this.tracking === "serial";
+  }
+
   // Método para actualizar ubicación y stock
   public async updateLocationAndStock(
     location: string | null,
@@ -91,7 +104,14 @@ Product.init(
       unique: true,
       validate: {
         notEmpty: true,
-        len: [8, 50], // EAN13 mínimo 13, DUN14 14, pero permitimos flexibilidad
+        len: [BarcodeValidator.MIN_LENGTH, BarcodeValidator.CODE128_MAX_LENGTH],
+        isKnownSymbology(value: string) {
+          // EAN8, EAN13, DUN14 o Code128 interno (UPC-A se guarda como EAN13)
+          const type = BarcodeValidator.detectType(value);
+          if (type === "INVALID" || type === "UPCA") {
+            throw new Error("Código de barras con formato no admitido");
+          }
+        },
       },
     },
     reference: {
@@ -112,7 +132,7 @@ Product.init(
       type: DataTypes.STRING(10),
       allowNull: true,
       validate: {
-        is: /^[A-Z]\d{2}[0-5]$/, // Formato: A213 (letra + 2 dígitos + 0-5)
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
       },
     },
     stock: {
@@ -128,6 +148,11 @@ Product.init(
       allowNull: false,
       defaultValue: "active",
     },
+    tracking: {
+      type: DataTypes.ENUM("none", "lot", "serial"), // Campo tracking de Odoo
+      allowNull: false,
+      defaultValue: "none",
+    },
     odoo_product_id: {
       type: DataTypes.INTEGER,
       allowNull: false,
@@ -178,5 +203,15 @@ Product.hasMany(ProductLabel, {
   as: "labels",
 });
 
+Product.hasMany(ProductBarcode, {
+  foreignKey: "product_id",
+  as: "barcodes",
+});
+
+Product.hasMany(ProductBin, {
+  foreignKey: "product_id",
+  as: "bins",
+});
+
 export default Product;
 export { ProductAttributes, ProductCreationAttributes };
@@ -0,0 +1,120 @@
+// src/models/ProductBarcode.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+import { BarcodeValidator } from "../utils/barcode.validator";
+
+interface ProductBarcodeAttributes {
+  id: string;
+  product_id: string;
+  barcode: string;
+  type: "unit" | "inner" | "case";
+  units_per_package: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ProductBarcodeCreationAttributes
+  extends Optional<
+    ProductBarcodeAttributes,
+    "id" | "units_per_package" | "created_at" | "updated_at"
+  > {}
+
+class ProductBarcode
+  extends Model<ProductBarcodeAttributes, ProductBarcodeCreationAttributes>
+  implements ProductBarcodeAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public barcode!: string;
+  public type!: "unit" | "inner" | "case";
+  public units_per_package!: number;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  public product?: Product;
+}
+
+ProductBarcode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    barcode: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      validate: {
+        notEmpty: true,
+        len: [BarcodeValidator.MIN_LENGTH, BarcodeValidator.CODE128_MAX_LENGTH],
+      },
+    },
+    type: {
+      type: DataTypes.ENUM("unit", "inner", "case"), // unidad, inner, caja (DUN14)
+      allowNull: false,
+      defaultValue: "unit",
+    },
+    units_per_package: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "product_barcodes",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["barcode"],
+      },
+      {
+        fields: ["product_id"],
+      },
+    ],
+  }
+);
+
+ProductBarcode.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ProductBarcode;
+export { ProductBarcodeAttributes, ProductBarcodeCreationAttributes };
@@ -0,0 +1,108 @@
+// src/models/ProductBin.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+import { LocationValidator } from "../utils/location.validator";
+
+interface ProductBinAttributes {
+  id: string;
+  product_id: string;
+  location: string;
+  quantity: number;
+  is_pick_face: boolean; // ubicación de picking (el resto son reservas)
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ProductBinCreationAttributes
+  extends Optional<
+    ProductBinAttributes,
+    "id" | "quantity" | "is_pick_face" | "created_at" | "updated_at"
+  > {}
+
+class ProductBin
+  extends Model<ProductBinAttributes, ProductBinCreationAttributes>
+  implements ProductBinAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public location!: string;
+  public quantity!: number;
+  public is_pick_face!: boolean;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  public product?: Product;
+}
+
+ProductBin.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    quantity: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    is_pick_face: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "product_bins",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["product_id", "location"], // Un registro por producto y ubicación
+      },
+      {
+        fields: ["location"],
+      },
+    ],
+  }
+);
+
+ProductBin.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ProductBin;
+export { ProductBinAttributes, ProductBinCreationAttributes };
@@ -2,6 +2,7 @@
 import { Model, DataTypes, Optional } from "sequelize";
 import sequelize from "../config/database";
 import Product from "./Product";
+import { LocationValidator } from "../utils/location.validator";
 
 interface ProductLabelAttributes {
   id: string;
@@ -90,7 +91,7 @@ ProductLabel.init(
       type: DataTypes.STRING(10),
       allowNull: false,
       validate: {
-        is: /^[A-Z]\d{2}[0-5]$/, // Formato: A213
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
       },
     },
     created_by: {
@@ -134,7 +135,7 @@ ProductLabel.init(
     indexes: [
       {
         unique: true,
-        fields: ["product_id", "created_by"], // Una etiqueta por producto por usuario
+        fields: ["product_id", "location", "created_by"], // Una etiqueta por ubicación del producto y usuario
       },
       {
         fields: ["created_by"],
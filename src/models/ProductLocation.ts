@@ -1,6 +1,7 @@
 // src/models/ProductLocation.ts
 import { Model, DataTypes, Optional } from "sequelize";
 import sequelize from "../config/database";
+import { LocationValidator } from "../utils/location.validator";
 
 interface ProductLocationAttributes {
   id: string;
@@ -9,11 +10,15 @@ interface ProductLocationAttributes {
   new_location: string | null;
   changed_by: string;
   change_reason: string | null;
+  batch_id: string | null; // agrupa los cambios de un movimiento masivo
   created_at: Date;
 }
 
 interface ProductLocationCreationAttributes
-  extends Optional<ProductLocationAttributes, "id" | "created_at"> {}
+  extends Optional<
+    ProductLocationAttributes,
+    "id" | "batch_id" | "created_at"
+  > {}
 
 class ProductLocation
   extends Model<ProductLocationAttributes, ProductLocationCreationAttributes>
@@ -25,6 +30,7 @@ class ProductLocation
   public new_location!: string | null;
   public changed_by!: string;
   public change_reason!: string | null;
+  public batch_id!: string | null;
   public created_at!: Date;
 }
 
@@ -51,7 +57,7 @@ ProductLocation.init(
       type: DataTypes.STRING(10),
       allowNull: true,
       validate: {
-        is: /^[A-Z]\d{2}[0-5]$/, // Formato: A213
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
       },
     },
     changed_by: {
@@ -66,6 +72,10 @@ ProductLocation.init(
       type: DataTypes.STRING(255),
       allowNull: true,
     },
+    batch_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -86,6 +96,9 @@ ProductLocation.init(
       {
         fields: ["created_at"],
       },
+      {
+        fields: ["batch_id"],
+      },
     ],
   }
 );
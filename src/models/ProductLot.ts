@@ -0,0 +1,151 @@
+// src/models/ProductLot.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+import { LocationValidator } from "../utils/location.validator";
+
+interface ProductLotAttributes {
+  id: string;
+  product_id: string;
+  lot_number: string;
+  location: string | null;
+  quantity: number;
+  expiry_date: string | null;
+  odoo_lot_id: number | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ProductLotCreationAttributes
+  extends Optional<
+    ProductLotAttributes,
+    | "id"
+    | "location"
+    | "expiry_date"
+    | "odoo_lot_id"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class ProductLot
+  extends Model<ProductLotAttributes, ProductLotCreationAttributes>
+  implements ProductLotAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public lot_number!: string;
+  public location!: string | null;
+  public quantity!: number;
+  public expiry_date!: string | null;
+  public odoo_lot_id!: number | null;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  public product?: Product;
+
+  // Método para verificar si el lote está caducado
+  public isExpired(referenceDate: Date = new Date()): boolean {
+    if (!this.expiry_date) {
+      return false;
+    }
+    return this.expiry_date < referenceDate.toISOString().substring(0, 10);
+  }
+}
+
+ProductLot.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    lot_number: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: true, // null = recibido y pendiente de colocar
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    quantity: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    expiry_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: true, // null = producto sin caducidad
+    },
+    odoo_lot_id: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "product_lots",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["product_id", "lot_number", "location"], // Un registro por lote y ubicación
+      },
+      {
+        fields: ["lot_number"],
+      },
+      {
+        fields: ["location"],
+      },
+      {
+        fields: ["expiry_date"],
+      },
+    ],
+  }
+);
+
+ProductLot.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ProductLot;
+export { ProductLotAttributes, ProductLotCreationAttributes };
@@ -0,0 +1,133 @@
+// src/models/ReasonCode.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+type ReasonCodeRole = "operator" | "supervisor";
+type ReasonCodeDirection = "increase" | "decrease" | "any";
+
+interface ReasonCodeAttributes {
+  id: string;
+  code: string;
+  label: string;
+  direction: ReasonCodeDirection; // sentido de ajuste admitido
+  roles: ReasonCodeRole[]; // roles que pueden usarlo
+  is_active: boolean;
+  created_by: string | null; // null = catálogo inicial
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ReasonCodeCreationAttributes
+  extends Optional<
+    ReasonCodeAttributes,
+    | "id"
+    | "direction"
+    | "is_active"
+    | "created_by"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class ReasonCode
+  extends Model<ReasonCodeAttributes, ReasonCodeCreationAttributes>
+  implements ReasonCodeAttributes
+{
+  public id!: string;
+  public code!: string;
+  public label!: string;
+  public direction!: ReasonCodeDirection;
+  public roles!: ReasonCodeRole[];
+  public is_active!: boolean;
+  public created_by!: string | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si un rol puede usar el código
+  public allows(role: ReasonCodeRole): boolean {
+    return this.is_active && this.roles.includes(role);
+  }
+
+  // Método para verificar si el código admite una variación de stock
+  public matches(delta: number): boolean {
+    return (
+      this.direction === "any" ||
+      (this.direction === "increase" && delta > 0) ||
+      (this.direction === "decrease" && delta < 0)
+    );
+  }
+}
+
+ReasonCode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    code: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      validate: {
+        is: /^[A-Z][A-Z0-9_]*$/,
+      },
+    },
+    label: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    direction: {
+      type: DataTypes.ENUM("increase", "decrease", "any"),
+      allowNull: false,
+      defaultValue: "any",
+    },
+    roles: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "reason_codes",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["code"],
+      },
+    ],
+  }
+);
+
+export default ReasonCode;
+export {
+  ReasonCodeAttributes,
+  ReasonCodeCreationAttributes,
+  ReasonCodeRole,
+  ReasonCodeDirection,
+};
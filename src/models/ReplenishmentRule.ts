@@ -0,0 +1,122 @@
+// src/models/ReplenishmentRule.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+import { LocationValidator } from "../utils/location.validator";
+
+interface ReplenishmentRuleAttributes {
+  id: string;
+  product_id: string;
+  location: string; // ubicación de picking que se repone
+  min_qty: number;
+  max_qty: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ReplenishmentRuleCreationAttributes
+  extends Optional<
+    ReplenishmentRuleAttributes,
+    "id" | "created_at" | "updated_at"
+  > {}
+
+class ReplenishmentRule
+  extends Model<
+    ReplenishmentRuleAttributes,
+    ReplenishmentRuleCreationAttributes
+  >
+  implements ReplenishmentRuleAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public location!: string;
+  public min_qty!: number;
+  public max_qty!: number;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si un nivel de stock requiere reposición
+  public needsReplenishment(stock: number): boolean {
+    return Number(stock) < Number(this.min_qty);
+  }
+}
+
+ReplenishmentRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+      validate: {
+        isLocation: LocationValidator.modelValidator, // Formato de config.locations
+      },
+    },
+    min_qty: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    max_qty: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "replenishment_rules",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["product_id", "location"],
+      },
+    ],
+  }
+);
+
+ReplenishmentRule.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ReplenishmentRule;
+export { ReplenishmentRuleAttributes, ReplenishmentRuleCreationAttributes };
@@ -0,0 +1,178 @@
+// src/models/ReplenishmentTask.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+import Product from "./Product";
+
+interface ReplenishmentTaskAttributes {
+  id: string;
+  product_id: string;
+  rule_id: string;
+  source_location: string | null; // ubicación de reserva (null = sin stock de reserva)
+  destination_location: string;
+  quantity: number;
+  confirmed_qty: number | null;
+  status: "pending" | "completed" | "cancelled";
+  trigger_reason: string | null;
+  warehouse_task_id: string | null; // tarea de la cola que la reparte
+  created_by: string;
+  completed_by: string | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ReplenishmentTaskCreationAttributes
+  extends Optional<
+    ReplenishmentTaskAttributes,
+    | "id"
+    | "source_location"
+    | "confirmed_qty"
+    | "status"
+    | "trigger_reason"
+    | "warehouse_task_id"
+    | "completed_by"
+    | "completed_at"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class ReplenishmentTask
+  extends Model<
+    ReplenishmentTaskAttributes,
+    ReplenishmentTaskCreationAttributes
+  >
+  implements ReplenishmentTaskAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public rule_id!: string;
+  public source_location!: string | null;
+  public destination_location!: string;
+  public quantity!: number;
+  public confirmed_qty!: number | null;
+  public status!: "pending" | "completed" | "cancelled";
+  public trigger_reason!: string | null;
+  public warehouse_task_id!: string | null;
+  public created_by!: string;
+  public completed_by!: string | null;
+  public completed_at!: Date | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si la tarea sigue abierta
+  public isOpen(): boolean {
+    return this.status === "pending";
+  }
+}
+
+ReplenishmentTask.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    rule_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "replenishment_rules",
+        key: "id",
+      },
+    },
+    source_location: {
+      type: DataTypes.STRING(100), // código de ubicación o nombre en Odoo
+      allowNull: true,
+    },
+    destination_location: {
+      type: DataTypes.STRING(10),
+      allowNull: false,
+    },
+    quantity: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+    },
+    confirmed_qty: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM("pending", "completed", "cancelled"),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+    trigger_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    warehouse_task_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "warehouse_tasks",
+        key: "id",
+      },
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    completed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "replenishment_tasks",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["status", "created_at"],
+      },
+      {
+        fields: ["product_id", "destination_location"],
+      },
+    ],
+  }
+);
+
+ReplenishmentTask.belongsTo(Product, {
+  foreignKey: "product_id",
+  as: "product",
+});
+
+export default ReplenishmentTask;
+export { ReplenishmentTaskAttributes, ReplenishmentTaskCreationAttributes };
@@ -0,0 +1,150 @@
+// src/models/StockMovement.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+type StockMovementSource =
+  | "manual"
+  | "receipt"
+  | "pick"
+  | "sync"
+  | "transfer"
+  | "count";
+
+interface StockMovementAttributes {
+  id: string;
+  product_id: string;
+  location: string | null; // null = stock pendiente de ubicar
+  quantity: number; // variación (positiva o negativa)
+  balance: number; // stock total del producto tras el movimiento
+  source: StockMovementSource;
+  reason_code: string | null;
+  reason: string | null;
+  reference: string | null; // documento de origen (recogida, tarea, lote...)
+  user_id: string | null; // null = sistema (sincronización)
+  device_identifier: string | null;
+  created_at: Date;
+}
+
+interface StockMovementCreationAttributes
+  extends Optional<
+    StockMovementAttributes,
+    | "id"
+    | "location"
+    | "reason_code"
+    | "reason"
+    | "reference"
+    | "user_id"
+    | "device_identifier"
+    | "created_at"
+  > {}
+
+class StockMovement
+  extends Model<StockMovementAttributes, StockMovementCreationAttributes>
+  implements StockMovementAttributes
+{
+  public id!: string;
+  public product_id!: string;
+  public location!: string | null;
+  public quantity!: number;
+  public balance!: number;
+  public source!: StockMovementSource;
+  public reason_code!: string | null;
+  public reason!: string | null;
+  public reference!: string | null;
+  public user_id!: string | null;
+  public device_identifier!: string | null;
+  public created_at!: Date;
+}
+
+StockMovement.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    product_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    quantity: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+    },
+    balance: {
+      type: DataTypes.DECIMAL(10, 3),
+      allowNull: false,
+    },
+    source: {
+      type: DataTypes.ENUM(
+        "manual",
+        "receipt",
+        "pick",
+        "sync",
+        "transfer",
+        "count"
+      ),
+      allowNull: false,
+    },
+    reason_code: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    device_identifier: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "stock_movements",
+    timestamps: false,
+    indexes: [
+      {
+        fields: ["product_id", "created_at"],
+      },
+      {
+        fields: ["source"],
+      },
+      {
+        fields: ["created_at"],
+      },
+    ],
+  }
+);
+
+export default StockMovement;
+export {
+  StockMovementAttributes,
+  StockMovementCreationAttributes,
+  StockMovementSource,
+};
@@ -0,0 +1,179 @@
+// src/models/UnknownBarcode.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+interface UnknownBarcodeAttributes {
+  id: string;
+  barcode: string;
+  status: "pending" | "linked" | "created" | "dismissed";
+  scan_count: number;
+  first_scanned_at: Date;
+  last_scanned_at: Date;
+  last_scanned_by: string;
+  last_device_identifier: string;
+  last_module: "colocacion" | "entrada" | "recogida";
+  last_location: string | null;
+  last_context: string | null;
+  resolved_product_id: string | null;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  resolution_notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface UnknownBarcodeCreationAttributes
+  extends Optional<
+    UnknownBarcodeAttributes,
+    | "id"
+    | "status"
+    | "scan_count"
+    | "last_location"
+    | "last_context"
+    | "resolved_product_id"
+    | "resolved_by"
+    | "resolved_at"
+    | "resolution_notes"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class UnknownBarcode
+  extends Model<UnknownBarcodeAttributes, UnknownBarcodeCreationAttributes>
+  implements UnknownBarcodeAttributes
+{
+  public id!: string;
+  public barcode!: string;
+  public status!: "pending" | "linked" | "created" | "dismissed";
+  public scan_count!: number;
+  public first_scanned_at!: Date;
+  public last_scanned_at!: Date;
+  public last_scanned_by!: string;
+  public last_device_identifier!: string;
+  public last_module!: "colocacion" | "entrada" | "recogida";
+  public last_location!: string | null;
+  public last_context!: string | null;
+  public resolved_product_id!: string | null;
+  public resolved_by!: string | null;
+  public resolved_at!: Date | null;
+  public resolution_notes!: string | null;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si el código sigue pendiente de resolver
+  public isPending(): boolean {
+    return this.status === "pending";
+  }
+}
+
+UnknownBarcode.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    barcode: {
+      type: DataTypes.STRING(100), // admite códigos mal leídos o no estándar
+      allowNull: false,
+      unique: true,
+    },
+    status: {
+      type: DataTypes.ENUM("pending", "linked", "created", "dismissed"),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+    scan_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+    },
+    first_scanned_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    last_scanned_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    last_scanned_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    last_device_identifier: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    last_module: {
+      type: DataTypes.ENUM("colocacion", "entrada", "recogida"),
+      allowNull: false,
+    },
+    last_location: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    last_context: {
+      type: DataTypes.STRING(255), // p. ej. albarán de entrada
+      allowNull: true,
+    },
+    resolved_product_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "products",
+        key: "id",
+      },
+    },
+    resolved_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    resolved_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    resolution_notes: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "unknown_barcodes",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        unique: true,
+        fields: ["barcode"],
+      },
+      {
+        fields: ["status", "scan_count"],
+      },
+    ],
+  }
+);
+
+export default UnknownBarcode;
+export { UnknownBarcodeAttributes, UnknownBarcodeCreationAttributes };
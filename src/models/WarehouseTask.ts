@@ -0,0 +1,246 @@
+// src/models/WarehouseTask.ts
+import { Model, DataTypes, Optional } from "sequelize";
+import sequelize from "../config/database";
+
+type WarehouseTaskType =
+  | "move"
+  | "count"
+  | "replenishment"
+  | "putaway"
+  | "cycle_count";
+type WarehouseTaskPriority = "low" | "normal" | "high" | "urgent";
+type WarehouseTaskStatus =
+  | "pending"
+  | "assigned"
+  | "claimed"
+  | "completed"
+  | "cancelled";
+
+interface WarehouseTaskAttributes {
+  id: string;
+  type: WarehouseTaskType;
+  priority: WarehouseTaskPriority;
+  status: WarehouseTaskStatus;
+  zone: string | null;
+  location: string | null;
+  reference_id: string | null; // registro del módulo que origina la tarea
+  description: string;
+  payload: Record<string, any> | null;
+  assigned_to: string | null;
+  assigned_by: string | null; // supervisor que la asignó
+  assigned_device: string | null;
+  claimed_at: Date | null;
+  claim_expires_at: Date | null;
+  completed_by: string | null;
+  completed_at: Date | null;
+  result: Record<string, any> | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WarehouseTaskCreationAttributes
+  extends Optional<
+    WarehouseTaskAttributes,
+    | "id"
+    | "priority"
+    | "status"
+    | "zone"
+    | "location"
+    | "reference_id"
+    | "payload"
+    | "assigned_to"
+    | "assigned_by"
+    | "assigned_device"
+    | "claimed_at"
+    | "claim_expires_at"
+    | "completed_by"
+    | "completed_at"
+    | "result"
+    | "created_at"
+    | "updated_at"
+  > {}
+
+class WarehouseTask
+  extends Model<WarehouseTaskAttributes, WarehouseTaskCreationAttributes>
+  implements WarehouseTaskAttributes
+{
+  public id!: string;
+  public type!: WarehouseTaskType;
+  public priority!: WarehouseTaskPriority;
+  public status!: WarehouseTaskStatus;
+  public zone!: string | null;
+  public location!: string | null;
+  public reference_id!: string | null;
+  public description!: string;
+  public payload!: Record<string, any> | null;
+  public assigned_to!: string | null;
+  public assigned_by!: string | null;
+  public assigned_device!: string | null;
+  public claimed_at!: Date | null;
+  public claim_expires_at!: Date | null;
+  public completed_by!: string | null;
+  public completed_at!: Date | null;
+  public result!: Record<string, any> | null;
+  public created_by!: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Método para verificar si la tarea sigue abierta
+  public isOpen(): boolean {
+    return (
+      this.status === "pending" ||
+      this.status === "assigned" ||
+      this.status === "claimed"
+    );
+  }
+}
+
+WarehouseTask.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    type: {
+      type: DataTypes.ENUM(
+        "move",
+        "count",
+        "replenishment",
+        "putaway",
+        "cycle_count"
+      ),
+      allowNull: false,
+    },
+    priority: {
+      // El orden del ENUM es el orden de prioridad al ordenar
+      type: DataTypes.ENUM("low", "normal", "high", "urgent"),
+      allowNull: false,
+      defaultValue: "normal",
+    },
+    status: {
+      type: DataTypes.ENUM(
+        "pending",
+        "assigned",
+        "claimed",
+        "completed",
+        "cancelled"
+      ),
+      allowNull: false,
+      defaultValue: "pending",
+    },
+    zone: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    location: {
+      type: DataTypes.STRING(10),
+      allowNull: true,
+    },
+    reference_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    assigned_to: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    assigned_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    assigned_device: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    claimed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    claim_expires_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    result: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: "users_app",
+        key: "id",
+      },
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: "warehouse_tasks",
+    timestamps: true,
+    createdAt: "created_at",
+    updatedAt: "updated_at",
+    indexes: [
+      {
+        fields: ["status", "zone"],
+      },
+      {
+        fields: ["assigned_to", "status"],
+      },
+      {
+        fields: ["type", "reference_id"],
+      },
+      {
+        fields: ["claim_expires_at"],
+      },
+    ],
+  }
+);
+
+export default WarehouseTask;
+export {
+  WarehouseTaskAttributes,
+  WarehouseTaskCreationAttributes,
+  WarehouseTaskType,
+  WarehouseTaskPriority,
+  WarehouseTaskStatus,
+};
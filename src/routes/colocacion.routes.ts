@@ -15,54 +15,948 @@ import {
 import { labelRateLimit } from "../middlewares/rate-limit.middleware";
 import { SyncController } from "../controllers/colocacion/sync.controller";
 import { AdvancedProductController } from "../controllers/colocacion/advanced-product.controller";
+import { PutawayController } from "../controllers/colocacion/putaway.controller";
+import { LotController } from "../controllers/colocacion/lot.controller";
+import { ProductBarcodeController } from "../controllers/colocacion/product-barcode.controller";
+import { UnknownBarcodeController } from "../controllers/colocacion/unknown-barcode.controller";
+import { ReplenishmentController } from "../controllers/colocacion/replenishment.controller";
+import { WarehouseTaskController } from "../controllers/colocacion/warehouse-task.controller";
+import { LocationController } from "../controllers/colocacion/location.controller";
+import { CycleCountController } from "../controllers/colocacion/cycle-count.controller";
+import { InventorySessionController } from "../controllers/colocacion/inventory-session.controller";
+import { ReasonCodeController } from "../controllers/colocacion/reason-code.controller";
+import { ChangeApprovalController } from "../controllers/colocacion/change-approval.controller";
 import { productSearchThrottle } from "../middlewares/search-timeout.middleware";
-import { detectCriticalChanges } from "../middlewares/critical-change.middleware";
+import {
+  detectCriticalChanges,
+  requireCriticalChangeApproval,
+  requirePutawayApproval,
+} from "../middlewares/critical-change.middleware";
 import { healthCheck } from "../middlewares/health.middleware";
 
-const router = Router();
-const productController = new ProductController();
-const labelController = new LabelController();
-const syncController = new SyncController();
-const advancedProductController = new AdvancedProductController();
+const router = Router();
+const productController = new ProductController();
+const labelController = new LabelController();
+const syncController = new SyncController();
+const advancedProductController = new AdvancedProductController();
+const putawayController = new PutawayController();
+const lotController = new LotController();
+const productBarcodeController = new ProductBarcodeController();
+const unknownBarcodeController = new UnknownBarcodeController();
+const replenishmentController = new ReplenishmentController();
+const warehouseTaskController = new WarehouseTaskController();
+const locationController = new LocationController();
+const cycleCountController = new CycleCountController();
+const inventorySessionController = new InventorySessionController();
+const reasonCodeController = new ReasonCodeController();
+const changeApprovalController = new ChangeApprovalController();
+
+/**
+ * @route   GET /api/v1/colocacion/products/search/:barcode
+ * @desc    Buscar producto por código de barras
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/search/:barcode",
+  searchRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  productController.searchByBarcode
+);
+
+/**
+ * @route   PATCH /api/v1/colocacion/products/:id
+ * @desc    Actualizar ubicación y/o stock de un producto (los cambios
+ *          críticos configurados esperan la aprobación de un supervisor: 202)
+ * @access  Private (colocacion.write)
+ */
+router.patch(
+  "/products/:id",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.updateProduct),
+  requireCriticalChangeApproval,
+  productController.updateProduct
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/bins
+ * @desc    Obtener stock por ubicación de un producto
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/bins",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  productController.getBins
+);
+
+/**
+ * @route   PUT /api/v1/colocacion/products/:id/bins/:location
+ * @desc    Fijar la cantidad del producto en una ubicación (picking o reserva;
+ *          los cambios críticos configurados esperan a un supervisor: 202)
+ * @access  Private (colocacion.write)
+ */
+router.put(
+  "/products/:id/bins/:location",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.updateBin),
+  requireCriticalChangeApproval,
+  productController.updateBin
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/stock-history
+ * @desc    Obtener movimientos de stock de un producto
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/stock-history",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  productController.getStockHistory
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/location-history
+ * @desc    Obtener historial de ubicaciones de un producto
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/location-history",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  productController.getLocationHistory
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/putaway-suggestions
+ * @desc    Obtener sugerencias de ubicación para un producto recibido
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/putaway-suggestions",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  putawayController.getSuggestions
+);
+
+/**
+ * @route   POST /api/v1/colocacion/products/:id/putaway
+ * @desc    Confirmar ubicación sugerida (el stock recibido exige código de
+ *          motivo; los cambios críticos configurados esperan a un supervisor: 202)
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/products/:id/putaway",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.confirmPutaway),
+  requirePutawayApproval,
+  putawayController.confirmPutaway
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/barcodes
+ * @desc    Listar códigos de barras del producto (principal y alternativos)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/barcodes",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  productBarcodeController.getBarcodes
+);
+
+/**
+ * @route   POST /api/v1/colocacion/products/:id/barcodes
+ * @desc    Añadir código de barras alternativo o de embalaje (inner, caja)
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/products/:id/barcodes",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.addBarcode),
+  productBarcodeController.addBarcode
+);
+
+/**
+ * @route   DELETE /api/v1/colocacion/products/:id/barcodes/:barcodeId
+ * @desc    Eliminar código de barras alternativo
+ * @access  Private (colocacion.write)
+ */
+router.delete(
+  "/products/:id/barcodes/:barcodeId",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  productBarcodeController.removeBarcode
+);
+
+/**
+ * @route   GET /api/v1/colocacion/unknown-barcodes
+ * @desc    Cola de códigos de barras sin producto (?status=pending&limit=N)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/unknown-barcodes",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  unknownBarcodeController.getQueue
+);
+
+/**
+ * @route   GET /api/v1/colocacion/unknown-barcodes/report
+ * @desc    Informe de códigos más buscados sin resultado (?days=N&limit=N)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/unknown-barcodes/report",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  unknownBarcodeController.getTopMisses
+);
+
+/**
+ * @route   POST /api/v1/colocacion/unknown-barcodes/:id/link
+ * @desc    Asociar código desconocido a un producto existente
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/unknown-barcodes/:id/link",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.linkUnknownBarcode),
+  unknownBarcodeController.linkToProduct
+);
+
+/**
+ * @route   POST /api/v1/colocacion/unknown-barcodes/:id/create-product
+ * @desc    Crear producto borrador en Odoo para un código desconocido
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/unknown-barcodes/:id/create-product",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.createDraftProduct),
+  unknownBarcodeController.createDraftProduct
+);
+
+/**
+ * @route   POST /api/v1/colocacion/unknown-barcodes/:id/dismiss
+ * @desc    Descartar código desconocido
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/unknown-barcodes/:id/dismiss",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.dismissUnknownBarcode),
+  unknownBarcodeController.dismiss
+);
+
+/**
+ * @route   GET /api/v1/colocacion/replenishment/rules
+ * @desc    Listar reglas de reposición mínimo/máximo (?productId=)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/replenishment/rules",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  replenishmentController.getRules
+);
+
+/**
+ * @route   PUT /api/v1/colocacion/replenishment/rules
+ * @desc    Crear o actualizar regla de reposición
+ * @access  Private (colocacion.admin)
+ */
+router.put(
+  "/replenishment/rules",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.saveReplenishmentRule),
+  replenishmentController.saveRule
+);
+
+/**
+ * @route   DELETE /api/v1/colocacion/replenishment/rules/:id
+ * @desc    Eliminar regla de reposición
+ * @access  Private (colocacion.admin)
+ */
+router.delete(
+  "/replenishment/rules/:id",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  replenishmentController.deleteRule
+);
+
+/**
+ * @route   GET /api/v1/colocacion/replenishment/tasks
+ * @desc    Tareas de reposición (?status=pending&limit=N)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/replenishment/tasks",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  replenishmentController.getTasks
+);
+
+/**
+ * @route   POST /api/v1/colocacion/replenishment/tasks/:id/confirm
+ * @desc    Confirmar reposición escaneando origen, producto y destino
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/replenishment/tasks/:id/confirm",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.confirmReplenishment),
+  replenishmentController.confirmTask
+);
+
+/**
+ * @route   DELETE /api/v1/colocacion/replenishment/tasks/:id
+ * @desc    Cancelar tarea de reposición abierta
+ * @access  Private (colocacion.admin)
+ */
+router.delete(
+  "/replenishment/tasks/:id",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  replenishmentController.cancelTask
+);
+
+/**
+ * @route   GET /api/v1/colocacion/tasks
+ * @desc    Tareas disponibles para el operario (?zone=&type=&limit=N)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/tasks",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  warehouseTaskController.getAvailableTasks
+);
+
+/**
+ * @route   GET /api/v1/colocacion/tasks/queue
+ * @desc    Cola de tareas para supervisores (?status=&zone=&type=&limit=N)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/tasks/queue",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  warehouseTaskController.getQueue
+);
+
+/**
+ * @route   GET /api/v1/colocacion/tasks/zones
+ * @desc    Resumen de tareas abiertas por zona
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/tasks/zones",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  warehouseTaskController.getZoneSummary
+);
+
+/**
+ * @route   POST /api/v1/colocacion/tasks
+ * @desc    Crear tarea manual en la cola
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/tasks",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.createWarehouseTask),
+  warehouseTaskController.createTask
+);
+
+/**
+ * @route   POST /api/v1/colocacion/tasks/:id/claim
+ * @desc    Reclamar tarea desde la PDA
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/tasks/:id/claim",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  warehouseTaskController.claimTask
+);
+
+/**
+ * @route   POST /api/v1/colocacion/tasks/:id/release
+ * @desc    Devolver tarea reclamada a la cola
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/tasks/:id/release",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  warehouseTaskController.releaseTask
+);
+
+/**
+ * @route   POST /api/v1/colocacion/tasks/:id/complete
+ * @desc    Completar tarea reclamada
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/tasks/:id/complete",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.completeWarehouseTask),
+  warehouseTaskController.completeTask
+);
+
+/**
+ * @route   POST /api/v1/colocacion/tasks/:id/reassign
+ * @desc    Reasignar tarea a otro operario o devolverla a la cola
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/tasks/:id/reassign",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.reassignWarehouseTask),
+  warehouseTaskController.reassignTask
+);
+
+/**
+ * @route   DELETE /api/v1/colocacion/tasks/:id
+ * @desc    Cancelar tarea abierta
+ * @access  Private (colocacion.admin)
+ */
+router.delete(
+  "/tasks/:id",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.cancelWarehouseTask),
+  warehouseTaskController.cancelTask
+);
+
+/**
+ * @route   GET /api/v1/colocacion/cycle-counts/plans
+ * @desc    Listar planes de inventario cíclico
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/cycle-counts/plans",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  cycleCountController.getPlans
+);
+
+/**
+ * @route   POST /api/v1/colocacion/cycle-counts/plans
+ * @desc    Crear plan de inventario cíclico (clase ABC o pasillos)
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/cycle-counts/plans",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.createCycleCountPlan),
+  cycleCountController.createPlan
+);
+
+/**
+ * @route   PATCH /api/v1/colocacion/cycle-counts/plans/:id
+ * @desc    Modificar plan de inventario cíclico
+ * @access  Private (colocacion.admin)
+ */
+router.patch(
+  "/cycle-counts/plans/:id",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.updateCycleCountPlan),
+  cycleCountController.updatePlan
+);
+
+/**
+ * @route   POST /api/v1/colocacion/cycle-counts/plans/:id/generate
+ * @desc    Generar ahora los conteos de un plan
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/cycle-counts/plans/:id/generate",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  cycleCountController.generate
+);
+
+/**
+ * @route   GET /api/v1/colocacion/cycle-counts/review
+ * @desc    Conteos pendientes de revisión (?limit=N)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/cycle-counts/review",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  cycleCountController.getReviewQueue
+);
+
+/**
+ * @route   GET /api/v1/colocacion/cycle-counts/:id
+ * @desc    Obtener conteo (ciego mientras está abierto)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/cycle-counts/:id",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  cycleCountController.getCount
+);
+
+/**
+ * @route   POST /api/v1/colocacion/cycle-counts/:id/submit
+ * @desc    Registrar conteo escaneando la ubicación
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/cycle-counts/:id/submit",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.submitCycleCount),
+  cycleCountController.submitCount
+);
+
+/**
+ * @route   POST /api/v1/colocacion/cycle-counts/:id/approve
+ * @desc    Aprobar conteo en revisión y ajustar stock
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/cycle-counts/:id/approve",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.approveCycleCount),
+  cycleCountController.approveCount
+);
+
+/**
+ * @route   POST /api/v1/colocacion/cycle-counts/:id/reject
+ * @desc    Rechazar conteo en revisión
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/cycle-counts/:id/reject",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.rejectCycleCount),
+  cycleCountController.rejectCount
+);
+
+/**
+ * @route   GET /api/v1/colocacion/inventory-sessions
+ * @desc    Listar sesiones de inventario físico (?status=)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/inventory-sessions",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  inventorySessionController.getSessions
+);
+
+/**
+ * @route   POST /api/v1/colocacion/inventory-sessions
+ * @desc    Abrir inventario físico y congelar sus zonas
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/inventory-sessions",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.openInventorySession),
+  inventorySessionController.openSession
+);
 
 /**
- * @route   GET /api/v1/colocacion/products/search/:barcode
- * @desc    Buscar producto por código de barras
+ * @route   GET /api/v1/colocacion/inventory-sessions/:id
+ * @desc    Obtener sesión de inventario
  * @access  Private (colocacion.read)
  */
 router.get(
-  "/products/search/:barcode",
-  searchRateLimit,
+  "/inventory-sessions/:id",
+  generalRateLimit,
   authenticate,
   checkPermission("colocacion", "read"),
-  productController.searchByBarcode
+  inventorySessionController.getSession
 );
 
 /**
- * @route   PATCH /api/v1/colocacion/products/:id
- * @desc    Actualizar ubicación y/o stock de un producto
+ * @route   PUT /api/v1/colocacion/inventory-sessions/:id/teams
+ * @desc    Asignar zonas a equipos
+ * @access  Private (colocacion.admin)
+ */
+router.put(
+  "/inventory-sessions/:id/teams",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.updateInventoryTeams),
+  inventorySessionController.updateTeams
+);
+
+/**
+ * @route   GET /api/v1/colocacion/inventory-sessions/:id/locations
+ * @desc    Hoja de conteo por zona (?zone=)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/inventory-sessions/:id/locations",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  inventorySessionController.getLocations
+);
+
+/**
+ * @route   POST /api/v1/colocacion/inventory-sessions/:id/counts
+ * @desc    Registrar conteo de una ubicación
  * @access  Private (colocacion.write)
  */
-router.patch(
-  "/products/:id",
+router.post(
+  "/inventory-sessions/:id/counts",
   updateRateLimit,
   authenticate,
   checkPermission("colocacion", "write"),
-  validate(colocacionValidation.updateProduct),
-  productController.updateProduct
+  validate(colocacionValidation.submitInventoryCount),
+  inventorySessionController.submitCount
 );
 
 /**
- * @route   GET /api/v1/colocacion/products/:id/location-history
- * @desc    Obtener historial de ubicaciones de un producto
+ * @route   GET /api/v1/colocacion/inventory-sessions/:id/reconciliation
+ * @desc    Diferencias y valoración del inventario
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/inventory-sessions/:id/reconciliation",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  inventorySessionController.getReconciliation
+);
+
+/**
+ * @route   POST /api/v1/colocacion/inventory-sessions/:id/close
+ * @desc    Cerrar inventario y enviar el ajuste a Odoo
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/inventory-sessions/:id/close",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  inventorySessionController.closeSession
+);
+
+/**
+ * @route   POST /api/v1/colocacion/inventory-sessions/:id/odoo
+ * @desc    Reintentar el envío del ajuste a Odoo
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/inventory-sessions/:id/odoo",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  inventorySessionController.retryOdooPost
+);
+
+/**
+ * @route   POST /api/v1/colocacion/inventory-sessions/:id/cancel
+ * @desc    Cancelar inventario sin ajustar stock
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/inventory-sessions/:id/cancel",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.cancelInventorySession),
+  inventorySessionController.cancelSession
+);
+
+/**
+ * @route   GET /api/v1/colocacion/approvals
+ * @desc    Cola de cambios críticos pendientes de aprobación (?limit=N)
+ * @access  Private (colocacion.admin)
+ */
+router.get(
+  "/approvals",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  changeApprovalController.getQueue
+);
+
+/**
+ * @route   GET /api/v1/colocacion/approvals/notifications
+ * @desc    Resultados de mis solicitudes aún no recibidos en la PDA
+ * @access  Private (colocacion.write)
+ */
+router.get(
+  "/approvals/notifications",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  changeApprovalController.getNotifications
+);
+
+/**
+ * @route   GET /api/v1/colocacion/approvals/:id
+ * @desc    Estado de una solicitud de aprobación
  * @access  Private (colocacion.read)
  */
 router.get(
-  "/products/:id/location-history",
+  "/approvals/:id",
   generalRateLimit,
   authenticate,
   checkPermission("colocacion", "read"),
-  productController.getLocationHistory
+  changeApprovalController.getApproval
+);
+
+/**
+ * @route   POST /api/v1/colocacion/approvals/:id/approve
+ * @desc    Aprobar y aplicar un cambio crítico (no el propio)
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/approvals/:id/approve",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.approveChange),
+  changeApprovalController.approve
+);
+
+/**
+ * @route   POST /api/v1/colocacion/approvals/:id/reject
+ * @desc    Rechazar un cambio crítico sin aplicarlo
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/approvals/:id/reject",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.rejectChange),
+  changeApprovalController.reject
+);
+
+/**
+ * @route   GET /api/v1/colocacion/reason-codes
+ * @desc    Códigos de motivo para ajustes de stock (los usables por el rol)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/reason-codes",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  reasonCodeController.getCodes
+);
+
+/**
+ * @route   POST /api/v1/colocacion/reason-codes
+ * @desc    Crear código de motivo y los roles que pueden usarlo
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/reason-codes",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.createReasonCode),
+  reasonCodeController.createCode
+);
+
+/**
+ * @route   PATCH /api/v1/colocacion/reason-codes/:code
+ * @desc    Modificar código de motivo (roles, sentido, activación)
+ * @access  Private (colocacion.admin)
+ */
+router.patch(
+  "/reason-codes/:code",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.updateReasonCode),
+  reasonCodeController.updateCode
+);
+
+/**
+ * @route   GET /api/v1/colocacion/locations
+ * @desc    Listar ubicaciones del maestro (?zone=&type=&blocked=&empty=&limit=N)
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/locations",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  locationController.getLocations
+);
+
+/**
+ * @route   POST /api/v1/colocacion/locations
+ * @desc    Dar de alta una ubicación
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/locations",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.createLocation),
+  locationController.createLocation
+);
+
+/**
+ * @route   POST /api/v1/colocacion/locations/bulk
+ * @desc    Generar ubicaciones para un rango (A01-A20, niveles 0-5)
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/locations/bulk",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.bulkCreateLocations),
+  locationController.bulkCreate
+);
+
+/**
+ * @route   GET /api/v1/colocacion/locations/:code
+ * @desc    Obtener ubicación con su contenido
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/locations/:code",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  locationController.getLocation
+);
+
+/**
+ * @route   PATCH /api/v1/colocacion/locations/:code
+ * @desc    Modificar zona, tipo o capacidad de una ubicación
+ * @access  Private (colocacion.admin)
+ */
+router.patch(
+  "/locations/:code",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.updateLocation),
+  locationController.updateLocation
+);
+
+/**
+ * @route   POST /api/v1/colocacion/locations/:from/move
+ * @desc    Mover todo el contenido de una ubicación (o los productos indicados) a otra
+ * @access  Private (colocacion.write)
+ */
+router.post(
+  "/locations/:from/move",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "write"),
+  validate(colocacionValidation.moveLocation),
+  locationController.moveLocation
+);
+
+/**
+ * @route   POST /api/v1/colocacion/locations/:code/block
+ * @desc    Bloquear ubicación (mantenimiento, incidencia...)
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/locations/:code/block",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  validate(colocacionValidation.blockLocation),
+  locationController.blockLocation
+);
+
+/**
+ * @route   POST /api/v1/colocacion/locations/:code/unblock
+ * @desc    Desbloquear ubicación
+ * @access  Private (colocacion.admin)
+ */
+router.post(
+  "/locations/:code/unblock",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  locationController.unblockLocation
+);
+
+/**
+ * @route   DELETE /api/v1/colocacion/locations/:code
+ * @desc    Eliminar ubicación vacía
+ * @access  Private (colocacion.admin)
+ */
+router.delete(
+  "/locations/:code",
+  updateRateLimit,
+  authenticate,
+  checkPermission("colocacion", "admin"),
+  locationController.deleteLocation
 );
 
 /**
@@ -91,6 +985,45 @@ router.get(
   productController.checkLocationAvailability
 );
 
+/**
+ * @route   GET /api/v1/colocacion/lots/:lotNumber
+ * @desc    Buscar dónde se encuentra un lote o número de serie
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/lots/:lotNumber",
+  searchRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  lotController.findByLotNumber
+);
+
+/**
+ * @route   GET /api/v1/colocacion/products/:id/lots
+ * @desc    Obtener lotes ubicados de un producto en orden FEFO
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/products/:id/lots",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  lotController.getProductLots
+);
+
+/**
+ * @route   GET /api/v1/colocacion/expiring
+ * @desc    Informe de existencias caducadas o próximas a caducar
+ * @access  Private (colocacion.read)
+ */
+router.get(
+  "/expiring",
+  generalRateLimit,
+  authenticate,
+  checkPermission("colocacion", "read"),
+  lotController.getExpiring
+);
+
 /**
  * @route   GET /api/v1/colocacion/stats
  * @desc    Obtener estadísticas del módulo de colocación
@@ -277,8 +1210,8 @@ router.patch(
   updateRateLimit,
   authenticate,
   checkPermission("colocacion", "write"),
-  detectCriticalChanges,
   validate(colocacionValidation.updateProduct),
+  detectCriticalChanges,
   advancedProductController.updateProductAdvanced
 );
 
@@ -0,0 +1,247 @@
+// src/routes/entrada.routes.ts
+import { Router } from "express";
+import { authenticate, checkPermission } from "../middlewares/auth.middleware";
+import { ReceiptController } from "../controllers/entrada/receipt.controller";
+import { ReturnController } from "../controllers/entrada/return.controller";
+import {
+  validate,
+  entradaValidation,
+} from "../middlewares/validation.middleware";
+import {
+  searchRateLimit,
+  updateRateLimit,
+  generalRateLimit,
+} from "../middlewares/rate-limit.middleware";
+
+const router = Router();
+const receiptController = new ReceiptController();
+const returnController = new ReturnController();
+
+/**
+ * RUTAS DE RECEPCIÓN
+ */
+
+/**
+ * @route   GET /api/v1/entrada/pickings
+ * @desc    Listar recepciones abiertas en Odoo
+ * @access  Private (entrada.read)
+ */
+router.get(
+  "/pickings",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "read"),
+  receiptController.getOpenReceipts
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/start
+ * @desc    Abrir recepción y obtener sus líneas
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/pickings/:id/start",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  validate(entradaValidation.startReceipt),
+  receiptController.openReceipt
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/scan
+ * @desc    Registrar escaneo de producto en la recepción
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/pickings/:id/scan",
+  searchRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  validate(entradaValidation.scanLine),
+  receiptController.scanBarcode
+);
+
+/**
+ * @route   PATCH /api/v1/entrada/pickings/:id/lines/:moveId
+ * @desc    Confirmar cantidad recibida de una línea
+ * @access  Private (entrada.write)
+ */
+router.patch(
+  "/pickings/:id/lines/:moveId",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  validate(entradaValidation.confirmLine),
+  receiptController.confirmLineQuantity
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/validate
+ * @desc    Validar la recepción en Odoo
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/pickings/:id/validate",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  validate(entradaValidation.validateReceipt),
+  receiptController.validateReceipt
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/submit
+ * @desc    Cerrar conteo ciego y generar informe de discrepancias
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/pickings/:id/submit",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  receiptController.submitBlindCount
+);
+
+/**
+ * RUTAS DE REVISIÓN DE DISCREPANCIAS
+ */
+
+/**
+ * @route   GET /api/v1/entrada/discrepancies
+ * @desc    Listar informes de discrepancias pendientes de revisión
+ * @access  Private (entrada.admin)
+ */
+router.get(
+  "/discrepancies",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "admin"),
+  receiptController.getPendingDiscrepancies
+);
+
+/**
+ * @route   GET /api/v1/entrada/pickings/:id/discrepancy
+ * @desc    Obtener informe de discrepancias de una recepción
+ * @access  Private (entrada.admin)
+ */
+router.get(
+  "/pickings/:id/discrepancy",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "admin"),
+  receiptController.getDiscrepancyReport
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/discrepancy/accept
+ * @desc    Aceptar informe de discrepancias y validar en Odoo
+ * @access  Private (entrada.admin)
+ */
+router.post(
+  "/pickings/:id/discrepancy/accept",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "admin"),
+  validate(entradaValidation.acceptDiscrepancy),
+  receiptController.acceptDiscrepancyReport
+);
+
+/**
+ * @route   POST /api/v1/entrada/pickings/:id/discrepancy/reject
+ * @desc    Rechazar informe de discrepancias y solicitar reconteo
+ * @access  Private (entrada.admin)
+ */
+router.post(
+  "/pickings/:id/discrepancy/reject",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "admin"),
+  validate(entradaValidation.rejectDiscrepancy),
+  receiptController.rejectDiscrepancyReport
+);
+
+/**
+ * RUTAS DE DEVOLUCIONES DE CLIENTE (RMA)
+ */
+
+/**
+ * @route   GET /api/v1/entrada/returns/deliveries
+ * @desc    Buscar entregas realizadas por albarán o pedido (?reference=X)
+ * @access  Private (entrada.read)
+ */
+router.get(
+  "/returns/deliveries",
+  searchRateLimit,
+  authenticate,
+  checkPermission("entrada", "read"),
+  returnController.searchDeliveries
+);
+
+/**
+ * @route   POST /api/v1/entrada/returns/:deliveryId/start
+ * @desc    Abrir devolución de una entrega
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/returns/:deliveryId/start",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  returnController.openReturn
+);
+
+/**
+ * @route   GET /api/v1/entrada/returns/:deliveryId
+ * @desc    Obtener devolución en curso
+ * @access  Private (entrada.read)
+ */
+router.get(
+  "/returns/:deliveryId",
+  generalRateLimit,
+  authenticate,
+  checkPermission("entrada", "read"),
+  returnController.getReturn
+);
+
+/**
+ * @route   POST /api/v1/entrada/returns/:deliveryId/scan
+ * @desc    Registrar artículo devuelto (reponer, cuarentena o desecho)
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/returns/:deliveryId/scan",
+  searchRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  validate(entradaValidation.scanReturnItem),
+  returnController.scanItem
+);
+
+/**
+ * @route   DELETE /api/v1/entrada/returns/:deliveryId/items/:itemId
+ * @desc    Eliminar artículo registrado por error
+ * @access  Private (entrada.write)
+ */
+router.delete(
+  "/returns/:deliveryId/items/:itemId",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  returnController.removeItem
+);
+
+/**
+ * @route   POST /api/v1/entrada/returns/:deliveryId/complete
+ * @desc    Crear y validar la devolución en Odoo y reponer en stock
+ * @access  Private (entrada.write)
+ */
+router.post(
+  "/returns/:deliveryId/complete",
+  updateRateLimit,
+  authenticate,
+  checkPermission("entrada", "write"),
+  returnController.completeReturn
+);
+
+export default router;
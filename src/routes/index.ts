@@ -3,6 +3,8 @@ import { Router } from "express";
 import authRoutes from "./auth.routes";
 import { authenticate, checkPermission } from "../middlewares/auth.middleware";
 import colocacionRoutes from "./colocacion.routes";
+import entradaRoutes from "./entrada.routes";
+import recogidaRoutes from "./recogida.routes";
 
 const router = Router();
 
@@ -11,6 +13,10 @@ router.use("/auth", authRoutes);
 
 router.use("/colocacion", colocacionRoutes);
 
+router.use("/entrada", entradaRoutes);
+
+router.use("/recogida", recogidaRoutes);
+
 // Rutas de prueba para módulos (implementaremos después)
 router.get(
   "/colocacion/test",
@@ -0,0 +1,328 @@
+// src/routes/recogida.routes.ts
+import { Router } from "express";
+import { authenticate, checkPermission } from "../middlewares/auth.middleware";
+import { PickingController } from "../controllers/recogida/picking.controller";
+import { WaveController } from "../controllers/recogida/wave.controller";
+import { PackingController } from "../controllers/recogida/packing.controller";
+import {
+  validate,
+  recogidaValidation,
+} from "../middlewares/validation.middleware";
+import {
+  searchRateLimit,
+  updateRateLimit,
+  generalRateLimit,
+} from "../middlewares/rate-limit.middleware";
+
+const router = Router();
+const pickingController = new PickingController();
+const waveController = new WaveController();
+const packingController = new PackingController();
+
+/**
+ * RUTAS DE PREPARACIÓN DE PEDIDOS
+ */
+
+/**
+ * @route   GET /api/v1/recogida/pickings
+ * @desc    Listar pedidos de salida abiertos en Odoo
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/pickings",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  pickingController.getOpenPickings
+);
+
+/**
+ * @route   POST /api/v1/recogida/pickings/:id/assign
+ * @desc    Asignar pedido a un operario / dispositivo
+ * @access  Private (recogida.admin)
+ */
+router.post(
+  "/pickings/:id/assign",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "admin"),
+  validate(recogidaValidation.assignPicking),
+  pickingController.assignPicking
+);
+
+/**
+ * @route   POST /api/v1/recogida/pickings/:id/start
+ * @desc    Iniciar la preparación del pedido
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/pickings/:id/start",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  pickingController.startPicking
+);
+
+/**
+ * @route   GET /api/v1/recogida/pickings/:id
+ * @desc    Obtener pedido en preparación
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/pickings/:id",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  pickingController.getPicking
+);
+
+/**
+ * @route   GET /api/v1/recogida/pickings/:id/route
+ * @desc    Ruta de recogida optimizada (?strategy=serpentine)
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/pickings/:id/route",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  pickingController.getRoute
+);
+
+/**
+ * @route   POST /api/v1/recogida/pickings/:id/scan
+ * @desc    Registrar recogida verificando ubicación y producto
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/pickings/:id/scan",
+  searchRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.scanPick),
+  pickingController.scanPick
+);
+
+/**
+ * @route   POST /api/v1/recogida/pickings/:id/lines/:moveId/shortage
+ * @desc    Declarar falta en una línea (falta, sustituto o pendiente)
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/pickings/:id/lines/:moveId/shortage",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.reportShortage),
+  pickingController.reportShortage
+);
+
+/**
+ * @route   POST /api/v1/recogida/pickings/:id/validate
+ * @desc    Validar el pedido en Odoo
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/pickings/:id/validate",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  pickingController.validatePicking
+);
+
+/**
+ * RUTAS DE PREPARACIÓN POR OLEADAS
+ */
+
+/**
+ * @route   POST /api/v1/recogida/waves
+ * @desc    Crear oleada agrupando varios pedidos
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/waves",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.createWave),
+  waveController.createWave
+);
+
+/**
+ * @route   GET /api/v1/recogida/waves/:waveId
+ * @desc    Obtener oleada en preparación
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/waves/:waveId",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  waveController.getWave
+);
+
+/**
+ * @route   POST /api/v1/recogida/waves/:waveId/scan
+ * @desc    Registrar recogida e indicar las cajas de destino
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/waves/:waveId/scan",
+  searchRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.scanPick),
+  waveController.scanWave
+);
+
+/**
+ * @route   POST /api/v1/recogida/waves/:waveId/instructions/:instructionId/shortage
+ * @desc    Declarar falta en una instrucción de la oleada
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/waves/:waveId/instructions/:instructionId/shortage",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.waveShortage),
+  waveController.reportShortage
+);
+
+/**
+ * @route   POST /api/v1/recogida/waves/:waveId/confirm
+ * @desc    Confirmar la oleada y validar cada pedido en Odoo
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/waves/:waveId/confirm",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  waveController.confirmWave
+);
+
+/**
+ * @route   DELETE /api/v1/recogida/waves/:waveId
+ * @desc    Cancelar oleada sin recogidas
+ * @access  Private (recogida.write)
+ */
+router.delete(
+  "/waves/:waveId",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  waveController.cancelWave
+);
+
+/**
+ * RUTAS DE EMPAQUETADO
+ */
+
+/**
+ * @route   POST /api/v1/recogida/packing/:id/start
+ * @desc    Iniciar el empaquetado de un pedido preparado
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/packing/:id/start",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  packingController.startPacking
+);
+
+/**
+ * @route   GET /api/v1/recogida/packing/:id
+ * @desc    Obtener empaquetado en curso
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/packing/:id",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  packingController.getPacking
+);
+
+/**
+ * @route   POST /api/v1/recogida/packing/:id/parcels
+ * @desc    Abrir un nuevo bulto
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/packing/:id/parcels",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  packingController.openParcel
+);
+
+/**
+ * @route   POST /api/v1/recogida/packing/:id/parcels/:parcel/scan
+ * @desc    Escanear artículo dentro de un bulto
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/packing/:id/parcels/:parcel/scan",
+  searchRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.packItem),
+  packingController.scanItem
+);
+
+/**
+ * @route   DELETE /api/v1/recogida/packing/:id/parcels/:parcel/items/:moveId
+ * @desc    Retirar unidades de un bulto abierto (?quantity=)
+ * @access  Private (recogida.write)
+ */
+router.delete(
+  "/packing/:id/parcels/:parcel/items/:moveId",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  packingController.removeItem
+);
+
+/**
+ * @route   POST /api/v1/recogida/packing/:id/parcels/:parcel/close
+ * @desc    Cerrar bulto con peso y medidas
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/packing/:id/parcels/:parcel/close",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  validate(recogidaValidation.closeParcel),
+  packingController.closeParcel
+);
+
+/**
+ * @route   GET /api/v1/recogida/packing/:id/packing-list
+ * @desc    Obtener la lista de contenido del pedido
+ * @access  Private (recogida.read)
+ */
+router.get(
+  "/packing/:id/packing-list",
+  generalRateLimit,
+  authenticate,
+  checkPermission("recogida", "read"),
+  packingController.getPackingList
+);
+
+/**
+ * @route   POST /api/v1/recogida/packing/:id/packing-list/print
+ * @desc    Reimprimir la lista de contenido
+ * @access  Private (recogida.write)
+ */
+router.post(
+  "/packing/:id/packing-list/print",
+  updateRateLimit,
+  authenticate,
+  checkPermission("recogida", "write"),
+  packingController.printPackingList
+);
+
+export default router;
@@ -67,6 +67,7 @@ export class CacheService {
         location: product.location,
         stock: product.stock,
         status: product.status,
+        tracking: product.tracking,
         odoo_product_id: product.odoo_product_id,
         created_at: product.created_at,
         updated_at: product.updated_at,
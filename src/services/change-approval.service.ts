@@ -0,0 +1,386 @@
+// src/services/change-approval.service.ts
+import { Op } from "sequelize";
+import ChangeApproval, {
+  ChangeApprovalChanges,
+  ChangeApprovalRuleHit,
+  ChangeApprovalStatus,
+} from "../models/ChangeApproval";
+import Product from "../models/Product";
+import { ReasonCodeRole } from "../models/ReasonCode";
+import { ProductService } from "./product.service";
+import { ProductBinService } from "./product-bin.service";
+import { PutawayService } from "./putaway.service";
+import { ReasonCodeService } from "./reason-code.service";
+import { config } from "../config";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface ChangeApprovalSummary {
+  id: string;
+  productId: string;
+  barcode: string | null;
+  reference: string | null;
+  status: ChangeApprovalStatus;
+  changes: ChangeApprovalChanges;
+  rules: ChangeApprovalRuleHit[];
+  oldLocation: string | null;
+  oldStock: number;
+  requestedBy: string;
+  requestedDevice: string;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Aprobación por un segundo usuario de los cambios críticos de producto.
+ * El cambio queda en cola sin aplicarse hasta que un supervisor lo aprueba
+ * desde su propio dispositivo; la PDA del operario recoge el resultado.
+ */
+export class ChangeApprovalService {
+  /**
+   * Poner en cola un cambio crítico para su aprobación
+   */
+  public static async requestApproval(
+    product: Product,
+    changes: ChangeApprovalChanges,
+    rules: ChangeApprovalRuleHit[],
+    role: ReasonCodeRole,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ChangeApproval> {
+    const pending = await ChangeApproval.findOne({
+      where: { product_id: product.id, status: "pending" },
+    });
+    if (pending) {
+      throw new AppError(
+        "Ya hay un cambio de este producto pendiente de aprobación",
+        409
+      );
+    }
+
+    // El motivo se valida ahora para no aprobar un cambio que no se puede aplicar
+    const delta =
+      changes.bin !== undefined
+        ? changes.quantity! -
+          (await ProductBinService.quantityAt(product, changes.bin))
+        : changes.stock !== undefined
+        ? changes.stock - Number(product.stock)
+        : 0;
+    if (delta !== 0) {
+      await ReasonCodeService.requireUsable(changes.reasonCode, role, delta);
+    }
+
+    const approval = await ChangeApproval.create({
+      product_id: product.id,
+      changes,
+      rules,
+      old_location: product.location,
+      old_stock: Number(product.stock),
+      requested_by: userId,
+      requested_device: deviceId,
+      requester_role: role,
+    });
+    approval.product = product;
+
+    await auditLogger.logChangeApprovalOperation(
+      userId,
+      deviceId,
+      {
+        approvalId: approval.id,
+        productId: product.id,
+        action: "requested",
+        context: { changes, rules: rules.map((hit) => hit.rule) },
+      },
+      ipAddress
+    );
+
+    return approval;
+  }
+
+  /**
+   * Cola de cambios pendientes de aprobación (más antiguos primero)
+   */
+  public static async getQueue(limit: number = 50): Promise<ChangeApproval[]> {
+    return ChangeApproval.findAll({
+      where: { status: "pending" },
+      include: [{ model: Product, as: "product" }],
+      order: [["created_at", "ASC"]],
+      limit,
+    });
+  }
+
+  /**
+   * Obtener solicitud (solo el solicitante o un supervisor)
+   */
+  public static async getApproval(
+    approvalId: string,
+    userId: string,
+    isSupervisor: boolean
+  ): Promise<ChangeApproval> {
+    const approval = await this.requireApproval(approvalId);
+
+    if (!isSupervisor && approval.requested_by !== userId) {
+      throw new AppError("No puedes consultar esta solicitud", 403);
+    }
+
+    return approval;
+  }
+
+  /**
+   * Aprobar y aplicar el cambio. Si falla al aplicarse, la solicitud queda
+   * como fallida con el error para que el operario lo vea.
+   */
+  public static async approve(
+    approvalId: string,
+    note: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ChangeApproval> {
+    const approval = await this.requireReviewable(approvalId, userId, deviceId);
+    const product = approval.product!;
+
+    if (
+      product.location !== approval.old_location ||
+      Number(product.stock) !== Number(approval.old_stock)
+    ) {
+      throw new AppError(
+        "El producto ha cambiado desde la solicitud: recházala para que el operario la repita",
+        409
+      );
+    }
+
+    approval.reviewed_by = userId;
+    approval.reviewed_device = deviceId;
+    approval.reviewed_at = new Date();
+    approval.review_note = note || null;
+
+    try {
+      // El cambio se aplica a nombre del operario que lo solicitó
+      const { bin, quantity, pickFace, putaway, ...changes } = approval.changes;
+      if (putaway) {
+        await PutawayService.confirmPutaway(
+          product.id,
+          changes.location!,
+          changes.stock,
+          changes.lots,
+          changes.reasonCode,
+          approval.requester_role,
+          approval.requested_by,
+          approval.requested_device,
+          ipAddress
+        );
+      } else if (bin !== undefined) {
+        await ProductService.updateBin(
+          product.id,
+          bin,
+          {
+            quantity: quantity!,
+            pickFace,
+            reasonCode: changes.reasonCode,
+            role: approval.requester_role,
+          },
+          approval.requested_by,
+          approval.requested_device,
+          ipAddress
+        );
+      } else {
+        await ProductService.updateProduct(
+          product.id,
+          { ...changes, role: approval.requester_role },
+          approval.requested_by,
+          approval.requested_device,
+          ipAddress
+        );
+      }
+      approval.status = "approved";
+    } catch (error) {
+      approval.status = "failed";
+      approval.error =
+        error instanceof Error ? error.message : "Error desconocido";
+      logger.warn(
+        `No se pudo aplicar el cambio aprobado ${approval.id}: ${approval.error}`
+      );
+    }
+    await approval.save();
+
+    await auditLogger.logChangeApprovalOperation(
+      userId,
+      deviceId,
+      {
+        approvalId: approval.id,
+        productId: product.id,
+        action: approval.status === "approved" ? "approved" : "failed",
+        context: {
+          note,
+          requestedBy: approval.requested_by,
+          changes: approval.changes,
+          error: approval.error,
+        },
+      },
+      ipAddress
+    );
+
+    return approval;
+  }
+
+  /**
+   * Rechazar el cambio sin aplicarlo
+   */
+  public static async reject(
+    approvalId: string,
+    note: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ChangeApproval> {
+    const approval = await this.requireReviewable(approvalId, userId, deviceId);
+
+    approval.status = "rejected";
+    approval.reviewed_by = userId;
+    approval.reviewed_device = deviceId;
+    approval.reviewed_at = new Date();
+    approval.review_note = note;
+    await approval.save();
+
+    await auditLogger.logChangeApprovalOperation(
+      userId,
+      deviceId,
+      {
+        approvalId: approval.id,
+        productId: approval.product_id,
+        action: "rejected",
+        context: { note, requestedBy: approval.requested_by },
+      },
+      ipAddress
+    );
+
+    return approval;
+  }
+
+  /**
+   * Resultados aún no entregados a la PDA del operario. Se marcan como
+   * notificados al devolverlos.
+   */
+  public static async getNotifications(
+    userId: string
+  ): Promise<ChangeApproval[]> {
+    const approvals = await ChangeApproval.findAll({
+      where: {
+        requested_by: userId,
+        status: { [Op.ne]: "pending" },
+        notified_at: null,
+      },
+      include: [{ model: Product, as: "product" }],
+      order: [["updated_at", "ASC"]],
+    });
+
+    if (approvals.length > 0) {
+      await ChangeApproval.update(
+        { notified_at: new Date() },
+        { where: { id: approvals.map((approval) => approval.id) } }
+      );
+    }
+
+    return approvals;
+  }
+
+  /**
+   * Caducar las solicitudes sin revisar pasado el plazo configurado
+   */
+  public static async expireStale(): Promise<number> {
+    const cutoff = new Date(
+      Date.now() - config.criticalChanges.approvalExpireHours * 3600 * 1000
+    );
+
+    const [expired] = await ChangeApproval.update(
+      { status: "expired" },
+      { where: { status: "pending", created_at: { [Op.lt]: cutoff } } }
+    );
+
+    if (expired > 0) {
+      logger.info(`Solicitudes de aprobación caducadas: ${expired}`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Resumen para las respuestas de la API
+   */
+  public static summarize(approval: ChangeApproval): ChangeApprovalSummary {
+    return {
+      id: approval.id,
+      productId: approval.product_id,
+      barcode: approval.product?.barcode ?? null,
+      reference: approval.product?.reference ?? null,
+      status: approval.status,
+      changes: approval.changes,
+      rules: approval.rules,
+      oldLocation: approval.old_location,
+      oldStock: Number(approval.old_stock),
+      requestedBy: approval.requested_by,
+      requestedDevice: approval.requested_device,
+      reviewedBy: approval.reviewed_by,
+      reviewedAt: approval.reviewed_at,
+      reviewNote: approval.review_note,
+      error: approval.error,
+      createdAt: approval.created_at,
+    };
+  }
+
+  /**
+   * Obtener solicitud o fallar
+   */
+  private static async requireApproval(
+    approvalId: string
+  ): Promise<ChangeApproval> {
+    const approval = await ChangeApproval.findByPk(approvalId, {
+      include: [{ model: Product, as: "product" }],
+    });
+    if (!approval) {
+      throw new AppError("Solicitud de aprobación no encontrada", 404);
+    }
+    return approval;
+  }
+
+  /**
+   * Solicitud pendiente que el usuario puede revisar (nunca la suya ni
+   * desde la PDA que la solicitó)
+   */
+  private static async requireReviewable(
+    approvalId: string,
+    userId: string,
+    deviceId: string
+  ): Promise<ChangeApproval> {
+    const approval = await this.requireApproval(approvalId);
+
+    if (!approval.isPending()) {
+      throw new AppError(
+        `La solicitud ya no está pendiente (${approval.status})`,
+        409
+      );
+    }
+    if (approval.requested_by === userId) {
+      throw new AppError(
+        "Un cambio crítico debe aprobarlo otra persona distinta de quien lo solicitó",
+        403
+      );
+    }
+    if (approval.requested_device === deviceId) {
+      throw new AppError(
+        "Un cambio crítico debe aprobarse desde un dispositivo distinto del que lo solicitó",
+        403
+      );
+    }
+
+    return approval;
+  }
+}
+
+export { ChangeApprovalSummary };
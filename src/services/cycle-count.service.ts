@@ -0,0 +1,901 @@
+// src/services/cycle-count.service.ts
+import { Op, fn, col } from "sequelize";
+import sequelize from "../config/database";
+import CycleCountPlan, {
+  AbcClass,
+  CycleCountStrategy,
+} from "../models/CycleCountPlan";
+import CycleCount, {
+  CycleCountLine,
+  CycleCountStatus,
+} from "../models/CycleCount";
+import Product from "../models/Product";
+import ProductBin from "../models/ProductBin";
+import Location from "../models/Location";
+import StockMovement from "../models/StockMovement";
+import { WarehouseTaskService } from "./warehouse-task.service";
+import {
+  ProductBarcodeService,
+  CountedItem,
+  CountedProduct,
+} from "./product-barcode.service";
+import { ProductBinService } from "./product-bin.service";
+import { StockMovementService } from "./stock-movement.service";
+import { CacheService } from "./cache.service";
+import { SyncService } from "./sync.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface CycleCountPlanData {
+  name: string;
+  strategy: CycleCountStrategy;
+  abcClass?: AbcClass | null;
+  aisles?: string[] | null;
+  locationsPerDay: number;
+  tolerancePercent?: number;
+  toleranceUnits?: number;
+  isActive?: boolean;
+}
+
+interface CycleCountSubmission {
+  location: string;
+  items: CountedItem[];
+}
+
+interface CycleCountSummary {
+  id: string;
+  planId: string | null;
+  taskId: string | null;
+  location: string;
+  status: CycleCountStatus;
+  attempt: number;
+  parentCountId: string | null;
+  lines: CycleCountLine[] | null;
+  countedBy: string | null;
+  countedAt: Date | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+}
+
+interface CycleCountResult {
+  count: CycleCount;
+  recount: CycleCount | null; // reconteo generado si hay variaciones
+}
+
+/**
+ * Inventario cíclico: los planes generan cada día tareas de conteo ciego
+ * (el operario no ve las cantidades esperadas). Las variaciones dentro de
+ * la tolerancia del plan se ajustan directamente; las demás se recuentan
+ * una vez y, si persisten, pasan a revisión del supervisor.
+ */
+export class CycleCountService {
+  // Reparto ABC por volumen de recogida acumulado
+  private static readonly ABC_THRESHOLDS = { A: 0.8, B: 0.95 };
+  private static readonly ABC_PERIOD_DAYS = 90;
+  private static readonly MAX_ATTEMPTS = 2;
+
+  /**
+   * Listar planes de inventario cíclico
+   */
+  public static async getPlans(): Promise<CycleCountPlan[]> {
+    return CycleCountPlan.findAll({
+      order: [
+        ["is_active", "DESC"],
+        ["name", "ASC"],
+      ],
+    });
+  }
+
+  /**
+   * Crear plan de inventario cíclico
+   */
+  public static async createPlan(
+    data: CycleCountPlanData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCountPlan> {
+    const plan = await CycleCountPlan.create({
+      name: data.name.trim(),
+      strategy: data.strategy,
+      locations_per_day: data.locationsPerDay,
+      created_by: userId,
+      ...this.planFields(data),
+    });
+
+    await this.logPlan(plan, userId, deviceId, ipAddress);
+
+    return plan;
+  }
+
+  /**
+   * Modificar plan de inventario cíclico
+   */
+  public static async updatePlan(
+    planId: string,
+    data: Partial<CycleCountPlanData>,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCountPlan> {
+    const plan = await this.requirePlan(planId);
+
+    if (data.name !== undefined) {
+      plan.name = data.name.trim();
+    }
+    if (data.strategy !== undefined) {
+      plan.strategy = data.strategy;
+    }
+    if (data.locationsPerDay !== undefined) {
+      plan.locations_per_day = data.locationsPerDay;
+    }
+    Object.assign(
+      plan,
+      this.planFields({
+        ...data,
+        strategy: plan.strategy,
+        abcClass: data.abcClass === undefined ? plan.abc_class : data.abcClass,
+        aisles: data.aisles === undefined ? plan.aisles : data.aisles,
+      })
+    );
+    await plan.save();
+
+    await this.logPlan(plan, userId, deviceId, ipAddress);
+
+    return plan;
+  }
+
+  /**
+   * Generar las tareas del día de todos los planes activos
+   * (los planes ya generados hoy se omiten)
+   */
+  public static async generateDailyTasks(): Promise<number> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const plans = await CycleCountPlan.findAll({
+      where: {
+        is_active: true,
+        [Op.or]: [
+          { last_generated_at: null },
+          { last_generated_at: { [Op.lt]: startOfDay } },
+        ],
+      },
+    });
+
+    let generated = 0;
+    for (const plan of plans) {
+      try {
+        const counts = await this.generateForPlan(plan, plan.created_by);
+        generated += counts.length;
+      } catch (error) {
+        logger.error(`Error generando conteos del plan ${plan.name}:`, error);
+      }
+    }
+
+    if (generated > 0) {
+      logger.info(`Conteos cíclicos generados: ${generated}`);
+    }
+
+    return generated;
+  }
+
+  /**
+   * Generar los conteos de un plan: primero las ubicaciones que llevan
+   * más tiempo sin contarse
+   */
+  public static async generateForPlan(
+    plan: CycleCountPlan,
+    userId: string,
+    deviceId: string = "system",
+    ipAddress?: string
+  ): Promise<CycleCount[]> {
+    const candidates =
+      plan.strategy === "abc"
+        ? await this.locationsForClass(plan.abc_class || "A")
+        : await this.locationsForAisles(plan.aisles || []);
+
+    const open = await CycleCount.findAll({
+      attributes: ["location"],
+      where: {
+        location: { [Op.in]: candidates },
+        status: "pending",
+      },
+    });
+    const openLocations = new Set(open.map((count) => count.location));
+    const blocked = await this.blockedCodes(candidates);
+    const frozen = await InventorySessionService.getFrozenCodes(candidates);
+
+    const lastCounted = await this.lastCountedAt(candidates);
+    const selected = candidates
+      .filter(
+        (code) =>
+          !openLocations.has(code) && !blocked.has(code) && !frozen.has(code)
+      )
+      .sort(
+        (a, b) =>
+          (lastCounted.get(a) || 0) - (lastCounted.get(b) || 0) ||
+          a.localeCompare(b)
+      )
+      .slice(0, plan.locations_per_day);
+
+    const counts: CycleCount[] = [];
+    for (const location of selected) {
+      counts.push(
+        await this.createCount(
+          location,
+          plan.id,
+          null,
+          1,
+          userId,
+          deviceId,
+          ipAddress
+        )
+      );
+    }
+
+    plan.last_generated_at = new Date();
+    await plan.save();
+
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        planId: plan.id,
+        action: "tasks_generated",
+        context: { count: counts.length, candidates: candidates.length },
+      },
+      ipAddress
+    );
+
+    return counts;
+  }
+
+  /**
+   * Obtener conteo
+   */
+  public static async getCount(countId: string): Promise<CycleCount> {
+    return this.requireCount(countId);
+  }
+
+  /**
+   * Conteos pendientes de revisión del supervisor
+   */
+  public static async getReviewQueue(
+    limit: number = 50
+  ): Promise<CycleCount[]> {
+    return CycleCount.findAll({
+      where: { status: "review" },
+      include: [{ model: CycleCountPlan, as: "plan" }],
+      order: [["counted_at", "ASC"]],
+      limit,
+    });
+  }
+
+  /**
+   * Registrar el conteo del operario escaneando la ubicación.
+   * Los productos esperados que no se cuentan se toman como 0.
+   */
+  public static async submitCount(
+    countId: string,
+    submission: CycleCountSubmission,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCountResult> {
+    const count = await this.requireCount(countId);
+    if (!count.isOpen()) {
+      throw new AppError("El conteo ya está registrado", 409);
+    }
+
+    const warehouseTask = await WarehouseTaskService.requireClaim(
+      count.warehouse_task_id!,
+      userId,
+      deviceId
+    );
+
+    const location = LocationValidator.validateAndClean(submission.location);
+    if (location !== count.location) {
+      throw new AppError(
+        `Ubicación incorrecta: se esperaba ${count.location}`,
+        400
+      );
+    }
+
+    await InventorySessionService.assertNotFrozen([location]);
+
+    const counted = await ProductBarcodeService.resolveCounts(submission.items);
+    const plan = count.plan_id
+      ? await CycleCountPlan.findByPk(count.plan_id)
+      : null;
+    const lines = await this.buildLines(location, counted, plan);
+
+    count.lines = lines;
+    count.counted_by = userId;
+    count.counted_at = new Date();
+
+    let recount: CycleCount | null = null;
+    if (lines.every((line) => line.withinTolerance)) {
+      await this.postAdjustments(count, userId, deviceId, ipAddress);
+      count.status = "posted";
+    } else if (count.attempt < this.MAX_ATTEMPTS) {
+      count.status = "recount";
+    } else {
+      count.status = "review";
+    }
+    await count.save();
+
+    await WarehouseTaskService.completeLinkedTask(
+      warehouseTask.id,
+      userId,
+      deviceId,
+      { countId: count.id, status: count.status, lines: lines.length },
+      ipAddress
+    );
+
+    if (count.status === "recount") {
+      recount = await this.createCount(
+        location,
+        count.plan_id,
+        count.id,
+        count.attempt + 1,
+        userId,
+        deviceId,
+        ipAddress
+      );
+    }
+
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        countId: count.id,
+        planId: count.plan_id || undefined,
+        action: "submitted",
+        location,
+        context: {
+          outcome: count.status,
+          attempt: count.attempt,
+          variances: lines.filter((line) => line.variance !== 0).length,
+          recountId: recount?.id,
+        },
+      },
+      ipAddress
+    );
+
+    return { count, recount };
+  }
+
+  /**
+   * Aprobar un conteo en revisión y ajustar el stock con sus diferencias
+   */
+  public static async approveCount(
+    countId: string,
+    note: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCount> {
+    const count = await this.requireReview(countId);
+
+    await this.postAdjustments(count, userId, deviceId, ipAddress);
+
+    count.status = "posted";
+    count.reviewed_by = userId;
+    count.reviewed_at = new Date();
+    count.review_note = note || null;
+    await count.save();
+
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        countId: count.id,
+        action: "approved",
+        location: count.location,
+        context: { note },
+      },
+      ipAddress
+    );
+
+    return count;
+  }
+
+  /**
+   * Rechazar un conteo en revisión sin ajustar el stock
+   */
+  public static async rejectCount(
+    countId: string,
+    note: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCount> {
+    const count = await this.requireReview(countId);
+
+    count.status = "rejected";
+    count.reviewed_by = userId;
+    count.reviewed_at = new Date();
+    count.review_note = note;
+    await count.save();
+
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        countId: count.id,
+        action: "rejected",
+        location: count.location,
+        context: { note },
+      },
+      ipAddress
+    );
+
+    return count;
+  }
+
+  /**
+   * Resumen para las respuestas de la API. Las cantidades esperadas no se
+   * muestran hasta que el conteo está cerrado o en revisión.
+   */
+  public static summarize(count: CycleCount): CycleCountSummary {
+    const blind = count.status === "pending" || count.status === "recount";
+
+    return {
+      id: count.id,
+      planId: count.plan_id,
+      taskId: count.warehouse_task_id,
+      location: count.location,
+      status: count.status,
+      attempt: count.attempt,
+      parentCountId: count.parent_count_id,
+      lines: blind ? null : count.lines,
+      countedBy: count.counted_by,
+      countedAt: count.counted_at,
+      reviewedBy: count.reviewed_by,
+      reviewedAt: count.reviewed_at,
+      reviewNote: count.review_note,
+    };
+  }
+
+  /**
+   * Obtener plan o fallar
+   */
+  public static async requirePlan(planId: string): Promise<CycleCountPlan> {
+    const plan = await CycleCountPlan.findByPk(planId);
+    if (!plan) {
+      throw new AppError("Plan de inventario cíclico no encontrado", 404);
+    }
+    return plan;
+  }
+
+  /**
+   * Crear conteo con su tarea en la cola del almacén
+   */
+  private static async createCount(
+    location: string,
+    planId: string | null,
+    parentId: string | null,
+    attempt: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<CycleCount> {
+    const count = await CycleCount.create({
+      plan_id: planId,
+      location,
+      attempt,
+      parent_count_id: parentId,
+    });
+
+    // La tarea solo lleva la ubicación: conteo ciego
+    const task = await WarehouseTaskService.createTask(
+      {
+        type: "cycle_count",
+        priority: attempt > 1 ? "high" : "normal",
+        location,
+        referenceId: count.id,
+        description:
+          attempt > 1 ? `Reconteo de ${location}` : `Conteo de ${location}`,
+        payload: { countId: count.id, location, attempt },
+      },
+      userId,
+      deviceId,
+      ipAddress
+    );
+
+    count.warehouse_task_id = task.id;
+    await count.save();
+
+    return count;
+  }
+
+  /**
+   * Comparar lo contado con el stock registrado en la ubicación
+   */
+  private static async buildLines(
+    location: string,
+    counted: Map<string, CountedProduct>,
+    plan: CycleCountPlan | null
+  ): Promise<CycleCountLine[]> {
+    const bins = await ProductBinService.findByLocation(location);
+    const products = new Map<string, { reference: string; expected: number }>();
+
+    for (const bin of bins) {
+      products.set(bin.product_id, {
+        reference: bin.product!.reference,
+        expected: Number(bin.quantity),
+      });
+    }
+    for (const [productId, entry] of counted) {
+      if (!products.has(productId)) {
+        products.set(productId, {
+          reference: entry.product.reference,
+          expected: 0,
+        });
+      }
+    }
+
+    return [...products.entries()].map(
+      ([productId, { reference, expected }]) => {
+        const quantity = counted.get(productId)?.quantity || 0;
+        const variance = this.round(quantity - expected);
+        const tolerance = plan ? plan.toleranceFor(expected) : 0;
+
+        return {
+          productId,
+          reference,
+          expected,
+          counted: quantity,
+          variance,
+          withinTolerance: Math.abs(variance) <= tolerance,
+        };
+      }
+    );
+  }
+
+  /**
+   * Aplicar las diferencias del conteo al stock actual de la ubicación y
+   * enviarlo a Odoo. Se suma la diferencia y no se fija lo contado para no
+   * pisar las recogidas y reposiciones hechas desde el conteo hasta su
+   * aprobación. Un fallo de envío a Odoo no anula el ajuste local.
+   */
+  private static async postAdjustments(
+    count: CycleCount,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    const syncService = new SyncService();
+
+    for (const line of count.lines || []) {
+      if (line.variance === 0) {
+        continue;
+      }
+
+      const product = await Product.findByPk(line.productId);
+      if (!product) {
+        logger.warn(`Producto del conteo no encontrado: ${line.productId}`, {
+          countId: count.id,
+        });
+        continue;
+      }
+
+      const oldStock = Number(product.stock);
+      const change = await sequelize.transaction(async (transaction) => {
+        const stockBefore = await StockMovementService.snapshot(
+          product,
+          transaction
+        );
+        const binChange = await ProductBinService.adjustQuantity(
+          product,
+          count.location,
+          line.variance,
+          transaction
+        );
+
+        product.last_odoo_sync = new Date();
+        await product.save({ transaction });
+
+        await StockMovementService.record(
+          product,
+          stockBefore,
+          {
+            source: "count",
+            reason: `Conteo cíclico de ${count.location}`,
+            reference: count.id,
+            userId,
+            deviceId,
+          },
+          transaction
+        );
+
+        return binChange;
+      });
+      await CacheService.invalidateProduct(product.barcode);
+
+      await auditLogger.logColocacionUpdate(
+        userId,
+        product.id,
+        {
+          barcode: product.barcode,
+          reference: product.reference,
+          oldLocation: product.location,
+          newLocation: product.location,
+          oldStock,
+          newStock: Number(product.stock),
+          bin: count.location,
+          oldBinQuantity: change.oldQuantity,
+          newBinQuantity: Number(change.bin?.quantity ?? 0),
+        },
+        deviceId,
+        ipAddress
+      );
+
+      const sync = await syncService.pushToOdoo(
+        product.id,
+        "stock",
+        userId,
+        deviceId
+      );
+      if (!sync.success) {
+        logger.warn(
+          `Ajuste de conteo no enviado a Odoo: ${product.reference}`,
+          {
+            countId: count.id,
+            errors: sync.errors,
+          }
+        );
+      }
+    }
+
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        countId: count.id,
+        action: "posted",
+        location: count.location,
+        context: {
+          adjustments: (count.lines || [])
+            .filter((line) => line.variance !== 0)
+            .map((line) => ({
+              productId: line.productId,
+              variance: line.variance,
+            })),
+        },
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Ubicaciones con stock de los productos de una clase ABC
+   */
+  private static async locationsForClass(
+    abcClass: AbcClass
+  ): Promise<string[]> {
+    const classes = await this.classifyProducts();
+    const bins = await ProductBin.findAll({
+      attributes: ["product_id", "location"],
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: [],
+          where: { status: "active" },
+        },
+      ],
+    });
+
+    return [
+      ...new Set(
+        bins
+          .filter((bin) => (classes.get(bin.product_id) || "C") === abcClass)
+          .map((bin) => bin.location)
+      ),
+    ];
+  }
+
+  /**
+   * Clasificación ABC por unidades recogidas en el periodo: A hasta el
+   * 80 % del volumen acumulado, B hasta el 95 % y C el resto
+   */
+  private static async classifyProducts(): Promise<Map<string, AbcClass>> {
+    const since = new Date(
+      Date.now() - this.ABC_PERIOD_DAYS * 24 * 3600 * 1000
+    );
+    const rows = (await StockMovement.findAll({
+      attributes: ["product_id", [fn("SUM", col("quantity")), "picked"]],
+      where: { source: "pick", created_at: { [Op.gte]: since } },
+      group: ["product_id"],
+      raw: true,
+    })) as unknown as Array<{ product_id: string; picked: string }>;
+
+    const volumes = rows
+      .map((row) => ({
+        productId: row.product_id,
+        volume: -Number(row.picked), // las recogidas restan stock
+      }))
+      .filter((row) => row.volume > 0)
+      .sort((a, b) => b.volume - a.volume);
+    const total = volumes.reduce((sum, row) => sum + row.volume, 0);
+
+    const classes = new Map<string, AbcClass>();
+    let cumulative = 0;
+    for (const row of volumes) {
+      // La clase depende del volumen acumulado antes del producto
+      const share = cumulative / total;
+      classes.set(
+        row.productId,
+        share < this.ABC_THRESHOLDS.A
+          ? "A"
+          : share < this.ABC_THRESHOLDS.B
+          ? "B"
+          : "C"
+      );
+      cumulative += row.volume;
+    }
+
+    return classes;
+  }
+
+  /**
+   * Ubicaciones de los pasillos del plan: las del maestro y las que
+   * tienen stock aunque no estén dadas de alta
+   */
+  private static async locationsForAisles(aisles: string[]): Promise<string[]> {
+    const wanted = new Set(aisles.map((aisle) => aisle.toUpperCase()));
+    const [locations, bins] = await Promise.all([
+      Location.findAll({ attributes: ["code"] }),
+      ProductBin.findAll({ attributes: ["location"] }),
+    ]);
+
+    return [
+      ...new Set([
+        ...locations.map((location) => location.code),
+        ...bins.map((bin) => bin.location),
+      ]),
+    ].filter(
+      (code) =>
+        LocationValidator.validate(code) &&
+        wanted.has(LocationValidator.parseLocation(code).aisle)
+    );
+  }
+
+  /**
+   * Ubicaciones bloqueadas del maestro
+   */
+  private static async blockedCodes(codes: string[]): Promise<Set<string>> {
+    const blocked = await Location.findAll({
+      attributes: ["code"],
+      where: { code: { [Op.in]: codes }, is_blocked: true },
+    });
+    return new Set(blocked.map((location) => location.code));
+  }
+
+  /**
+   * Último conteo registrado de cada ubicación (ms)
+   */
+  private static async lastCountedAt(
+    codes: string[]
+  ): Promise<Map<string, number>> {
+    const rows = (await CycleCount.findAll({
+      attributes: ["location", [fn("MAX", col("counted_at")), "last"]],
+      where: {
+        location: { [Op.in]: codes },
+        counted_at: { [Op.ne]: null },
+      },
+      group: ["location"],
+      raw: true,
+    })) as unknown as Array<{ location: string; last: string }>;
+
+    return new Map(
+      rows.map((row) => [row.location, new Date(row.last).getTime()])
+    );
+  }
+
+  /**
+   * Campos del plan según la estrategia
+   */
+  private static planFields(
+    data: Partial<CycleCountPlanData>
+  ): Partial<CycleCountPlan> {
+    if (data.strategy === "abc" && !data.abcClass) {
+      throw new AppError("Los planes ABC requieren una clase (A, B o C)", 400);
+    }
+    if (data.strategy === "aisle" && !data.aisles?.length) {
+      throw new AppError("Los planes por pasillo requieren pasillos", 400);
+    }
+
+    const fields: Partial<CycleCountPlan> = {
+      abc_class: data.strategy === "abc" ? data.abcClass! : null,
+      aisles:
+        data.strategy === "aisle"
+          ? [
+              ...new Set(
+                data.aisles!.map((aisle) => aisle.trim().toUpperCase())
+              ),
+            ]
+          : null,
+    };
+    if (data.tolerancePercent !== undefined) {
+      fields.tolerance_percent = data.tolerancePercent;
+    }
+    if (data.toleranceUnits !== undefined) {
+      fields.tolerance_units = data.toleranceUnits;
+    }
+    if (data.isActive !== undefined) {
+      fields.is_active = data.isActive;
+    }
+    return fields;
+  }
+
+  /**
+   * Registrar alta o modificación de plan
+   */
+  private static async logPlan(
+    plan: CycleCountPlan,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    await auditLogger.logCycleCountOperation(
+      userId,
+      deviceId,
+      {
+        planId: plan.id,
+        action: "plan_saved",
+        context: {
+          name: plan.name,
+          strategy: plan.strategy,
+          abcClass: plan.abc_class,
+          aisles: plan.aisles,
+          locationsPerDay: plan.locations_per_day,
+          isActive: plan.is_active,
+        },
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Obtener conteo o fallar
+   */
+  private static async requireCount(countId: string): Promise<CycleCount> {
+    const count = await CycleCount.findByPk(countId);
+    if (!count) {
+      throw new AppError("Conteo no encontrado", 404);
+    }
+    return count;
+  }
+
+  /**
+   * Obtener conteo en revisión o fallar
+   */
+  private static async requireReview(countId: string): Promise<CycleCount> {
+    const count = await this.requireCount(countId);
+    if (count.status !== "review") {
+      throw new AppError("El conteo no está pendiente de revisión", 409);
+    }
+    return count;
+  }
+
+  /**
+   * Redondear a la precisión del stock (3 decimales)
+   */
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export {
+  CycleCountPlanData,
+  CycleCountSubmission,
+  CycleCountResult,
+  CycleCountSummary,
+};
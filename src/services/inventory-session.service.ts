@@ -0,0 +1,868 @@
+// src/services/inventory-session.service.ts
+import { Op } from "sequelize";
+import sequelize from "../config/database";
+import InventorySession, {
+  InventorySessionStatus,
+  InventoryTeam,
+} from "../models/InventorySession";
+import InventoryCount from "../models/InventoryCount";
+import Location from "../models/Location";
+import Product from "../models/Product";
+import ProductBin from "../models/ProductBin";
+import StockMovement from "../models/StockMovement";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { ProductBarcodeService, CountedItem } from "./product-barcode.service";
+import { ProductBinService } from "./product-bin.service";
+import { StockMovementService } from "./stock-movement.service";
+import { LocationService } from "./location.service";
+import { CacheService } from "./cache.service";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type InventoryLocationStatus =
+  | "pending" // sin contar
+  | "second_count" // falta el segundo conteo
+  | "agreed" // los dos conteos coinciden
+  | "disputed" // los conteos no coinciden: falta el desempate
+  | "resolved"; // cerrada con el conteo de desempate
+
+interface InventorySessionData {
+  name: string;
+  zones: string[];
+  teams?: InventoryTeam[];
+}
+
+interface InventoryCountSubmission {
+  location: string;
+  items: CountedItem[];
+}
+
+interface InventoryLocationSheet {
+  location: string;
+  zone: string;
+  status: InventoryLocationStatus;
+  rounds: number[];
+}
+
+interface ReconciliationLine {
+  location: string;
+  zone: string;
+  status: InventoryLocationStatus;
+  productId: string;
+  reference: string;
+  expected: number;
+  counts: Array<number | null>; // conteo 1, 2 y desempate
+  final: number | null; // null = sin resultado todavía
+  difference: number | null;
+  unitCost: number | null;
+  valueImpact: number | null;
+}
+
+interface Reconciliation {
+  sessionId: string;
+  lines: ReconciliationLine[];
+  summary: {
+    locations: number;
+    counted: number;
+    pending: number; // ubicaciones con stock sin contar o con un solo conteo
+    disputed: number;
+    differences: number;
+    unitsImpact: number;
+    valueImpact: number | null; // null si Odoo no devolvió los costes
+  };
+}
+
+/**
+ * Inventario físico completo: la sesión congela las zonas contadas, cada
+ * ubicación se cuenta dos veces por operarios distintos (con desempate si
+ * no coinciden) y al cerrar se ajusta el stock y se envía a Odoo en un
+ * único ajuste de inventario.
+ */
+export class InventorySessionService {
+  private static readonly REASON_CODE = "PHYSICAL_INVENTORY";
+  private static readonly MAX_ROUND = 3;
+
+  /**
+   * Listar sesiones de inventario
+   */
+  public static async getSessions(
+    status?: InventorySessionStatus
+  ): Promise<InventorySession[]> {
+    return InventorySession.findAll({
+      where: status ? { status } : {},
+      order: [["created_at", "DESC"]],
+    });
+  }
+
+  /**
+   * Obtener sesión o fallar
+   */
+  public static async requireSession(
+    sessionId: string
+  ): Promise<InventorySession> {
+    const session = await InventorySession.findByPk(sessionId);
+    if (!session) {
+      throw new AppError("Sesión de inventario no encontrada", 404);
+    }
+    return session;
+  }
+
+  /**
+   * Abrir sesión: las zonas quedan congeladas hasta cerrarla o cancelarla
+   */
+  public static async openSession(
+    data: InventorySessionData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<InventorySession> {
+    const zones = this.cleanZones(data.zones);
+
+    const overlapping = await this.findOpenSessions(zones);
+    if (overlapping.length > 0) {
+      throw new AppError(
+        `Hay zonas en otro inventario abierto: ${overlapping
+          .map((s) => s.name)
+          .join(", ")}`,
+        409
+      );
+    }
+
+    const session = await InventorySession.create({
+      name: data.name.trim(),
+      zones,
+      teams: this.cleanTeams(data.teams || [], zones),
+      opened_by: userId,
+    });
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: "opened",
+        context: { name: session.name, zones, teams: session.teams },
+      },
+      ipAddress
+    );
+
+    logger.info(`Inventario físico abierto: ${session.name}`, {
+      sessionId: session.id,
+      zones,
+    });
+
+    return session;
+  }
+
+  /**
+   * Asignar zonas a equipos
+   */
+  public static async updateTeams(
+    sessionId: string,
+    teams: InventoryTeam[],
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<InventorySession> {
+    const session = await this.requireOpenSession(sessionId);
+
+    session.teams = this.cleanTeams(teams, session.zones);
+    await session.save();
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: "teams_updated",
+        context: { teams: session.teams },
+      },
+      ipAddress
+    );
+
+    return session;
+  }
+
+  /**
+   * Hoja de conteo: ubicaciones de la sesión y su estado, sin cantidades
+   */
+  public static async getLocations(
+    sessionId: string,
+    zone?: string
+  ): Promise<InventoryLocationSheet[]> {
+    const session = await this.requireSession(sessionId);
+    const zones = await this.sessionLocations(session);
+    const counts = await this.countsByLocation(session.id);
+
+    return [...zones.entries()]
+      .filter(([, locationZone]) => !zone || locationZone === zone)
+      .map(([location, locationZone]) => {
+        const rounds = counts.get(location) || [];
+        return {
+          location,
+          zone: locationZone,
+          status: this.locationStatus(rounds),
+          rounds: rounds.map((count) => count.round),
+        };
+      })
+      .sort((a, b) => a.location.localeCompare(b.location));
+  }
+
+  /**
+   * Registrar el conteo de una ubicación. Cada conteo es ciego: se asigna
+   * a la siguiente vuelta pendiente (primero, segundo o desempate).
+   */
+  public static async submitCount(
+    sessionId: string,
+    submission: InventoryCountSubmission,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ count: InventoryCount; status: InventoryLocationStatus }> {
+    const session = await this.requireOpenSession(sessionId);
+    const location = LocationValidator.validateAndClean(submission.location);
+
+    const zone = (await LocationService.zonesFor([location])).get(location)!;
+    if (!session.zones.includes(zone)) {
+      throw new AppError(
+        `La ubicación ${location} no pertenece a este inventario`,
+        400
+      );
+    }
+    if (!session.canCount(userId, zone)) {
+      throw new AppError(`La zona ${zone} no está asignada a tu equipo`, 403);
+    }
+
+    const previous = await InventoryCount.findAll({
+      where: { session_id: session.id, location },
+      order: [["round", "ASC"]],
+    });
+    const round = this.nextRound(previous, userId);
+
+    const counted = await ProductBarcodeService.resolveCounts(submission.items);
+    const count = await InventoryCount.create({
+      session_id: session.id,
+      location,
+      round,
+      lines: [...counted.values()].map(({ product, quantity }) => ({
+        productId: product.id,
+        quantity,
+      })),
+      counted_by: userId,
+      device_identifier: deviceId,
+    });
+
+    const status = this.locationStatus([...previous, count]);
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: "counted",
+        location,
+        context: { round, status, products: count.lines.length },
+      },
+      ipAddress
+    );
+
+    return { count, status };
+  }
+
+  /**
+   * Conciliación: diferencias por ubicación y producto con su valoración
+   * al coste estándar de Odoo
+   */
+  public static async getReconciliation(
+    sessionId: string
+  ): Promise<Reconciliation> {
+    const session = await this.requireSession(sessionId);
+    const zones = await this.sessionLocations(session);
+    const counts = await this.countsByLocation(session.id);
+
+    const bins = await ProductBin.findAll({
+      where: { location: { [Op.in]: [...zones.keys()] } },
+    });
+    const expected = new Map<string, Map<string, number>>();
+    for (const bin of bins) {
+      const byProduct = expected.get(bin.location) || new Map();
+      byProduct.set(bin.product_id, Number(bin.quantity));
+      expected.set(bin.location, byProduct);
+    }
+
+    const productIds = new Set(bins.map((bin) => bin.product_id));
+    for (const rounds of counts.values()) {
+      for (const count of rounds) {
+        count.lines.forEach((line) => productIds.add(line.productId));
+      }
+    }
+    const products = await Product.findAll({
+      where: { id: { [Op.in]: [...productIds] } },
+    });
+    const productMap = new Map(products.map((p) => [p.id, p]));
+    const costs = await this.getCosts(products);
+
+    const lines: ReconciliationLine[] = [];
+    let pending = 0;
+    let disputed = 0;
+    let counted = 0;
+
+    for (const [location, zone] of zones) {
+      const rounds = counts.get(location) || [];
+      const status = this.locationStatus(rounds);
+      const finalCount = this.finalCount(rounds);
+      const byProduct = expected.get(location) || new Map<string, number>();
+
+      if (status === "disputed") {
+        disputed++;
+      } else if (finalCount) {
+        counted++;
+      } else if (byProduct.size > 0 || rounds.length > 0) {
+        pending++;
+      }
+
+      const locationProducts = new Set([
+        ...byProduct.keys(),
+        ...rounds.flatMap((count) => count.lines.map((l) => l.productId)),
+      ]);
+
+      for (const productId of locationProducts) {
+        const product = productMap.get(productId);
+        const expectedQty = byProduct.get(productId) || 0;
+        const final = finalCount ? finalCount.quantityOf(productId) : null;
+        const difference =
+          final === null ? null : this.round(final - expectedQty);
+        const unitCost =
+          costs && product ? costs.get(product.odoo_product_id) ?? null : null;
+
+        lines.push({
+          location,
+          zone,
+          status,
+          productId,
+          reference: product?.reference || productId,
+          expected: expectedQty,
+          counts: [1, 2, 3].map((round) => {
+            const count = rounds.find((c) => c.round === round);
+            return count ? count.quantityOf(productId) : null;
+          }),
+          final,
+          difference,
+          unitCost,
+          valueImpact:
+            difference === null || unitCost === null
+              ? null
+              : Math.round(difference * unitCost * 100) / 100,
+        });
+      }
+    }
+
+    const withDifference = lines.filter(
+      (line) => line.difference !== null && line.difference !== 0
+    );
+
+    return {
+      sessionId: session.id,
+      lines,
+      summary: {
+        locations: zones.size,
+        counted,
+        pending,
+        disputed,
+        differences: withDifference.length,
+        unitsImpact: this.round(
+          withDifference.reduce((sum, line) => sum + line.difference!, 0)
+        ),
+        valueImpact: costs
+          ? Math.round(
+              withDifference.reduce(
+                (sum, line) => sum + (line.valueImpact || 0),
+                0
+              ) * 100
+            ) / 100
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Cerrar sesión: ajustar el stock a lo contado, descongelar las zonas y
+   * enviar el resultado a Odoo como un único ajuste de inventario
+   */
+  public static async closeSession(
+    sessionId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: InventorySession; reconciliation: Reconciliation }> {
+    const session = await this.requireOpenSession(sessionId);
+    const reconciliation = await this.getReconciliation(session.id);
+
+    if (reconciliation.summary.disputed > 0) {
+      throw new AppError(
+        `Hay ${reconciliation.summary.disputed} ubicaciones con conteos que no coinciden`,
+        409
+      );
+    }
+    if (reconciliation.summary.pending > 0) {
+      throw new AppError(
+        `Hay ${reconciliation.summary.pending} ubicaciones sin doble conteo`,
+        409
+      );
+    }
+
+    // Agrupar los ajustes por producto para registrar un movimiento por producto
+    const adjustments = new Map<string, ReconciliationLine[]>();
+    for (const line of reconciliation.lines) {
+      if (line.difference) {
+        const productLines = adjustments.get(line.productId) || [];
+        productLines.push(line);
+        adjustments.set(line.productId, productLines);
+      }
+    }
+
+    for (const [productId, productLines] of adjustments) {
+      const product = await Product.findByPk(productId);
+      if (!product) {
+        continue;
+      }
+
+      await sequelize.transaction(async (transaction) => {
+        const stockBefore = await StockMovementService.snapshot(
+          product,
+          transaction
+        );
+        for (const line of productLines) {
+          await ProductBinService.setQuantity(
+            product,
+            line.location,
+            line.final!,
+            false,
+            transaction
+          );
+        }
+
+        product.last_odoo_sync = new Date();
+        await product.save({ transaction });
+
+        await StockMovementService.record(
+          product,
+          stockBefore,
+          {
+            source: "count",
+            reasonCode: this.REASON_CODE,
+            reason: `Inventario físico ${session.name}`,
+            reference: session.id,
+            userId,
+            deviceId,
+          },
+          transaction
+        );
+      });
+      await CacheService.invalidateProduct(product.barcode);
+    }
+
+    session.status = "closed";
+    session.closed_by = userId;
+    session.closed_at = new Date();
+    await session.save();
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: "closed",
+        context: reconciliation.summary,
+      },
+      ipAddress
+    );
+
+    await this.postToOdoo(session, userId, deviceId, ipAddress);
+
+    return { session, reconciliation };
+  }
+
+  /**
+   * Reintentar el envío a Odoo de una sesión cerrada
+   */
+  public static async retryOdooPost(
+    sessionId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<InventorySession> {
+    const session = await this.requireSession(sessionId);
+
+    if (session.status !== "closed") {
+      throw new AppError("La sesión no está cerrada", 409);
+    }
+    if (session.odoo_inventory_id) {
+      throw new AppError("El ajuste ya está registrado en Odoo", 409);
+    }
+
+    return this.postToOdoo(session, userId, deviceId, ipAddress);
+  }
+
+  /**
+   * Cancelar sesión sin ajustar el stock (descongela las zonas)
+   */
+  public static async cancelSession(
+    sessionId: string,
+    reason: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<InventorySession> {
+    const session = await this.requireOpenSession(sessionId);
+
+    session.status = "cancelled";
+    session.closed_by = userId;
+    session.closed_at = new Date();
+    await session.save();
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: "cancelled",
+        context: { reason },
+      },
+      ipAddress
+    );
+
+    return session;
+  }
+
+  /**
+   * Rechazar escrituras en ubicaciones de zonas congeladas por un
+   * inventario abierto
+   */
+  public static async assertNotFrozen(
+    codes: Array<string | null | undefined>
+  ): Promise<void> {
+    const frozen = await this.getFrozenCodes(
+      codes.filter((code): code is string => !!code)
+    );
+
+    const [first] = frozen;
+    if (first) {
+      const [code, session] = first;
+      throw new AppError(
+        `La ubicación ${code} está congelada por el inventario ${session.name}`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Ubicaciones congeladas dentro de una lista, con su sesión
+   */
+  public static async getFrozenCodes(
+    codes: string[]
+  ): Promise<Map<string, InventorySession>> {
+    const frozen = new Map<string, InventorySession>();
+    if (codes.length === 0) {
+      return frozen;
+    }
+
+    const sessions = await InventorySession.findAll({
+      where: { status: "open" },
+    });
+    if (sessions.length === 0) {
+      return frozen;
+    }
+
+    const zones = await LocationService.zonesFor([...new Set(codes)]);
+    for (const [code, zone] of zones) {
+      const session = sessions.find((s) => s.zones.includes(zone));
+      if (session) {
+        frozen.set(code, session);
+      }
+    }
+
+    return frozen;
+  }
+
+  /**
+   * Enviar a Odoo el stock final de los productos ajustados
+   */
+  private static async postToOdoo(
+    session: InventorySession,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<InventorySession> {
+    const movements = await StockMovement.findAll({
+      attributes: ["product_id"],
+      where: {
+        reference: session.id,
+        reason_code: this.REASON_CODE,
+      },
+      group: ["product_id"],
+    });
+    const products = await Product.findAll({
+      where: { id: { [Op.in]: movements.map((m) => m.product_id) } },
+    });
+
+    if (products.length === 0) {
+      session.odoo_error = null;
+      await session.save();
+      return session;
+    }
+
+    const odooConnector = new OdooConnectorService();
+    const response = await odooConnector.postInventoryAdjustment(
+      `Inventario físico ${session.name}`,
+      products.map((product) => ({
+        productId: product.odoo_product_id,
+        quantity: Number(product.stock),
+      }))
+    );
+
+    if (response.success) {
+      session.odoo_inventory_id = response.data!;
+      session.odoo_error = null;
+    } else {
+      session.odoo_error = response.error || "Error desconocido";
+    }
+    await session.save();
+
+    await auditLogger.logInventorySessionOperation(
+      userId,
+      deviceId,
+      {
+        sessionId: session.id,
+        action: response.success ? "odoo_posted" : "odoo_failed",
+        context: {
+          products: products.length,
+          odooInventoryId: session.odoo_inventory_id,
+          error: session.odoo_error,
+        },
+      },
+      ipAddress
+    );
+
+    return session;
+  }
+
+  /**
+   * Ubicaciones de la sesión con su zona: las del maestro y las que tienen
+   * stock aunque no estén dadas de alta
+   */
+  private static async sessionLocations(
+    session: InventorySession
+  ): Promise<Map<string, string>> {
+    const [locations, bins] = await Promise.all([
+      Location.findAll({
+        attributes: ["code"],
+        where: { zone: { [Op.in]: session.zones } },
+      }),
+      ProductBin.findAll({ attributes: ["location"] }),
+    ]);
+
+    const zones = await LocationService.zonesFor([
+      ...new Set([
+        ...locations.map((location) => location.code),
+        ...bins.map((bin) => bin.location),
+      ]),
+    ]);
+
+    return new Map(
+      [...zones.entries()].filter(([, zone]) => session.zones.includes(zone))
+    );
+  }
+
+  /**
+   * Conteos de la sesión agrupados por ubicación
+   */
+  private static async countsByLocation(
+    sessionId: string
+  ): Promise<Map<string, InventoryCount[]>> {
+    const counts = await InventoryCount.findAll({
+      where: { session_id: sessionId },
+      order: [["round", "ASC"]],
+    });
+
+    const byLocation = new Map<string, InventoryCount[]>();
+    for (const count of counts) {
+      const rounds = byLocation.get(count.location) || [];
+      rounds.push(count);
+      byLocation.set(count.location, rounds);
+    }
+    return byLocation;
+  }
+
+  /**
+   * Estado de una ubicación según sus conteos
+   */
+  private static locationStatus(
+    rounds: InventoryCount[]
+  ): InventoryLocationStatus {
+    if (rounds.length === 0) {
+      return "pending";
+    }
+    if (rounds.length === 1) {
+      return "second_count";
+    }
+    if (rounds.length >= this.MAX_ROUND) {
+      return "resolved";
+    }
+    return this.countsMatch(rounds[0], rounds[1]) ? "agreed" : "disputed";
+  }
+
+  /**
+   * Conteo que da el resultado de la ubicación (null si aún no lo hay)
+   */
+  private static finalCount(rounds: InventoryCount[]): InventoryCount | null {
+    const status = this.locationStatus(rounds);
+    if (status === "agreed") {
+      return rounds[0];
+    }
+    if (status === "resolved") {
+      return rounds[this.MAX_ROUND - 1];
+    }
+    return null;
+  }
+
+  /**
+   * Siguiente vuelta de conteo de una ubicación o fallar si ya está cerrada
+   */
+  private static nextRound(previous: InventoryCount[], userId: string): number {
+    const status = this.locationStatus(previous);
+
+    if (status === "agreed" || status === "resolved") {
+      throw new AppError("La ubicación ya está contada", 409);
+    }
+    if (status === "second_count" && previous[0].counted_by === userId) {
+      throw new AppError("El segundo conteo debe hacerlo otro operario", 409);
+    }
+
+    return previous.length + 1;
+  }
+
+  /**
+   * Comprobar si dos conteos coinciden en todos los productos
+   */
+  private static countsMatch(a: InventoryCount, b: InventoryCount): boolean {
+    const productIds = new Set([
+      ...a.lines.map((line) => line.productId),
+      ...b.lines.map((line) => line.productId),
+    ]);
+    return [...productIds].every(
+      (productId) => a.quantityOf(productId) === b.quantityOf(productId)
+    );
+  }
+
+  /**
+   * Coste estándar de Odoo por producto (null si Odoo no responde)
+   */
+  private static async getCosts(
+    products: Product[]
+  ): Promise<Map<number, number> | null> {
+    const odooConnector = new OdooConnectorService();
+    const response = await odooConnector.getProductCosts(
+      products.map((product) => product.odoo_product_id)
+    );
+
+    if (!response.success) {
+      logger.warn("Conciliación sin valoración: costes no disponibles", {
+        error: response.error,
+      });
+      return null;
+    }
+
+    return new Map(
+      response.data!.map((cost) => [cost.id, Number(cost.standard_price)])
+    );
+  }
+
+  /**
+   * Obtener sesión abierta o fallar
+   */
+  private static async requireOpenSession(
+    sessionId: string
+  ): Promise<InventorySession> {
+    const session = await this.requireSession(sessionId);
+    if (!session.isOpen()) {
+      throw new AppError("La sesión de inventario ya está cerrada", 409);
+    }
+    return session;
+  }
+
+  /**
+   * Sesiones abiertas que incluyen alguna de las zonas
+   */
+  private static async findOpenSessions(
+    zones: string[]
+  ): Promise<InventorySession[]> {
+    const sessions = await InventorySession.findAll({
+      where: { status: "open" },
+    });
+    return sessions.filter((session) =>
+      session.zones.some((zone) => zones.includes(zone))
+    );
+  }
+
+  /**
+   * Normalizar zonas (mayúsculas, sin repetir)
+   */
+  private static cleanZones(zones: string[]): string[] {
+    const cleaned = [
+      ...new Set(zones.map((zone) => zone.trim().toUpperCase())),
+    ].filter((zone) => zone.length > 0);
+
+    if (cleaned.length === 0) {
+      throw new AppError("Debe indicar al menos una zona", 400);
+    }
+    return cleaned;
+  }
+
+  /**
+   * Normalizar equipos: sus zonas deben pertenecer a la sesión
+   */
+  private static cleanTeams(
+    teams: InventoryTeam[],
+    zones: string[]
+  ): InventoryTeam[] {
+    return teams.map((team) => {
+      const teamZones = [
+        ...new Set(team.zones.map((zone) => zone.trim().toUpperCase())),
+      ];
+      const unknown = teamZones.filter((zone) => !zones.includes(zone));
+      if (unknown.length > 0) {
+        throw new AppError(
+          `El equipo ${
+            team.name
+          } tiene zonas fuera del inventario: ${unknown.join(", ")}`,
+          400
+        );
+      }
+
+      return {
+        name: team.name.trim(),
+        zones: teamZones,
+        members: [...new Set(team.members)],
+      };
+    });
+  }
+
+  /**
+   * Redondear a la precisión del stock (3 decimales)
+   */
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export {
+  InventoryLocationStatus,
+  InventorySessionData,
+  InventoryCountSubmission,
+  InventoryLocationSheet,
+  ReconciliationLine,
+  Reconciliation,
+};
@@ -2,6 +2,8 @@
 import { Op } from "sequelize";
 import ProductLabel from "../models/ProductLabel";
 import Product from "../models/Product";
+import { ProductBinService } from "./product-bin.service";
+import { LocationValidator } from "../utils/location.validator";
 import { auditLogger } from "../utils/audit-logger";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/error.middleware";
@@ -42,13 +44,15 @@ interface LabelPrintJob {
 
 export class LabelService {
   /**
-   * Crear o actualizar etiqueta para un producto
+   * Crear o actualizar etiqueta para una ubicación de un producto
+   * (por defecto la de picking)
    */
   public static async createOrUpdateLabel(
     productId: string,
     userId: string,
     deviceId: string,
-    ipAddress?: string
+    ipAddress?: string,
+    location?: string
   ): Promise<ProductLabel> {
     try {
       // Obtener producto
@@ -57,17 +61,30 @@ export class LabelService {
         throw new AppError("Producto no encontrado", 404);
       }
 
-      if (!product.location) {
+      const labelLocation = location
+        ? LocationValidator.validateAndClean(location)
+        : product.location;
+
+      if (!labelLocation) {
         throw new AppError(
           "El producto debe tener una ubicación para generar etiqueta",
           400
         );
       }
 
-      // Buscar etiqueta existente para este producto y usuario
+      const bins = await ProductBinService.getBins(product);
+      if (location && !bins.some((bin) => bin.location === labelLocation)) {
+        throw new AppError(
+          `El producto no tiene stock en la ubicación ${labelLocation}`,
+          400
+        );
+      }
+
+      // Buscar etiqueta existente para esta ubicación y usuario
       let label = await ProductLabel.findOne({
         where: {
           product_id: productId,
+          location: labelLocation,
           created_by: userId,
         },
       });
@@ -79,7 +96,6 @@ export class LabelService {
         label.barcode = product.barcode;
         label.reference = product.reference;
         label.description = product.description;
-        label.location = product.location;
         label.device_identifier = deviceId;
         label.is_printed = false; // Resetear estado de impresión
         label.printed_at = null;
@@ -98,7 +114,7 @@ export class LabelService {
           barcode: product.barcode,
           reference: product.reference,
           description: product.description,
-          location: product.location,
+          location: labelLocation,
           created_by: userId,
           device_identifier: deviceId,
         });
@@ -117,7 +133,7 @@ export class LabelService {
         {
           barcode: product.barcode,
           reference: product.reference,
-          location: product.location,
+          location: labelLocation,
           action: isUpdate ? "created" : "created", // Ambos se consideran "created" en auditoría
         },
         ipAddress
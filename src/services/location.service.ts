@@ -0,0 +1,624 @@
+// src/services/location.service.ts
+import { Op } from "sequelize";
+import Location, { LocationType } from "../models/Location";
+import ProductBin from "../models/ProductBin";
+import Product from "../models/Product";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface LocationData {
+  code: string;
+  zone?: string;
+  type?: LocationType;
+  capacity?: number | null;
+}
+
+interface LocationUpdateData {
+  zone?: string;
+  type?: LocationType;
+  capacity?: number | null;
+}
+
+interface BulkLocationData {
+  range: string; // A01-A20 o A01-C20 (pasillo + bloque)
+  levels?: string; // 0-5; por defecto todos los niveles del esquema
+  zone?: string;
+  type?: LocationType;
+  capacity?: number | null;
+}
+
+interface LocationFilters {
+  zone?: string;
+  type?: LocationType;
+  blocked?: boolean;
+  empty?: boolean;
+  limit?: number;
+}
+
+interface LocationOccupancy {
+  products: number;
+  quantity: number;
+}
+
+interface LocationSummary {
+  code: string;
+  zone: string;
+  type: LocationType;
+  capacity: number | null;
+  isBlocked: boolean;
+  blockedReason: string | null;
+  occupancy: LocationOccupancy;
+}
+
+export class LocationService {
+  private static readonly MAX_BULK_LOCATIONS = 5000;
+  private static readonly LEVELS_REGEX = /^(\d+)-(\d+)$/;
+
+  /**
+   * Listar ubicaciones con su ocupación
+   */
+  public static async listLocations(
+    filters: LocationFilters = {}
+  ): Promise<LocationSummary[]> {
+    const where: any = {};
+    if (filters.zone) {
+      where.zone = filters.zone;
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+    if (filters.blocked !== undefined) {
+      where.is_blocked = filters.blocked;
+    }
+
+    const locations = await Location.findAll({
+      where,
+      order: [["code", "ASC"]],
+    });
+
+    const occupancy = await this.getOccupancy(locations.map((l) => l.code));
+    let summaries = locations.map((location) =>
+      this.summarize(location, occupancy.get(location.code))
+    );
+
+    if (filters.empty !== undefined) {
+      summaries = summaries.filter(
+        (s) => (s.occupancy.quantity === 0) === filters.empty
+      );
+    }
+
+    return summaries.slice(0, filters.limit || 500);
+  }
+
+  /**
+   * Obtener ubicación con su contenido
+   */
+  public static async getLocation(code: string): Promise<{
+    location: LocationSummary;
+    contents: Array<{
+      productId: string;
+      reference: string;
+      description: string;
+      quantity: number;
+    }>;
+  }> {
+    const location = await this.requireLocation(code);
+
+    const occupancy = await this.getOccupancy([location.code]);
+    const bins = await ProductBin.findAll({
+      where: { location: location.code },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: ["id", "reference", "description"],
+        },
+      ],
+    });
+
+    return {
+      location: this.summarize(location, occupancy.get(location.code)),
+      contents: bins.map((bin) => ({
+        productId: bin.product_id,
+        reference: bin.product?.reference || "",
+        description: bin.product?.description || "",
+        quantity: Number(bin.quantity),
+      })),
+    };
+  }
+
+  /**
+   * Buscar ubicación en el maestro
+   */
+  public static async findByCode(code: string): Promise<Location | null> {
+    return Location.findOne({ where: { code: LocationValidator.clean(code) } });
+  }
+
+  /**
+   * Rechazar movimientos de stock hacia una ubicación que no está dada de
+   * alta en el maestro o está bloqueada
+   */
+  public static async assertUsable(code: string): Promise<void> {
+    const location = await this.findByCode(code);
+    if (!location) {
+      throw new AppError(
+        `La ubicación ${code} no está dada de alta en el maestro de ubicaciones`,
+        400
+      );
+    }
+    if (!location.isUsable()) {
+      throw new AppError(
+        `La ubicación ${location.code} está bloqueada: ${
+          location.blocked_reason || "sin motivo"
+        }`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Códigos bloqueados dentro de una lista
+   */
+  public static async getBlockedCodes(codes: string[]): Promise<Set<string>> {
+    if (codes.length === 0) {
+      return new Set();
+    }
+
+    const blocked = await Location.findAll({
+      where: { code: { [Op.in]: codes }, is_blocked: true },
+      attributes: ["code"],
+    });
+    return new Set(blocked.map((l) => l.code));
+  }
+
+  /**
+   * Zona de cada ubicación: la del maestro o, si no está dada de alta,
+   * su pasillo
+   */
+  public static async zonesFor(codes: string[]): Promise<Map<string, string>> {
+    const zones = new Map<string, string>();
+    if (codes.length === 0) {
+      return zones;
+    }
+
+    const locations = await Location.findAll({
+      where: { code: { [Op.in]: codes } },
+      attributes: ["code", "zone"],
+    });
+    for (const location of locations) {
+      zones.set(location.code, location.zone);
+    }
+    for (const code of codes) {
+      if (!zones.has(code) && LocationValidator.validate(code)) {
+        zones.set(code, this.defaultZone(code));
+      }
+    }
+
+    return zones;
+  }
+
+  /**
+   * Dar de alta una ubicación
+   */
+  public static async createLocation(
+    data: LocationData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<Location> {
+    const code = LocationValidator.validateAndClean(data.code);
+
+    const existing = await Location.findOne({ where: { code } });
+    if (existing) {
+      throw new AppError(`La ubicación ${code} ya existe`, 409);
+    }
+
+    const location = await Location.create({
+      code,
+      zone: data.zone?.trim().toUpperCase() || this.defaultZone(code),
+      type: data.type || "pick_face",
+      capacity: data.capacity ?? null,
+      created_by: userId,
+    });
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      {
+        code,
+        action: "created",
+        context: { zone: location.zone, type: location.type },
+      },
+      ipAddress
+    );
+
+    return location;
+  }
+
+  /**
+   * Generar ubicaciones para un rango de pasillos/bloques y niveles.
+   * Las que ya existen se omiten.
+   */
+  public static async bulkCreate(
+    data: BulkLocationData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ created: string[]; skipped: string[] }> {
+    const { min, max } = LocationValidator.levelRange();
+    const levels = data.levels || `${min}-${max}`;
+    const codes = this.expandRange(data.range, levels);
+    const zone = data.zone?.trim().toUpperCase();
+
+    const existing = await Location.findAll({
+      where: { code: { [Op.in]: codes } },
+      attributes: ["code"],
+    });
+    const existingCodes = new Set(existing.map((l) => l.code));
+    const toCreate = codes.filter((code) => !existingCodes.has(code));
+
+    await Location.bulkCreate(
+      toCreate.map((code) => ({
+        code,
+        zone: zone || this.defaultZone(code),
+        type: data.type || "pick_face",
+        capacity: data.capacity ?? null,
+        created_by: userId,
+      }))
+    );
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      {
+        action: "bulk_created",
+        count: toCreate.length,
+        context: {
+          range: data.range,
+          levels,
+          type: data.type,
+          skipped: existingCodes.size,
+        },
+      },
+      ipAddress
+    );
+
+    logger.info(`Ubicaciones generadas: ${toCreate.length}`, {
+      range: data.range,
+      levels,
+      skipped: existingCodes.size,
+      userId,
+    });
+
+    return {
+      created: toCreate,
+      skipped: codes.filter((code) => existingCodes.has(code)),
+    };
+  }
+
+  /**
+   * Modificar zona, tipo o capacidad
+   */
+  public static async updateLocation(
+    code: string,
+    data: LocationUpdateData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<Location> {
+    const location = await this.requireLocation(code);
+
+    if (data.zone !== undefined) {
+      location.zone = data.zone.trim().toUpperCase();
+    }
+    if (data.type !== undefined) {
+      location.type = data.type;
+    }
+    if (data.capacity !== undefined) {
+      location.capacity = data.capacity;
+    }
+    await location.save();
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      { code: location.code, action: "updated", context: data },
+      ipAddress
+    );
+
+    return location;
+  }
+
+  /**
+   * Bloquear ubicación (mantenimiento, incidencia...)
+   */
+  public static async blockLocation(
+    code: string,
+    reason: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<Location> {
+    const location = await this.requireLocation(code);
+
+    location.is_blocked = true;
+    location.blocked_reason = reason;
+    location.blocked_by = userId;
+    location.blocked_at = new Date();
+    await location.save();
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      { code: location.code, action: "blocked", context: { reason } },
+      ipAddress
+    );
+
+    return location;
+  }
+
+  /**
+   * Desbloquear ubicación
+   */
+  public static async unblockLocation(
+    code: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<Location> {
+    const location = await this.requireLocation(code);
+    if (!location.is_blocked) {
+      throw new AppError(
+        `La ubicación ${location.code} no está bloqueada`,
+        409
+      );
+    }
+
+    const previousReason = location.blocked_reason;
+    location.is_blocked = false;
+    location.blocked_reason = null;
+    location.blocked_by = null;
+    location.blocked_at = null;
+    await location.save();
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      {
+        code: location.code,
+        action: "unblocked",
+        context: { previousReason },
+      },
+      ipAddress
+    );
+
+    return location;
+  }
+
+  /**
+   * Eliminar ubicación vacía
+   */
+  public static async deleteLocation(
+    code: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    const location = await this.requireLocation(code);
+
+    const occupancy = (await this.getOccupancy([location.code])).get(
+      location.code
+    );
+    if (occupancy && occupancy.quantity > 0) {
+      throw new AppError(
+        `La ubicación ${location.code} tiene stock de ${occupancy.products} producto(s)`,
+        409
+      );
+    }
+
+    await location.destroy();
+
+    await auditLogger.logLocationOperation(
+      userId,
+      deviceId,
+      { code: location.code, action: "deleted" },
+      ipAddress
+    );
+  }
+
+  /**
+   * Stock por ubicación: ubicaciones del stock por ubicación más los
+   * productos con ubicación única que aún no se han migrado
+   */
+  public static async getOccupancy(
+    codes: string[]
+  ): Promise<Map<string, LocationOccupancy>> {
+    const occupancy = new Map<string, LocationOccupancy>();
+    if (codes.length === 0) {
+      return occupancy;
+    }
+
+    const add = (code: string, quantity: number) => {
+      const current = occupancy.get(code) || { products: 0, quantity: 0 };
+      current.products += 1;
+      current.quantity =
+        Math.round((current.quantity + quantity) * 1000) / 1000;
+      occupancy.set(code, current);
+    };
+
+    const bins = await ProductBin.findAll({
+      where: { location: { [Op.in]: codes }, quantity: { [Op.gt]: 0 } },
+      attributes: ["product_id", "location", "quantity"],
+    });
+    const binned = new Set(bins.map((b) => `${b.product_id}:${b.location}`));
+    for (const bin of bins) {
+      add(bin.location, Number(bin.quantity));
+    }
+
+    const products = await Product.findAll({
+      where: {
+        location: { [Op.in]: codes },
+        status: "active",
+        stock: { [Op.gt]: 0 },
+      },
+      attributes: ["id", "location", "stock"],
+    });
+    for (const product of products) {
+      if (!binned.has(`${product.id}:${product.location}`)) {
+        add(product.location!, Number(product.stock));
+      }
+    }
+
+    return occupancy;
+  }
+
+  /**
+   * Expandir un rango (A01-A20) y niveles (0-5) en códigos de ubicación.
+   * Si el esquema define posiciones se generan todas las de cada nivel.
+   */
+  public static expandRange(range: string, levels: string): string[] {
+    const schema = LocationValidator.schema;
+    const aisleSegment = schema.get("aisle")!;
+    const blockSegment = schema.get("block")!;
+    const positionSegment = schema.get("position");
+
+    const [from, to] = range.trim().toUpperCase().split("-");
+    const fromBound = this.parseRangeBound(from);
+    const toBound = this.parseRangeBound(to);
+    if (!fromBound || !toBound) {
+      throw new AppError(
+        `Rango inválido. Formato: pasillo + bloque, p. ej. ${aisleSegment.min}${blockSegment.min}-${aisleSegment.min}${blockSegment.max}`,
+        400
+      );
+    }
+
+    const levelsMatch = this.LEVELS_REGEX.exec(levels.trim());
+    const { min, max } = LocationValidator.levelRange();
+    if (!levelsMatch) {
+      throw new AppError(`Niveles inválidos. Formato: ${min}-${max}`, 400);
+    }
+
+    const firstLevel = parseInt(levelsMatch[1]);
+    const lastLevel = parseInt(levelsMatch[2]);
+    if (firstLevel < min || lastLevel > max) {
+      throw new AppError(`Los niveles deben estar entre ${min} y ${max}`, 400);
+    }
+
+    if (
+      fromBound.aisle > toBound.aisle ||
+      fromBound.block > toBound.block ||
+      firstLevel > lastLevel
+    ) {
+      throw new AppError(
+        "El inicio del rango debe ser menor que el final",
+        400
+      );
+    }
+
+    const aisles = schema.values(aisleSegment, fromBound.aisle, toBound.aisle);
+    const blocks = schema.values(blockSegment, fromBound.block, toBound.block);
+    const positions: Array<string | null> = positionSegment
+      ? schema.values(positionSegment)
+      : [null];
+
+    const total =
+      aisles.length *
+      blocks.length *
+      (lastLevel - firstLevel + 1) *
+      positions.length;
+    if (total > this.MAX_BULK_LOCATIONS) {
+      throw new AppError(
+        `El rango genera ${total} ubicaciones (máximo ${this.MAX_BULK_LOCATIONS})`,
+        400
+      );
+    }
+
+    const codes: string[] = [];
+    for (const aisle of aisles) {
+      for (const block of blocks) {
+        for (let level = firstLevel; level <= lastLevel; level++) {
+          for (const position of positions) {
+            codes.push(
+              LocationValidator.buildLocation(aisle, block, level, position)
+            );
+          }
+        }
+      }
+    }
+
+    return codes;
+  }
+
+  /**
+   * Descomponer un extremo del rango (pasillo + bloque)
+   */
+  private static parseRangeBound(
+    value: string | undefined
+  ): { aisle: string; block: string } | null {
+    const schema = LocationValidator.schema;
+    const aisleSegment = schema.get("aisle")!;
+    const blockSegment = schema.get("block")!;
+
+    if (!value || value.length !== aisleSegment.length + blockSegment.length) {
+      return null;
+    }
+
+    const aisle = value.substring(0, aisleSegment.length);
+    const block = value.substring(aisleSegment.length);
+    if (
+      !schema.inRange(aisleSegment, aisle) ||
+      !schema.inRange(blockSegment, block)
+    ) {
+      return null;
+    }
+
+    return { aisle, block };
+  }
+
+  /**
+   * Zona por defecto: el pasillo
+   */
+  private static defaultZone(code: string): string {
+    return LocationValidator.parseLocation(code).aisle;
+  }
+
+  /**
+   * Resumen para las respuestas de la API
+   */
+  private static summarize(
+    location: Location,
+    occupancy?: LocationOccupancy
+  ): LocationSummary {
+    return {
+      code: location.code,
+      zone: location.zone,
+      type: location.type,
+      capacity: location.capacity !== null ? Number(location.capacity) : null,
+      isBlocked: location.is_blocked,
+      blockedReason: location.blocked_reason,
+      occupancy: occupancy || { products: 0, quantity: 0 },
+    };
+  }
+
+  /**
+   * Obtener ubicación o fallar
+   */
+  private static async requireLocation(code: string): Promise<Location> {
+    const location = await this.findByCode(code);
+    if (!location) {
+      throw new AppError(`Ubicación ${code} no encontrada`, 404);
+    }
+    return location;
+  }
+}
+
+export {
+  LocationData,
+  LocationUpdateData,
+  BulkLocationData,
+  LocationFilters,
+  LocationOccupancy,
+  LocationSummary,
+};
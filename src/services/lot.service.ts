@@ -0,0 +1,542 @@
+// src/services/lot.service.ts
+import { Op, Transaction } from "sequelize";
+import Product from "../models/Product";
+import ProductLot from "../models/ProductLot";
+import { redis } from "../config/redis";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type TrackingType = "none" | "lot" | "serial";
+
+interface LotQuantity {
+  lotNumber: string;
+  quantity: number;
+  expiryDate?: string | null; // YYYY-MM-DD
+}
+
+interface LotLocation {
+  lotNumber: string;
+  location: string | null;
+  quantity: number;
+  expiryDate: string | null;
+  daysToExpiry: number | null;
+  expired: boolean;
+  odooLotId: number | null;
+  updatedAt: Date;
+  product: {
+    id: string;
+    barcode: string;
+    reference: string;
+    description: string;
+    tracking: TrackingType;
+  } | null;
+}
+
+interface ExpiryAlert {
+  generatedAt: string;
+  days: number;
+  expired: LotLocation[];
+  expiring: LotLocation[];
+}
+
+export class LotService {
+  private static readonly EXPIRY_ALERT_KEY = "colocacion:expiry:alert";
+  private static readonly EXPIRY_ALERT_TTL = 86400; // 24 horas
+  private static readonly EXPIRY_ALERT_DAYS = 7;
+
+  /**
+   * Verificar si un tipo de trazabilidad exige lote / número de serie
+   */
+  public static requiresTracking(tracking?: string | null): boolean {
+    return tracking === "lot" || tracking === "serial";
+  }
+
+  /**
+   * Validar y normalizar los lotes indicados para un producto con trazabilidad
+   */
+  public static validateLots(
+    tracking: TrackingType,
+    lots: LotQuantity[] | undefined,
+    productName: string,
+    expectedTotal?: number
+  ): LotQuantity[] {
+    if (!lots || lots.length === 0) {
+      throw new AppError(
+        tracking === "serial"
+          ? `El producto ${productName} requiere indicar los números de serie`
+          : `El producto ${productName} requiere indicar el lote`,
+        400
+      );
+    }
+
+    const normalized = lots.map((lot) => ({
+      lotNumber: lot.lotNumber.trim(),
+      quantity: Number(lot.quantity),
+      expiryDate: this.normalizeExpiryDate(lot.expiryDate),
+    }));
+
+    const seen = new Set<string>();
+    for (const lot of normalized) {
+      if (!lot.lotNumber) {
+        throw new AppError("El número de lote no puede estar vacío", 400);
+      }
+
+      if (lot.quantity <= 0) {
+        throw new AppError(
+          `La cantidad del lote ${lot.lotNumber} debe ser mayor que cero`,
+          400
+        );
+      }
+
+      if (tracking === "serial" && lot.quantity !== 1) {
+        throw new AppError(
+          `El número de serie ${lot.lotNumber} solo puede tener cantidad 1`,
+          400
+        );
+      }
+
+      if (seen.has(lot.lotNumber)) {
+        throw new AppError(`Lote duplicado: ${lot.lotNumber}`, 400);
+      }
+      seen.add(lot.lotNumber);
+    }
+
+    if (expectedTotal !== undefined) {
+      const total = normalized.reduce((sum, lot) => sum + lot.quantity, 0);
+      if (Math.abs(total - expectedTotal) > 0.0005) {
+        throw new AppError(
+          `La suma de los lotes (${total}) no coincide con la cantidad (${expectedTotal})`,
+          400
+        );
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Comprobar que un número de serie no está ya en stock
+   */
+  public static async assertSerialAvailable(
+    productId: string,
+    serialNumber: string
+  ): Promise<void> {
+    const existing = await ProductLot.findOne({
+      where: {
+        product_id: productId,
+        lot_number: serialNumber,
+        quantity: { [Op.gt]: 0 },
+      },
+    });
+
+    if (existing) {
+      throw new AppError(
+        `El número de serie ${serialNumber} ya está registrado en stock`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Registrar lotes recibidos (pendientes de colocar, sin ubicación)
+   */
+  public static async registerReceivedLots(
+    product: Product,
+    lots: LotQuantity[],
+    userId: string,
+    odooLotIds: Record<string, number> = {}
+  ): Promise<void> {
+    for (const lot of lots) {
+      const odooLotId = odooLotIds[lot.lotNumber] || null;
+      const existing = await ProductLot.findOne({
+        where: {
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          location: null,
+        },
+      });
+
+      if (existing) {
+        existing.quantity = Number(existing.quantity) + lot.quantity;
+        existing.expiry_date = lot.expiryDate || existing.expiry_date;
+        existing.odoo_lot_id = odooLotId || existing.odoo_lot_id;
+        await existing.save();
+      } else {
+        await ProductLot.create({
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          location: null,
+          quantity: lot.quantity,
+          expiry_date: lot.expiryDate || null,
+          odoo_lot_id: odooLotId,
+          created_by: userId,
+        });
+      }
+    }
+
+    logger.info(`Lotes recibidos registrados: ${product.reference}`, {
+      productId: product.id,
+      lots: lots.map((lot) => lot.lotNumber),
+      userId,
+    });
+  }
+
+  /**
+   * Mover lotes a una nueva ubicación.
+   * Descuenta primero de la ubicación anterior, después de los pendientes de
+   * colocar y por último de cualquier otra ubicación con existencias.
+   */
+  public static async assignLotsToLocation(
+    product: Product,
+    lots: LotQuantity[],
+    fromLocation: string | null,
+    toLocation: string,
+    userId: string
+  ): Promise<void> {
+    for (const lot of lots) {
+      const sources = await ProductLot.findAll({
+        where: {
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          quantity: { [Op.gt]: 0 },
+          [Op.or]: [{ location: { [Op.ne]: toLocation } }, { location: null }],
+        },
+      });
+
+      const priority = (row: ProductLot) =>
+        row.location === fromLocation ? 0 : row.location === null ? 1 : 2;
+      sources.sort((a, b) => priority(a) - priority(b));
+
+      let remaining = lot.quantity;
+      let odooLotId: number | null = null;
+      let expiryDate = lot.expiryDate || null;
+      for (const source of sources) {
+        if (remaining <= 0) {
+          break;
+        }
+
+        const taken = Math.min(Number(source.quantity), remaining);
+        source.quantity = Number(source.quantity) - taken;
+        odooLotId = odooLotId || source.odoo_lot_id;
+        expiryDate = expiryDate || source.expiry_date;
+        remaining -= taken;
+        await source.save();
+      }
+
+      if (remaining > 0) {
+        logger.warn(
+          `Lote ${lot.lotNumber} colocado sin existencias previas registradas`,
+          { productId: product.id, missing: remaining }
+        );
+      }
+
+      const target = await ProductLot.findOne({
+        where: {
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          location: toLocation,
+        },
+      });
+
+      if (target) {
+        target.quantity = Number(target.quantity) + lot.quantity;
+        target.expiry_date = expiryDate || target.expiry_date;
+        target.odoo_lot_id = target.odoo_lot_id || odooLotId;
+        await target.save();
+      } else {
+        await ProductLot.create({
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          location: toLocation,
+          quantity: lot.quantity,
+          expiry_date: expiryDate,
+          odoo_lot_id: odooLotId,
+          created_by: userId,
+        });
+      }
+    }
+
+    logger.info(`Lotes colocados en ${toLocation}: ${product.reference}`, {
+      productId: product.id,
+      fromLocation,
+      lots: lots.map((lot) => lot.lotNumber),
+      userId,
+    });
+  }
+
+  /**
+   * Trasladar todos los lotes de una ubicación a otra (movimiento masivo).
+   * Devuelve las cantidades trasladadas para poder revertirlo.
+   */
+  public static async relocateLots(
+    product: Product,
+    fromLocation: string,
+    toLocation: string,
+    transaction?: Transaction
+  ): Promise<LotQuantity[]> {
+    const sources = await ProductLot.findAll({
+      where: {
+        product_id: product.id,
+        location: fromLocation,
+        quantity: { [Op.gt]: 0 },
+      },
+      transaction,
+    });
+
+    const moved: LotQuantity[] = [];
+    for (const source of sources) {
+      const quantity = Number(source.quantity);
+      const target = await ProductLot.findOne({
+        where: {
+          product_id: product.id,
+          lot_number: source.lot_number,
+          location: toLocation,
+        },
+        transaction,
+      });
+
+      if (target) {
+        target.quantity = Number(target.quantity) + quantity;
+        target.expiry_date = target.expiry_date || source.expiry_date;
+        target.odoo_lot_id = target.odoo_lot_id || source.odoo_lot_id;
+        await target.save({ transaction });
+
+        source.quantity = 0;
+        await source.save({ transaction });
+      } else {
+        source.location = toLocation;
+        await source.save({ transaction });
+      }
+
+      moved.push({
+        lotNumber: source.lot_number,
+        quantity,
+        expiryDate: source.expiry_date,
+      });
+    }
+
+    return moved;
+  }
+
+  /**
+   * Descontar lotes que salen del almacén (preparación de pedidos).
+   * Descuenta primero de la ubicación indicada y después de cualquier otra.
+   */
+  public static async removeLots(
+    product: Product,
+    lots: LotQuantity[],
+    location: string | null
+  ): Promise<void> {
+    for (const lot of lots) {
+      const sources = await ProductLot.findAll({
+        where: {
+          product_id: product.id,
+          lot_number: lot.lotNumber,
+          quantity: { [Op.gt]: 0 },
+        },
+      });
+      sources.sort(
+        (a, b) =>
+          (a.location === location ? 0 : 1) - (b.location === location ? 0 : 1)
+      );
+
+      let remaining = lot.quantity;
+      for (const source of sources) {
+        if (remaining <= 0) {
+          break;
+        }
+
+        const taken = Math.min(Number(source.quantity), remaining);
+        source.quantity = Number(source.quantity) - taken;
+        remaining -= taken;
+        await source.save();
+      }
+
+      if (remaining > 0) {
+        logger.warn(
+          `Lote ${lot.lotNumber} preparado sin existencias registradas`,
+          { productId: product.id, location, missing: remaining }
+        );
+      }
+    }
+  }
+
+  /**
+   * Buscar dónde se encuentra un lote / número de serie
+   */
+  public static async findByLotNumber(
+    lotNumber: string
+  ): Promise<LotLocation[]> {
+    const rows = await ProductLot.findAll({
+      where: {
+        lot_number: lotNumber.trim(),
+        quantity: { [Op.gt]: 0 },
+      },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: ["id", "barcode", "reference", "description", "tracking"],
+        },
+      ],
+      order: [["updated_at", "DESC"]],
+    });
+
+    return rows.map((row) => this.toLotLocation(row));
+  }
+
+  /**
+   * Existencias ubicadas de un producto en orden FEFO
+   * (primero en caducar, primero en salir)
+   */
+  public static async getFefoStock(productId: string): Promise<LotLocation[]> {
+    const rows = await ProductLot.findAll({
+      where: {
+        product_id: productId,
+        location: { [Op.not]: null },
+        quantity: { [Op.gt]: 0 },
+      },
+      order: [["created_at", "ASC"]],
+    });
+
+    return rows.map((row) => this.toLotLocation(row)).sort(this.compareFefo);
+  }
+
+  /**
+   * Comparador FEFO: caducidad más próxima primero, sin caducidad al final
+   */
+  public static compareFefo(
+    a: { expiryDate: string | null },
+    b: { expiryDate: string | null }
+  ): number {
+    if (a.expiryDate === b.expiryDate) {
+      return 0;
+    }
+    if (!a.expiryDate) {
+      return 1;
+    }
+    if (!b.expiryDate) {
+      return -1;
+    }
+    return a.expiryDate < b.expiryDate ? -1 : 1;
+  }
+
+  /**
+   * Lotes con existencias que caducan en los próximos días (incluye caducados)
+   */
+  public static async getExpiringLots(days: number): Promise<LotLocation[]> {
+    const limitDate = new Date();
+    limitDate.setDate(limitDate.getDate() + days);
+
+    const rows = await ProductLot.findAll({
+      where: {
+        quantity: { [Op.gt]: 0 },
+        expiry_date: {
+          [Op.not]: null,
+          [Op.lte]: limitDate.toISOString().substring(0, 10),
+        },
+      },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: ["id", "barcode", "reference", "description", "tracking"],
+        },
+      ],
+      order: [["expiry_date", "ASC"]],
+    });
+
+    return rows.map((row) => this.toLotLocation(row));
+  }
+
+  /**
+   * Marcar existencias caducadas o próximas a caducar (tarea programada)
+   */
+  public static async flagExpiringStock(
+    days: number = this.EXPIRY_ALERT_DAYS
+  ): Promise<ExpiryAlert> {
+    const lots = await this.getExpiringLots(days);
+
+    const alert: ExpiryAlert = {
+      generatedAt: new Date().toISOString(),
+      days,
+      expired: lots.filter((lot) => lot.expired),
+      expiring: lots.filter((lot) => !lot.expired),
+    };
+
+    await redis.setex(
+      this.EXPIRY_ALERT_KEY,
+      this.EXPIRY_ALERT_TTL,
+      JSON.stringify(alert)
+    );
+
+    if (lots.length > 0) {
+      logger.warn("Existencias caducadas o próximas a caducar", {
+        days,
+        expired: alert.expired.length,
+        expiring: alert.expiring.length,
+        locations: [...new Set(lots.map((lot) => lot.location || "pendiente"))],
+      });
+    }
+
+    return alert;
+  }
+
+  /**
+   * Obtener la última alerta de caducidad generada
+   */
+  public static async getLastExpiryAlert(): Promise<ExpiryAlert | null> {
+    const alertStr = await redis.get(this.EXPIRY_ALERT_KEY);
+    return alertStr ? JSON.parse(alertStr) : null;
+  }
+
+  /**
+   * Normalizar fecha de caducidad a formato YYYY-MM-DD
+   */
+  private static normalizeExpiryDate(
+    expiryDate?: string | null
+  ): string | null {
+    if (!expiryDate) {
+      return null;
+    }
+
+    const date = new Date(expiryDate);
+    if (isNaN(date.getTime())) {
+      throw new AppError(`Fecha de caducidad inválida: ${expiryDate}`, 400);
+    }
+
+    return date.toISOString().substring(0, 10);
+  }
+
+  /**
+   * Convertir registro de lote en respuesta de API
+   */
+  private static toLotLocation(row: ProductLot): LotLocation {
+    const today = new Date().toISOString().substring(0, 10);
+    const daysToExpiry = row.expiry_date
+      ? Math.round((Date.parse(row.expiry_date) - Date.parse(today)) / 86400000)
+      : null;
+
+    return {
+      lotNumber: row.lot_number,
+      location: row.location,
+      quantity: Number(row.quantity),
+      expiryDate: row.expiry_date,
+      daysToExpiry,
+      expired: row.isExpired(),
+      odooLotId: row.odoo_lot_id,
+      updatedAt: row.updated_at,
+      product: row.product
+        ? {
+            id: row.product.id,
+            barcode: row.product.barcode,
+            reference: row.product.reference,
+            description: row.product.description,
+            tracking: row.product.tracking,
+          }
+        : null,
+    };
+  }
+}
+
+export { TrackingType, LotQuantity, LotLocation, ExpiryAlert };
@@ -47,6 +47,44 @@ interface OdooStockQuantData {
   available_quantity: number;
 }
 
+interface OdooPickingData {
+  id: number;
+  name: string;
+  origin: string | false; // pedido de compra de origen
+  partner_id: [number, string] | false;
+  scheduled_date: string;
+  state: string; // 'draft', 'waiting', 'confirmed', 'assigned', 'done', 'cancel'
+  location_id: [number, string];
+  location_dest_id: [number, string];
+  picking_type_code: string; // 'incoming', 'outgoing', 'internal'
+}
+
+interface OdooMoveData {
+  id: number;
+  picking_id: [number, string];
+  product_id: [number, string];
+  product_uom_qty: number; // cantidad esperada
+  quantity_done: number; // cantidad recibida
+  product_uom: [number, string];
+  state: string;
+}
+
+interface OdooMoveLineData {
+  id: number;
+  move_id: [number, string];
+  product_id: [number, string];
+  location_id: [number, string];
+  location_barcode: string | null; // código de ubicación de colocación
+  lot_name: string | null;
+  reserved_qty: number;
+}
+
+interface OdooQuantData {
+  location_id: [number, string];
+  location_barcode: string | null; // código de ubicación de colocación
+  quantity: number;
+}
+
 interface OdooResponse<T> {
   success: boolean;
   data?: T;
@@ -302,7 +340,8 @@ export class OdooConnectorService {
   public async updateProductStock(
     productId: number,
     newQuantity: number,
-    locationId?: number
+    locationId?: number,
+    reason?: string // motivo del ajuste para contabilidad
   ): Promise<OdooResponse<boolean>> {
     try {
       logger.info(
@@ -311,7 +350,9 @@ export class OdooConnectorService {
 
       // En Odoo, los ajustes de stock se hacen mediante stock.inventory
       const inventoryData = {
-        name: `Ajuste PDA ${new Date().toISOString()}`,
+        name: reason
+          ? `Ajuste PDA ${reason} ${new Date().toISOString()}`
+          : `Ajuste PDA ${new Date().toISOString()}`,
         location_ids: locationId ? [[6, 0, [locationId]]] : false,
         product_ids: [[6, 0, [productId]]],
         state: "draft",
@@ -358,6 +399,61 @@ export class OdooConnectorService {
     }
   }
 
+  /**
+   * Registrar un único ajuste de inventario con varias líneas
+   * (cierre de inventario físico)
+   */
+  public async postInventoryAdjustment(
+    name: string,
+    lines: Array<{ productId: number; quantity: number }>
+  ): Promise<OdooResponse<number>> {
+    try {
+      logger.info(`Registrando ajuste de inventario en Odoo: ${name}`, {
+        lines: lines.length,
+      });
+
+      const locationId = await this.getDefaultLocationId();
+
+      const inventoryId = await this.executeRPC("stock.inventory", "create", [
+        {
+          name,
+          location_ids: [[6, 0, [locationId]]],
+          product_ids: [[6, 0, lines.map((line) => line.productId)]],
+          state: "draft",
+        },
+      ]);
+
+      for (const line of lines) {
+        await this.executeRPC("stock.inventory.line", "create", [
+          {
+            inventory_id: inventoryId,
+            product_id: line.productId,
+            product_qty: line.quantity,
+            location_id: locationId,
+          },
+        ]);
+      }
+
+      await this.executeRPC("stock.inventory", "action_validate", [
+        inventoryId,
+      ]);
+
+      logger.info(`Ajuste de inventario registrado en Odoo: ${inventoryId}`);
+
+      return {
+        success: true,
+        data: inventoryId,
+      };
+    } catch (error) {
+      logger.error(`Error registrando ajuste de inventario: ${name}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
   /**
    * Actualizar ubicación de producto en Odoo
    */
@@ -664,42 +760,993 @@ export class OdooConnectorService {
   }
 
   /**
-   * Obtener información del sistema Odoo
+   * Crear producto borrador en Odoo (no vendible hasta completarlo)
    */
-  public async getSystemInfo(): Promise<
-    OdooResponse<{
-      server_version: string;
-      server_version_info: any;
-      database: string;
-      username: string;
-    }>
+  public async createDraftProduct(data: {
+    name: string;
+    reference: string | null;
+    barcode: string;
+  }): Promise<OdooResponse<number>> {
+    try {
+      const productId = await this.executeRPC("product.product", "create", [
+        {
+          name: data.name,
+          default_code: data.reference || false,
+          barcode: data.barcode,
+          type: "product",
+          sale_ok: false,
+        },
+      ]);
+
+      logger.info(`Producto borrador creado en Odoo: ${data.barcode}`, {
+        odooProductId: productId,
+      });
+
+      return {
+        success: true,
+        data: productId,
+      };
+    } catch (error) {
+      logger.error(
+        `Error creando producto borrador en Odoo: ${data.barcode}`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener albaranes abiertos por tipo de operación
+   */
+  public async getOpenPickings(
+    pickingTypeCode: "incoming" | "outgoing",
+    limit: number = 50
+  ): Promise<OdooResponse<OdooPickingData[]>> {
+    try {
+      const pickings = await this.executeRPC(
+        "stock.picking",
+        "search_read",
+        [
+          [
+            ["picking_type_code", "=", pickingTypeCode],
+            ["state", "in", ["confirmed", "waiting", "assigned"]],
+          ],
+        ],
+        {
+          fields: [
+            "id",
+            "name",
+            "origin",
+            "partner_id",
+            "scheduled_date",
+            "state",
+            "location_id",
+            "location_dest_id",
+            "picking_type_code",
+          ],
+          order: "scheduled_date asc",
+          limit,
+        }
+      );
+
+      return {
+        success: true,
+        data: pickings || [],
+      };
+    } catch (error) {
+      logger.error(
+        `Error obteniendo albaranes abiertos (${pickingTypeCode}) desde Odoo`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener albarán por ID
+   */
+  public async getPicking(
+    pickingId: number
+  ): Promise<OdooResponse<OdooPickingData>> {
+    try {
+      const pickings = await this.executeRPC(
+        "stock.picking",
+        "read",
+        [[pickingId]],
+        {
+          fields: [
+            "id",
+            "name",
+            "origin",
+            "partner_id",
+            "scheduled_date",
+            "state",
+            "location_id",
+            "location_dest_id",
+            "picking_type_code",
+          ],
+        }
+      );
+
+      if (pickings && pickings.length > 0) {
+        return {
+          success: true,
+          data: pickings[0],
+        };
+      }
+
+      return {
+        success: false,
+        error: "Albarán no encontrado en Odoo",
+      };
+    } catch (error) {
+      logger.error(`Error obteniendo albarán desde Odoo: ${pickingId}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener movimientos de stock de un albarán
+   */
+  public async getPickingMoves(
+    pickingId: number
+  ): Promise<OdooResponse<OdooMoveData[]>> {
+    try {
+      const moves = await this.executeRPC(
+        "stock.move",
+        "search_read",
+        [
+          [
+            ["picking_id", "=", pickingId],
+            ["state", "not in", ["done", "cancel"]],
+          ],
+        ],
+        {
+          fields: [
+            "id",
+            "picking_id",
+            "product_id",
+            "product_uom_qty",
+            "quantity_done",
+            "product_uom",
+            "state",
+          ],
+        }
+      );
+
+      return {
+        success: true,
+        data: moves || [],
+      };
+    } catch (error) {
+      logger.error(
+        `Error obteniendo movimientos del albarán ${pickingId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener datos básicos de varios productos
+   */
+  public async getProductsByIds(
+    productIds: number[]
+  ): Promise<
+    OdooResponse<
+      Array<
+        Pick<
+          OdooProductData,
+          "id" | "name" | "default_code" | "barcode" | "tracking"
+        >
+      >
+    >
   > {
     try {
-      await this.ensureAuthenticated();
+      if (productIds.length === 0) {
+        return { success: true, data: [] };
+      }
 
-      const versionInfo = await this.executeRPC(
-        "ir.config_parameter",
-        "get_param",
-        ["base.server_version"]
+      const products = await this.executeRPC(
+        "product.product",
+        "read",
+        [productIds],
+        {
+          fields: ["id", "name", "default_code", "barcode", "tracking"],
+        }
       );
 
       return {
         success: true,
-        data: {
-          server_version: versionInfo || "Unknown",
-          server_version_info: {},
-          database: this.credentials.database,
-          username: this.credentials.username,
-        },
+        data: products || [],
       };
     } catch (error) {
+      logger.error("Error obteniendo productos desde Odoo:", error);
       return {
         success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Error obteniendo información del sistema",
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
       };
     }
   }
-}
+
+  /**
+   * Obtener el coste estándar de varios productos
+   */
+  public async getProductCosts(
+    productIds: number[]
+  ): Promise<
+    OdooResponse<Array<Pick<OdooProductData, "id" | "standard_price">>>
+  > {
+    try {
+      if (productIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const products = await this.executeRPC(
+        "product.product",
+        "read",
+        [productIds],
+        {
+          fields: ["id", "standard_price"],
+        }
+      );
+
+      return {
+        success: true,
+        data: products || [],
+      };
+    } catch (error) {
+      logger.error("Error obteniendo costes de productos desde Odoo:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener líneas reservadas de un albarán con su ubicación de origen
+   */
+  public async getPickingMoveLines(
+    pickingId: number
+  ): Promise<OdooResponse<OdooMoveLineData[]>> {
+    try {
+      const lines = await this.executeRPC(
+        "stock.move.line",
+        "search_read",
+        [[["picking_id", "=", pickingId]]],
+        {
+          fields: [
+            "id",
+            "move_id",
+            "product_id",
+            "location_id",
+            "lot_id",
+            "reserved_uom_qty",
+          ],
+        }
+      );
+
+      const locationIds = [
+        ...new Set<number>(
+          (lines || []).map((line: any) => line.location_id[0])
+        ),
+      ];
+      const locations = locationIds.length
+        ? await this.executeRPC("stock.location", "read", [locationIds], {
+            fields: ["id", "barcode"],
+          })
+        : [];
+      const barcodes = new Map<number, string | null>(
+        (locations || []).map((location: any) => [
+          location.id,
+          location.barcode || null,
+        ])
+      );
+
+      return {
+        success: true,
+        data: (lines || []).map((line: any) => ({
+          id: line.id,
+          move_id: line.move_id,
+          product_id: line.product_id,
+          location_id: line.location_id,
+          location_barcode: barcodes.get(line.location_id[0]) || null,
+          lot_name: line.lot_id ? line.lot_id[1] : null,
+          reserved_qty: line.reserved_uom_qty,
+        })),
+      };
+    } catch (error) {
+      logger.error(
+        `Error obteniendo líneas reservadas del albarán ${pickingId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Ajustar la demanda de un movimiento (faltas que no generan pendiente)
+   */
+  public async setMoveDemand(
+    moveId: number,
+    quantity: number
+  ): Promise<OdooResponse<boolean>> {
+    try {
+      await this.executeRPC("stock.move", "write", [
+        [moveId],
+        { product_uom_qty: quantity },
+      ]);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error(`Error ajustando demanda del movimiento ${moveId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Registrar cantidades realizadas en movimientos de stock
+   */
+  public async setMoveQuantities(
+    quantities: Array<{ moveId: number; quantity: number }>
+  ): Promise<OdooResponse<boolean>> {
+    try {
+      for (const { moveId, quantity } of quantities) {
+        await this.executeRPC("stock.move", "write", [
+          [moveId],
+          { quantity_done: quantity },
+        ]);
+      }
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error("Error registrando cantidades en Odoo:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Añadir un movimiento no previsto a un albarán abierto
+   */
+  public async addPickingMove(
+    pickingId: number,
+    productId: number,
+    quantity: number
+  ): Promise<OdooResponse<number>> {
+    try {
+      const [pickings, products] = await Promise.all([
+        this.executeRPC("stock.picking", "read", [[pickingId]], {
+          fields: ["location_id", "location_dest_id"],
+        }),
+        this.executeRPC("product.product", "read", [[productId]], {
+          fields: ["name", "uom_id"],
+        }),
+      ]);
+
+      if (!pickings?.length || !products?.length) {
+        return {
+          success: false,
+          error: "Albarán o producto no encontrado en Odoo",
+        };
+      }
+
+      const moveId = await this.executeRPC("stock.move", "create", [
+        {
+          name: products[0].name,
+          picking_id: pickingId,
+          product_id: productId,
+          product_uom: products[0].uom_id[0],
+          product_uom_qty: 0,
+          quantity_done: quantity,
+          location_id: pickings[0].location_id[0],
+          location_dest_id: pickings[0].location_dest_id[0],
+        },
+      ]);
+
+      logger.info(
+        `Movimiento no previsto añadido al albarán ${pickingId}: producto ${productId}`
+      );
+
+      return {
+        success: true,
+        data: moveId,
+      };
+    } catch (error) {
+      logger.error(
+        `Error añadiendo movimiento al albarán ${pickingId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Registrar lotes / números de serie de un movimiento (stock.lot + líneas de movimiento)
+   */
+  public async setMoveLotLines(
+    moveId: number,
+    lots: Array<{ lotNumber: string; quantity: number }>
+  ): Promise<OdooResponse<Record<string, number>>> {
+    try {
+      const moves = await this.executeRPC("stock.move", "read", [[moveId]], {
+        fields: [
+          "picking_id",
+          "product_id",
+          "product_uom",
+          "location_id",
+          "location_dest_id",
+        ],
+      });
+
+      if (!moves?.length) {
+        return {
+          success: false,
+          error: "Movimiento no encontrado en Odoo",
+        };
+      }
+
+      const move = moves[0];
+      const productId = move.product_id[0];
+      const lotIds: Record<string, number> = {};
+
+      for (const lot of lots) {
+        const existing = await this.executeRPC(
+          "stock.lot",
+          "search",
+          [
+            [
+              ["product_id", "=", productId],
+              ["name", "=", lot.lotNumber],
+            ],
+          ],
+          { limit: 1 }
+        );
+
+        lotIds[lot.lotNumber] = existing?.length
+          ? existing[0]
+          : await this.executeRPC("stock.lot", "create", [
+              {
+                name: lot.lotNumber,
+                product_id: productId,
+              },
+            ]);
+      }
+
+      // Sustituir las líneas reservadas por las de los lotes recibidos
+      const existingLines = await this.executeRPC("stock.move.line", "search", [
+        [["move_id", "=", moveId]],
+      ]);
+      if (existingLines?.length) {
+        await this.executeRPC("stock.move.line", "unlink", [existingLines]);
+      }
+
+      for (const lot of lots) {
+        await this.executeRPC("stock.move.line", "create", [
+          {
+            move_id: moveId,
+            picking_id: move.picking_id ? move.picking_id[0] : false,
+            product_id: productId,
+            product_uom_id: move.product_uom[0],
+            location_id: move.location_id[0],
+            location_dest_id: move.location_dest_id[0],
+            lot_id: lotIds[lot.lotNumber],
+            qty_done: lot.quantity,
+          },
+        ]);
+      }
+
+      logger.info(
+        `Lotes registrados en movimiento ${moveId}: ${lots.length} lotes`
+      );
+
+      return {
+        success: true,
+        data: lotIds,
+      };
+    } catch (error) {
+      logger.error(`Error registrando lotes del movimiento ${moveId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Buscar entregas a cliente ya realizadas por nombre de albarán u origen
+   */
+  public async searchDeliveries(
+    reference: string,
+    limit: number = 20
+  ): Promise<OdooResponse<OdooPickingData[]>> {
+    try {
+      const pickings = await this.executeRPC(
+        "stock.picking",
+        "search_read",
+        [
+          [
+            ["picking_type_code", "=", "outgoing"],
+            ["state", "=", "done"],
+            "|",
+            ["name", "ilike", reference],
+            ["origin", "ilike", reference],
+          ],
+        ],
+        {
+          fields: [
+            "id",
+            "name",
+            "origin",
+            "partner_id",
+            "scheduled_date",
+            "state",
+            "location_id",
+            "location_dest_id",
+            "picking_type_code",
+          ],
+          order: "scheduled_date desc",
+          limit,
+        }
+      );
+
+      return {
+        success: true,
+        data: pickings || [],
+      };
+    } catch (error) {
+      logger.error(`Error buscando entregas en Odoo: ${reference}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener movimientos realizados de una entrega
+   */
+  public async getDeliveredMoves(
+    pickingId: number
+  ): Promise<OdooResponse<OdooMoveData[]>> {
+    try {
+      const moves = await this.executeRPC(
+        "stock.move",
+        "search_read",
+        [
+          [
+            ["picking_id", "=", pickingId],
+            ["state", "=", "done"],
+          ],
+        ],
+        {
+          fields: [
+            "id",
+            "picking_id",
+            "product_id",
+            "product_uom_qty",
+            "quantity_done",
+            "product_uom",
+            "state",
+          ],
+        }
+      );
+
+      return {
+        success: true,
+        data: moves || [],
+      };
+    } catch (error) {
+      logger.error(
+        `Error obteniendo movimientos de la entrega ${pickingId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener stock disponible de un producto en ubicaciones internas,
+   * excluyendo la ubicación de picking indicada
+   */
+  public async getReserveQuants(
+    productId: number,
+    excludeLocationCode?: string | null
+  ): Promise<OdooResponse<OdooQuantData[]>> {
+    try {
+      const quants = await this.executeRPC(
+        "stock.quant",
+        "search_read",
+        [
+          [
+            ["product_id", "=", productId],
+            ["location_id.usage", "=", "internal"],
+            ["quantity", ">", 0],
+          ],
+        ],
+        {
+          fields: ["location_id", "quantity", "reserved_quantity"],
+        }
+      );
+
+      const locationIds = [
+        ...new Set<number>(
+          (quants || []).map((quant: any) => quant.location_id[0])
+        ),
+      ];
+      const locations = locationIds.length
+        ? await this.executeRPC("stock.location", "read", [locationIds], {
+            fields: ["id", "barcode"],
+          })
+        : [];
+      const barcodes = new Map<number, string | null>(
+        (locations || []).map((location: any) => [
+          location.id,
+          location.barcode || null,
+        ])
+      );
+
+      return {
+        success: true,
+        data: (quants || [])
+          .map((quant: any) => ({
+            location_id: quant.location_id,
+            location_barcode: barcodes.get(quant.location_id[0]) || null,
+            quantity: quant.quantity - (quant.reserved_quantity || 0),
+          }))
+          .filter(
+            (quant: OdooQuantData) =>
+              quant.quantity > 0 &&
+              (!excludeLocationCode ||
+                quant.location_barcode !== excludeLocationCode)
+          ),
+      };
+    } catch (error) {
+      logger.error(
+        `Error obteniendo stock de reserva del producto ${productId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Crear albarán de devolución de una entrega (asistente stock.return.picking)
+   * y repartir las cantidades devueltas según su destino
+   */
+  public async createReturnPicking(
+    pickingId: number,
+    items: Array<{
+      moveId: number;
+      quantity: number;
+      destination: "stock" | "quarantine" | "scrap";
+      lotNumber?: string | null;
+    }>,
+    quarantineLocation: string
+  ): Promise<OdooResponse<number>> {
+    try {
+      const context = {
+        active_id: pickingId,
+        active_ids: [pickingId],
+        active_model: "stock.picking",
+      };
+
+      const wizardId = await this.executeRPC(
+        "stock.return.picking",
+        "create",
+        [{}],
+        { context }
+      );
+
+      // Ajustar las líneas del asistente a las cantidades devueltas
+      const wizardLines = await this.executeRPC(
+        "stock.return.picking.line",
+        "search_read",
+        [[["wizard_id", "=", wizardId]]],
+        { fields: ["id", "move_id"] }
+      );
+
+      for (const wizardLine of wizardLines || []) {
+        const quantity = items
+          .filter((item) => item.moveId === wizardLine.move_id[0])
+          .reduce((sum, item) => sum + item.quantity, 0);
+
+        await this.executeRPC("stock.return.picking.line", "write", [
+          [wizardLine.id],
+          { quantity },
+        ]);
+      }
+
+      const action = await this.executeRPC(
+        "stock.return.picking",
+        "create_returns",
+        [[wizardId]],
+        { context }
+      );
+      const returnPickingId: number = action.res_id;
+
+      // Resolver ubicaciones de cuarentena y desecho si son necesarias
+      const destinations: Record<string, number | null> = {
+        stock: null,
+        quarantine: null,
+        scrap: null,
+      };
+
+      if (items.some((item) => item.destination === "quarantine")) {
+        const quarantine = await this.executeRPC(
+          "stock.location",
+          "search",
+          [
+            [
+              "|",
+              ["complete_name", "=", quarantineLocation],
+              ["barcode", "=", quarantineLocation],
+            ],
+          ],
+          { limit: 1 }
+        );
+
+        if (!quarantine?.length) {
+          return {
+            success: false,
+            error: `Ubicación de cuarentena no encontrada en Odoo: ${quarantineLocation}`,
+          };
+        }
+        destinations.quarantine = quarantine[0];
+      }
+
+      if (items.some((item) => item.destination === "scrap")) {
+        const scrap = await this.executeRPC(
+          "stock.location",
+          "search",
+          [[["scrap_location", "=", true]]],
+          { limit: 1 }
+        );
+
+        if (!scrap?.length) {
+          return {
+            success: false,
+            error: "Ubicación de desecho no encontrada en Odoo",
+          };
+        }
+        destinations.scrap = scrap[0];
+      }
+
+      // Una línea de movimiento por artículo devuelto con su destino
+      const returnMoves = await this.executeRPC(
+        "stock.move",
+        "search_read",
+        [[["picking_id", "=", returnPickingId]]],
+        {
+          fields: [
+            "id",
+            "origin_returned_move_id",
+            "product_id",
+            "product_uom",
+            "location_id",
+            "location_dest_id",
+          ],
+        }
+      );
+
+      for (const move of returnMoves || []) {
+        const originMoveId = move.origin_returned_move_id
+          ? move.origin_returned_move_id[0]
+          : null;
+        const moveItems = items.filter((item) => item.moveId === originMoveId);
+
+        const existingLines = await this.executeRPC(
+          "stock.move.line",
+          "search",
+          [[["move_id", "=", move.id]]]
+        );
+        if (existingLines?.length) {
+          await this.executeRPC("stock.move.line", "unlink", [existingLines]);
+        }
+
+        for (const item of moveItems) {
+          let lotId: number | false = false;
+          if (item.lotNumber) {
+            const lots = await this.executeRPC(
+              "stock.lot",
+              "search",
+              [
+                [
+                  ["product_id", "=", move.product_id[0]],
+                  ["name", "=", item.lotNumber],
+                ],
+              ],
+              { limit: 1 }
+            );
+            lotId = lots?.length ? lots[0] : false;
+          }
+
+          await this.executeRPC("stock.move.line", "create", [
+            {
+              move_id: move.id,
+              picking_id: returnPickingId,
+              product_id: move.product_id[0],
+              product_uom_id: move.product_uom[0],
+              location_id: move.location_id[0],
+              location_dest_id:
+                destinations[item.destination] || move.location_dest_id[0],
+              lot_id: lotId,
+              qty_done: item.quantity,
+            },
+          ]);
+        }
+      }
+
+      logger.info(
+        `Albarán de devolución creado en Odoo: ${returnPickingId} (entrega ${pickingId})`
+      );
+
+      return {
+        success: true,
+        data: returnPickingId,
+      };
+    } catch (error) {
+      logger.error(
+        `Error creando devolución de la entrega ${pickingId}:`,
+        error
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Validar albarán en Odoo
+   */
+  public async validatePicking(
+    pickingId: number,
+    createBackorder: boolean = true
+  ): Promise<OdooResponse<boolean>> {
+    try {
+      logger.info(`Validando albarán en Odoo: ${pickingId}`, {
+        createBackorder,
+      });
+
+      // Evitar los asistentes de Odoo (entregas parciales, cantidades
+      // inmediatas) indicando en el contexto qué hacer con los pendientes
+      const context: Record<string, any> = { skip_backorder: true };
+      if (!createBackorder) {
+        context.picking_ids_not_to_backorder = [pickingId];
+      }
+
+      const result = await this.executeRPC(
+        "stock.picking",
+        "button_validate",
+        [[pickingId]],
+        { context }
+      );
+
+      // Si Odoo devuelve una acción es que requiere un asistente adicional
+      if (result && typeof result === "object") {
+        return {
+          success: false,
+          error: `Odoo requiere confirmación adicional: ${
+            result.res_model || "asistente desconocido"
+          }`,
+          errorDetails: result,
+        };
+      }
+
+      logger.info(`Albarán validado exitosamente en Odoo: ${pickingId}`);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      logger.error(`Error validando albarán en Odoo: ${pickingId}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Error desconocido",
+        errorDetails: error,
+      };
+    }
+  }
+
+  /**
+   * Obtener información del sistema Odoo
+   */
+  public async getSystemInfo(): Promise<
+    OdooResponse<{
+      server_version: string;
+      server_version_info: any;
+      database: string;
+      username: string;
+    }>
+  > {
+    try {
+      await this.ensureAuthenticated();
+
+      const versionInfo = await this.executeRPC(
+        "ir.config_parameter",
+        "get_param",
+        ["base.server_version"]
+      );
+
+      return {
+        success: true,
+        data: {
+          server_version: versionInfo || "Unknown",
+          server_version_info: {},
+          database: this.credentials.database,
+          username: this.credentials.username,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error obteniendo información del sistema",
+      };
+    }
+  }
+}
+
+export {
+  OdooProductData,
+  OdooPickingData,
+  OdooMoveData,
+  OdooMoveLineData,
+  OdooQuantData,
+  OdooResponse,
+};
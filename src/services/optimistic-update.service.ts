@@ -1,6 +1,21 @@
 // src/services/colocacion/optimistic-update.service.ts
 import { redis } from "../config/redis";
+import sequelize from "../config/database";
 import Product from "../models/Product";
+import ProductLocation from "../models/ProductLocation";
+import { ProductBinService, BinState } from "./product-bin.service";
+import { LotService, LotQuantity } from "./lot.service";
+import { CacheService } from "./cache.service";
+import { ProductService } from "./product.service";
+import { LocationService } from "./location.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { ReasonCodeService } from "./reason-code.service";
+import { ReasonCodeRole } from "../models/ReasonCode";
+import {
+  StockMovementService,
+  StockMovementContext,
+} from "./stock-movement.service";
+import { LocationValidator } from "../utils/location.validator";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/error.middleware";
 
@@ -8,6 +23,7 @@ interface OptimisticUpdateData {
   productId: string;
   userId: string;
   deviceId: string;
+  role?: ReasonCodeRole; // rol del usuario para el código de motivo del rollback
   originalData: {
     location: string | null;
     stock: number;
@@ -22,12 +38,24 @@ interface OptimisticUpdateData {
   rollbackReason?: string;
 }
 
+interface BulkMoveData {
+  batchId: string;
+  from: string;
+  to: string;
+  products: Array<{
+    productId: string;
+    before: BinState[];
+    after: BinState[];
+    lots: LotQuantity[]; // lotes trasladados
+  }>;
+}
+
 interface UndoRedoOperation {
   id: string;
-  productId: string;
+  productId: string | null; // null en movimientos masivos
   userId: string;
   deviceId: string;
-  operation: "update";
+  operation: "update" | "bulk_move";
   beforeData: {
     location: string | null;
     stock: number;
@@ -36,6 +64,7 @@ interface UndoRedoOperation {
     location: string | null;
     stock: number;
   };
+  move?: BulkMoveData; // solo en movimientos masivos
   timestamp: number;
   canUndo: boolean;
   canRedo: boolean;
@@ -55,7 +84,8 @@ export class OptimisticUpdateService {
     product: Product,
     newData: { location?: string | null; stock?: number },
     userId: string,
-    deviceId: string
+    deviceId: string,
+    role: ReasonCodeRole = "operator"
   ): Promise<string> {
     try {
       const updateId = `${Date.now()}_${Math.random()
@@ -67,6 +97,7 @@ export class OptimisticUpdateService {
         productId: product.id,
         userId,
         deviceId,
+        role,
         originalData: {
           location: product.location,
           stock: product.stock,
@@ -161,10 +192,19 @@ export class OptimisticUpdateService {
       // Restaurar datos originales
       const product = await Product.findByPk(updateData.productId);
       if (product) {
-        product.location = updateData.originalData.location;
-        product.stock = updateData.originalData.stock;
-        product.last_odoo_sync = updateData.originalData.last_odoo_sync;
-        await product.save();
+        await this.restoreProduct(
+          product,
+          updateData.originalData,
+          updateData.originalData.last_odoo_sync,
+          updateData.role || "operator",
+          {
+            source: "manual",
+            reasonCode: "ROLLBACK",
+            reason,
+            userId: updateData.userId,
+            deviceId: updateData.deviceId,
+          }
+        );
       }
 
       // Marcar como rollback
@@ -221,42 +261,277 @@ export class OptimisticUpdateService {
         canRedo: false,
       };
 
-      // Obtener operaciones existentes
-      const existingOperationsStr = await redis.get(undoRedoKey);
-      let operations: UndoRedoOperation[] = [];
+      await this.storeOperation(undoRedoKey, operation);
 
-      if (existingOperationsStr) {
-        operations = JSON.parse(existingOperationsStr);
-      }
+      logger.debug(`Operación undo/redo creada: ${operationId}`, {
+        productId: updateData.productId,
+        userId: updateData.userId,
+      });
+    } catch (error) {
+      logger.error("Error creando operación undo/redo:", error);
+    }
+  }
+
+  /**
+   * Registrar un movimiento masivo de ubicación como una sola operación
+   * que se deshace / rehace completa
+   */
+  public static async recordBulkMove(
+    move: BulkMoveData,
+    userId: string,
+    deviceId: string
+  ): Promise<string | null> {
+    try {
+      const operationId = `${Date.now()}_${Math.random()
+        .toString(36)
+        .substr(2, 9)}`;
+      const undoRedoKey = this.UNDO_REDO_PREFIX + `${userId}:${deviceId}`;
+      const quantity = move.products.reduce(
+        (sum, item) => sum + item.before[0].quantity,
+        0
+      );
+
+      await this.storeOperation(undoRedoKey, {
+        id: operationId,
+        productId: null,
+        userId,
+        deviceId,
+        operation: "bulk_move",
+        beforeData: { location: move.from, stock: quantity },
+        afterData: { location: move.to, stock: quantity },
+        move,
+        timestamp: Date.now(),
+        canUndo: true,
+        canRedo: false,
+      });
+
+      logger.debug(
+        `Movimiento masivo registrado para deshacer: ${operationId}`,
+        {
+          batchId: move.batchId,
+          products: move.products.length,
+          userId,
+        }
+      );
+
+      return operationId;
+    } catch (error) {
+      logger.error("Error registrando movimiento masivo:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Guardar operación al inicio del historial del usuario/dispositivo
+   */
+  private static async storeOperation(
+    undoRedoKey: string,
+    operation: UndoRedoOperation
+  ): Promise<void> {
+    // Obtener operaciones existentes
+    const existingOperationsStr = await redis.get(undoRedoKey);
+    let operations: UndoRedoOperation[] = [];
 
-      // Agregar nueva operación al inicio
-      operations.unshift(operation);
+    if (existingOperationsStr) {
+      operations = JSON.parse(existingOperationsStr);
+    }
+
+    // Agregar nueva operación al inicio
+    operations.unshift(operation);
+
+    // Mantener solo las últimas MAX_UNDO_OPERATIONS
+    if (operations.length > this.MAX_UNDO_OPERATIONS) {
+      operations = operations.slice(0, this.MAX_UNDO_OPERATIONS);
+    }
 
-      // Mantener solo las últimas MAX_UNDO_OPERATIONS
-      if (operations.length > this.MAX_UNDO_OPERATIONS) {
-        operations = operations.slice(0, this.MAX_UNDO_OPERATIONS);
+    // Marcar todas las operaciones anteriores como no-redo
+    operations.forEach((op, index) => {
+      if (index > 0) {
+        op.canRedo = false;
       }
+    });
 
-      // Marcar todas las operaciones anteriores como no-redo
-      operations.forEach((op, index) => {
-        if (index > 0) {
-          op.canRedo = false;
+    await redis.setex(
+      undoRedoKey,
+      this.UNDO_REDO_TTL,
+      JSON.stringify(operations)
+    );
+  }
+
+  /**
+   * Aplicar el estado anterior o posterior de un movimiento masivo. Falla si
+   * las ubicaciones ya no están como las dejó la operación que se revierte.
+   */
+  private static async applyBulkMove(
+    move: BulkMoveData,
+    state: "before" | "after",
+    userId: string,
+    deviceId: string
+  ): Promise<void> {
+    const [fromLocation, toLocation] =
+      state === "before" ? [move.to, move.from] : [move.from, move.to];
+    const expected = state === "before" ? "after" : "before";
+
+    await LocationService.assertUsable(toLocation);
+    await InventorySessionService.assertNotFrozen([fromLocation, toLocation]);
+
+    const reason = `${
+      state === "before" ? "Deshacer" : "Rehacer"
+    } movimiento masivo ${move.from} -> ${move.to}`;
+
+    const products = await sequelize.transaction(async (transaction) => {
+      const restored: Array<{ product: Product; lots: LotQuantity[] }> = [];
+
+      for (const item of move.products) {
+        const product = await Product.findByPk(item.productId, {
+          transaction,
+        });
+        if (!product) {
+          continue;
         }
-      });
 
-      await redis.setex(
-        undoRedoKey,
-        this.UNDO_REDO_TTL,
-        JSON.stringify(operations)
+        // Solo se restaura si nada ha cambiado las ubicaciones desde entonces
+        const bins = await ProductBinService.getBins(product, transaction);
+        const changed = item[expected].some((saved) => {
+          const bin = bins.find((b) => b.location === saved.location);
+          return (
+            Number(bin?.quantity ?? 0) !== saved.quantity ||
+            !!bin?.is_pick_face !== saved.pickFace
+          );
+        });
+        if (changed) {
+          throw new AppError(
+            `El stock de ${
+              product.reference
+            } ha cambiado desde el movimiento; no se puede ${
+              state === "before" ? "deshacer" : "rehacer"
+            }`,
+            409
+          );
+        }
+
+        const stockBefore = await StockMovementService.snapshot(
+          product,
+          transaction
+        );
+        await ProductBinService.restoreBins(product, item[state], transaction);
+
+        await ProductLocation.create(
+          {
+            product_id: product.id,
+            old_location: fromLocation,
+            new_location: toLocation,
+            changed_by: userId,
+            change_reason: reason,
+            batch_id: move.batchId,
+          },
+          { transaction }
+        );
+
+        product.last_odoo_sync = new Date();
+        await product.save({ transaction });
+        await StockMovementService.record(
+          product,
+          stockBefore,
+          {
+            source: "transfer",
+            reasonCode: state === "before" ? "UNDO" : "REDO",
+            reason,
+            reference: move.batchId,
+            userId,
+            deviceId,
+          },
+          transaction
+        );
+        restored.push({ product, lots: item.lots });
+      }
+
+      return restored;
+    });
+
+    for (const { product, lots } of products) {
+      if (lots.length > 0) {
+        await LotService.assignLotsToLocation(
+          product,
+          lots,
+          fromLocation,
+          toLocation,
+          userId
+        );
+      }
+      await CacheService.invalidateProduct(product.barcode);
+      await ProductService.createOrUpdateLabel(
+        product,
+        toLocation,
+        userId,
+        deviceId
+      );
+    }
+  }
+
+  /**
+   * Rechazar deshacer / rehacer si el producto ha cambiado desde la operación
+   */
+  private static assertUnchanged(
+    product: Product,
+    data: { location: string | null; stock: number },
+    action: string
+  ): void {
+    if (
+      product.location !==
+        (data.location ? LocationValidator.clean(data.location) : null) ||
+      Number(product.stock) !== Number(data.stock)
+    ) {
+      throw new AppError(
+        `${product.reference} ha cambiado desde la operación; no se puede ${action}`,
+        409
       );
+    }
+  }
 
-      logger.debug(`Operación undo/redo creada: ${operationId}`, {
-        productId: updateData.productId,
-        userId: updateData.userId,
-      });
-    } catch (error) {
-      logger.error("Error creando operación undo/redo:", error);
+  /**
+   * Dejar un producto con la ubicación y el stock guardados, registrando el
+   * movimiento en la misma transacción. Como todo ajuste manual, el cambio
+   * de stock exige un código de motivo del catálogo utilizable por el rol.
+   */
+  private static async restoreProduct(
+    product: Product,
+    data: { location?: string | null; stock?: number },
+    lastOdooSync: Date | null,
+    role: ReasonCodeRole,
+    context: StockMovementContext
+  ): Promise<void> {
+    const delta =
+      data.stock !== undefined ? Number(data.stock) - Number(product.stock) : 0;
+    if (delta !== 0) {
+      const reason = await ReasonCodeService.requireUsable(
+        context.reasonCode || undefined,
+        role,
+        delta
+      );
+      context = { ...context, reason: context.reason || reason.label };
     }
+
+    await sequelize.transaction(async (transaction) => {
+      const stockBefore = await StockMovementService.snapshot(
+        product,
+        transaction
+      );
+      await ProductBinService.applyLegacyUpdate(
+        product,
+        data.location,
+        data.stock,
+        transaction
+      );
+      product.last_odoo_sync = lastOdooSync;
+      await product.save({ transaction });
+      await StockMovementService.record(
+        product,
+        stockBefore,
+        context,
+        transaction
+      );
+    });
   }
 
   /**
@@ -264,7 +539,8 @@ export class OptimisticUpdateService {
    */
   public static async undoLastOperation(
     userId: string,
-    deviceId: string
+    deviceId: string,
+    role: ReasonCodeRole = "operator"
   ): Promise<{
     success: boolean;
     operation?: UndoRedoOperation;
@@ -286,15 +562,36 @@ export class OptimisticUpdateService {
       }
 
       // Aplicar undo
-      const product = await Product.findByPk(undoableOperation.productId);
-      if (!product) {
-        return { success: false };
-      }
+      let product: Product | undefined;
+      if (undoableOperation.operation === "bulk_move") {
+        await this.applyBulkMove(
+          undoableOperation.move!,
+          "before",
+          userId,
+          deviceId
+        );
+      } else {
+        const found = await Product.findByPk(undoableOperation.productId!);
+        if (!found) {
+          return { success: false };
+        }
 
-      product.location = undoableOperation.beforeData.location;
-      product.stock = undoableOperation.beforeData.stock;
-      product.last_odoo_sync = new Date();
-      await product.save();
+        this.assertUnchanged(found, undoableOperation.afterData, "deshacer");
+        await this.restoreProduct(
+          found,
+          undoableOperation.beforeData,
+          new Date(),
+          role,
+          {
+            source: "manual",
+            reasonCode: "UNDO",
+            reference: undoableOperation.id,
+            userId,
+            deviceId,
+          }
+        );
+        product = found;
+      }
 
       // Actualizar estado de operaciones
       undoableOperation.canUndo = false;
@@ -307,7 +604,8 @@ export class OptimisticUpdateService {
       );
 
       logger.info(`Operación deshecha: ${undoableOperation.id}`, {
-        productId: product.id,
+        productId: product?.id,
+        batchId: undoableOperation.move?.batchId,
         userId,
         deviceId,
       });
@@ -318,6 +616,9 @@ export class OptimisticUpdateService {
         product,
       };
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       logger.error("Error deshaciendo operación:", error);
       return { success: false };
     }
@@ -328,7 +629,8 @@ export class OptimisticUpdateService {
    */
   public static async redoLastOperation(
     userId: string,
-    deviceId: string
+    deviceId: string,
+    role: ReasonCodeRole = "operator"
   ): Promise<{
     success: boolean;
     operation?: UndoRedoOperation;
@@ -350,15 +652,36 @@ export class OptimisticUpdateService {
       }
 
       // Aplicar redo
-      const product = await Product.findByPk(redoableOperation.productId);
-      if (!product) {
-        return { success: false };
-      }
+      let product: Product | undefined;
+      if (redoableOperation.operation === "bulk_move") {
+        await this.applyBulkMove(
+          redoableOperation.move!,
+          "after",
+          userId,
+          deviceId
+        );
+      } else {
+        const found = await Product.findByPk(redoableOperation.productId!);
+        if (!found) {
+          return { success: false };
+        }
 
-      product.location = redoableOperation.afterData.location;
-      product.stock = redoableOperation.afterData.stock;
-      product.last_odoo_sync = new Date();
-      await product.save();
+        this.assertUnchanged(found, redoableOperation.beforeData, "rehacer");
+        await this.restoreProduct(
+          found,
+          redoableOperation.afterData,
+          new Date(),
+          role,
+          {
+            source: "manual",
+            reasonCode: "REDO",
+            reference: redoableOperation.id,
+            userId,
+            deviceId,
+          }
+        );
+        product = found;
+      }
 
       // Actualizar estado de operaciones
       redoableOperation.canUndo = true;
@@ -371,7 +694,8 @@ export class OptimisticUpdateService {
       );
 
       logger.info(`Operación rehecha: ${redoableOperation.id}`, {
-        productId: product.id,
+        productId: product?.id,
+        batchId: redoableOperation.move?.batchId,
         userId,
         deviceId,
       });
@@ -382,6 +706,9 @@ export class OptimisticUpdateService {
         product,
       };
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       logger.error("Error rehaciendo operación:", error);
       return { success: false };
     }
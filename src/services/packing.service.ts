@@ -0,0 +1,756 @@
+// src/services/packing.service.ts
+import { OdooConnectorService } from "./odoo-connector.service";
+import { ProductBarcodeService } from "./product-barcode.service";
+import { UnknownBarcodeService } from "./unknown-barcode.service";
+import { PrintQueueService } from "./print-queue.service";
+import { redis } from "../config/redis";
+import { SessionLock } from "../utils/session-lock";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface PackLine {
+  moveId: number;
+  odooProductId: number;
+  productName: string;
+  reference: string | null;
+  barcode: string | null;
+  pickedQty: number;
+  packedQty: number;
+  uom: string;
+}
+
+interface ParcelDimensions {
+  length: number; // cm
+  width: number;
+  height: number;
+}
+
+interface Parcel {
+  number: number;
+  status: "open" | "closed";
+  items: Array<{ moveId: number; quantity: number }>;
+  weight: number | null; // kg
+  dimensions: ParcelDimensions | null;
+  closedBy: string | null;
+  closedAt: number | null;
+}
+
+interface PackingSession {
+  pickingId: number;
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  status: "packing" | "completed";
+  startedBy: string;
+  deviceId: string;
+  startedAt: number;
+  completedAt: number | null;
+  lines: PackLine[];
+  parcels: Parcel[];
+}
+
+interface PackingDiscrepancy {
+  moveId: number;
+  productName: string;
+  pickedQty: number;
+  packedQty: number;
+}
+
+interface PackingList {
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  packedAt: string | null;
+  parcels: Array<{
+    number: number;
+    weight: number | null;
+    dimensions: ParcelDimensions | null;
+    items: Array<{
+      reference: string | null;
+      productName: string;
+      quantity: number;
+      uom: string;
+    }>;
+  }>;
+  totalParcels: number;
+  totalUnits: number;
+  totalWeight: number;
+}
+
+export class PackingService {
+  private odooConnector: OdooConnectorService;
+  private unknownBarcodeService: UnknownBarcodeService;
+  private static readonly PACKING_PREFIX = "recogida:packing:";
+  private static readonly PACKING_TTL = 43200; // 12 horas
+  private static readonly QTY_TOLERANCE = 0.0005;
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+    this.unknownBarcodeService = new UnknownBarcodeService();
+  }
+
+  /**
+   * Iniciar el empaquetado de un pedido ya preparado
+   */
+  public async startPacking(
+    pickingId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<PackingSession> {
+    return SessionLock.run(
+      PackingService.PACKING_PREFIX + pickingId,
+      async () => {
+        const existing = await this.getSession(pickingId);
+        if (existing) {
+          return existing;
+        }
+
+        const pickingResponse = await this.odooConnector.getPicking(pickingId);
+        if (!pickingResponse.success || !pickingResponse.data) {
+          throw new AppError("Pedido no encontrado en Odoo", 404);
+        }
+
+        const picking = pickingResponse.data;
+        if (picking.picking_type_code !== "outgoing") {
+          throw new AppError(
+            "El albarán indicado no es un pedido de salida",
+            400
+          );
+        }
+
+        if (picking.state !== "done") {
+          throw new AppError(
+            "Solo se pueden empaquetar pedidos ya preparados y validados",
+            409
+          );
+        }
+
+        const movesResponse = await this.odooConnector.getDeliveredMoves(
+          pickingId
+        );
+        if (!movesResponse.success || !movesResponse.data) {
+          throw new AppError(
+            `Error obteniendo líneas del pedido: ${movesResponse.error}`,
+            502
+          );
+        }
+
+        const moves = movesResponse.data.filter(
+          (move) => move.quantity_done > 0
+        );
+        if (moves.length === 0) {
+          throw new AppError("El pedido no tiene unidades preparadas", 400);
+        }
+
+        const productIds = [
+          ...new Set(moves.map((move) => move.product_id[0])),
+        ];
+        const productsResponse = await this.odooConnector.getProductsByIds(
+          productIds
+        );
+        const odooProducts = new Map(
+          (productsResponse.data || []).map((product) => [product.id, product])
+        );
+
+        const session: PackingSession = {
+          pickingId: picking.id,
+          pickingName: picking.name,
+          origin: picking.origin || null,
+          partnerName: picking.partner_id ? picking.partner_id[1] : null,
+          status: "packing",
+          startedBy: userId,
+          deviceId,
+          startedAt: Date.now(),
+          completedAt: null,
+          lines: moves.map((move) => {
+            const odooProduct = odooProducts.get(move.product_id[0]);
+            return {
+              moveId: move.id,
+              odooProductId: move.product_id[0],
+              productName: odooProduct?.name || move.product_id[1],
+              reference: odooProduct?.default_code || null,
+              barcode: odooProduct?.barcode || null,
+              pickedQty: move.quantity_done,
+              packedQty: 0,
+              uom: move.product_uom[1],
+            };
+          }),
+          parcels: [PackingService.newParcel(1)],
+        };
+
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "packing_started",
+            context: { lines: session.lines.length },
+          },
+          ipAddress
+        );
+
+        logger.info(`Empaquetado iniciado: ${session.pickingName}`, {
+          pickingId,
+          userId,
+          deviceId,
+        });
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Obtener empaquetado en curso
+   */
+  public async getPacking(pickingId: number): Promise<PackingSession> {
+    return this.requireSession(pickingId);
+  }
+
+  /**
+   * Abrir un nuevo bulto numerado
+   */
+  public async openParcel(
+    pickingId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: PackingSession; parcel: Parcel }> {
+    return SessionLock.run(
+      PackingService.PACKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requirePackingSession(pickingId);
+
+        const parcel = PackingService.newParcel(session.parcels.length + 1);
+        session.parcels.push(parcel);
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "parcel_opened",
+            context: { parcel: parcel.number },
+          },
+          ipAddress
+        );
+
+        return { session, parcel };
+      }
+    );
+  }
+
+  /**
+   * Registrar un artículo escaneado dentro de un bulto
+   */
+  public async scanItem(
+    pickingId: number,
+    parcelNumber: number,
+    barcode: string,
+    requestedQty: number | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{
+    session: PackingSession;
+    parcel: Parcel;
+    line: PackLine;
+    extra: boolean;
+  }> {
+    return SessionLock.run(
+      PackingService.PACKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requirePackingSession(pickingId);
+        const parcel = this.requireOpenParcel(session, parcelNumber);
+        const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+        const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+
+        const productLines = session.lines.filter(
+          (line) =>
+            line.barcode === cleanBarcode ||
+            (resolved &&
+              line.odooProductId === resolved.product.odoo_product_id)
+        );
+
+        if (productLines.length === 0) {
+          if (!resolved) {
+            await this.unknownBarcodeService.recordMiss(cleanBarcode, {
+              userId,
+              deviceId,
+              module: "recogida",
+              context: session.pickingName,
+            });
+          }
+
+          throw new AppError(
+            `El código ${cleanBarcode} no corresponde a ningún producto del pedido ${session.pickingName}`,
+            404
+          );
+        }
+
+        const quantity =
+          requestedQty ?? resolved?.packaging.unitsPerPackage ?? 1;
+        if (quantity <= 0) {
+          throw new AppError("La cantidad debe ser mayor que cero", 400);
+        }
+
+        // Primero las líneas con unidades pendientes de empaquetar
+        const line =
+          productLines.find((l) => l.packedQty < l.pickedQty) ||
+          productLines[0];
+
+        line.packedQty += quantity;
+        const item = parcel.items.find((i) => i.moveId === line.moveId);
+        if (item) {
+          item.quantity += quantity;
+        } else {
+          parcel.items.push({ moveId: line.moveId, quantity });
+        }
+
+        await this.saveSession(session);
+
+        const extra =
+          line.packedQty - line.pickedQty > PackingService.QTY_TOLERANCE;
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "packing_item_scanned",
+            barcode: cleanBarcode,
+            odooProductId: line.odooProductId,
+            quantity,
+            context: { parcel: parcel.number, extra },
+          },
+          ipAddress
+        );
+
+        return { session, parcel, line, extra };
+      }
+    );
+  }
+
+  /**
+   * Retirar unidades de un bulto abierto
+   */
+  public async removeItem(
+    pickingId: number,
+    parcelNumber: number,
+    moveId: number,
+    requestedQty: number | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: PackingSession; parcel: Parcel }> {
+    return SessionLock.run(
+      PackingService.PACKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requirePackingSession(pickingId);
+        const parcel = this.requireOpenParcel(session, parcelNumber);
+
+        const item = parcel.items.find((i) => i.moveId === moveId);
+        if (!item) {
+          throw new AppError("El producto no está en el bulto", 404);
+        }
+
+        const quantity = requestedQty ?? item.quantity;
+        if (quantity > item.quantity + PackingService.QTY_TOLERANCE) {
+          throw new AppError(
+            `Solo hay ${item.quantity} unidades de ese producto en el bulto`,
+            400
+          );
+        }
+
+        const line = session.lines.find((l) => l.moveId === moveId)!;
+        line.packedQty -= quantity;
+        item.quantity -= quantity;
+        if (item.quantity <= PackingService.QTY_TOLERANCE) {
+          parcel.items = parcel.items.filter((i) => i.moveId !== moveId);
+        }
+
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "packing_item_removed",
+            odooProductId: line.odooProductId,
+            quantity,
+            context: { parcel: parcel.number },
+          },
+          ipAddress
+        );
+
+        return { session, parcel };
+      }
+    );
+  }
+
+  /**
+   * Cerrar un bulto registrando peso y medidas. Al cerrar el último bulto
+   * se completa el empaquetado y se imprime la lista de contenido
+   */
+  public async closeParcel(
+    pickingId: number,
+    parcelNumber: number,
+    weight: number,
+    dimensions: ParcelDimensions | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{
+    session: PackingSession;
+    parcel: Parcel;
+    packingList: PackingList | null;
+    printJobId: string | null;
+  }> {
+    return SessionLock.run(
+      PackingService.PACKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requirePackingSession(pickingId);
+        const parcel = this.requireOpenParcel(session, parcelNumber);
+
+        if (parcel.items.length === 0) {
+          throw new AppError(`El bulto ${parcel.number} está vacío`, 400);
+        }
+
+        const { missing, extra } = PackingService.getDiscrepancies(session);
+        if (extra.length > 0) {
+          throw new AppError(
+            `Hay unidades de más respecto a lo preparado: ${extra
+              .map((d) => `${d.productName} (${d.packedQty}/${d.pickedQty})`)
+              .join(", ")}`,
+            400
+          );
+        }
+
+        const lastOpen = session.parcels.every(
+          (p) => p.number === parcel.number || p.status === "closed"
+        );
+        if (lastOpen && missing.length > 0) {
+          throw new AppError(
+            `Faltan unidades por empaquetar: ${missing
+              .map((d) => `${d.productName} (${d.packedQty}/${d.pickedQty})`)
+              .join(", ")}. Abra otro bulto o escanee las unidades pendientes`,
+            400
+          );
+        }
+
+        parcel.status = "closed";
+        parcel.weight = weight;
+        parcel.dimensions = dimensions || null;
+        parcel.closedBy = userId;
+        parcel.closedAt = Date.now();
+
+        let packingList: PackingList | null = null;
+        let printJobId: string | null = null;
+
+        if (lastOpen) {
+          session.status = "completed";
+          session.completedAt = Date.now();
+          packingList = PackingService.buildPackingList(session);
+        }
+
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "parcel_closed",
+            context: {
+              parcel: parcel.number,
+              weight,
+              dimensions: parcel.dimensions,
+              units: parcel.items.reduce((sum, i) => sum + i.quantity, 0),
+            },
+          },
+          ipAddress
+        );
+
+        if (packingList) {
+          printJobId = await this.enqueuePackingList(
+            packingList,
+            userId,
+            deviceId
+          );
+
+          await auditLogger.logRecogidaOperation(
+            userId,
+            deviceId,
+            {
+              pickingId: session.pickingId,
+              pickingName: session.pickingName,
+              action: "packing_completed",
+              context: {
+                parcels: packingList.totalParcels,
+                totalUnits: packingList.totalUnits,
+                totalWeight: packingList.totalWeight,
+                printJobId,
+              },
+            },
+            ipAddress
+          );
+
+          logger.info(`Empaquetado completado: ${session.pickingName}`, {
+            pickingId,
+            parcels: packingList.totalParcels,
+            userId,
+          });
+        }
+
+        return { session, parcel, packingList, printJobId };
+      }
+    );
+  }
+
+  /**
+   * Lista de contenido de un empaquetado completado
+   */
+  public async getPackingList(pickingId: number): Promise<PackingList> {
+    const session = await this.requireSession(pickingId);
+    if (session.status !== "completed") {
+      throw new AppError("El empaquetado del pedido no está completado", 409);
+    }
+    return PackingService.buildPackingList(session);
+  }
+
+  /**
+   * Reimprimir la lista de contenido
+   */
+  public async printPackingList(
+    pickingId: number,
+    userId: string,
+    deviceId: string
+  ): Promise<{ packingList: PackingList; printJobId: string }> {
+    const packingList = await this.getPackingList(pickingId);
+    const printJobId = await this.enqueuePackingList(
+      packingList,
+      userId,
+      deviceId
+    );
+    return { packingList, printJobId };
+  }
+
+  /**
+   * Resumen de progreso del empaquetado
+   */
+  public static summarize(session: PackingSession): {
+    status: PackingSession["status"];
+    parcels: number;
+    openParcels: number;
+    pickedUnits: number;
+    packedUnits: number;
+    missing: PackingDiscrepancy[];
+    extra: PackingDiscrepancy[];
+  } {
+    return {
+      status: session.status,
+      parcels: session.parcels.length,
+      openParcels: session.parcels.filter((p) => p.status === "open").length,
+      pickedUnits: session.lines.reduce((sum, l) => sum + l.pickedQty, 0),
+      packedUnits: session.lines.reduce((sum, l) => sum + l.packedQty, 0),
+      ...PackingService.getDiscrepancies(session),
+    };
+  }
+
+  /**
+   * Construir la lista de contenido por bultos
+   */
+  public static buildPackingList(session: PackingSession): PackingList {
+    const lines = new Map(session.lines.map((line) => [line.moveId, line]));
+    const parcels = session.parcels.filter((p) => p.items.length > 0);
+
+    return {
+      pickingName: session.pickingName,
+      origin: session.origin,
+      partnerName: session.partnerName,
+      packedAt: session.completedAt
+        ? new Date(session.completedAt).toISOString()
+        : null,
+      parcels: parcels.map((parcel) => ({
+        number: parcel.number,
+        weight: parcel.weight,
+        dimensions: parcel.dimensions,
+        items: parcel.items.map((item) => {
+          const line = lines.get(item.moveId)!;
+          return {
+            reference: line.reference,
+            productName: line.productName,
+            quantity: item.quantity,
+            uom: line.uom,
+          };
+        }),
+      })),
+      totalParcels: parcels.length,
+      totalUnits: session.lines.reduce((sum, l) => sum + l.packedQty, 0),
+      totalWeight: parcels.reduce((sum, p) => sum + (p.weight || 0), 0),
+    };
+  }
+
+  /**
+   * Unidades que faltan o sobran respecto a lo preparado
+   */
+  private static getDiscrepancies(session: PackingSession): {
+    missing: PackingDiscrepancy[];
+    extra: PackingDiscrepancy[];
+  } {
+    const toDiscrepancy = (line: PackLine): PackingDiscrepancy => ({
+      moveId: line.moveId,
+      productName: line.productName,
+      pickedQty: line.pickedQty,
+      packedQty: line.packedQty,
+    });
+
+    return {
+      missing: session.lines
+        .filter((l) => l.pickedQty - l.packedQty > PackingService.QTY_TOLERANCE)
+        .map(toDiscrepancy),
+      extra: session.lines
+        .filter((l) => l.packedQty - l.pickedQty > PackingService.QTY_TOLERANCE)
+        .map(toDiscrepancy),
+    };
+  }
+
+  /**
+   * Bulto vacío
+   */
+  private static newParcel(number: number): Parcel {
+    return {
+      number,
+      status: "open",
+      items: [],
+      weight: null,
+      dimensions: null,
+      closedBy: null,
+      closedAt: null,
+    };
+  }
+
+  /**
+   * Enviar la lista de contenido a la cola de impresión
+   */
+  private async enqueuePackingList(
+    packingList: PackingList,
+    userId: string,
+    deviceId: string
+  ): Promise<string> {
+    const lines = [
+      `LISTA DE CONTENIDO - ${packingList.pickingName}`,
+      `Pedido: ${packingList.origin || "-"}`,
+      `Cliente: ${packingList.partnerName || "-"}`,
+      `Bultos: ${packingList.totalParcels}  Unidades: ${packingList.totalUnits}  Peso: ${packingList.totalWeight} kg`,
+    ];
+
+    for (const parcel of packingList.parcels) {
+      const size = parcel.dimensions
+        ? `  ${parcel.dimensions.length}x${parcel.dimensions.width}x${parcel.dimensions.height} cm`
+        : "";
+      lines.push("", `Bulto ${parcel.number} - ${parcel.weight} kg${size}`);
+      for (const item of parcel.items) {
+        lines.push(
+          `  ${item.quantity} ${item.uom}  ${item.reference || "-"}  ${
+            item.productName
+          }`
+        );
+      }
+    }
+
+    return PrintQueueService.enqueuePrintJob([], userId, deviceId, "normal", {
+      type: "packing_list",
+      reference: packingList.pickingName,
+      lines,
+    });
+  }
+
+  /**
+   * Obtener bulto abierto o fallar
+   */
+  private requireOpenParcel(
+    session: PackingSession,
+    parcelNumber: number
+  ): Parcel {
+    const parcel = session.parcels.find((p) => p.number === parcelNumber);
+    if (!parcel) {
+      throw new AppError(`Bulto ${parcelNumber} no encontrado`, 404);
+    }
+
+    if (parcel.status !== "open") {
+      throw new AppError(`El bulto ${parcelNumber} ya está cerrado`, 409);
+    }
+
+    return parcel;
+  }
+
+  /**
+   * Obtener empaquetado en curso (no completado) o fallar
+   */
+  private async requirePackingSession(
+    pickingId: number
+  ): Promise<PackingSession> {
+    const session = await this.requireSession(pickingId);
+    if (session.status === "completed") {
+      throw new AppError("El empaquetado del pedido ya está completado", 409);
+    }
+    return session;
+  }
+
+  /**
+   * Obtener sesión de empaquetado o fallar
+   */
+  private async requireSession(pickingId: number): Promise<PackingSession> {
+    const session = await this.getSession(pickingId);
+    if (!session) {
+      throw new AppError(
+        "El empaquetado no está iniciado. Inicie el pedido antes de escanear",
+        404
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Obtener sesión de empaquetado
+   */
+  private async getSession(pickingId: number): Promise<PackingSession | null> {
+    const sessionStr = await redis.get(
+      PackingService.PACKING_PREFIX + pickingId
+    );
+    return sessionStr ? JSON.parse(sessionStr) : null;
+  }
+
+  /**
+   * Guardar sesión de empaquetado
+   */
+  private async saveSession(session: PackingSession): Promise<void> {
+    await redis.setex(
+      PackingService.PACKING_PREFIX + session.pickingId,
+      PackingService.PACKING_TTL,
+      JSON.stringify(session)
+    );
+  }
+}
+
+export {
+  PackLine,
+  Parcel,
+  ParcelDimensions,
+  PackingSession,
+  PackingDiscrepancy,
+  PackingList,
+};
@@ -0,0 +1,243 @@
+// src/services/pick-path.service.ts
+import { config } from "../config/index";
+import { LocationValidator, ParsedLocation } from "../utils/location.validator";
+import { AppError } from "../middlewares/error.middleware";
+
+interface PickPathStrategy {
+  readonly name: string;
+  // Ordenar las ubicaciones a visitar
+  sequence(locations: ParsedLocation[]): ParsedLocation[];
+  // Distancia a pie entre dos ubicaciones (null = zona de expedición)
+  distance(from: ParsedLocation | null, to: ParsedLocation | null): number;
+}
+
+interface RouteItem {
+  moveId: number;
+  productName: string;
+  barcode: string | null;
+  expectedQty: number;
+}
+
+interface RouteStop {
+  sequence: number;
+  location: string | null;
+  distanceFromPrevious: number;
+  items: RouteItem[];
+}
+
+interface PickRoute {
+  strategy: string;
+  stops: RouteStop[];
+  totalDistance: number; // metros, incluida la vuelta a expedición
+  unlocatedItems: number;
+}
+
+/**
+ * Recorrido en serpentina: pasillos en orden alfabético, alternando el
+ * sentido de los bloques en cada pasillo visitado. Los pasillos se
+ * comunican por sus dos cabeceras (bloque 00 y último bloque).
+ */
+class SerpentinePathStrategy implements PickPathStrategy {
+  public readonly name = "serpentine";
+
+  public sequence(locations: ParsedLocation[]): ParsedLocation[] {
+    const aisles = [...new Set(locations.map((l) => l.aisle))].sort();
+
+    return aisles.flatMap((aisle, index) => {
+      const descending = index % 2 === 1;
+      return locations
+        .filter((l) => l.aisle === aisle)
+        .sort(
+          (a, b) =>
+            (descending
+              ? b.block.localeCompare(a.block)
+              : a.block.localeCompare(b.block)) ||
+            a.level - b.level ||
+            (a.position || "").localeCompare(b.position || "")
+        );
+    });
+  }
+
+  public distance(
+    from: ParsedLocation | null,
+    to: ParsedLocation | null
+  ): number {
+    const { aisleSpacing, blockLength, blocksPerAisle } = config.picking;
+    const a = from || LocationValidator.firstLocation();
+    const b = to || LocationValidator.firstLocation();
+
+    const aisleA = LocationValidator.aisleIndex(a.aisle);
+    const aisleB = LocationValidator.aisleIndex(b.aisle);
+    const blockA = parseInt(a.block);
+    const blockB = parseInt(b.block);
+
+    if (aisleA === aisleB) {
+      return Math.abs(blockA - blockB) * blockLength;
+    }
+
+    // Cambio de pasillo por la cabecera más cercana
+    const back = Math.max(blocksPerAisle, blockA, blockB);
+    const viaFront = blockA + blockB;
+    const viaBack = back - blockA + (back - blockB);
+
+    return (
+      Math.abs(aisleA - aisleB) * aisleSpacing +
+      Math.min(viaFront, viaBack) * blockLength
+    );
+  }
+}
+
+export class PickPathService {
+  private static strategies = new Map<string, PickPathStrategy>([
+    ["serpentine", new SerpentinePathStrategy()],
+  ]);
+
+  /**
+   * Registrar una estrategia de recorrido adicional
+   */
+  public static registerStrategy(strategy: PickPathStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Estrategias de recorrido disponibles
+   */
+  public static getStrategyNames(): string[] {
+    return [...this.strategies.keys()];
+  }
+
+  /**
+   * Obtener estrategia por nombre (por defecto la configurada)
+   */
+  public static getStrategy(
+    name: string = config.picking.pathStrategy
+  ): PickPathStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new AppError(
+        `Estrategia de recorrido desconocida: ${name}. Disponibles: ${this.getStrategyNames().join(
+          ", "
+        )}`,
+        400
+      );
+    }
+    return strategy;
+  }
+
+  /**
+   * Ordenar elementos con ubicación según el recorrido
+   * (los que no tienen ubicación válida quedan al final)
+   */
+  public static sortByRoute<T extends { location: string | null }>(
+    items: T[],
+    strategyName?: string
+  ): T[] {
+    const strategy = this.getStrategy(strategyName);
+    const order = strategy
+      .sequence(this.parseLocations(items.map((item) => item.location)))
+      .map((l) =>
+        LocationValidator.buildLocation(l.aisle, l.block, l.level, l.position)
+      );
+
+    const position = (item: T) => {
+      const index = item.location ? order.indexOf(item.location) : -1;
+      return index === -1 ? order.length : index;
+    };
+
+    return [...items].sort((a, b) => position(a) - position(b));
+  }
+
+  /**
+   * Construir la ruta de recogida agrupando las líneas por ubicación
+   */
+  public static buildRoute(
+    lines: Array<RouteItem & { location: string | null }>,
+    strategyName?: string
+  ): PickRoute {
+    const strategy = this.getStrategy(strategyName);
+    const sorted = this.sortByRoute(lines, strategy.name);
+
+    const stops: RouteStop[] = [];
+    let previous: ParsedLocation | null = null;
+    let totalDistance = 0;
+
+    for (const line of sorted) {
+      const located =
+        line.location && LocationValidator.validate(line.location);
+      const last = stops[stops.length - 1];
+      const item: RouteItem = {
+        moveId: line.moveId,
+        productName: line.productName,
+        barcode: line.barcode,
+        expectedQty: line.expectedQty,
+      };
+
+      if (located && last && last.location === line.location) {
+        last.items.push(item);
+        continue;
+      }
+
+      let distanceFromPrevious = 0;
+      if (located) {
+        const current = LocationValidator.parseLocation(line.location!);
+        distanceFromPrevious = strategy.distance(previous, current);
+        totalDistance += distanceFromPrevious;
+        previous = current;
+      }
+
+      stops.push({
+        sequence: stops.length + 1,
+        location: located ? line.location : null,
+        distanceFromPrevious: this.round(distanceFromPrevious),
+        items: [item],
+      });
+    }
+
+    // Vuelta a la zona de expedición
+    if (previous) {
+      totalDistance += strategy.distance(previous, null);
+    }
+
+    return {
+      strategy: strategy.name,
+      stops,
+      totalDistance: this.round(totalDistance),
+      unlocatedItems: sorted.filter(
+        (line) => !line.location || !LocationValidator.validate(line.location)
+      ).length,
+    };
+  }
+
+  /**
+   * Descomponer ubicaciones válidas (sin duplicados)
+   */
+  private static parseLocations(
+    locations: Array<string | null>
+  ): ParsedLocation[] {
+    const unique = [
+      ...new Set(
+        locations.filter(
+          (location): location is string =>
+            !!location && LocationValidator.validate(location)
+        )
+      ),
+    ];
+    return unique.map((location) => LocationValidator.parseLocation(location));
+  }
+
+  /**
+   * Redondear distancias a centímetros
+   */
+  private static round(distance: number): number {
+    return Math.round(distance * 100) / 100;
+  }
+}
+
+export {
+  ParsedLocation,
+  PickPathStrategy,
+  RouteItem,
+  RouteStop,
+  PickRoute,
+  SerpentinePathStrategy,
+};
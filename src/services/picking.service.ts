@@ -0,0 +1,1200 @@
+// src/services/picking.service.ts
+import Product from "../models/Product";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { UnknownBarcodeService } from "./unknown-barcode.service";
+import { ProductService } from "./product.service";
+import { ProductBinService } from "./product-bin.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { LotService, LotQuantity, TrackingType } from "./lot.service";
+import { ProductBarcodeService } from "./product-barcode.service";
+import { PickPathService, PickRoute } from "./pick-path.service";
+import { redis } from "../config/redis";
+import { SessionLock } from "../utils/session-lock";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type ShortageType = "short" | "substitute" | "backorder";
+
+interface PickShortage {
+  type: ShortageType;
+  quantity: number;
+  reason: string | null;
+  substituteMoveId: number | null;
+  reportedBy: string;
+  reportedAt: number;
+}
+
+interface PickLine {
+  moveId: number; // negativo para sustitutos (sin movimiento en Odoo)
+  odooProductId: number;
+  productName: string;
+  reference: string | null;
+  barcode: string | null;
+  location: string | null; // ubicación de colocación donde recoger
+  expectedQty: number;
+  pickedQty: number;
+  uom: string;
+  tracking: TrackingType;
+  suggestedLots: string[];
+  lots: LotQuantity[];
+  shortage: PickShortage | null;
+  substituteFor: number | null;
+  lastPickedAt: number | null;
+}
+
+interface PickingSession {
+  pickingId: number;
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  scheduledDate: string;
+  status: "assigned" | "picking";
+  assignedTo: string;
+  assignedDevice: string | null;
+  assignedBy: string;
+  assignedAt: number;
+  startedAt: number | null;
+  waveId: string | null; // oleada que agrupa el pedido
+  lines: PickLine[];
+}
+
+interface PickingSummary {
+  pickingId: number;
+  pickingName: string;
+  totalLines: number;
+  completedLines: number;
+  shortageLines: number;
+  pendingLines: number;
+  totalExpected: number;
+  totalPicked: number;
+}
+
+interface PickStockError {
+  productId: string;
+  reference: string | null;
+  location: string | null;
+  quantity: number;
+  error: string;
+}
+
+interface PickingValidation extends PickingSummary {
+  stockErrors: PickStockError[]; // validado en Odoo, pendiente de descontar
+}
+
+interface OpenPicking {
+  pickingId: number;
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  scheduledDate: string;
+  state: string;
+  assignedTo: string | null;
+  status: PickingSession["status"] | null;
+}
+
+export class PickingService {
+  private odooConnector: OdooConnectorService;
+  private unknownBarcodeService: UnknownBarcodeService;
+  private static readonly PICKING_PREFIX = "recogida:picking:";
+  private static readonly PICKING_TTL = 43200; // 12 horas
+  private static readonly QTY_TOLERANCE = 0.0005;
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+    this.unknownBarcodeService = new UnknownBarcodeService();
+  }
+
+  /**
+   * Listar pedidos de salida abiertos en Odoo con su asignación
+   */
+  public async getOpenPickings(limit: number = 50): Promise<OpenPicking[]> {
+    const response = await this.odooConnector.getOpenPickings(
+      "outgoing",
+      limit
+    );
+
+    if (!response.success || !response.data) {
+      throw new AppError(
+        `Error obteniendo pedidos desde Odoo: ${response.error}`,
+        502
+      );
+    }
+
+    const pickings: OpenPicking[] = [];
+    for (const picking of response.data) {
+      const session = await this.getSession(picking.id);
+
+      pickings.push({
+        pickingId: picking.id,
+        pickingName: picking.name,
+        origin: picking.origin || null,
+        partnerName: picking.partner_id ? picking.partner_id[1] : null,
+        scheduledDate: picking.scheduled_date,
+        state: picking.state,
+        assignedTo: session?.assignedTo || null,
+        status: session?.status || null,
+      });
+    }
+
+    return pickings;
+  }
+
+  /**
+   * Asignar pedido a un operario (y opcionalmente a su dispositivo)
+   */
+  public async assignPicking(
+    pickingId: number,
+    operatorId: string,
+    operatorDevice: string | null,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<PickingSession> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        let session = await this.getSession(pickingId);
+
+        if (session) {
+          this.assertNotInWave(session);
+
+          if (
+            session.status === "picking" &&
+            session.assignedTo !== operatorId
+          ) {
+            logger.warn(
+              `Pedido en preparación reasignado: ${session.pickingName}`,
+              {
+                from: session.assignedTo,
+                to: operatorId,
+              }
+            );
+          }
+
+          session.assignedTo = operatorId;
+          session.assignedDevice = operatorDevice;
+          session.assignedBy = userId;
+          session.assignedAt = Date.now();
+        } else {
+          session = await this.loadPicking(
+            pickingId,
+            operatorId,
+            operatorDevice,
+            userId
+          );
+        }
+
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "picking_assigned",
+            context: { operatorId, operatorDevice },
+          },
+          ipAddress
+        );
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Iniciar la preparación (se autoasigna si el pedido está libre)
+   */
+  public async startPicking(
+    pickingId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<PickingSession> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        let session = await this.getSession(pickingId);
+
+        if (!session) {
+          session = await this.loadPicking(pickingId, userId, deviceId, userId);
+        } else if (session.assignedTo !== userId) {
+          throw new AppError("El pedido está asignado a otro operario", 403);
+        } else if (
+          session.assignedDevice &&
+          session.assignedDevice !== deviceId
+        ) {
+          throw new AppError("El pedido está asignado a otro dispositivo", 403);
+        }
+
+        if (session.status === "picking") {
+          return session;
+        }
+
+        session.status = "picking";
+        session.assignedDevice = deviceId;
+        session.startedAt = Date.now();
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "picking_started",
+            context: { lines: session.lines.length },
+          },
+          ipAddress
+        );
+
+        logger.info(`Preparación iniciada: ${session.pickingName}`, {
+          pickingId,
+          lines: session.lines.length,
+          userId,
+          deviceId,
+        });
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Obtener pedido en preparación
+   */
+  public async getPicking(pickingId: number): Promise<PickingSession> {
+    const session = await this.getSession(pickingId);
+    if (!session) {
+      throw new AppError("El pedido no está asignado ni en preparación", 404);
+    }
+    return session;
+  }
+
+  /**
+   * Registrar recogida verificando ubicación y producto escaneados
+   */
+  public async scanPick(
+    pickingId: number,
+    location: string,
+    barcode: string,
+    requestedQty: number | undefined,
+    lotNumber: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: PickingSession; line: PickLine }> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireOperatorSession(pickingId, userId);
+        this.assertNotInWave(session);
+        const scannedLocation = LocationValidator.validateAndClean(location);
+        const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+        const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+
+        const productLines = session.lines.filter(
+          (line) =>
+            line.barcode === cleanBarcode ||
+            (resolved &&
+              line.odooProductId === resolved.product.odoo_product_id)
+        );
+
+        if (productLines.length === 0) {
+          if (!resolved) {
+            await this.unknownBarcodeService.recordMiss(cleanBarcode, {
+              userId,
+              deviceId,
+              module: "recogida",
+              location: scannedLocation,
+              context: session.pickingName,
+            });
+          }
+
+          throw new AppError(
+            `El código ${cleanBarcode} no corresponde a ningún producto del pedido ${session.pickingName}`,
+            404
+          );
+        }
+
+        const openLines = productLines.filter(
+          (line) => !line.shortage && line.pickedQty < line.expectedQty
+        );
+        if (openLines.length === 0) {
+          throw new AppError(
+            `${productLines[0].productName} ya está completo en el pedido`,
+            400
+          );
+        }
+
+        const line = openLines.find(
+          (l) => !l.location || l.location === scannedLocation
+        );
+        if (!line) {
+          throw new AppError(
+            `Ubicación incorrecta para ${openLines[0].productName}: se esperaba ${openLines[0].location}`,
+            400
+          );
+        }
+
+        const quantity =
+          requestedQty ?? resolved?.packaging.unitsPerPackage ?? 1;
+        if (quantity <= 0) {
+          throw new AppError(
+            "La cantidad recogida debe ser mayor que cero",
+            400
+          );
+        }
+
+        if (
+          line.pickedQty + quantity >
+          line.expectedQty + PickingService.QTY_TOLERANCE
+        ) {
+          throw new AppError(
+            `No se pueden recoger más unidades de las pedidas de ${line.productName} (${line.pickedQty}/${line.expectedQty})`,
+            400
+          );
+        }
+
+        if (LotService.requiresTracking(line.tracking) || lotNumber) {
+          this.addPickedLot(line, lotNumber, quantity);
+        }
+
+        line.pickedQty += quantity;
+        line.lastPickedAt = Date.now();
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "line_picked",
+            barcode: cleanBarcode,
+            location: scannedLocation,
+            odooProductId: line.odooProductId,
+            quantity,
+            context: lotNumber ? { lotNumber } : undefined,
+          },
+          ipAddress
+        );
+
+        return { session, line };
+      }
+    );
+  }
+
+  /**
+   * Declarar falta en una línea: falta definitiva, sustituto o pendiente
+   */
+  public async reportShortage(
+    pickingId: number,
+    moveId: number,
+    type: ShortageType,
+    substituteBarcode: string | undefined,
+    reason: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: PickingSession; line: PickLine }> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireOperatorSession(pickingId, userId);
+        this.assertNotInWave(session);
+        const line = session.lines.find((l) => l.moveId === moveId);
+        if (!line) {
+          throw new AppError("Línea no encontrada en el pedido", 404);
+        }
+
+        if (line.shortage) {
+          throw new AppError("La línea ya tiene una falta registrada", 409);
+        }
+
+        const remaining = line.expectedQty - line.pickedQty;
+        if (remaining <= PickingService.QTY_TOLERANCE) {
+          throw new AppError("La línea ya está completa", 400);
+        }
+
+        // Un sustituto sin existencias solo puede quedarse corto
+        if (line.substituteFor !== null && type !== "short") {
+          throw new AppError(
+            "Las líneas sustitutas solo admiten falta definitiva",
+            400
+          );
+        }
+
+        let substituteMoveId: number | null = null;
+        if (type === "substitute") {
+          const substitute = await this.createSubstituteLine(
+            session,
+            line,
+            substituteBarcode,
+            remaining
+          );
+          session.lines.push(substitute);
+          substituteMoveId = substitute.moveId;
+        }
+
+        line.shortage = {
+          type,
+          quantity: remaining,
+          reason: reason || null,
+          substituteMoveId,
+          reportedBy: userId,
+          reportedAt: Date.now(),
+        };
+        await this.saveSession(session);
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "shortage_reported",
+            odooProductId: line.odooProductId,
+            quantity: remaining,
+            context: { type, reason, substituteMoveId },
+          },
+          ipAddress
+        );
+
+        logger.info(`Falta registrada en ${session.pickingName}`, {
+          moveId,
+          type,
+          quantity: remaining,
+          userId,
+        });
+
+        return { session, line };
+      }
+    );
+  }
+
+  /**
+   * Validar el pedido en Odoo una vez recogidas o justificadas todas las líneas
+   */
+  public async validatePicking(
+    pickingId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<PickingValidation> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireOperatorSession(pickingId, userId);
+
+        const pendingLines = session.lines.filter(
+          (line) =>
+            !line.shortage &&
+            line.expectedQty - line.pickedQty > PickingService.QTY_TOLERANCE
+        );
+        if (pendingLines.length > 0) {
+          throw new AppError(
+            `Quedan líneas sin recoger ni justificar: ${pendingLines
+              .map((line) => line.productName)
+              .join(", ")}`,
+            400
+          );
+        }
+
+        const summary = PickingService.summarize(session);
+        if (summary.totalPicked <= 0) {
+          throw new AppError(
+            "No se puede validar un pedido sin unidades recogidas",
+            400
+          );
+        }
+
+        // Lotes y stock local se comprueban antes de tocar Odoo
+        for (const line of session.lines) {
+          if (
+            !LotService.requiresTracking(line.tracking) ||
+            line.pickedQty <= 0
+          ) {
+            continue;
+          }
+
+          const lotTotal = line.lots.reduce(
+            (sum, lot) => sum + lot.quantity,
+            0
+          );
+          if (
+            Math.abs(lotTotal - line.pickedQty) > PickingService.QTY_TOLERANCE
+          ) {
+            throw new AppError(
+              `Faltan lotes por registrar en ${line.productName} (${lotTotal}/${line.pickedQty})`,
+              400
+            );
+          }
+        }
+        await this.assertStockAvailable(session);
+
+        // Faltas definitivas y sustituidas: la demanda se ajusta a lo recogido
+        for (const line of session.lines) {
+          if (
+            line.moveId > 0 &&
+            (line.shortage?.type === "short" ||
+              line.shortage?.type === "substitute")
+          ) {
+            const demandResponse = await this.odooConnector.setMoveDemand(
+              line.moveId,
+              line.pickedQty
+            );
+
+            if (!demandResponse.success) {
+              throw new AppError(
+                `Error ajustando la demanda de ${line.productName}: ${demandResponse.error}`,
+                502
+              );
+            }
+          }
+        }
+
+        // Los sustitutos se añaden al albarán como nuevos movimientos
+        for (const line of session.lines.filter((l) => l.moveId < 0)) {
+          if (line.pickedQty <= 0) {
+            continue;
+          }
+
+          const moveResponse = await this.odooConnector.addPickingMove(
+            pickingId,
+            line.odooProductId,
+            line.pickedQty
+          );
+
+          if (!moveResponse.success || !moveResponse.data) {
+            throw new AppError(
+              `Error añadiendo ${line.productName} al pedido: ${moveResponse.error}`,
+              502
+            );
+          }
+
+          const original = session.lines.find(
+            (l) => l.shortage?.substituteMoveId === line.moveId
+          );
+          if (original) {
+            original.shortage!.substituteMoveId = moveResponse.data;
+          }
+          line.moveId = moveResponse.data;
+        }
+
+        // Evitar reenviar los movimientos ya creados si la validación falla
+        await this.saveSession(session);
+
+        const movedLines = session.lines.filter((line) => line.moveId > 0);
+        const trackedLines = movedLines.filter(
+          (line) =>
+            LotService.requiresTracking(line.tracking) && line.pickedQty > 0
+        );
+
+        const quantitiesResponse = await this.odooConnector.setMoveQuantities(
+          movedLines.map((line) => ({
+            moveId: line.moveId,
+            quantity: line.pickedQty,
+          }))
+        );
+
+        if (!quantitiesResponse.success) {
+          throw new AppError(
+            `Error registrando cantidades en Odoo: ${quantitiesResponse.error}`,
+            502
+          );
+        }
+
+        for (const line of trackedLines) {
+          const lotsResponse = await this.odooConnector.setMoveLotLines(
+            line.moveId,
+            line.lots
+          );
+
+          if (!lotsResponse.success) {
+            throw new AppError(
+              `Error registrando lotes de ${line.productName} en Odoo: ${lotsResponse.error}`,
+              502
+            );
+          }
+        }
+
+        const createBackorder = session.lines.some(
+          (line) => line.shortage?.type === "backorder"
+        );
+        const validateResponse = await this.odooConnector.validatePicking(
+          pickingId,
+          createBackorder
+        );
+
+        if (!validateResponse.success) {
+          throw new AppError(
+            `Error validando el pedido en Odoo: ${validateResponse.error}`,
+            502
+          );
+        }
+
+        await redis.del(PickingService.PICKING_PREFIX + pickingId);
+
+        // Lo recogido sale de su ubicación: lotes y stock local. La bajada de
+        // stock puede generar tareas de reposición de la ubicación de picking
+        const stockErrors: PickStockError[] = [];
+        for (const line of movedLines.filter((l) => l.pickedQty > 0)) {
+          const product = await Product.findOne({
+            where: { odoo_product_id: line.odooProductId },
+          });
+
+          if (!product) {
+            continue;
+          }
+
+          try {
+            if (line.lots.length > 0) {
+              await LotService.removeLots(product, line.lots, line.location);
+            }
+
+            // Se descuenta de la ubicación recogida, no del total del producto
+            if (line.location) {
+              await ProductService.adjustBin(
+                product.id,
+                line.location,
+                -line.pickedQty,
+                {
+                  changeReason: `Recogida ${session.pickingName}`,
+                  source: "pick",
+                  reference: session.pickingName,
+                },
+                userId,
+                deviceId,
+                ipAddress
+              );
+            } else {
+              await ProductService.updateProduct(
+                product.id,
+                {
+                  stock: Math.max(0, Number(product.stock) - line.pickedQty),
+                  changeReason: `Recogida ${session.pickingName}`,
+                  source: "pick",
+                  reference: session.pickingName,
+                },
+                userId,
+                deviceId,
+                ipAddress
+              );
+            }
+          } catch (error) {
+            stockErrors.push({
+              productId: product.id,
+              reference: product.reference,
+              location: line.location,
+              quantity: line.pickedQty,
+              error:
+                error instanceof Error ? error.message : "Error desconocido",
+            });
+            logger.warn(
+              `No se pudo descontar el stock de ${product.reference} tras la recogida`,
+              error
+            );
+          }
+        }
+
+        await auditLogger.logRecogidaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "picking_validated",
+            context: { ...summary, createBackorder, stockErrors },
+          },
+          ipAddress
+        );
+
+        logger.info(`Pedido validado en Odoo: ${session.pickingName}`, {
+          pickingId,
+          createBackorder,
+          userId,
+        });
+
+        return { ...summary, stockErrors };
+      }
+    );
+  }
+
+  /**
+   * Reservar un pedido para una oleada (se inicia a nombre del operario)
+   */
+  public async reserveForWave(
+    pickingId: number,
+    waveId: string,
+    userId: string,
+    deviceId: string
+  ): Promise<PickingSession> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        let session = await this.getSession(pickingId);
+
+        if (!session) {
+          session = await this.loadPicking(pickingId, userId, deviceId, userId);
+        } else {
+          if (session.waveId && session.waveId !== waveId) {
+            throw new AppError(
+              `El pedido ${session.pickingName} ya pertenece a otra oleada`,
+              409
+            );
+          }
+
+          if (session.status === "picking" && session.assignedTo !== userId) {
+            throw new AppError(
+              `El pedido ${session.pickingName} está en preparación por otro operario`,
+              409
+            );
+          }
+
+          if (
+            session.lines.some((line) => line.pickedQty > 0 || line.shortage)
+          ) {
+            throw new AppError(
+              `El pedido ${session.pickingName} ya tiene recogidas registradas`,
+              409
+            );
+          }
+        }
+
+        session.status = "picking";
+        session.assignedTo = userId;
+        session.assignedDevice = deviceId;
+        session.startedAt = session.startedAt || Date.now();
+        session.waveId = waveId;
+        await this.saveSession(session);
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Liberar un pedido de su oleada sin recogidas
+   */
+  public async releaseFromWave(
+    pickingId: number,
+    waveId: string
+  ): Promise<void> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.getSession(pickingId);
+        if (!session || session.waveId !== waveId) {
+          return;
+        }
+
+        session.waveId = null;
+        session.status = "assigned";
+        await this.saveSession(session);
+      }
+    );
+  }
+
+  /**
+   * Trasladar al pedido las cantidades, lotes y faltas recogidas en oleada
+   */
+  public async applyWavePicks(
+    pickingId: number,
+    waveId: string,
+    picks: Array<{
+      moveId: number;
+      quantity: number;
+      lots: LotQuantity[];
+      shortage: { type: "short" | "backorder"; reason: string | null } | null;
+    }>,
+    userId: string
+  ): Promise<void> {
+    return SessionLock.run(
+      PickingService.PICKING_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireOperatorSession(pickingId, userId);
+        if (session.waveId !== waveId) {
+          throw new AppError(
+            `El pedido ${session.pickingName} no pertenece a la oleada`,
+            409
+          );
+        }
+
+        for (const pick of picks) {
+          const line = session.lines.find((l) => l.moveId === pick.moveId);
+          if (!line) {
+            throw new AppError(
+              `Línea ${pick.moveId} no encontrada en ${session.pickingName}`,
+              404
+            );
+          }
+
+          line.pickedQty = pick.quantity;
+          line.lots = pick.lots;
+          line.lastPickedAt = Date.now();
+          line.shortage =
+            pick.shortage && line.expectedQty - pick.quantity > 0
+              ? {
+                  type: pick.shortage.type,
+                  quantity: line.expectedQty - pick.quantity,
+                  reason: pick.shortage.reason,
+                  substituteMoveId: null,
+                  reportedBy: userId,
+                  reportedAt: Date.now(),
+                }
+              : null;
+        }
+
+        await this.saveSession(session);
+      }
+    );
+  }
+
+  /**
+   * Ruta de recogida de las líneas pendientes del pedido
+   */
+  public async getRoute(
+    pickingId: number,
+    strategy?: string
+  ): Promise<PickRoute> {
+    const session = await this.getPicking(pickingId);
+
+    const pending = session.lines
+      .filter((line) => !line.shortage && line.pickedQty < line.expectedQty)
+      .map((line) => ({
+        moveId: line.moveId,
+        productName: line.productName,
+        barcode: line.barcode,
+        location: line.location,
+        expectedQty: line.expectedQty - line.pickedQty,
+      }));
+
+    return PickPathService.buildRoute(pending, strategy);
+  }
+
+  /**
+   * Resumen de progreso de un pedido
+   */
+  public static summarize(session: PickingSession): PickingSummary {
+    const completedLines = session.lines.filter(
+      (line) => line.pickedQty >= line.expectedQty
+    ).length;
+    const shortageLines = session.lines.filter(
+      (line) => line.shortage !== null
+    ).length;
+
+    return {
+      pickingId: session.pickingId,
+      pickingName: session.pickingName,
+      totalLines: session.lines.length,
+      completedLines,
+      shortageLines,
+      pendingLines: session.lines.filter(
+        (line) => !line.shortage && line.pickedQty < line.expectedQty
+      ).length,
+      totalExpected: session.lines.reduce((sum, l) => sum + l.expectedQty, 0),
+      totalPicked: session.lines.reduce((sum, l) => sum + l.pickedQty, 0),
+    };
+  }
+
+  /**
+   * Cargar pedido de salida desde Odoo con sus líneas y ubicaciones
+   */
+  private async loadPicking(
+    pickingId: number,
+    operatorId: string,
+    operatorDevice: string | null,
+    assignedBy: string
+  ): Promise<PickingSession> {
+    const pickingResponse = await this.odooConnector.getPicking(pickingId);
+    if (!pickingResponse.success || !pickingResponse.data) {
+      throw new AppError("Pedido no encontrado en Odoo", 404);
+    }
+
+    const picking = pickingResponse.data;
+    if (picking.picking_type_code !== "outgoing") {
+      throw new AppError("El albarán indicado no es un pedido de salida", 400);
+    }
+
+    if (picking.state === "done" || picking.state === "cancel") {
+      throw new AppError("El pedido ya está cerrado en Odoo", 409);
+    }
+
+    const [movesResponse, moveLinesResponse] = await Promise.all([
+      this.odooConnector.getPickingMoves(pickingId),
+      this.odooConnector.getPickingMoveLines(pickingId),
+    ]);
+    if (!movesResponse.success || !movesResponse.data) {
+      throw new AppError(
+        `Error obteniendo líneas del pedido: ${movesResponse.error}`,
+        502
+      );
+    }
+
+    const moves = movesResponse.data;
+    const moveLines = moveLinesResponse.data || [];
+    const productIds = [...new Set(moves.map((move) => move.product_id[0]))];
+    const [productsResponse, localProducts] = await Promise.all([
+      this.odooConnector.getProductsByIds(productIds),
+      Product.findAll({ where: { odoo_product_id: productIds } }),
+    ]);
+    const odooProducts = new Map(
+      (productsResponse.data || []).map((product) => [product.id, product])
+    );
+    const locations = new Map(
+      localProducts.map((product) => [
+        product.odoo_product_id,
+        product.location,
+      ])
+    );
+
+    const lines: PickLine[] = moves.map((move) => {
+      const odooProduct = odooProducts.get(move.product_id[0]);
+      const reserved = moveLines.filter((ml) => ml.move_id[0] === move.id);
+
+      // Ubicación reservada por Odoo si es de colocación, si no la del producto
+      const reservedLocation = reserved
+        .map((ml) => ml.location_barcode)
+        .find((code) => code && LocationValidator.validate(code));
+
+      return {
+        moveId: move.id,
+        odooProductId: move.product_id[0],
+        productName: odooProduct?.name || move.product_id[1],
+        reference: odooProduct?.default_code || null,
+        barcode: odooProduct?.barcode || null,
+        location: reservedLocation || locations.get(move.product_id[0]) || null,
+        expectedQty: move.product_uom_qty,
+        pickedQty: 0,
+        uom: move.product_uom[1],
+        tracking: LotService.requiresTracking(odooProduct?.tracking)
+          ? (odooProduct!.tracking as TrackingType)
+          : "none",
+        suggestedLots: reserved
+          .map((ml) => ml.lot_name)
+          .filter((lot): lot is string => !!lot),
+        lots: [],
+        shortage: null,
+        substituteFor: null,
+        lastPickedAt: null,
+      };
+    });
+
+    // Ordenar las líneas según el recorrido por el almacén
+    const sortedLines = PickPathService.sortByRoute(lines);
+
+    return {
+      pickingId: picking.id,
+      pickingName: picking.name,
+      origin: picking.origin || null,
+      partnerName: picking.partner_id ? picking.partner_id[1] : null,
+      scheduledDate: picking.scheduled_date,
+      status: "assigned",
+      assignedTo: operatorId,
+      assignedDevice: operatorDevice,
+      assignedBy,
+      assignedAt: Date.now(),
+      startedAt: null,
+      waveId: null,
+      lines: sortedLines,
+    };
+  }
+
+  /**
+   * Crear línea para el producto sustituto de una falta
+   */
+  private async createSubstituteLine(
+    session: PickingSession,
+    line: PickLine,
+    substituteBarcode: string | undefined,
+    quantity: number
+  ): Promise<PickLine> {
+    if (!substituteBarcode) {
+      throw new AppError("Indique el código del producto sustituto", 400);
+    }
+
+    const resolved = await ProductBarcodeService.resolve(
+      BarcodeValidator.validateAndClean(substituteBarcode)
+    );
+    if (!resolved || !resolved.product.odoo_product_id) {
+      throw new AppError("Producto sustituto no encontrado", 404);
+    }
+
+    const product = resolved.product;
+    if (product.odoo_product_id === line.odooProductId) {
+      throw new AppError(
+        "El sustituto debe ser un producto distinto al pedido",
+        400
+      );
+    }
+
+    const minMoveId = Math.min(0, ...session.lines.map((l) => l.moveId));
+
+    return {
+      moveId: minMoveId - 1,
+      odooProductId: product.odoo_product_id!,
+      productName: product.description,
+      reference: product.reference,
+      barcode: product.barcode,
+      location: product.location,
+      expectedQty: quantity,
+      pickedQty: 0,
+      uom: line.uom,
+      tracking: product.tracking,
+      suggestedLots: [],
+      lots: [],
+      shortage: null,
+      substituteFor: line.moveId,
+      lastPickedAt: null,
+    };
+  }
+
+  /**
+   * Añadir el lote / número de serie recogido a una línea
+   */
+  private addPickedLot(
+    line: PickLine,
+    lotNumber: string | undefined,
+    quantity: number
+  ): void {
+    const [lot] = LotService.validateLots(
+      line.tracking,
+      lotNumber ? [{ lotNumber, quantity }] : undefined,
+      line.productName
+    );
+
+    const existing = line.lots.find((l) => l.lotNumber === lot.lotNumber);
+
+    if (line.tracking === "serial" && existing) {
+      throw new AppError(
+        `El número de serie ${lot.lotNumber} ya se ha recogido en este pedido`,
+        409
+      );
+    }
+
+    if (existing) {
+      existing.quantity += lot.quantity;
+    } else {
+      line.lots.push(lot);
+    }
+  }
+
+  /**
+   * Los pedidos agrupados en oleada solo se recogen desde la oleada
+   */
+  private assertNotInWave(session: PickingSession): void {
+    if (session.waveId) {
+      throw new AppError(
+        `El pedido ${session.pickingName} se está recogiendo en una oleada`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Obtener sesión de preparación en curso
+   */
+  private async getSession(pickingId: number): Promise<PickingSession | null> {
+    const sessionStr = await redis.get(
+      PickingService.PICKING_PREFIX + pickingId
+    );
+    return sessionStr ? JSON.parse(sessionStr) : null;
+  }
+
+  /**
+   * Obtener sesión en preparación del operario asignado o fallar
+   */
+  private async requireOperatorSession(
+    pickingId: number,
+    userId: string
+  ): Promise<PickingSession> {
+    const session = await this.getSession(pickingId);
+    if (!session || session.status !== "picking") {
+      throw new AppError(
+        "La preparación no está iniciada. Inicie el pedido antes de escanear",
+        404
+      );
+    }
+
+    if (session.assignedTo !== userId) {
+      throw new AppError("El pedido está asignado a otro operario", 403);
+    }
+
+    return session;
+  }
+
+  /**
+   * Comprobar que lo recogido puede salir del stock local: ubicación fuera
+   * de un inventario abierto y existencias suficientes en ella
+   */
+  private async assertStockAvailable(session: PickingSession): Promise<void> {
+    const picked = new Map<
+      string,
+      { product: Product; location: string | null; quantity: number }
+    >();
+
+    for (const line of session.lines.filter((l) => l.pickedQty > 0)) {
+      const product = await Product.findOne({
+        where: { odoo_product_id: line.odooProductId },
+      });
+
+      if (!product) {
+        continue;
+      }
+
+      const key = `${product.id}:${line.location ?? ""}`;
+      const entry = picked.get(key) || {
+        product,
+        location: line.location,
+        quantity: 0,
+      };
+      entry.quantity += line.pickedQty;
+      picked.set(key, entry);
+    }
+
+    for (const { product, location, quantity } of picked.values()) {
+      await InventorySessionService.assertNotFrozen([
+        location ?? product.location,
+      ]);
+
+      if (!location) {
+        continue;
+      }
+
+      const available = await ProductBinService.quantityAt(product, location);
+      if (quantity - available > PickingService.QTY_TOLERANCE) {
+        throw new AppError(
+          `Stock insuficiente de ${product.reference} en ${location}: ${available} disponibles para ${quantity} recogidos`,
+          409
+        );
+      }
+    }
+  }
+
+  /**
+   * Guardar sesión de preparación
+   */
+  private async saveSession(session: PickingSession): Promise<void> {
+    await redis.setex(
+      PickingService.PICKING_PREFIX + session.pickingId,
+      PickingService.PICKING_TTL,
+      JSON.stringify(session)
+    );
+  }
+}
+
+export {
+  ShortageType,
+  PickShortage,
+  PickLine,
+  PickingSession,
+  PickingSummary,
+  PickStockError,
+  PickingValidation,
+  OpenPicking,
+};
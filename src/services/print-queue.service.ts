@@ -4,11 +4,18 @@ import { LabelService } from "./label.service";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/error.middleware";
 
+interface PrintDocument {
+  type: "packing_list";
+  reference: string; // albarán o bulto al que pertenece
+  lines: string[]; // contenido en texto plano para la impresora
+}
+
 interface PrintQueueItem {
   id: string;
   userId: string;
   deviceId: string;
   labelIds: string[];
+  document?: PrintDocument; // documentos que no son etiquetas de producto
   priority: "low" | "normal" | "high";
   status: "queued" | "processing" | "completed" | "failed";
   createdAt: Date;
@@ -42,7 +49,8 @@ export class PrintQueueService {
     labelIds: string[],
     userId: string,
     deviceId: string,
-    priority: "low" | "normal" | "high" = "normal"
+    priority: "low" | "normal" | "high" = "normal",
+    document?: PrintDocument
   ): Promise<string> {
     try {
       const jobId = `print_${Date.now()}_${Math.random()
@@ -54,6 +62,7 @@ export class PrintQueueService {
         userId,
         deviceId,
         labelIds,
+        document,
         priority,
         status: "queued",
         createdAt: new Date(),
@@ -75,6 +84,7 @@ export class PrintQueueService {
         userId,
         deviceId,
         labelCount: labelIds.length,
+        document: document?.type,
         priority,
       });
 
@@ -134,11 +144,13 @@ export class PrintQueueService {
       const queueItem: PrintQueueItem = JSON.parse(jobDataStr);
 
       // Marcar etiquetas como impresas
-      await LabelService.markLabelsAsPrinted(
-        queueItem.labelIds,
-        queueItem.userId,
-        jobId
-      );
+      if (queueItem.labelIds.length > 0) {
+        await LabelService.markLabelsAsPrinted(
+          queueItem.labelIds,
+          queueItem.userId,
+          jobId
+        );
+      }
 
       // Eliminar de cola de procesamiento
       await redis.del(processingKey);
@@ -418,3 +430,5 @@ export class PrintQueueService {
     }
   }
 }
+
+export { PrintDocument };
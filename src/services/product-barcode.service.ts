@@ -0,0 +1,287 @@
+// src/services/product-barcode.service.ts
+import Product from "../models/Product";
+import ProductBarcode from "../models/ProductBarcode";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type PackagingType = "unit" | "inner" | "case";
+
+interface PackagingInfo {
+  barcode: string;
+  type: PackagingType;
+  unitsPerPackage: number;
+  alias: boolean; // true si el código es alternativo (no el principal)
+}
+
+interface ResolvedBarcode {
+  product: Product;
+  packaging: PackagingInfo;
+}
+
+interface CountedItem {
+  barcode: string;
+  quantity: number; // unidades
+}
+
+interface CountedProduct {
+  product: Product;
+  quantity: number;
+}
+
+interface ProductBarcodeData {
+  barcode: string;
+  type: PackagingType;
+  unitsPerPackage?: number;
+}
+
+export class ProductBarcodeService {
+  /**
+   * Resolver un código de barras (principal o alternativo) a su producto activo
+   */
+  public static async resolve(
+    barcode: string
+  ): Promise<ResolvedBarcode | null> {
+    const product = await Product.findOne({
+      where: { barcode, status: "active" },
+    });
+
+    if (product) {
+      return {
+        product,
+        packaging: this.primaryPackaging(product),
+      };
+    }
+
+    return this.resolveAlias(barcode);
+  }
+
+  /**
+   * Resolver únicamente códigos de barras alternativos
+   */
+  public static async resolveAlias(
+    barcode: string
+  ): Promise<ResolvedBarcode | null> {
+    const alias = await ProductBarcode.findOne({
+      where: { barcode },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          where: { status: "active" },
+        },
+      ],
+    });
+
+    if (!alias || !alias.product) {
+      return null;
+    }
+
+    return {
+      product: alias.product,
+      packaging: this.toPackagingInfo(alias),
+    };
+  }
+
+  /**
+   * Resolver los códigos escaneados en un conteo y sumar las cantidades
+   * por producto
+   */
+  public static async resolveCounts(
+    items: CountedItem[]
+  ): Promise<Map<string, CountedProduct>> {
+    const counted = new Map<string, CountedProduct>();
+
+    for (const item of items) {
+      const barcode = BarcodeValidator.validateAndClean(item.barcode);
+      const resolved = await this.resolve(barcode);
+      if (!resolved) {
+        throw new AppError(`Código de barras no reconocido: ${barcode}`, 404);
+      }
+
+      const entry = counted.get(resolved.product.id) || {
+        product: resolved.product,
+        quantity: 0,
+      };
+      entry.quantity =
+        Math.round((entry.quantity + item.quantity) * 1000) / 1000;
+      counted.set(resolved.product.id, entry);
+    }
+
+    return counted;
+  }
+
+  /**
+   * Embalaje del código principal del producto (unidad)
+   */
+  public static primaryPackaging(product: Product): PackagingInfo {
+    return {
+      barcode: product.barcode,
+      type: "unit",
+      unitsPerPackage: 1,
+      alias: false,
+    };
+  }
+
+  /**
+   * Listar códigos de barras alternativos de un producto
+   */
+  public static async getBarcodes(
+    productId: string
+  ): Promise<{ product: Product; barcodes: PackagingInfo[] }> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const aliases = await ProductBarcode.findAll({
+      where: { product_id: productId },
+      order: [
+        ["type", "ASC"],
+        ["created_at", "ASC"],
+      ],
+    });
+
+    return {
+      product,
+      barcodes: [
+        this.primaryPackaging(product),
+        ...aliases.map((alias) => this.toPackagingInfo(alias)),
+      ],
+    };
+  }
+
+  /**
+   * Añadir código de barras alternativo o de embalaje a un producto
+   */
+  public static async addBarcode(
+    productId: string,
+    data: ProductBarcodeData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ProductBarcode> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const barcode = BarcodeValidator.validateAndClean(data.barcode);
+    const unitsPerPackage = data.unitsPerPackage ?? 1;
+
+    if (data.type === "unit" && unitsPerPackage !== 1) {
+      throw new AppError(
+        "Los códigos de unidad deben tener 1 unidad por embalaje",
+        400
+      );
+    }
+
+    if (data.type !== "unit" && unitsPerPackage <= 1) {
+      throw new AppError(
+        "Los códigos de embalaje deben indicar más de 1 unidad por embalaje",
+        400
+      );
+    }
+
+    const [primaryOwner, aliasOwner] = await Promise.all([
+      Product.findOne({ where: { barcode } }),
+      ProductBarcode.findOne({ where: { barcode } }),
+    ]);
+
+    if (primaryOwner || aliasOwner) {
+      throw new AppError(
+        `El código ${barcode} ya está asignado a otro producto o embalaje`,
+        409
+      );
+    }
+
+    const alias = await ProductBarcode.create({
+      product_id: product.id,
+      barcode,
+      type: data.type,
+      units_per_package: unitsPerPackage,
+      created_by: userId,
+    });
+
+    await auditLogger.logBarcodeOperation(
+      userId,
+      deviceId,
+      {
+        productId: product.id,
+        reference: product.reference,
+        barcode,
+        packagingType: data.type,
+        unitsPerPackage,
+        action: "added",
+      },
+      ipAddress
+    );
+
+    logger.info(`Código alternativo añadido: ${barcode}`, {
+      productId: product.id,
+      type: data.type,
+      unitsPerPackage,
+      userId,
+    });
+
+    return alias;
+  }
+
+  /**
+   * Eliminar código de barras alternativo de un producto
+   */
+  public static async removeBarcode(
+    productId: string,
+    barcodeId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    const alias = await ProductBarcode.findOne({
+      where: { id: barcodeId, product_id: productId },
+      include: [{ model: Product, as: "product" }],
+    });
+
+    if (!alias) {
+      throw new AppError("Código de barras alternativo no encontrado", 404);
+    }
+
+    await alias.destroy();
+
+    await auditLogger.logBarcodeOperation(
+      userId,
+      deviceId,
+      {
+        productId,
+        reference: alias.product?.reference || "",
+        barcode: alias.barcode,
+        packagingType: alias.type,
+        unitsPerPackage: Number(alias.units_per_package),
+        action: "removed",
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Convertir registro de código alternativo en información de embalaje
+   */
+  private static toPackagingInfo(alias: ProductBarcode): PackagingInfo {
+    return {
+      barcode: alias.barcode,
+      type: alias.type,
+      unitsPerPackage: Number(alias.units_per_package),
+      alias: true,
+    };
+  }
+}
+
+export {
+  PackagingType,
+  PackagingInfo,
+  ResolvedBarcode,
+  ProductBarcodeData,
+  CountedItem,
+  CountedProduct,
+};
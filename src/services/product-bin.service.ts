@@ -0,0 +1,442 @@
+// src/services/product-bin.service.ts
+import { Transaction } from "sequelize";
+import ProductBin from "../models/ProductBin";
+import Product from "../models/Product";
+import { AppError } from "../middlewares/error.middleware";
+
+interface ProductBinSummary {
+  location: string;
+  quantity: number;
+  pickFace: boolean;
+  updatedAt: Date;
+}
+
+interface BinQuantityChange {
+  bin: ProductBin | null; // null = ubicación de reserva vaciada y eliminada
+  oldQuantity: number;
+  created: boolean;
+}
+
+interface BinState {
+  location: string;
+  quantity: number;
+  pickFace: boolean;
+}
+
+interface BinMove {
+  quantity: number;
+  before: BinState[]; // origen y destino antes del movimiento
+  after: BinState[]; // origen y destino después del movimiento
+}
+
+/**
+ * Stock por ubicación: cada producto tiene una ubicación de picking y
+ * opcionalmente varias de reserva. `Product.stock` es la suma de todas y
+ * `Product.location` la de picking. Los métodos que modifican ubicaciones
+ * recalculan esos campos en el producto pero no lo guardan: quien llama
+ * guarda el producto en la misma transacción que las ubicaciones.
+ */
+export class ProductBinService {
+  /**
+   * Ubicaciones de un producto, primero la de picking.
+   * Los productos anteriores al stock por ubicación se migran al consultarlos
+   * (una sola vez aunque se consulten a la vez).
+   */
+  public static async getBins(
+    product: Product,
+    transaction?: Transaction
+  ): Promise<ProductBin[]> {
+    const bins = await ProductBin.findAll({
+      where: { product_id: product.id },
+      order: [
+        ["is_pick_face", "DESC"],
+        ["location", "ASC"],
+      ],
+      transaction,
+    });
+
+    if (bins.length === 0 && product.location) {
+      const [bin] = await ProductBin.findOrCreate({
+        where: { product_id: product.id, location: product.location },
+        defaults: {
+          product_id: product.id,
+          location: product.location,
+          quantity: Number(product.stock),
+          is_pick_face: true,
+        },
+        transaction,
+      });
+      return [bin];
+    }
+
+    return bins;
+  }
+
+  /**
+   * Ubicaciones de productos activos en una ubicación. Los productos de la
+   * ubicación aún sin stock por ubicación se migran antes de buscar.
+   */
+  public static async findByLocation(location: string): Promise<ProductBin[]> {
+    const legacy = await Product.findAll({
+      where: { location, status: "active" },
+    });
+    for (const product of legacy) {
+      await this.getBins(product);
+    }
+
+    return ProductBin.findAll({
+      where: { location },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          where: { status: "active" },
+        },
+      ],
+      order: [[{ model: Product, as: "product" }, "reference", "ASC"]],
+    });
+  }
+
+  /**
+   * Cantidad de un producto en una ubicación
+   */
+  public static async quantityAt(
+    product: Product,
+    location: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    const bins = await this.getBins(product, transaction);
+    const bin = bins.find((b) => b.location === location);
+    return bin ? Number(bin.quantity) : 0;
+  }
+
+  /**
+   * Fijar la cantidad de una ubicación. Las reservas que quedan a cero se
+   * eliminan; la ubicación de picking se conserva aunque esté vacía.
+   */
+  public static async setQuantity(
+    product: Product,
+    location: string,
+    quantity: number,
+    pickFace: boolean = false,
+    transaction?: Transaction
+  ): Promise<BinQuantityChange> {
+    if (quantity < 0) {
+      throw new AppError("La cantidad no puede ser negativa", 400);
+    }
+
+    const bins = await this.getBins(product, transaction);
+    let bin = bins.find((b) => b.location === location) || null;
+    const oldQuantity = bin ? Number(bin.quantity) : 0;
+    const created = bin === null;
+
+    // La primera ubicación del producto pasa a ser la de picking
+    const makePickFace = pickFace || bins.length === 0;
+
+    if (makePickFace) {
+      for (const other of bins) {
+        if (other.is_pick_face && other.location !== location) {
+          other.is_pick_face = false;
+          if (Number(other.quantity) > 0) {
+            await other.save({ transaction });
+          } else {
+            await other.destroy({ transaction });
+          }
+        }
+      }
+    }
+
+    if (bin) {
+      bin.quantity = quantity;
+      bin.is_pick_face = bin.is_pick_face || makePickFace;
+      if (quantity > 0 || bin.is_pick_face) {
+        await bin.save({ transaction });
+      } else {
+        await bin.destroy({ transaction });
+        bin = null;
+      }
+    } else if (quantity > 0 || makePickFace) {
+      bin = await ProductBin.create(
+        {
+          product_id: product.id,
+          location,
+          quantity,
+          is_pick_face: makePickFace,
+        },
+        { transaction }
+      );
+    }
+
+    await this.syncProduct(product, transaction);
+
+    return { bin, oldQuantity, created: created && bin !== null };
+  }
+
+  /**
+   * Sumar o restar cantidad en una ubicación
+   */
+  public static async adjustQuantity(
+    product: Product,
+    location: string,
+    delta: number,
+    transaction?: Transaction
+  ): Promise<BinQuantityChange> {
+    const current = await this.quantityAt(product, location, transaction);
+    if (current + delta < 0) {
+      throw new AppError(
+        `Stock insuficiente en ${location}: ${current} disponibles`,
+        400
+      );
+    }
+    return this.setQuantity(
+      product,
+      location,
+      this.round(current + delta),
+      false,
+      transaction
+    );
+  }
+
+  /**
+   * Mover todo el stock de una ubicación del producto a otra. Si el destino
+   * ya tiene stock se suman; la ubicación de picking conserva su condición.
+   */
+  public static async moveBin(
+    product: Product,
+    from: string,
+    to: string,
+    transaction?: Transaction
+  ): Promise<BinMove> {
+    const bins = await this.getBins(product, transaction);
+    const source = bins.find((b) => b.location === from);
+    if (!source) {
+      throw new AppError(
+        `El producto ${product.reference} no tiene stock en ${from}`,
+        400
+      );
+    }
+    const target = bins.find((b) => b.location === to) || null;
+
+    const before = [this.state(source, from), this.state(target, to)];
+    const quantity = Number(source.quantity);
+    const pickFace = source.is_pick_face || !!target?.is_pick_face;
+
+    if (target) {
+      target.quantity = this.round(Number(target.quantity) + quantity);
+      target.is_pick_face = pickFace;
+      await target.save({ transaction });
+      await source.destroy({ transaction });
+    } else {
+      source.location = to;
+      await source.save({ transaction });
+    }
+
+    await this.syncProduct(product, transaction);
+
+    return {
+      quantity,
+      before,
+      after: [
+        { location: from, quantity: 0, pickFace: false },
+        {
+          location: to,
+          quantity: this.round(before[1].quantity + quantity),
+          pickFace,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Dejar varias ubicaciones del producto en un estado guardado
+   * (deshacer / rehacer movimientos)
+   */
+  public static async restoreBins(
+    product: Product,
+    states: BinState[],
+    transaction?: Transaction
+  ): Promise<void> {
+    const bins = await this.getBins(product, transaction);
+
+    for (const state of states) {
+      const bin = bins.find((b) => b.location === state.location);
+
+      if (state.quantity > 0 || state.pickFace) {
+        if (bin) {
+          bin.quantity = state.quantity;
+          bin.is_pick_face = state.pickFace;
+          await bin.save({ transaction });
+        } else {
+          await ProductBin.create(
+            {
+              product_id: product.id,
+              location: state.location,
+              quantity: state.quantity,
+              is_pick_face: state.pickFace,
+            },
+            { transaction }
+          );
+        }
+      } else if (bin) {
+        await bin.destroy({ transaction });
+      }
+    }
+
+    await this.syncProduct(product, transaction);
+  }
+
+  /**
+   * Aplicar una actualización con el modelo anterior de ubicación única:
+   * la ubicación mueve la de picking y el stock fija el total, ajustando
+   * primero la ubicación de picking y después las reservas.
+   */
+  public static async applyLegacyUpdate(
+    product: Product,
+    location: string | null | undefined,
+    stock: number | undefined,
+    transaction?: Transaction
+  ): Promise<void> {
+    let bins = await this.getBins(product, transaction);
+    const pickFace = bins.find((b) => b.is_pick_face);
+
+    if (location !== undefined && location !== (pickFace?.location ?? null)) {
+      if (location === null) {
+        if (bins.some((b) => !b.is_pick_face)) {
+          throw new AppError(
+            "El producto tiene stock en ubicaciones de reserva. Vacíelas antes de quitar la ubicación",
+            409
+          );
+        }
+        // El stock queda en el producto pendiente de ubicar
+        await pickFace?.destroy({ transaction });
+        product.location = null;
+      } else {
+        const target = bins.find((b) => b.location === location);
+        const carried = pickFace
+          ? Number(pickFace.quantity)
+          : bins.length === 0
+          ? Number(product.stock)
+          : 0;
+
+        if (target) {
+          target.quantity = this.round(Number(target.quantity) + carried);
+          target.is_pick_face = true;
+          await target.save({ transaction });
+          await pickFace?.destroy({ transaction });
+        } else if (pickFace) {
+          pickFace.location = location;
+          await pickFace.save({ transaction });
+        } else {
+          await ProductBin.create(
+            {
+              product_id: product.id,
+              location,
+              quantity: carried,
+              is_pick_face: true,
+            },
+            { transaction }
+          );
+        }
+      }
+      bins = await this.getBins(product, transaction);
+    }
+
+    if (stock !== undefined) {
+      if (bins.length === 0) {
+        product.stock = stock;
+        return;
+      }
+
+      let delta = this.round(stock - this.total(bins));
+      const ordered = [
+        ...bins.filter((b) => b.is_pick_face),
+        ...bins
+          .filter((b) => !b.is_pick_face)
+          .sort((a, b) => Number(a.quantity) - Number(b.quantity)),
+      ];
+
+      if (delta > 0) {
+        ordered[0].quantity = this.round(Number(ordered[0].quantity) + delta);
+        await ordered[0].save({ transaction });
+      } else {
+        for (const bin of ordered) {
+          if (delta >= 0) {
+            break;
+          }
+          const taken = Math.min(Number(bin.quantity), -delta);
+          bin.quantity = this.round(Number(bin.quantity) - taken);
+          delta = this.round(delta + taken);
+
+          if (Number(bin.quantity) > 0 || bin.is_pick_face) {
+            await bin.save({ transaction });
+          } else {
+            await bin.destroy({ transaction });
+          }
+        }
+      }
+    }
+
+    await this.syncProduct(product, transaction);
+  }
+
+  /**
+   * Recalcular stock total y ubicación de picking del producto (sin guardar)
+   */
+  public static async syncProduct(
+    product: Product,
+    transaction?: Transaction
+  ): Promise<void> {
+    const bins = await ProductBin.findAll({
+      where: { product_id: product.id },
+      transaction,
+    });
+    if (bins.length === 0) {
+      return;
+    }
+
+    const pickFace = bins.find((b) => b.is_pick_face) || bins[0];
+    product.location = pickFace.location;
+    product.stock = this.total(bins);
+  }
+
+  /**
+   * Resumen de ubicaciones para las respuestas de la API
+   */
+  public static summarize(bins: ProductBin[]): ProductBinSummary[] {
+    return bins.map((bin) => ({
+      location: bin.location,
+      quantity: Number(bin.quantity),
+      pickFace: bin.is_pick_face,
+      updatedAt: bin.updated_at,
+    }));
+  }
+
+  /**
+   * Estado de una ubicación (vacía si no existe)
+   */
+  private static state(bin: ProductBin | null, location: string): BinState {
+    return bin
+      ? {
+          location,
+          quantity: Number(bin.quantity),
+          pickFace: bin.is_pick_face,
+        }
+      : { location, quantity: 0, pickFace: false };
+  }
+
+  /**
+   * Suma de cantidades
+   */
+  private static total(bins: ProductBin[]): number {
+    return this.round(bins.reduce((sum, bin) => sum + Number(bin.quantity), 0));
+  }
+
+  /**
+   * Redondear a la precisión del stock (3 decimales)
+   */
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export { ProductBinSummary, BinQuantityChange, BinState, BinMove };
@@ -1,10 +1,31 @@
 // src/services/colocacion/product.service.ts
 import { Op } from "sequelize";
+import { v4 as uuidv4 } from "uuid";
+import sequelize from "../config/database";
 import Product from "../models/Product";
 import ProductLocation from "../models/ProductLocation";
 import ProductLabel from "../models/ProductLabel";
 import { CacheService } from "./cache.service";
-import { BarcodeValidator } from "../utils/barcode.validator";
+import { UnknownBarcodeService } from "./unknown-barcode.service";
+import { ReplenishmentService } from "./replenishment.service";
+import { LotService, LotQuantity } from "./lot.service";
+import { ProductBinService, ProductBinSummary } from "./product-bin.service";
+import { LocationService } from "./location.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { OptimisticUpdateService } from "./optimistic-update.service";
+import {
+  StockMovementService,
+  StockHistoryFilters,
+  StockMovementSummary,
+} from "./stock-movement.service";
+import { StockMovementSource } from "../models/StockMovement";
+import ReasonCode, { ReasonCodeRole } from "../models/ReasonCode";
+import { ReasonCodeService } from "./reason-code.service";
+import {
+  ProductBarcodeService,
+  PackagingInfo,
+} from "./product-barcode.service";
+import { BarcodeValidator, GS1ParseResult } from "../utils/barcode.validator";
 import { LocationValidator } from "../utils/location.validator";
 import { auditLogger } from "../utils/audit-logger";
 import { logger } from "../utils/logger";
@@ -15,11 +36,21 @@ interface ProductSearchResult {
   found: boolean;
   source: "cache" | "database";
   searchDuration: number;
+  gs1?: GS1ParseResult; // datos extra del código GS1 (lote, caducidad, cantidad...)
+  packaging?: PackagingInfo; // embalaje del código leído (unidad, inner, caja)
+  defaultQuantity?: number; // cantidad sugerida al introducir stock
+  bins?: ProductBinSummary[]; // stock por ubicación (picking y reservas)
 }
 
 interface ProductUpdateData {
   location?: string;
   stock?: number;
+  changeReason?: string;
+  lots?: LotQuantity[]; // obligatorio al reubicar productos con trazabilidad
+  source?: StockMovementSource; // origen del cambio de stock (manual por defecto)
+  reasonCode?: string;
+  role?: ReasonCodeRole; // rol del usuario en ajustes manuales
+  reference?: string; // documento de origen (recogida, devolución...)
 }
 
 interface ProductUpdateResult {
@@ -30,8 +61,56 @@ interface ProductUpdateResult {
     stockChanged: boolean;
   };
   labelCreated?: boolean;
+  replenishmentTaskId?: string; // tarea generada al quedar bajo el mínimo
 }
 
+interface BinUpdateData {
+  quantity: number;
+  pickFace?: boolean; // convertir en ubicación de picking
+  changeReason?: string;
+  reasonCode?: string;
+  role?: ReasonCodeRole; // rol del usuario para el código de motivo
+  source?: StockMovementSource; // origen del cambio de stock (manual por defecto)
+  reference?: string; // documento de origen (recogida, devolución...)
+  lots?: LotQuantity[]; // lotes que entran en la ubicación
+}
+
+interface BinUpdateResult {
+  success: boolean;
+  product: Product;
+  bin: ProductBinSummary | null; // null = reserva vaciada y eliminada
+  bins: ProductBinSummary[];
+  changes: {
+    quantityChanged: boolean;
+    pickFaceChanged: boolean;
+  };
+  labelCreated: boolean;
+  replenishmentTaskId?: string;
+}
+
+interface LocationMoveResult {
+  batchId: string; // común a todos los registros de historial del movimiento
+  from: string;
+  to: string;
+  moved: Array<{
+    productId: string;
+    barcode: string;
+    reference: string;
+    quantity: number;
+    lots: LotQuantity[];
+  }>;
+  labelsCreated: number;
+  undoOperationId: string | null;
+}
+
+interface LocationStock {
+  product: Product;
+  quantity: number; // cantidad en la ubicación consultada
+}
+
+const unknownBarcodeService = new UnknownBarcodeService();
+const replenishmentService = new ReplenishmentService();
+
 export class ProductService {
   /**
    * Buscar producto por código de barras
@@ -40,44 +119,95 @@ export class ProductService {
     barcode: string,
     userId: string,
     deviceId: string,
-    ipAddress?: string
+    ipAddress?: string,
+    scanLocation?: string
   ): Promise<ProductSearchResult> {
     const startTime = Date.now();
     let product: Product | null = null;
     let source: "cache" | "database" = "database";
+    let packaging: PackagingInfo | undefined;
 
     try {
-      // Validar y limpiar código de barras
-      const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+      // Los códigos GS1-128 / DataMatrix se resuelven por el GTIN embebido
+      let gs1: GS1ParseResult | undefined;
+      let candidates: string[];
+      if (BarcodeValidator.isGS1(barcode)) {
+        gs1 = BarcodeValidator.parseGS1(barcode);
+        if (!gs1.gtin) {
+          throw new AppError("El código GS1 no contiene GTIN (AI 01/02)", 400);
+        }
+        candidates = BarcodeValidator.gtinToBarcodes(gs1.gtin);
+      } else {
+        // Validar y limpiar código de barras
+        candidates = [BarcodeValidator.validateAndClean(barcode)];
+      }
 
-      // Intentar obtener desde cache primero
-      product = await CacheService.getProduct(cleanBarcode);
+      let cleanBarcode = candidates[0];
+      for (const candidate of candidates) {
+        // Intentar obtener desde cache primero
+        product = await CacheService.getProduct(candidate);
 
-      if (product) {
-        source = "cache";
-        logger.debug(`Producto encontrado en cache: ${cleanBarcode}`);
-      } else {
-        // Buscar en base de datos
-        product = await Product.findOne({
-          where: {
-            barcode: cleanBarcode,
-            status: "active", // Solo productos activos
-          },
-        });
+        if (product) {
+          source = "cache";
+          logger.debug(`Producto encontrado en cache: ${candidate}`);
+        } else {
+          // Buscar en base de datos
+          product = await Product.findOne({
+            where: {
+              barcode: candidate,
+              status: "active", // Solo productos activos
+            },
+          });
+
+          if (product) {
+            source = "database";
+            // Guardar en cache para futuras consultas
+            await CacheService.setProduct(product);
+            logger.debug(
+              `Producto encontrado en BD y guardado en cache: ${candidate}`
+            );
+          } else {
+            // Códigos alternativos (EAN antiguo, inner o caja DUN14)
+            const resolved = await ProductBarcodeService.resolveAlias(
+              candidate
+            );
+            if (resolved) {
+              product = resolved.product;
+              packaging = resolved.packaging;
+              logger.debug(
+                `Producto encontrado por código alternativo: ${candidate}`
+              );
+            }
+          }
+        }
 
         if (product) {
-          source = "database";
-          // Guardar en cache para futuras consultas
-          await CacheService.setProduct(product);
-          logger.debug(
-            `Producto encontrado en BD y guardado en cache: ${cleanBarcode}`
-          );
+          cleanBarcode = candidate;
+          break;
         }
       }
 
       const searchDuration = Date.now() - startTime;
       const found = product !== null;
 
+      if (product && !packaging) {
+        packaging = ProductBarcodeService.primaryPackaging(product);
+      }
+
+      const bins = product
+        ? ProductBinService.summarize(await ProductBinService.getBins(product))
+        : undefined;
+
+      // Los códigos sin producto pasan a la cola de revisión
+      if (!found) {
+        await unknownBarcodeService.recordMiss(cleanBarcode, {
+          userId,
+          deviceId,
+          module: "colocacion",
+          location: scanLocation,
+        });
+      }
+
       // Registrar búsqueda en auditoría
       await auditLogger.logProductSearch(
         userId,
@@ -95,6 +225,10 @@ export class ProductService {
         found,
         source,
         searchDuration,
+        gs1,
+        packaging,
+        defaultQuantity: gs1?.quantity || packaging?.unitsPerPackage,
+        bins,
       };
     } catch (error) {
       const searchDuration = Date.now() - startTime;
@@ -155,6 +289,10 @@ export class ProductService {
         }
       }
 
+      if (validatedLocation && validatedLocation !== product.location) {
+        await LocationService.assertUsable(validatedLocation);
+      }
+
       if (updateData.stock !== undefined) {
         if (updateData.stock < 0) {
           throw new AppError("El stock no puede ser negativo", 400);
@@ -169,7 +307,8 @@ export class ProductService {
       const locationChanged =
         updateData.location !== undefined && oldLocation !== validatedLocation;
       const stockChanged =
-        updateData.stock !== undefined && oldStock !== updateData.stock;
+        updateData.stock !== undefined &&
+        Number(oldStock) !== Number(updateData.stock);
 
       // Si no hay cambios, no hacer nada
       if (!locationChanged && !stockChanged) {
@@ -183,37 +322,131 @@ export class ProductService {
         };
       }
 
-      // Aplicar cambios
-      if (locationChanged) {
-        product.location = validatedLocation;
+      // Las zonas en inventario físico no admiten cambios. Una bajada de
+      // stock puede descontarse también de las reservas
+      const reserves =
+        stockChanged && updateData.stock! < Number(oldStock)
+          ? (await ProductBinService.getBins(product)).map(
+              (bin) => bin.location
+            )
+          : [];
+      await InventorySessionService.assertNotFrozen([
+        oldLocation,
+        validatedLocation,
+        ...reserves,
+      ]);
 
-        // Registrar cambio de ubicación en historial
-        await ProductLocation.create({
-          product_id: product.id,
-          old_location: oldLocation,
-          new_location: validatedLocation,
-          changed_by: userId,
-          change_reason: "Manual update from colocacion module",
-        });
+      // Los ajustes manuales de stock exigen un código de motivo del catálogo
+      let reason: ReasonCode | undefined;
+      if (stockChanged && (updateData.source || "manual") === "manual") {
+        reason = await ReasonCodeService.requireUsable(
+          updateData.reasonCode,
+          updateData.role || "operator",
+          updateData.stock! - Number(oldStock)
+        );
       }
 
-      if (stockChanged) {
-        product.stock = updateData.stock!;
+      // Los productos con lote / número de serie deben indicar qué se mueve;
+      // el resto puede indicar lotes para registrar su caducidad
+      let lots: LotQuantity[] = [];
+      if (
+        locationChanged &&
+        validatedLocation &&
+        (product.requiresLotTracking() || updateData.lots?.length)
+      ) {
+        lots = LotService.validateLots(
+          product.tracking,
+          updateData.lots,
+          product.reference
+        );
       }
 
-      // Actualizar timestamp de sincronización
-      product.last_odoo_sync = new Date();
+      // Aplicar cambios: ubicaciones, producto y movimientos a la vez
+      await sequelize.transaction(async (transaction) => {
+        if (locationChanged) {
+          // Registrar cambio de ubicación en historial
+          await ProductLocation.create(
+            {
+              product_id: product.id,
+              old_location: oldLocation,
+              new_location: validatedLocation,
+              changed_by: userId,
+              change_reason:
+                updateData.changeReason ||
+                (reason && ReasonCodeService.describe(reason)) ||
+                "Manual update from colocacion module",
+            },
+            { transaction }
+          );
+        }
+
+        // La ubicación pasa a ser la de picking y el stock el total del producto
+        const stockBefore = await StockMovementService.snapshot(
+          product,
+          transaction
+        );
+        await ProductBinService.applyLegacyUpdate(
+          product,
+          locationChanged ? validatedLocation : undefined,
+          stockChanged ? updateData.stock : undefined,
+          transaction
+        );
 
-      // Guardar cambios
-      await product.save();
+        // Actualizar timestamp de sincronización
+        product.last_odoo_sync = new Date();
+
+        // Guardar cambios
+        await product.save({ transaction });
+
+        // Registrar la variación en el libro de movimientos
+        await StockMovementService.record(
+          product,
+          stockBefore,
+          {
+            source: stockChanged ? updateData.source || "manual" : "transfer",
+            reasonCode: reason?.code || updateData.reasonCode,
+            reason: updateData.changeReason || reason?.label,
+            reference: updateData.reference,
+            userId,
+            deviceId,
+          },
+          transaction
+        );
+      });
 
       // Invalidar cache
       await CacheService.invalidateProduct(product.barcode);
 
+      if (lots.length > 0) {
+        await LotService.assignLotsToLocation(
+          product,
+          lots,
+          oldLocation,
+          validatedLocation!,
+          userId
+        );
+      }
+
+      // Reponer la ubicación de picking si el stock baja del mínimo
+      let replenishmentTaskId: string | undefined;
+      if (stockChanged && Number(product.stock) < Number(oldStock)) {
+        const task = await replenishmentService.checkStock(
+          product,
+          userId,
+          updateData.changeReason
+        );
+        replenishmentTaskId = task?.id;
+      }
+
       // Crear etiqueta si cambió la ubicación
       let labelCreated = false;
       if (locationChanged && validatedLocation) {
-        await this.createOrUpdateLabel(product, userId, deviceId);
+        await this.createOrUpdateLabel(
+          product,
+          validatedLocation,
+          userId,
+          deviceId
+        );
         labelCreated = true;
       }
 
@@ -228,6 +461,8 @@ export class ProductService {
           newLocation: validatedLocation,
           oldStock,
           newStock: product.stock,
+          reasonCode: reason?.code,
+          reason: reason ? ReasonCodeService.describe(reason) : undefined,
         },
         deviceId,
         ipAddress
@@ -249,6 +484,7 @@ export class ProductService {
           stockChanged,
         },
         labelCreated,
+        replenishmentTaskId,
       };
     } catch (error) {
       logger.error(`Error actualizando producto: ${productId}`, error);
@@ -270,18 +506,290 @@ export class ProductService {
   }
 
   /**
-   * Crear o actualizar etiqueta para un producto
+   * Obtener el stock por ubicación de un producto
+   */
+  public static async getBins(
+    productId: string
+  ): Promise<{ product: Product; bins: ProductBinSummary[] }> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const bins = await ProductBinService.getBins(product);
+    return { product, bins: ProductBinService.summarize(bins) };
+  }
+
+  /**
+   * Fijar la cantidad de un producto en una ubicación concreta
+   * (picking o reserva). El stock total se recalcula a partir de las ubicaciones.
    */
-  private static async createOrUpdateLabel(
+  public static async updateBin(
+    productId: string,
+    location: string,
+    data: BinUpdateData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<BinUpdateResult> {
+    try {
+      const product = await Product.findByPk(productId);
+      if (!product) {
+        throw new AppError("Producto no encontrado", 404);
+      }
+
+      if (!product.isActive()) {
+        throw new AppError("No se puede actualizar un producto inactivo", 400);
+      }
+
+      const validatedLocation = LocationValidator.validateAndClean(location);
+      await InventorySessionService.assertNotFrozen([validatedLocation]);
+
+      // Solo se puede añadir stock en ubicaciones del maestro no bloqueadas
+      const currentQuantity = await ProductBinService.quantityAt(
+        product,
+        validatedLocation
+      );
+      if (data.quantity > currentQuantity) {
+        await LocationService.assertUsable(validatedLocation);
+      }
+
+      // Todo ajuste manual de cantidad exige un código de motivo del catálogo
+      let reason: ReasonCode | undefined;
+      if (
+        data.quantity !== currentQuantity &&
+        (data.source || "manual") === "manual"
+      ) {
+        reason = await ReasonCodeService.requireUsable(
+          data.reasonCode,
+          data.role || "operator",
+          data.quantity - currentQuantity
+        );
+      }
+
+      // Los productos con lote / número de serie indican qué lotes entran
+      let lots: LotQuantity[] = [];
+      if (
+        data.quantity > currentQuantity &&
+        (data.lots?.length ||
+          (product.requiresLotTracking() && data.source === "receipt"))
+      ) {
+        lots = LotService.validateLots(
+          product.tracking,
+          data.lots,
+          product.reference
+        );
+      }
+
+      const oldLocation = product.location;
+      const oldStock = Number(product.stock);
+
+      const change = await sequelize.transaction(async (transaction) => {
+        const stockBefore = await StockMovementService.snapshot(
+          product,
+          transaction
+        );
+        const binChange = await ProductBinService.setQuantity(
+          product,
+          validatedLocation,
+          data.quantity,
+          data.pickFace,
+          transaction
+        );
+
+        if (product.location !== oldLocation) {
+          await ProductLocation.create(
+            {
+              product_id: product.id,
+              old_location: oldLocation,
+              new_location: product.location,
+              changed_by: userId,
+              change_reason:
+                data.changeReason ||
+                (reason && ReasonCodeService.describe(reason)) ||
+                "Pick face changed from colocacion module",
+            },
+            { transaction }
+          );
+        }
+
+        product.last_odoo_sync = new Date();
+        await product.save({ transaction });
+
+        await StockMovementService.record(
+          product,
+          stockBefore,
+          {
+            source: data.source || "manual",
+            reasonCode: reason?.code || data.reasonCode,
+            reason: data.changeReason || reason?.label,
+            reference: data.reference,
+            userId,
+            deviceId,
+          },
+          transaction
+        );
+
+        return binChange;
+      });
+      await CacheService.invalidateProduct(product.barcode);
+
+      const quantityChanged = change.oldQuantity !== data.quantity;
+      const pickFaceChanged = product.location !== oldLocation;
+
+      if (lots.length > 0) {
+        await LotService.assignLotsToLocation(
+          product,
+          lots,
+          null,
+          validatedLocation,
+          userId
+        );
+      }
+
+      // Reponer la ubicación de picking si baja del mínimo
+      let replenishmentTaskId: string | undefined;
+      if (change.bin?.is_pick_face && data.quantity < change.oldQuantity) {
+        const task = await replenishmentService.checkStock(
+          product,
+          userId,
+          data.changeReason
+        );
+        replenishmentTaskId = task?.id;
+      }
+
+      // Cada ubicación nueva lleva su propia etiqueta
+      let labelCreated = false;
+      if (change.created) {
+        await this.createOrUpdateLabel(
+          product,
+          validatedLocation,
+          userId,
+          deviceId
+        );
+        labelCreated = true;
+      }
+
+      await auditLogger.logColocacionUpdate(
+        userId,
+        product.id,
+        {
+          barcode: product.barcode,
+          reference: product.reference,
+          oldLocation,
+          newLocation: product.location,
+          oldStock,
+          newStock: Number(product.stock),
+          bin: validatedLocation,
+          oldBinQuantity: change.oldQuantity,
+          newBinQuantity: data.quantity,
+          reasonCode: reason?.code,
+          reason: reason ? ReasonCodeService.describe(reason) : undefined,
+        },
+        deviceId,
+        ipAddress
+      );
+
+      logger.info(
+        `Ubicación actualizada: ${product.barcode} en ${validatedLocation}`,
+        {
+          productId: product.id,
+          quantity: data.quantity,
+          pickFaceChanged,
+          labelCreated,
+          userId,
+        }
+      );
+
+      const bins = await ProductBinService.getBins(product);
+
+      return {
+        success: true,
+        product,
+        bin: change.bin ? ProductBinService.summarize([change.bin])[0] : null,
+        bins: ProductBinService.summarize(bins),
+        changes: { quantityChanged, pickFaceChanged },
+        labelCreated,
+        replenishmentTaskId,
+      };
+    } catch (error) {
+      logger.error(
+        `Error actualizando ubicación ${location} del producto: ${productId}`,
+        error
+      );
+
+      await auditLogger.logColocacionError(
+        userId,
+        deviceId,
+        {
+          action: "update_bin",
+          error: error instanceof Error ? error.message : "Error desconocido",
+          context: { productId, location, data },
+        },
+        ipAddress
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Sumar o restar stock en una ubicación concreta (recogidas, devoluciones,
+   * put-away) sin mover la ubicación de picking ni tocar las demás
+   */
+  public static async adjustBin(
+    productId: string,
+    location: string,
+    delta: number,
+    data: Omit<BinUpdateData, "quantity" | "pickFace">,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<BinUpdateResult> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const validatedLocation = LocationValidator.validateAndClean(location);
+    const bins = await ProductBinService.getBins(product);
+
+    // Sin ubicaciones, el stock pendiente de ubicar entra con lo nuevo
+    const bin = bins.find((b) => b.location === validatedLocation);
+    const current =
+      bins.length === 0 ? Number(product.stock) : Number(bin?.quantity ?? 0);
+    if (current + delta < 0) {
+      throw new AppError(
+        `Stock insuficiente en ${validatedLocation}: ${current} disponibles`,
+        400
+      );
+    }
+
+    return this.updateBin(
+      productId,
+      validatedLocation,
+      { ...data, quantity: Math.round((current + delta) * 1000) / 1000 },
+      userId,
+      deviceId,
+      ipAddress
+    );
+  }
+
+  /**
+   * Crear o actualizar etiqueta para una ubicación de un producto
+   */
+  public static async createOrUpdateLabel(
     product: Product,
+    location: string,
     userId: string,
     deviceId: string
   ): Promise<ProductLabel> {
     try {
-      // Buscar etiqueta existente para este producto y usuario
+      // Buscar etiqueta existente para esta ubicación y usuario
       let label = await ProductLabel.findOne({
         where: {
           product_id: product.id,
+          location,
           created_by: userId,
         },
       });
@@ -291,7 +799,6 @@ export class ProductService {
         label.barcode = product.barcode;
         label.reference = product.reference;
         label.description = product.description;
-        label.location = product.location!;
         label.device_identifier = deviceId;
         label.is_printed = false; // Resetear estado de impresión
         label.printed_at = null;
@@ -306,7 +813,7 @@ export class ProductService {
           barcode: product.barcode,
           reference: product.reference,
           description: product.description,
-          location: product.location!,
+          location,
           created_by: userId,
           device_identifier: deviceId,
         });
@@ -318,7 +825,7 @@ export class ProductService {
       await auditLogger.logLabelOperation(userId, deviceId, {
         barcode: product.barcode,
         reference: product.reference,
-        location: product.location!,
+        location,
         action: "created",
       });
 
@@ -355,21 +862,217 @@ export class ProductService {
   }
 
   /**
-   * Buscar productos por ubicación
+   * Mover todo el contenido de una ubicación (o solo los productos indicados)
+   * a otra. El movimiento es atómico y se deshace como una única operación.
+   */
+  public static async moveLocationContents(
+    from: string,
+    to: string,
+    productIds: string[] | undefined,
+    changeReason: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<LocationMoveResult> {
+    try {
+      const fromLocation = LocationValidator.validateAndClean(from);
+      const toLocation = LocationValidator.validateAndClean(to);
+
+      if (fromLocation === toLocation) {
+        throw new AppError(
+          "La ubicación de destino debe ser distinta de la de origen",
+          400
+        );
+      }
+
+      await LocationService.assertUsable(toLocation);
+      await InventorySessionService.assertNotFrozen([fromLocation, toLocation]);
+
+      let stock = await this.findStockAtLocation(fromLocation);
+      if (productIds?.length) {
+        const requested = new Set(productIds);
+        stock = stock.filter((s) => requested.has(s.product.id));
+
+        const found = new Set(stock.map((s) => s.product.id));
+        const missing = productIds.filter((id) => !found.has(id));
+        if (missing.length > 0) {
+          throw new AppError(
+            `Productos sin stock en ${fromLocation}: ${missing.join(", ")}`,
+            400
+          );
+        }
+      }
+
+      if (stock.length === 0) {
+        throw new AppError(`No hay productos en ${fromLocation}`, 404);
+      }
+
+      const batchId = uuidv4();
+      const reason =
+        changeReason || `Movimiento masivo ${fromLocation} -> ${toLocation}`;
+
+      const moves = await sequelize.transaction(async (transaction) => {
+        const results = [];
+
+        for (const { product } of stock) {
+          const stockBefore = await StockMovementService.snapshot(
+            product,
+            transaction
+          );
+          const move = await ProductBinService.moveBin(
+            product,
+            fromLocation,
+            toLocation,
+            transaction
+          );
+          const lots = await LotService.relocateLots(
+            product,
+            fromLocation,
+            toLocation,
+            transaction
+          );
+
+          await ProductLocation.create(
+            {
+              product_id: product.id,
+              old_location: fromLocation,
+              new_location: toLocation,
+              changed_by: userId,
+              change_reason: reason,
+              batch_id: batchId,
+            },
+            { transaction }
+          );
+
+          product.last_odoo_sync = new Date();
+          await product.save({ transaction });
+
+          await StockMovementService.record(
+            product,
+            stockBefore,
+            {
+              source: "transfer",
+              reason,
+              reference: batchId,
+              userId,
+              deviceId,
+            },
+            transaction
+          );
+
+          results.push({ product, move, lots });
+        }
+
+        return results;
+      });
+
+      // Invalidar cache y preparar etiquetas para la nueva ubicación
+      let labelsCreated = 0;
+      for (const { product } of moves) {
+        await CacheService.invalidateProduct(product.barcode);
+        await this.createOrUpdateLabel(product, toLocation, userId, deviceId);
+        labelsCreated++;
+      }
+
+      const undoOperationId = await OptimisticUpdateService.recordBulkMove(
+        {
+          batchId,
+          from: fromLocation,
+          to: toLocation,
+          products: moves.map(({ product, move, lots }) => ({
+            productId: product.id,
+            before: move.before,
+            after: move.after,
+            lots,
+          })),
+        },
+        userId,
+        deviceId
+      );
+
+      await auditLogger.logLocationOperation(
+        userId,
+        deviceId,
+        {
+          code: fromLocation,
+          action: "moved",
+          count: moves.length,
+          context: {
+            to: toLocation,
+            batchId,
+            productIds: moves.map(({ product }) => product.id),
+          },
+        },
+        ipAddress
+      );
+
+      logger.info(
+        `Ubicación ${fromLocation} movida a ${toLocation}: ${moves.length} productos`,
+        { batchId, userId }
+      );
+
+      return {
+        batchId,
+        from: fromLocation,
+        to: toLocation,
+        moved: moves.map(({ product, move, lots }) => ({
+          productId: product.id,
+          barcode: product.barcode,
+          reference: product.reference,
+          quantity: move.quantity,
+          lots,
+        })),
+        labelsCreated,
+        undoOperationId,
+      };
+    } catch (error) {
+      logger.error(`Error moviendo ubicación ${from} a ${to}`, error);
+
+      // Registrar error en auditoría
+      await auditLogger.logColocacionError(
+        userId,
+        deviceId,
+        {
+          action: "move_location",
+          error: error instanceof Error ? error.message : "Error desconocido",
+          context: { from, to, productIds },
+        },
+        ipAddress
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Historial de movimientos de stock de un producto
+   */
+  public static async getStockHistory(
+    productId: string,
+    filters: StockHistoryFilters = {}
+  ): Promise<{ product: Product; movements: StockMovementSummary[] }> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const movements = await StockMovementService.getHistory(productId, filters);
+    return {
+      product,
+      movements: movements.map((m) => StockMovementService.summarize(m)),
+    };
+  }
+
+  /**
+   * Buscar productos por ubicación (picking o reserva)
    */
   public static async getProductsByLocation(
     location: string
-  ): Promise<Product[]> {
+  ): Promise<LocationStock[]> {
     try {
       const validatedLocation = LocationValidator.validateAndClean(location);
 
-      return await Product.findAll({
-        where: {
-          location: validatedLocation,
-          status: "active",
-        },
-        order: [["reference", "ASC"]],
-      });
+      return await this.findStockAtLocation(validatedLocation);
     } catch (error) {
       logger.error(
         `Error buscando productos por ubicación: ${location}`,
@@ -390,22 +1093,15 @@ export class ProductService {
     try {
       const validatedLocation = LocationValidator.validateAndClean(location);
 
-      const products = await Product.findAll({
-        where: {
-          location: validatedLocation,
-          status: "active",
-        },
-        attributes: ["reference", "description", "stock"],
-        order: [["reference", "ASC"]],
-      });
+      const stock = await this.findStockAtLocation(validatedLocation);
 
       return {
         isAvailable: true, // Las ubicaciones son compartidas según requerimientos
-        productCount: products.length,
-        products: products.map((p) => ({
-          reference: p.reference,
-          description: p.description,
-          stock: p.stock,
+        productCount: stock.length,
+        products: stock.map(({ product, quantity }) => ({
+          reference: product.reference,
+          description: product.description,
+          stock: quantity,
         })),
       };
     } catch (error) {
@@ -417,6 +1113,34 @@ export class ProductService {
     }
   }
 
+  /**
+   * Productos y cantidades en una ubicación. Incluye los productos con
+   * ubicación única que aún no tienen stock por ubicación.
+   */
+  private static async findStockAtLocation(
+    location: string
+  ): Promise<LocationStock[]> {
+    const bins = await ProductBinService.findByLocation(location);
+    const stock: LocationStock[] = bins.map((bin) => ({
+      product: bin.product!,
+      quantity: Number(bin.quantity),
+    }));
+
+    const binProductIds = new Set(stock.map((s) => s.product.id));
+    const legacy = await Product.findAll({
+      where: { location, status: "active" },
+    });
+    for (const product of legacy) {
+      if (!binProductIds.has(product.id)) {
+        stock.push({ product, quantity: Number(product.stock) });
+      }
+    }
+
+    return stock.sort((a, b) =>
+      a.product.reference.localeCompare(b.product.reference)
+    );
+  }
+
   /**
    * Obtener estadísticas del módulo de colocación
    */
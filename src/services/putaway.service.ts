@@ -0,0 +1,272 @@
+// src/services/putaway.service.ts
+import { Op } from "sequelize";
+import Product from "../models/Product";
+import ProductLocation from "../models/ProductLocation";
+import { ProductService } from "./product.service";
+import { ProductBinService } from "./product-bin.service";
+import { ReasonCodeService } from "./reason-code.service";
+import { ReasonCodeRole } from "../models/ReasonCode";
+import { LotQuantity } from "./lot.service";
+import { ValidationService } from "./validation.service";
+import { LocationService } from "./location.service";
+import { LocationValidator } from "../utils/location.validator";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface PutawaySuggestion {
+  location: string;
+  score: number;
+  reasons: string[];
+  aisle: string;
+  block: string;
+  level: number;
+  occupancy: number;
+  sharedWith: string[];
+}
+
+interface PutawayCandidate {
+  score: number;
+  reasons: string[];
+}
+
+export class PutawayService {
+  // Pesos de cada criterio de puntuación
+  private static readonly CURRENT_LOCATION_SCORE = 100;
+  private static readonly HISTORY_SCORE = 60;
+  private static readonly HISTORY_DECAY = 10;
+  private static readonly ADJACENT_SCORE = 40;
+  private static readonly FAMILY_SCORE = 30;
+  private static readonly SAME_AISLE_BONUS = 10;
+  private static readonly OCCUPANCY_PENALTY = 3;
+  private static readonly FAMILY_PREFIX_LENGTH = 3;
+
+  /**
+   * Obtener sugerencias de ubicación para colocar un producto recibido
+   */
+  public static async getSuggestions(
+    productId: string,
+    limit: number = 5
+  ): Promise<{ product: Product; suggestions: PutawaySuggestion[] }> {
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const candidates = new Map<string, PutawayCandidate>();
+    const addCandidate = (
+      location: string | null,
+      score: number,
+      reason: string
+    ) => {
+      if (!location || !LocationValidator.validate(location)) {
+        return;
+      }
+
+      const candidate = candidates.get(location) || { score: 0, reasons: [] };
+      candidate.score += score;
+      if (!candidate.reasons.includes(reason)) {
+        candidate.reasons.push(reason);
+      }
+      candidates.set(location, candidate);
+    };
+
+    // 1. Ubicación actual del producto
+    addCandidate(
+      product.location,
+      this.CURRENT_LOCATION_SCORE,
+      "Ubicación actual del producto"
+    );
+
+    // 2. Ubicaciones anteriores (más peso cuanto más reciente)
+    const history = await ProductLocation.findAll({
+      where: { product_id: product.id },
+      order: [["created_at", "DESC"]],
+      limit: 10,
+    });
+
+    history.forEach((change, index) => {
+      const score = Math.max(
+        this.HISTORY_SCORE - index * this.HISTORY_DECAY,
+        this.HISTORY_DECAY
+      );
+      addCandidate(change.new_location, score, "Ubicación usada anteriormente");
+      addCandidate(
+        change.old_location,
+        score / 2,
+        "Ubicación usada anteriormente"
+      );
+    });
+
+    // 3. Niveles adyacentes a la ubicación actual
+    if (product.location && LocationValidator.validate(product.location)) {
+      for (const adjacent of LocationValidator.getAdjacentLocations(
+        product.location
+      )) {
+        addCandidate(
+          adjacent,
+          this.ADJACENT_SCORE,
+          "Adyacente a la ubicación actual"
+        );
+      }
+    }
+
+    // 4. Ubicaciones de productos de la misma familia (prefijo de referencia)
+    const familyPrefix = product.reference.substring(
+      0,
+      this.FAMILY_PREFIX_LENGTH
+    );
+    if (familyPrefix.length === this.FAMILY_PREFIX_LENGTH) {
+      const familyProducts = await Product.findAll({
+        where: {
+          id: { [Op.ne]: product.id },
+          reference: { [Op.like]: `${familyPrefix}%` },
+          location: { [Op.not]: null },
+          status: "active",
+        },
+        attributes: ["location"],
+        limit: 20,
+      });
+
+      for (const familyProduct of familyProducts) {
+        addCandidate(
+          familyProduct.location,
+          this.FAMILY_SCORE,
+          `Productos de la familia ${familyPrefix}`
+        );
+      }
+    }
+
+    const currentAisle =
+      product.location && LocationValidator.validate(product.location)
+        ? LocationValidator.parseLocation(product.location).aisle
+        : null;
+
+    // Las ubicaciones bloqueadas no se sugieren
+    const blocked = await LocationService.getBlockedCodes([
+      ...candidates.keys(),
+    ]);
+
+    // Ajustar puntuación con la estructura y ocupación de cada ubicación
+    const suggestions: PutawaySuggestion[] = [];
+    for (const [location, candidate] of candidates) {
+      if (blocked.has(location)) {
+        continue;
+      }
+
+      const { aisle, block, level } = LocationValidator.parseLocation(location);
+      const productsInLocation = (
+        await ValidationService.getProductsInLocation(location)
+      ).filter((p) => p.id !== product.id);
+
+      let score = candidate.score;
+      const reasons = [...candidate.reasons];
+
+      if (
+        currentAisle &&
+        aisle === currentAisle &&
+        location !== product.location
+      ) {
+        score += this.SAME_AISLE_BONUS;
+        reasons.push(`Mismo pasillo (${aisle}) que la ubicación actual`);
+      }
+
+      score -= productsInLocation.length * this.OCCUPANCY_PENALTY;
+
+      suggestions.push({
+        location,
+        score: Math.round(score),
+        reasons,
+        aisle,
+        block,
+        level,
+        occupancy: productsInLocation.length,
+        sharedWith: productsInLocation.map((p) => p.reference),
+      });
+    }
+
+    suggestions.sort((a, b) => b.score - a.score || a.level - b.level);
+
+    logger.debug(`Sugerencias de ubicación calculadas: ${product.reference}`, {
+      productId,
+      candidates: suggestions.length,
+    });
+
+    return { product, suggestions: suggestions.slice(0, limit) };
+  }
+
+  /**
+   * Confirmar ubicación elegida. Un producto sin ubicar la toma como
+   * ubicación de picking; si ya tiene ubicaciones, lo recibido entra en la
+   * elegida sin mover la de picking ni el resto. El stock recibido exige un
+   * código de motivo del catálogo.
+   */
+  public static async confirmPutaway(
+    productId: string,
+    location: string,
+    stock: number | undefined,
+    lots: LotQuantity[] | undefined,
+    reasonCode: string | undefined,
+    role: ReasonCodeRole,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ) {
+    const validatedLocation = LocationValidator.validateAndClean(location);
+
+    const product = await Product.findByPk(productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const bins = await ProductBinService.getBins(product);
+    const received = stock !== undefined ? stock - Number(product.stock) : 0;
+    if (received < 0) {
+      throw new AppError(
+        `El stock indicado (${stock}) es menor que el actual (${product.stock})`,
+        400
+      );
+    }
+    if (
+      received === 0 &&
+      bins.length > 0 &&
+      !bins.some((bin) => bin.location === validatedLocation)
+    ) {
+      throw new AppError(
+        `Indique el stock tras la recepción para colocarlo en ${validatedLocation}`,
+        400
+      );
+    }
+
+    const reason =
+      received > 0
+        ? await ReasonCodeService.requireUsable(reasonCode, role, received)
+        : undefined;
+
+    const result = await ProductService.adjustBin(
+      productId,
+      validatedLocation,
+      received,
+      {
+        changeReason: reason
+          ? `Put-away tras recepción (${ReasonCodeService.describe(reason)})`
+          : "Put-away tras recepción",
+        source: "receipt",
+        reasonCode: reason?.code,
+        lots,
+      },
+      userId,
+      deviceId,
+      ipAddress
+    );
+
+    logger.info(`Colocación confirmada: ${result.product.reference}`, {
+      productId,
+      location: validatedLocation,
+      userId,
+    });
+
+    return result;
+  }
+}
+
+export { PutawaySuggestion };
@@ -0,0 +1,289 @@
+// src/services/reason-code.service.ts
+import ReasonCode, {
+  ReasonCodeDirection,
+  ReasonCodeRole,
+} from "../models/ReasonCode";
+import { UserPermissions } from "../types/auth.types";
+import { auditLogger } from "../utils/audit-logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface ReasonCodeData {
+  code: string;
+  label: string;
+  direction?: ReasonCodeDirection;
+  roles: ReasonCodeRole[];
+  isActive?: boolean;
+}
+
+// Catálogo inicial: los códigos que falten se crean al consultarlo
+const DEFAULT_REASON_CODES: ReasonCodeData[] = [
+  {
+    code: "DAMAGE",
+    label: "Producto dañado",
+    direction: "decrease",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "EXPIRED",
+    label: "Producto caducado",
+    direction: "decrease",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "FOUND",
+    label: "Stock encontrado",
+    direction: "increase",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "MISCOUNT",
+    label: "Error de recuento",
+    direction: "any",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "RETURN",
+    label: "Devolución de cliente",
+    direction: "increase",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "LOSS",
+    label: "Pérdida o robo",
+    direction: "decrease",
+    roles: ["supervisor"],
+  },
+  {
+    code: "RECEIPT",
+    label: "Recepción de mercancía",
+    direction: "increase",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "UNDO",
+    label: "Deshacer operación",
+    direction: "any",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "REDO",
+    label: "Rehacer operación",
+    direction: "any",
+    roles: ["operator", "supervisor"],
+  },
+  {
+    code: "ROLLBACK",
+    label: "Revertir actualización fallida",
+    direction: "any",
+    roles: ["operator", "supervisor"],
+  },
+];
+
+/**
+ * Catálogo de códigos de motivo para los ajustes manuales de stock.
+ * Cada código indica qué roles pueden usarlo: operario (colocacion.write)
+ * o supervisor (colocacion.admin).
+ */
+export class ReasonCodeService {
+  /**
+   * Rol del usuario para el catálogo según sus permisos de colocación
+   */
+  public static roleFor(permissions: UserPermissions): ReasonCodeRole {
+    return permissions?.colocacion?.admin ? "supervisor" : "operator";
+  }
+
+  /**
+   * Listar códigos: todos para supervisores, los utilizables para el resto
+   */
+  public static async getCodes(role: ReasonCodeRole): Promise<ReasonCode[]> {
+    const codes = await this.getCatalogue();
+    return role === "supervisor"
+      ? codes
+      : codes.filter((reason) => reason.allows(role));
+  }
+
+  /**
+   * Crear código de motivo
+   */
+  public static async createCode(
+    data: ReasonCodeData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReasonCode> {
+    const code = this.cleanCode(data.code);
+
+    await this.getCatalogue();
+    if (await ReasonCode.findOne({ where: { code } })) {
+      throw new AppError(`El código de motivo ${code} ya existe`, 409);
+    }
+
+    const reason = await ReasonCode.create({
+      code,
+      label: data.label.trim(),
+      direction: data.direction || "any",
+      roles: [...new Set(data.roles)],
+      is_active: data.isActive ?? true,
+      created_by: userId,
+    });
+
+    await this.logChange(reason, "created", userId, deviceId, ipAddress);
+
+    return reason;
+  }
+
+  /**
+   * Modificar código de motivo (los códigos en uso no se borran, se
+   * desactivan)
+   */
+  public static async updateCode(
+    code: string,
+    data: Partial<Omit<ReasonCodeData, "code">>,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReasonCode> {
+    const reason = await this.requireCode(code);
+
+    if (data.label !== undefined) {
+      reason.label = data.label.trim();
+    }
+    if (data.direction !== undefined) {
+      reason.direction = data.direction;
+    }
+    if (data.roles !== undefined) {
+      reason.roles = [...new Set(data.roles)];
+    }
+    if (data.isActive !== undefined) {
+      reason.is_active = data.isActive;
+    }
+    await reason.save();
+
+    await this.logChange(reason, "updated", userId, deviceId, ipAddress);
+
+    return reason;
+  }
+
+  /**
+   * Validar el código de motivo de un ajuste manual de stock
+   */
+  public static async requireUsable(
+    code: string | undefined,
+    role: ReasonCodeRole,
+    delta: number
+  ): Promise<ReasonCode> {
+    if (!code) {
+      throw new AppError(
+        "El código de motivo es obligatorio para modificar el stock",
+        400
+      );
+    }
+
+    const reason = await this.requireCode(code);
+
+    if (!reason.is_active) {
+      throw new AppError(
+        `El código de motivo ${reason.code} está desactivado`,
+        400
+      );
+    }
+    if (!reason.allows(role)) {
+      throw new AppError(
+        `Tu rol no puede usar el código de motivo ${reason.code}`,
+        403
+      );
+    }
+    if (!reason.matches(delta)) {
+      throw new AppError(
+        `El código ${reason.code} solo admite ${
+          reason.direction === "increase" ? "aumentos" : "disminuciones"
+        } de stock`,
+        400
+      );
+    }
+
+    return reason;
+  }
+
+  /**
+   * Texto del motivo para historiales y Odoo
+   */
+  public static describe(reason: ReasonCode): string {
+    return `${reason.code} - ${reason.label}`;
+  }
+
+  /**
+   * Obtener código o fallar
+   */
+  private static async requireCode(code: string): Promise<ReasonCode> {
+    await this.getCatalogue();
+
+    const reason = await ReasonCode.findOne({
+      where: { code: this.cleanCode(code) },
+    });
+    if (!reason) {
+      throw new AppError(`Código de motivo desconocido: ${code}`, 400);
+    }
+    return reason;
+  }
+
+  /**
+   * Catálogo completo; se crean los códigos iniciales que aún no existan
+   */
+  private static async getCatalogue(): Promise<ReasonCode[]> {
+    const codes = await ReasonCode.findAll({ order: [["code", "ASC"]] });
+    const missing = DEFAULT_REASON_CODES.filter(
+      (reason) => !codes.some((code) => code.code === reason.code)
+    );
+    if (missing.length === 0) {
+      return codes;
+    }
+
+    await ReasonCode.bulkCreate(
+      missing.map((reason) => ({
+        code: reason.code,
+        label: reason.label,
+        direction: reason.direction,
+        roles: reason.roles,
+      })),
+      { ignoreDuplicates: true }
+    );
+    return ReasonCode.findAll({ order: [["code", "ASC"]] });
+  }
+
+  /**
+   * Normalizar código (mayúsculas)
+   */
+  private static cleanCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Registrar cambio del catálogo
+   */
+  private static async logChange(
+    reason: ReasonCode,
+    action: "created" | "updated",
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    await auditLogger.logReasonCodeOperation(
+      userId,
+      deviceId,
+      {
+        code: reason.code,
+        action,
+        context: {
+          label: reason.label,
+          direction: reason.direction,
+          roles: reason.roles,
+          isActive: reason.is_active,
+        },
+      },
+      ipAddress
+    );
+  }
+}
+
+export { ReasonCodeData };
@@ -0,0 +1,1184 @@
+// src/services/receipt.service.ts
+import Product from "../models/Product";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { UnknownBarcodeService } from "./unknown-barcode.service";
+import { LotService, LotQuantity, TrackingType } from "./lot.service";
+import {
+  ProductBarcodeService,
+  ResolvedBarcode,
+} from "./product-barcode.service";
+import { redis } from "../config/redis";
+import { SessionLock } from "../utils/session-lock";
+import { config } from "../config";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type ReceiptMode = "standard" | "blind";
+
+interface ReceiptLine {
+  moveId: number; // negativo para productos no previstos (sin movimiento en Odoo)
+  odooProductId: number | null;
+  productName: string;
+  reference: string | null;
+  barcode: string | null;
+  expectedQty: number;
+  receivedQty: number;
+  uom: string;
+  tracking: TrackingType;
+  lots: LotQuantity[];
+  unexpected: boolean;
+  lastScannedAt: number | null;
+}
+
+interface ReceiptSession {
+  pickingId: number;
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  scheduledDate: string;
+  mode: ReceiptMode;
+  status: "counting" | "pending_review";
+  startedBy: string;
+  deviceId: string;
+  startedAt: number;
+  lines: ReceiptLine[];
+}
+
+interface ReceiptSummary {
+  pickingId: number;
+  pickingName: string;
+  totalLines: number;
+  completedLines: number;
+  pendingLines: number;
+  overReceivedLines: number;
+  totalExpected: number;
+  totalReceived: number;
+}
+
+interface BlindReceiptSummary {
+  pickingId: number;
+  pickingName: string;
+  countedLines: number;
+  totalCounted: number;
+}
+
+interface OpenReceipt {
+  pickingId: number;
+  pickingName: string;
+  origin: string | null;
+  partnerName: string | null;
+  scheduledDate: string;
+  state: string;
+  blind: boolean;
+  inProgress: boolean;
+}
+
+interface DiscrepancyItem {
+  moveId: number;
+  odooProductId: number | null;
+  productName: string;
+  barcode: string | null;
+  type: "match" | "over" | "short" | "unexpected";
+  expectedQty: number;
+  countedQty: number;
+  difference: number;
+}
+
+interface DiscrepancyReport {
+  pickingId: number;
+  pickingName: string;
+  status: "pending" | "accepted" | "rejected";
+  items: DiscrepancyItem[];
+  totals: {
+    over: number;
+    short: number;
+    unexpected: number;
+  };
+  submittedBy: string;
+  submittedAt: number;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  reviewNotes?: string;
+  excludedItems?: DiscrepancyItem[];
+}
+
+export class ReceiptService {
+  private odooConnector: OdooConnectorService;
+  private unknownBarcodeService: UnknownBarcodeService;
+  private static readonly RECEIPT_PREFIX = "entrada:receipt:";
+  private static readonly DISCREPANCY_PREFIX = "entrada:discrepancy:";
+  private static readonly RECEIPT_TTL = 43200; // 12 horas
+  private static readonly DISCREPANCY_TTL = 604800; // 7 días
+  private static readonly QTY_TOLERANCE = 0.0005;
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+    this.unknownBarcodeService = new UnknownBarcodeService();
+  }
+
+  /**
+   * Listar recepciones abiertas en Odoo
+   */
+  public async getOpenReceipts(limit: number = 50): Promise<OpenReceipt[]> {
+    const response = await this.odooConnector.getOpenPickings(
+      "incoming",
+      limit
+    );
+
+    if (!response.success || !response.data) {
+      throw new AppError(
+        `Error obteniendo recepciones desde Odoo: ${response.error}`,
+        502
+      );
+    }
+
+    const receipts: OpenReceipt[] = [];
+    for (const picking of response.data) {
+      const inProgress =
+        (await redis.exists(ReceiptService.RECEIPT_PREFIX + picking.id)) === 1;
+
+      receipts.push({
+        pickingId: picking.id,
+        pickingName: picking.name,
+        origin: picking.origin || null,
+        partnerName: picking.partner_id ? picking.partner_id[1] : null,
+        scheduledDate: picking.scheduled_date,
+        state: picking.state,
+        blind: ReceiptService.requiresBlind(picking.partner_id),
+        inProgress,
+      });
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Abrir recepción (reutiliza la sesión en curso si existe). El modo lo
+   * decide el servidor: sin modo pedido se usa el configurado para la
+   * recepción, y las marcadas como ciegas no se pueden abrir en normal
+   */
+  public async openReceipt(
+    pickingId: number,
+    requestedMode: ReceiptMode | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReceiptSession> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const existing = await this.getSession(pickingId);
+        if (existing) {
+          return existing;
+        }
+
+        const pickingResponse = await this.odooConnector.getPicking(pickingId);
+        if (!pickingResponse.success || !pickingResponse.data) {
+          throw new AppError("Albarán de entrada no encontrado en Odoo", 404);
+        }
+
+        const picking = pickingResponse.data;
+        if (picking.picking_type_code !== "incoming") {
+          throw new AppError("El albarán indicado no es una recepción", 400);
+        }
+
+        if (picking.state === "done" || picking.state === "cancel") {
+          throw new AppError("El albarán ya está cerrado en Odoo", 409);
+        }
+
+        const blindRequired = ReceiptService.requiresBlind(picking.partner_id);
+        if (blindRequired && requestedMode === "standard") {
+          throw new AppError(
+            "Esta recepción debe realizarse en modo ciego",
+            403
+          );
+        }
+        const mode: ReceiptMode =
+          requestedMode || (blindRequired ? "blind" : "standard");
+
+        const movesResponse = await this.odooConnector.getPickingMoves(
+          pickingId
+        );
+        if (!movesResponse.success || !movesResponse.data) {
+          throw new AppError(
+            `Error obteniendo líneas del albarán: ${movesResponse.error}`,
+            502
+          );
+        }
+
+        const moves = movesResponse.data;
+        const productIds = [
+          ...new Set(moves.map((move) => move.product_id[0])),
+        ];
+        const productsResponse = await this.odooConnector.getProductsByIds(
+          productIds
+        );
+        const odooProducts = new Map(
+          (productsResponse.data || []).map((product) => [product.id, product])
+        );
+
+        const session: ReceiptSession = {
+          pickingId: picking.id,
+          pickingName: picking.name,
+          origin: picking.origin || null,
+          partnerName: picking.partner_id ? picking.partner_id[1] : null,
+          scheduledDate: picking.scheduled_date,
+          mode,
+          status: "counting",
+          startedBy: userId,
+          deviceId,
+          startedAt: Date.now(),
+          lines: moves.map((move) => {
+            const odooProduct = odooProducts.get(move.product_id[0]);
+            return {
+              moveId: move.id,
+              odooProductId: move.product_id[0],
+              productName: odooProduct?.name || move.product_id[1],
+              reference: odooProduct?.default_code || null,
+              barcode: odooProduct?.barcode || null,
+              expectedQty: move.product_uom_qty,
+              receivedQty: 0,
+              uom: move.product_uom[1],
+              tracking: ReceiptService.parseTracking(odooProduct?.tracking),
+              lots: [],
+              unexpected: false,
+              lastScannedAt: null,
+            };
+          }),
+        };
+
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "receipt_started",
+            context: { lines: session.lines.length, mode },
+          },
+          ipAddress
+        );
+
+        logger.info(`Recepción iniciada: ${session.pickingName}`, {
+          pickingId,
+          lines: session.lines.length,
+          mode,
+          userId,
+          deviceId,
+        });
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Registrar escaneo de un producto en la recepción
+   */
+  public async scanBarcode(
+    pickingId: number,
+    barcode: string,
+    requestedQty: number | undefined,
+    lotNumber: string | undefined,
+    expiryDate: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: ReceiptSession; line: ReceiptLine }> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireCountingSession(pickingId);
+        const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+        const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+
+        // Un código de caja (DUN14) suma por defecto las unidades del embalaje
+        const quantity =
+          requestedQty ?? resolved?.packaging.unitsPerPackage ?? 1;
+
+        if (quantity <= 0) {
+          throw new AppError(
+            "La cantidad escaneada debe ser mayor que cero",
+            400
+          );
+        }
+
+        let line = this.findLineByBarcode(session, cleanBarcode, resolved);
+        if (!line) {
+          // En modo ciego el operario no conoce las líneas esperadas, así que
+          // los productos no previstos se registran para el informe
+          if (session.mode !== "blind") {
+            if (!resolved) {
+              await this.unknownBarcodeService.recordMiss(cleanBarcode, {
+                userId,
+                deviceId,
+                module: "entrada",
+                context: session.pickingName,
+              });
+            }
+
+            throw new AppError(
+              `El código ${cleanBarcode} no corresponde a ningún producto del albarán ${session.pickingName}`,
+              404
+            );
+          }
+
+          line = await this.createUnexpectedLine(
+            session,
+            cleanBarcode,
+            resolved
+          );
+          session.lines.push(line);
+
+          // Ni local ni en Odoo: queda pendiente de revisión por un supervisor
+          if (line.odooProductId === null) {
+            await this.unknownBarcodeService.recordMiss(cleanBarcode, {
+              userId,
+              deviceId,
+              module: "entrada",
+              context: session.pickingName,
+            });
+          }
+        }
+
+        // Lote obligatorio con trazabilidad, opcional para registrar caducidad
+        if (LotService.requiresTracking(line.tracking) || lotNumber) {
+          await this.addScannedLot(
+            session,
+            line,
+            lotNumber,
+            expiryDate,
+            quantity
+          );
+        }
+
+        line.receivedQty += quantity;
+        line.lastScannedAt = Date.now();
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "line_scanned",
+            barcode: cleanBarcode,
+            odooProductId: line.odooProductId || undefined,
+            quantity,
+            context:
+              line.unexpected || lotNumber
+                ? { unexpected: line.unexpected, lotNumber, expiryDate }
+                : undefined,
+          },
+          ipAddress
+        );
+
+        return { session, line };
+      }
+    );
+  }
+
+  /**
+   * Confirmar la cantidad recibida de una línea
+   */
+  public async confirmLineQuantity(
+    pickingId: number,
+    moveId: number,
+    quantity: number,
+    lots: LotQuantity[] | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: ReceiptSession; line: ReceiptLine }> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireCountingSession(pickingId);
+
+        if (quantity < 0) {
+          throw new AppError("La cantidad recibida no puede ser negativa", 400);
+        }
+
+        const line = session.lines.find((l) => l.moveId === moveId);
+        if (!line) {
+          throw new AppError("Línea no encontrada en el albarán", 404);
+        }
+
+        if (LotService.requiresTracking(line.tracking) || lots?.length) {
+          line.lots =
+            quantity > 0
+              ? LotService.validateLots(
+                  line.tracking,
+                  lots,
+                  line.productName,
+                  quantity
+                )
+              : [];
+        }
+
+        line.receivedQty = quantity;
+        line.lastScannedAt = Date.now();
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "line_confirmed",
+            barcode: line.barcode || undefined,
+            odooProductId: line.odooProductId || undefined,
+            quantity,
+            context: line.lots.length > 0 ? { lots: line.lots } : undefined,
+          },
+          ipAddress
+        );
+
+        return { session, line };
+      }
+    );
+  }
+
+  /**
+   * Validar la recepción en Odoo con las cantidades confirmadas
+   */
+  public async validateReceipt(
+    pickingId: number,
+    createBackorder: boolean,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReceiptSummary> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireCountingSession(pickingId);
+
+        if (session.mode === "blind") {
+          throw new AppError(
+            "Las recepciones ciegas deben enviarse a revisión antes de validarse",
+            409
+          );
+        }
+
+        const summary = ReceiptService.summarize(session);
+        if (summary.totalReceived <= 0) {
+          throw new AppError(
+            "No se puede validar una recepción sin cantidades recibidas",
+            400
+          );
+        }
+
+        await this.pushReceiptToOdoo(session, createBackorder, userId);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "receipt_validated",
+            context: { ...summary, createBackorder },
+          },
+          ipAddress
+        );
+
+        return summary;
+      }
+    );
+  }
+
+  /**
+   * Cerrar el conteo ciego y generar el informe de discrepancias.
+   * Si el conteo coincide con lo esperado se valida directamente en Odoo.
+   */
+  public async submitBlindCount(
+    pickingId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<DiscrepancyReport> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const session = await this.requireCountingSession(pickingId);
+
+        if (session.mode !== "blind") {
+          throw new AppError("La recepción no está en modo ciego", 400);
+        }
+
+        if (session.lines.every((line) => line.receivedQty <= 0)) {
+          throw new AppError("No se ha contado ningún producto", 400);
+        }
+
+        const report = ReceiptService.buildDiscrepancyReport(session, userId);
+        const hasDiscrepancies = report.items.some(
+          (item) => item.type !== "match"
+        );
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "receipt_submitted",
+            context: { totals: report.totals, hasDiscrepancies },
+          },
+          ipAddress
+        );
+
+        if (!hasDiscrepancies) {
+          await this.pushReceiptToOdoo(session, false, userId);
+
+          report.status = "accepted";
+          report.reviewedAt = Date.now();
+          report.reviewNotes = "Conteo conforme, validado automáticamente";
+          await this.saveReport(report);
+
+          logger.info(
+            `Recepción ciega sin discrepancias validada: ${session.pickingName}`,
+            { pickingId, userId }
+          );
+
+          return report;
+        }
+
+        session.status = "pending_review";
+        await this.saveSession(session);
+        await this.saveReport(report);
+
+        logger.info(
+          `Recepción ciega enviada a revisión: ${session.pickingName}`,
+          {
+            pickingId,
+            totals: report.totals,
+            userId,
+          }
+        );
+
+        return report;
+      }
+    );
+  }
+
+  /**
+   * Listar informes de discrepancias pendientes de revisión
+   */
+  public async getPendingDiscrepancyReports(): Promise<DiscrepancyReport[]> {
+    const keys = await redis.keys(ReceiptService.DISCREPANCY_PREFIX + "*");
+    const reports: DiscrepancyReport[] = [];
+
+    for (const key of keys) {
+      const reportStr = await redis.get(key);
+      if (reportStr) {
+        const report: DiscrepancyReport = JSON.parse(reportStr);
+        if (report.status === "pending") {
+          reports.push(report);
+        }
+      }
+    }
+
+    return reports.sort((a, b) => a.submittedAt - b.submittedAt);
+  }
+
+  /**
+   * Obtener informe de discrepancias de una recepción
+   */
+  public async getDiscrepancyReport(
+    pickingId: number
+  ): Promise<DiscrepancyReport> {
+    const reportStr = await redis.get(
+      ReceiptService.DISCREPANCY_PREFIX + pickingId
+    );
+
+    if (!reportStr) {
+      throw new AppError("Informe de discrepancias no encontrado", 404);
+    }
+
+    return JSON.parse(reportStr);
+  }
+
+  /**
+   * Aceptar informe de discrepancias y validar la recepción en Odoo
+   * con las cantidades contadas
+   */
+  public async acceptDiscrepancyReport(
+    pickingId: number,
+    createBackorder: boolean,
+    notes: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<DiscrepancyReport> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const { session, report } = await this.requirePendingReview(pickingId);
+
+        // Los productos no previstos se añaden al albarán como nuevos movimientos
+        const excludedItems: DiscrepancyItem[] = [];
+        for (const line of session.lines.filter((l) => l.unexpected)) {
+          if (line.receivedQty <= 0) {
+            continue;
+          }
+
+          if (!line.odooProductId) {
+            excludedItems.push(
+              report.items.find((item) => item.moveId === line.moveId)!
+            );
+            continue;
+          }
+
+          const moveResponse = await this.odooConnector.addPickingMove(
+            pickingId,
+            line.odooProductId,
+            line.receivedQty
+          );
+
+          if (!moveResponse.success || !moveResponse.data) {
+            throw new AppError(
+              `Error añadiendo ${line.productName} al albarán: ${moveResponse.error}`,
+              502
+            );
+          }
+
+          line.moveId = moveResponse.data;
+          line.unexpected = false;
+        }
+
+        // Evitar reenviar los movimientos ya creados si la validación falla
+        await this.saveSession(session);
+
+        await this.pushReceiptToOdoo(
+          {
+            ...session,
+            lines: session.lines.filter((line) => !line.unexpected),
+          },
+          createBackorder,
+          userId
+        );
+
+        report.status = "accepted";
+        report.reviewedBy = userId;
+        report.reviewedAt = Date.now();
+        report.reviewNotes = notes;
+        report.excludedItems = excludedItems;
+        await this.saveReport(report);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "discrepancy_accepted",
+            context: {
+              totals: report.totals,
+              excluded: excludedItems.length,
+              createBackorder,
+              notes,
+            },
+          },
+          ipAddress
+        );
+
+        return report;
+      }
+    );
+  }
+
+  /**
+   * Rechazar informe de discrepancias y reabrir la recepción para recontar
+   */
+  public async rejectDiscrepancyReport(
+    pickingId: number,
+    reason: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<DiscrepancyReport> {
+    return SessionLock.run(
+      ReceiptService.RECEIPT_PREFIX + pickingId,
+      async () => {
+        const { session, report } = await this.requirePendingReview(pickingId);
+
+        report.status = "rejected";
+        report.reviewedBy = userId;
+        report.reviewedAt = Date.now();
+        report.reviewNotes = reason;
+        await this.saveReport(report);
+
+        // Reiniciar el conteo: se descartan las líneas no previstas
+        session.status = "counting";
+        session.lines = session.lines
+          .filter((line) => !line.unexpected)
+          .map((line) => ({
+            ...line,
+            receivedQty: 0,
+            lots: [],
+            lastScannedAt: null,
+          }));
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.pickingId,
+            pickingName: session.pickingName,
+            action: "discrepancy_rejected",
+            context: { totals: report.totals, reason },
+          },
+          ipAddress
+        );
+
+        return report;
+      }
+    );
+  }
+
+  /**
+   * Vista de la recepción para el PDA (oculta cantidades esperadas en modo ciego)
+   */
+  public static presentSession(session: ReceiptSession): {
+    receipt: any;
+    summary: ReceiptSummary | BlindReceiptSummary;
+  } {
+    if (session.mode !== "blind") {
+      return { receipt: session, summary: this.summarize(session) };
+    }
+
+    const countedLines = session.lines.filter((line) => line.receivedQty > 0);
+
+    return {
+      receipt: {
+        ...session,
+        // En modo ciego solo se muestran las líneas ya contadas
+        lines: countedLines.map(({ expectedQty, unexpected, ...line }) => line),
+      },
+      summary: {
+        pickingId: session.pickingId,
+        pickingName: session.pickingName,
+        countedLines: countedLines.length,
+        totalCounted: countedLines.reduce((sum, l) => sum + l.receivedQty, 0),
+      },
+    };
+  }
+
+  /**
+   * Vista de una línea para el PDA
+   */
+  public static presentLine(
+    session: ReceiptSession,
+    line: ReceiptLine
+  ): Partial<ReceiptLine> {
+    if (session.mode !== "blind") {
+      return line;
+    }
+
+    const { expectedQty, unexpected, ...blindLine } = line;
+    return blindLine;
+  }
+
+  /**
+   * Resumen de progreso de una recepción
+   */
+  public static summarize(session: ReceiptSession): ReceiptSummary {
+    const completedLines = session.lines.filter(
+      (line) => line.receivedQty >= line.expectedQty
+    ).length;
+
+    return {
+      pickingId: session.pickingId,
+      pickingName: session.pickingName,
+      totalLines: session.lines.length,
+      completedLines,
+      pendingLines: session.lines.length - completedLines,
+      overReceivedLines: session.lines.filter(
+        (line) => line.receivedQty > line.expectedQty
+      ).length,
+      totalExpected: session.lines.reduce((sum, l) => sum + l.expectedQty, 0),
+      totalReceived: session.lines.reduce((sum, l) => sum + l.receivedQty, 0),
+    };
+  }
+
+  /**
+   * Comparar el conteo con las líneas del pedido de compra
+   */
+  private static buildDiscrepancyReport(
+    session: ReceiptSession,
+    userId: string
+  ): DiscrepancyReport {
+    const items: DiscrepancyItem[] = session.lines.map((line) => {
+      const difference = line.receivedQty - line.expectedQty;
+      let type: DiscrepancyItem["type"] = "match";
+
+      if (line.unexpected) {
+        type = "unexpected";
+      } else if (difference > this.QTY_TOLERANCE) {
+        type = "over";
+      } else if (difference < -this.QTY_TOLERANCE) {
+        type = "short";
+      }
+
+      return {
+        moveId: line.moveId,
+        odooProductId: line.odooProductId,
+        productName: line.productName,
+        barcode: line.barcode,
+        type,
+        expectedQty: line.expectedQty,
+        countedQty: line.receivedQty,
+        difference,
+      };
+    });
+
+    return {
+      pickingId: session.pickingId,
+      pickingName: session.pickingName,
+      status: "pending",
+      items,
+      totals: {
+        over: items.filter((item) => item.type === "over").length,
+        short: items.filter((item) => item.type === "short").length,
+        unexpected: items.filter((item) => item.type === "unexpected").length,
+      },
+      submittedBy: userId,
+      submittedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Registrar cantidades y validar el albarán en Odoo
+   */
+  private async pushReceiptToOdoo(
+    session: ReceiptSession,
+    createBackorder: boolean,
+    userId: string
+  ): Promise<void> {
+    const trackedLines = session.lines.filter(
+      (line) =>
+        LotService.requiresTracking(line.tracking) && line.receivedQty > 0
+    );
+
+    for (const line of trackedLines) {
+      const lotTotal = line.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      if (
+        Math.abs(lotTotal - line.receivedQty) > ReceiptService.QTY_TOLERANCE
+      ) {
+        throw new AppError(
+          `Faltan lotes por registrar en ${line.productName} (${lotTotal}/${line.receivedQty})`,
+          400
+        );
+      }
+    }
+
+    const quantitiesResponse = await this.odooConnector.setMoveQuantities(
+      session.lines.map((line) => ({
+        moveId: line.moveId,
+        quantity: line.receivedQty,
+      }))
+    );
+
+    if (!quantitiesResponse.success) {
+      throw new AppError(
+        `Error registrando cantidades en Odoo: ${quantitiesResponse.error}`,
+        502
+      );
+    }
+
+    // Registrar lotes / números de serie como líneas de movimiento
+    const odooLotIds = new Map<number, Record<string, number>>();
+    for (const line of trackedLines) {
+      const lotsResponse = await this.odooConnector.setMoveLotLines(
+        line.moveId,
+        line.lots
+      );
+
+      if (!lotsResponse.success || !lotsResponse.data) {
+        throw new AppError(
+          `Error registrando lotes de ${line.productName} en Odoo: ${lotsResponse.error}`,
+          502
+        );
+      }
+
+      odooLotIds.set(line.moveId, lotsResponse.data);
+    }
+
+    const validateResponse = await this.odooConnector.validatePicking(
+      session.pickingId,
+      createBackorder
+    );
+
+    if (!validateResponse.success) {
+      throw new AppError(
+        `Error validando la recepción en Odoo: ${validateResponse.error}`,
+        502
+      );
+    }
+
+    await redis.del(ReceiptService.RECEIPT_PREFIX + session.pickingId);
+
+    // Los lotes quedan pendientes de colocar en los productos locales
+    const linesWithLots = session.lines.filter(
+      (line) => line.lots.length > 0 && line.receivedQty > 0
+    );
+    for (const line of linesWithLots) {
+      const product = line.odooProductId
+        ? await Product.findOne({
+            where: { odoo_product_id: line.odooProductId },
+          })
+        : null;
+
+      if (product) {
+        await LotService.registerReceivedLots(
+          product,
+          line.lots,
+          userId,
+          odooLotIds.get(line.moveId)
+        );
+      }
+    }
+
+    logger.info(`Recepción validada en Odoo: ${session.pickingName}`, {
+      pickingId: session.pickingId,
+      mode: session.mode,
+      createBackorder,
+    });
+  }
+
+  /**
+   * Crear línea para un producto no previsto en el albarán
+   */
+  private async createUnexpectedLine(
+    session: ReceiptSession,
+    barcode: string,
+    resolved: ResolvedBarcode | null
+  ): Promise<ReceiptLine> {
+    let odooProductId: number | null = null;
+    let productName = "Producto desconocido";
+    let reference: string | null = null;
+    let tracking: TrackingType = "none";
+
+    const product = resolved?.product;
+    if (product) {
+      odooProductId = product.odoo_product_id;
+      productName = product.description;
+      reference = product.reference;
+      tracking = product.tracking;
+    } else {
+      const odooResponse = await this.odooConnector.searchProductByBarcode(
+        barcode
+      );
+      if (odooResponse.success && odooResponse.data) {
+        odooProductId = odooResponse.data.id;
+        productName = odooResponse.data.name;
+        reference = odooResponse.data.default_code || null;
+        tracking = ReceiptService.parseTracking(odooResponse.data.tracking);
+      }
+    }
+
+    const minMoveId = Math.min(0, ...session.lines.map((line) => line.moveId));
+
+    return {
+      moveId: minMoveId - 1,
+      odooProductId,
+      productName,
+      reference,
+      barcode,
+      expectedQty: 0,
+      receivedQty: 0,
+      uom: "Unidades",
+      tracking,
+      lots: [],
+      unexpected: true,
+      lastScannedAt: null,
+    };
+  }
+
+  /**
+   * Añadir el lote / número de serie escaneado a una línea con trazabilidad
+   */
+  private async addScannedLot(
+    session: ReceiptSession,
+    line: ReceiptLine,
+    lotNumber: string | undefined,
+    expiryDate: string | undefined,
+    quantity: number
+  ): Promise<void> {
+    const [lot] = LotService.validateLots(
+      line.tracking,
+      lotNumber ? [{ lotNumber, quantity, expiryDate }] : undefined,
+      line.productName
+    );
+
+    const existing = line.lots.find((l) => l.lotNumber === lot.lotNumber);
+
+    if (line.tracking === "serial") {
+      if (existing) {
+        throw new AppError(
+          `El número de serie ${lot.lotNumber} ya se ha escaneado en esta recepción`,
+          409
+        );
+      }
+
+      const product = line.odooProductId
+        ? await Product.findOne({
+            where: { odoo_product_id: line.odooProductId },
+          })
+        : null;
+      if (product) {
+        await LotService.assertSerialAvailable(product.id, lot.lotNumber);
+      }
+    }
+
+    if (existing) {
+      existing.quantity += lot.quantity;
+      existing.expiryDate = lot.expiryDate || existing.expiryDate;
+    } else {
+      line.lots.push(lot);
+    }
+  }
+
+  /**
+   * Si la recepción del proveedor debe contarse en modo ciego
+   */
+  private static requiresBlind(partner: [number, string] | false): boolean {
+    if (config.receipts.blindAll) {
+      return true;
+    }
+    return !!partner && config.receipts.blindSuppliers.includes(partner[0]);
+  }
+
+  /**
+   * Normalizar el campo tracking de Odoo
+   */
+  private static parseTracking(tracking?: string): TrackingType {
+    return tracking === "lot" || tracking === "serial" ? tracking : "none";
+  }
+
+  /**
+   * Buscar la línea correspondiente a un código de barras
+   */
+  private findLineByBarcode(
+    session: ReceiptSession,
+    barcode: string,
+    resolved: ResolvedBarcode | null
+  ): ReceiptLine | null {
+    let candidates = session.lines.filter((line) => line.barcode === barcode);
+
+    // Si Odoo no tiene el código, intentar resolverlo con el producto local
+    // (código principal o alternativo)
+    if (candidates.length === 0 && resolved) {
+      candidates = session.lines.filter(
+        (line) => line.odooProductId === resolved.product.odoo_product_id
+      );
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Priorizar líneas que aún no están completas
+    return (
+      candidates.find((line) => line.receivedQty < line.expectedQty) ||
+      candidates[0]
+    );
+  }
+
+  /**
+   * Obtener sesión de recepción en curso
+   */
+  private async getSession(pickingId: number): Promise<ReceiptSession | null> {
+    const sessionStr = await redis.get(
+      ReceiptService.RECEIPT_PREFIX + pickingId
+    );
+    return sessionStr ? JSON.parse(sessionStr) : null;
+  }
+
+  /**
+   * Obtener sesión de recepción en conteo o fallar
+   */
+  private async requireCountingSession(
+    pickingId: number
+  ): Promise<ReceiptSession> {
+    const session = await this.getSession(pickingId);
+    if (!session) {
+      throw new AppError(
+        "La recepción no está iniciada. Abra el albarán antes de escanear",
+        404
+      );
+    }
+
+    if (session.status !== "counting") {
+      throw new AppError(
+        "La recepción está pendiente de revisión por un supervisor",
+        409
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Obtener sesión e informe pendientes de revisión o fallar
+   */
+  private async requirePendingReview(
+    pickingId: number
+  ): Promise<{ session: ReceiptSession; report: DiscrepancyReport }> {
+    const session = await this.getSession(pickingId);
+    if (!session || session.status !== "pending_review") {
+      throw new AppError(
+        "La recepción no tiene un informe pendiente de revisión",
+        409
+      );
+    }
+
+    const report = await this.getDiscrepancyReport(pickingId);
+    if (report.status !== "pending") {
+      throw new AppError("El informe de discrepancias ya fue revisado", 409);
+    }
+
+    return { session, report };
+  }
+
+  /**
+   * Guardar sesión de recepción
+   */
+  private async saveSession(session: ReceiptSession): Promise<void> {
+    await redis.setex(
+      ReceiptService.RECEIPT_PREFIX + session.pickingId,
+      ReceiptService.RECEIPT_TTL,
+      JSON.stringify(session)
+    );
+  }
+
+  /**
+   * Guardar informe de discrepancias
+   */
+  private async saveReport(report: DiscrepancyReport): Promise<void> {
+    await redis.setex(
+      ReceiptService.DISCREPANCY_PREFIX + report.pickingId,
+      ReceiptService.DISCREPANCY_TTL,
+      JSON.stringify(report)
+    );
+  }
+}
+
+export {
+  ReceiptMode,
+  ReceiptLine,
+  ReceiptSession,
+  ReceiptSummary,
+  BlindReceiptSummary,
+  OpenReceipt,
+  DiscrepancyItem,
+  DiscrepancyReport,
+};
@@ -0,0 +1,592 @@
+// src/services/replenishment.service.ts
+import { Op } from "sequelize";
+import sequelize from "../config/database";
+import Product from "../models/Product";
+import ReplenishmentRule from "../models/ReplenishmentRule";
+import ReplenishmentTask from "../models/ReplenishmentTask";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { ProductBarcodeService } from "./product-barcode.service";
+import { CacheService } from "./cache.service";
+import { ProductBinService } from "./product-bin.service";
+import { WarehouseTaskService } from "./warehouse-task.service";
+import { StockMovementService } from "./stock-movement.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type ReplenishmentTaskStatus = ReplenishmentTask["status"];
+
+interface ReplenishmentRuleData {
+  productId: string;
+  location: string;
+  minQty: number;
+  maxQty: number;
+}
+
+interface ReplenishmentScan {
+  sourceLocation: string;
+  barcode: string;
+  destinationLocation: string;
+  quantity?: number;
+}
+
+export class ReplenishmentService {
+  private odooConnector: OdooConnectorService;
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+  }
+
+  /**
+   * Comprobar el stock de la ubicación de picking tras una bajada de stock
+   * y generar una tarea de reposición si queda por debajo del mínimo.
+   * No lanza errores para no interrumpir la operación que la dispara.
+   */
+  public async checkStock(
+    product: Product,
+    userId: string,
+    reason?: string
+  ): Promise<ReplenishmentTask | null> {
+    try {
+      if (!product.location) {
+        return null;
+      }
+
+      const rule = await ReplenishmentRule.findOne({
+        where: { product_id: product.id, location: product.location },
+      });
+      if (!rule) {
+        return null;
+      }
+
+      // Solo cuenta el stock de la ubicación de picking, no el de reserva
+      const pickStock = await ProductBinService.quantityAt(
+        product,
+        rule.location
+      );
+      if (!rule.needsReplenishment(pickStock)) {
+        return null;
+      }
+
+      // Ya hay una reposición en curso para esta ubicación
+      const openTask = await ReplenishmentTask.findOne({
+        where: {
+          product_id: product.id,
+          destination_location: rule.location,
+          status: "pending",
+        },
+      });
+      if (openTask) {
+        return openTask;
+      }
+
+      const needed = Number(rule.max_qty) - pickStock;
+      const reserve = await this.findReserveLocation(product, rule.location);
+
+      const task = await ReplenishmentTask.create({
+        product_id: product.id,
+        rule_id: rule.id,
+        source_location: reserve?.location || null,
+        destination_location: rule.location,
+        quantity: reserve ? Math.min(needed, reserve.quantity) : needed,
+        trigger_reason: reason || null,
+        created_by: userId,
+      });
+
+      // Publicar en la cola de tareas para que la reclame un operario
+      const warehouseTask = await WarehouseTaskService.createTask(
+        {
+          type: "replenishment",
+          priority: pickStock <= 0 ? "urgent" : "high",
+          location: rule.location,
+          referenceId: task.id,
+          description: `Reponer ${task.quantity} ${product.reference} desde ${
+            task.source_location || "reserva"
+          } a ${rule.location}`,
+          payload: {
+            productId: product.id,
+            barcode: product.barcode,
+            sourceLocation: task.source_location,
+            quantity: Number(task.quantity),
+          },
+        },
+        userId
+      );
+      task.warehouse_task_id = warehouseTask.id;
+      await task.save();
+
+      if (!reserve) {
+        logger.warn(
+          `Reposición sin stock de reserva: ${product.reference} en ${rule.location}`
+        );
+      }
+
+      await auditLogger.logReplenishmentOperation(userId, "system", {
+        taskId: task.id,
+        ruleId: rule.id,
+        action: "task_created",
+        productId: product.id,
+        location: rule.location,
+        sourceLocation: task.source_location,
+        quantity: Number(task.quantity),
+        context: { stock: pickStock, minQty: rule.min_qty, reason },
+      });
+
+      return task;
+    } catch (error) {
+      logger.error(
+        `Error comprobando reposición del producto ${product.id}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Listar reglas de reposición (opcionalmente de un producto)
+   */
+  public async getRules(productId?: string): Promise<ReplenishmentRule[]> {
+    return ReplenishmentRule.findAll({
+      where: productId ? { product_id: productId } : {},
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: ["id", "barcode", "reference", "location", "stock"],
+        },
+      ],
+      order: [["location", "ASC"]],
+    });
+  }
+
+  /**
+   * Crear o actualizar la regla mínimo/máximo de un producto en una ubicación
+   */
+  public async saveRule(
+    data: ReplenishmentRuleData,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReplenishmentRule> {
+    const product = await Product.findByPk(data.productId);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    if (data.maxQty <= data.minQty) {
+      throw new AppError("El máximo debe ser mayor que el mínimo", 400);
+    }
+
+    const location = LocationValidator.validateAndClean(data.location);
+
+    let rule = await ReplenishmentRule.findOne({
+      where: { product_id: product.id, location },
+    });
+
+    if (rule) {
+      rule.min_qty = data.minQty;
+      rule.max_qty = data.maxQty;
+      await rule.save();
+    } else {
+      rule = await ReplenishmentRule.create({
+        product_id: product.id,
+        location,
+        min_qty: data.minQty,
+        max_qty: data.maxQty,
+        created_by: userId,
+      });
+    }
+
+    await auditLogger.logReplenishmentOperation(
+      userId,
+      deviceId,
+      {
+        ruleId: rule.id,
+        action: "rule_saved",
+        productId: product.id,
+        location,
+        context: { minQty: data.minQty, maxQty: data.maxQty },
+      },
+      ipAddress
+    );
+
+    // La nueva regla puede dejar la ubicación ya por debajo del mínimo
+    await this.checkStock(product, userId, "Regla de reposición actualizada");
+
+    return rule;
+  }
+
+  /**
+   * Eliminar regla de reposición
+   */
+  public async deleteRule(
+    ruleId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    const rule = await ReplenishmentRule.findByPk(ruleId);
+    if (!rule) {
+      throw new AppError("Regla de reposición no encontrada", 404);
+    }
+
+    const openTasks = await ReplenishmentTask.count({
+      where: {
+        rule_id: rule.id,
+        status: "pending",
+      },
+    });
+    if (openTasks > 0) {
+      throw new AppError(
+        "La regla tiene tareas de reposición abiertas. Cancélelas antes de eliminarla",
+        409
+      );
+    }
+
+    await rule.destroy();
+
+    await auditLogger.logReplenishmentOperation(
+      userId,
+      deviceId,
+      {
+        ruleId,
+        action: "rule_deleted",
+        productId: rule.product_id,
+        location: rule.location,
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Cola de tareas de reposición
+   */
+  public async getTasks(
+    statuses: ReplenishmentTaskStatus[],
+    limit: number = 50
+  ): Promise<ReplenishmentTask[]> {
+    return ReplenishmentTask.findAll({
+      where: { status: { [Op.in]: statuses } },
+      include: [
+        {
+          model: Product,
+          as: "product",
+          attributes: ["id", "barcode", "reference", "description", "stock"],
+        },
+      ],
+      order: [["created_at", "ASC"]],
+      limit,
+    });
+  }
+
+  /**
+   * Confirmar la reposición escaneando origen, producto y destino
+   */
+  public async confirmTask(
+    taskId: string,
+    scan: ReplenishmentScan,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ task: ReplenishmentTask; product: Product }> {
+    const task = await this.requireOpenTask(taskId);
+    const warehouseTask = await WarehouseTaskService.requireClaim(
+      task.warehouse_task_id!,
+      userId,
+      deviceId
+    );
+
+    const product = await Product.findByPk(task.product_id);
+    if (!product) {
+      throw new AppError("Producto no encontrado", 404);
+    }
+
+    const sourceLocation = LocationValidator.validateAndClean(
+      scan.sourceLocation
+    );
+    if (
+      task.source_location &&
+      sourceLocation !== task.source_location.toUpperCase()
+    ) {
+      throw new AppError(
+        `Ubicación de origen incorrecta: se esperaba ${task.source_location}`,
+        400
+      );
+    }
+
+    const cleanBarcode = BarcodeValidator.validateAndClean(scan.barcode);
+    const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+    if (!resolved || resolved.product.id !== product.id) {
+      throw new AppError(
+        `El código ${cleanBarcode} no corresponde a ${product.reference}`,
+        400
+      );
+    }
+
+    const destination = LocationValidator.validateAndClean(
+      scan.destinationLocation
+    );
+    if (destination !== task.destination_location) {
+      throw new AppError(
+        `Ubicación de destino incorrecta: se esperaba ${task.destination_location}`,
+        400
+      );
+    }
+
+    const quantity = scan.quantity ?? Number(task.quantity);
+    if (quantity <= 0) {
+      throw new AppError("La cantidad repuesta debe ser mayor que cero", 400);
+    }
+
+    await InventorySessionService.assertNotFrozen([
+      sourceLocation,
+      destination,
+    ]);
+
+    // Desde una reserva local el stock se traslada; desde una reserva de
+    // Odoo entra como recepción
+    const bins = await ProductBinService.getBins(product);
+    const fromLocalBin = bins.some((bin) => bin.location === sourceLocation);
+    if (!fromLocalBin) {
+      const odooReserve = await this.findOdooReserve(
+        product,
+        destination,
+        sourceLocation
+      );
+      if (!odooReserve || odooReserve.quantity < quantity) {
+        throw new AppError(
+          `${product.reference} no tiene stock de reserva suficiente en ${sourceLocation}`,
+          400
+        );
+      }
+    }
+
+    const oldStock = Number(product.stock);
+    await sequelize.transaction(async (transaction) => {
+      const stockBefore = await StockMovementService.snapshot(
+        product,
+        transaction
+      );
+      if (fromLocalBin) {
+        await ProductBinService.adjustQuantity(
+          product,
+          sourceLocation,
+          -quantity,
+          transaction
+        );
+      }
+      await ProductBinService.adjustQuantity(
+        product,
+        destination,
+        quantity,
+        transaction
+      );
+
+      product.last_odoo_sync = new Date();
+      await product.save({ transaction });
+
+      await StockMovementService.record(
+        product,
+        stockBefore,
+        {
+          source: fromLocalBin ? "transfer" : "receipt",
+          reasonCode: "REPLENISHMENT",
+          reason: fromLocalBin
+            ? undefined
+            : `Reserva de Odoo ${sourceLocation}`,
+          reference: task.id,
+          userId,
+          deviceId,
+        },
+        transaction
+      );
+    });
+    await CacheService.invalidateProduct(product.barcode);
+
+    await auditLogger.logColocacionUpdate(
+      userId,
+      product.id,
+      {
+        barcode: product.barcode,
+        reference: product.reference,
+        oldLocation: product.location,
+        newLocation: product.location,
+        oldStock,
+        newStock: Number(product.stock),
+        bin: destination,
+      },
+      deviceId,
+      ipAddress
+    );
+
+    task.status = "completed";
+    task.confirmed_qty = quantity;
+    task.completed_by = userId;
+    task.completed_at = new Date();
+    await task.save();
+
+    await WarehouseTaskService.completeLinkedTask(
+      warehouseTask.id,
+      userId,
+      deviceId,
+      { sourceLocation, quantity },
+      ipAddress
+    );
+
+    await auditLogger.logReplenishmentOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        action: "task_completed",
+        productId: product.id,
+        location: task.destination_location,
+        sourceLocation,
+        quantity,
+        context: { requested: Number(task.quantity) },
+      },
+      ipAddress
+    );
+
+    logger.info(`Reposición completada: ${product.reference}`, {
+      taskId: task.id,
+      from: sourceLocation,
+      to: task.destination_location,
+      quantity,
+      userId,
+    });
+
+    return { task, product };
+  }
+
+  /**
+   * Cancelar una tarea abierta (supervisor)
+   */
+  public async cancelTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReplenishmentTask> {
+    const task = await this.requireOpenTask(taskId);
+
+    task.status = "cancelled";
+    task.completed_by = userId;
+    task.completed_at = new Date();
+    await task.save();
+
+    if (task.warehouse_task_id) {
+      await WarehouseTaskService.cancelLinkedTask(
+        task.warehouse_task_id,
+        userId,
+        deviceId,
+        "Reposición cancelada",
+        ipAddress
+      );
+    }
+
+    await auditLogger.logReplenishmentOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        action: "task_cancelled",
+        productId: task.product_id,
+        location: task.destination_location,
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Elegir la ubicación de reserva con más stock disponible:
+   * primero las reservas locales del producto y, si no hay, las de Odoo
+   */
+  private async findReserveLocation(
+    product: Product,
+    pickLocation: string
+  ): Promise<{ location: string; quantity: number } | null> {
+    const localReserve = (await ProductBinService.getBins(product))
+      .filter(
+        (bin) => bin.location !== pickLocation && Number(bin.quantity) > 0
+      )
+      .sort((a, b) => Number(b.quantity) - Number(a.quantity))[0];
+    if (localReserve) {
+      return {
+        location: localReserve.location,
+        quantity: Number(localReserve.quantity),
+      };
+    }
+
+    const [best] = (await this.getOdooReserves(product, pickLocation)).sort(
+      (a, b) => b.quantity - a.quantity
+    );
+    return best || null;
+  }
+
+  /**
+   * Stock de una ubicación de reserva de Odoo para el producto
+   */
+  private async findOdooReserve(
+    product: Product,
+    pickLocation: string,
+    location: string
+  ): Promise<{ location: string; quantity: number } | null> {
+    const reserves = await this.getOdooReserves(product, pickLocation);
+    return (
+      reserves.find((reserve) => reserve.location.toUpperCase() === location) ||
+      null
+    );
+  }
+
+  /**
+   * Ubicaciones de reserva de Odoo con stock del producto
+   */
+  private async getOdooReserves(
+    product: Product,
+    pickLocation: string
+  ): Promise<Array<{ location: string; quantity: number }>> {
+    const response = await this.odooConnector.getReserveQuants(
+      product.odoo_product_id,
+      pickLocation
+    );
+
+    if (!response.success || !response.data) {
+      return [];
+    }
+
+    return response.data.map((quant) => ({
+      location: quant.location_barcode || quant.location_id[1],
+      quantity: quant.quantity,
+    }));
+  }
+
+  /**
+   * Obtener tarea o fallar
+   */
+  private async requireTask(taskId: string): Promise<ReplenishmentTask> {
+    const task = await ReplenishmentTask.findByPk(taskId);
+    if (!task) {
+      throw new AppError("Tarea de reposición no encontrada", 404);
+    }
+    return task;
+  }
+
+  /**
+   * Obtener tarea pendiente o fallar
+   */
+  private async requireOpenTask(taskId: string): Promise<ReplenishmentTask> {
+    const task = await this.requireTask(taskId);
+    if (!task.isOpen()) {
+      throw new AppError("La tarea de reposición ya está cerrada", 409);
+    }
+    return task;
+  }
+}
+
+export { ReplenishmentTaskStatus, ReplenishmentRuleData, ReplenishmentScan };
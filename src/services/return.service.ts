@@ -0,0 +1,652 @@
+// src/services/return.service.ts
+import Product from "../models/Product";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { ProductService } from "./product.service";
+import { ProductBarcodeService } from "./product-barcode.service";
+import { LotService, TrackingType } from "./lot.service";
+import { LocationService } from "./location.service";
+import { InventorySessionService } from "./inventory-session.service";
+import { redis } from "../config/redis";
+import { SessionLock } from "../utils/session-lock";
+import { config } from "../config/index";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type ReturnGrade = "restock" | "quarantine" | "scrap";
+
+interface ReturnLine {
+  moveId: number;
+  odooProductId: number;
+  productName: string;
+  reference: string | null;
+  barcode: string | null;
+  deliveredQty: number;
+  returnedQty: number;
+  uom: string;
+  tracking: TrackingType;
+}
+
+interface ReturnItem {
+  id: string;
+  moveId: number;
+  quantity: number;
+  grade: ReturnGrade;
+  location: string | null; // ubicación de colocación (solo reposición)
+  lotNumber: string | null;
+  scannedBy: string;
+  scannedAt: number;
+}
+
+interface ReturnSession {
+  deliveryId: number;
+  deliveryName: string;
+  origin: string | null;
+  partnerName: string | null;
+  startedBy: string;
+  deviceId: string;
+  startedAt: number;
+  lines: ReturnLine[];
+  items: ReturnItem[];
+}
+
+interface DeliverySummary {
+  deliveryId: number;
+  deliveryName: string;
+  origin: string | null;
+  partnerName: string | null;
+  date: string;
+  inProgress: boolean;
+}
+
+interface ReturnResult {
+  deliveryName: string;
+  returnPickingId: number;
+  totals: Record<ReturnGrade, number>;
+  restocked: Array<{
+    productId: string;
+    reference: string;
+    location: string;
+    quantity: number;
+  }>;
+  failed: Array<{
+    productId: string;
+    reference: string;
+    location: string;
+    quantity: number;
+    error: string;
+  }>; // validado en Odoo, pendiente de reponer en local
+}
+
+export class ReturnService {
+  private odooConnector: OdooConnectorService;
+  private static readonly RETURN_PREFIX = "entrada:return:";
+  private static readonly RETURN_TTL = 43200; // 12 horas
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+  }
+
+  /**
+   * Buscar entregas realizadas por albarán o pedido de venta
+   */
+  public async searchDeliveries(reference: string): Promise<DeliverySummary[]> {
+    const response = await this.odooConnector.searchDeliveries(
+      reference.trim()
+    );
+
+    if (!response.success || !response.data) {
+      throw new AppError(
+        `Error buscando entregas en Odoo: ${response.error}`,
+        502
+      );
+    }
+
+    const deliveries: DeliverySummary[] = [];
+    for (const picking of response.data) {
+      const inProgress =
+        (await redis.exists(ReturnService.RETURN_PREFIX + picking.id)) === 1;
+
+      deliveries.push({
+        deliveryId: picking.id,
+        deliveryName: picking.name,
+        origin: picking.origin || null,
+        partnerName: picking.partner_id ? picking.partner_id[1] : null,
+        date: picking.scheduled_date,
+        inProgress,
+      });
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Abrir devolución de una entrega (reutiliza la sesión en curso si existe)
+   */
+  public async openReturn(
+    deliveryId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReturnSession> {
+    return SessionLock.run(
+      ReturnService.RETURN_PREFIX + deliveryId,
+      async () => {
+        const existing = await this.getSession(deliveryId);
+        if (existing) {
+          return existing;
+        }
+
+        const pickingResponse = await this.odooConnector.getPicking(deliveryId);
+        if (!pickingResponse.success || !pickingResponse.data) {
+          throw new AppError("Entrega no encontrada en Odoo", 404);
+        }
+
+        const picking = pickingResponse.data;
+        if (picking.picking_type_code !== "outgoing") {
+          throw new AppError("El albarán indicado no es una entrega", 400);
+        }
+
+        if (picking.state !== "done") {
+          throw new AppError(
+            "Solo se pueden devolver entregas ya realizadas",
+            409
+          );
+        }
+
+        const movesResponse = await this.odooConnector.getDeliveredMoves(
+          deliveryId
+        );
+        if (!movesResponse.success || !movesResponse.data) {
+          throw new AppError(
+            `Error obteniendo líneas de la entrega: ${movesResponse.error}`,
+            502
+          );
+        }
+
+        const moves = movesResponse.data;
+        const productIds = [
+          ...new Set(moves.map((move) => move.product_id[0])),
+        ];
+        const productsResponse = await this.odooConnector.getProductsByIds(
+          productIds
+        );
+        const odooProducts = new Map(
+          (productsResponse.data || []).map((product) => [product.id, product])
+        );
+
+        const session: ReturnSession = {
+          deliveryId: picking.id,
+          deliveryName: picking.name,
+          origin: picking.origin || null,
+          partnerName: picking.partner_id ? picking.partner_id[1] : null,
+          startedBy: userId,
+          deviceId,
+          startedAt: Date.now(),
+          lines: moves.map((move) => {
+            const odooProduct = odooProducts.get(move.product_id[0]);
+            return {
+              moveId: move.id,
+              odooProductId: move.product_id[0],
+              productName: odooProduct?.name || move.product_id[1],
+              reference: odooProduct?.default_code || null,
+              barcode: odooProduct?.barcode || null,
+              deliveredQty: move.quantity_done,
+              returnedQty: 0,
+              uom: move.product_uom[1],
+              tracking: LotService.requiresTracking(odooProduct?.tracking)
+                ? (odooProduct!.tracking as TrackingType)
+                : "none",
+            };
+          }),
+          items: [],
+        };
+
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.deliveryId,
+            pickingName: session.deliveryName,
+            action: "return_started",
+            context: { lines: session.lines.length },
+          },
+          ipAddress
+        );
+
+        logger.info(`Devolución iniciada: ${session.deliveryName}`, {
+          deliveryId,
+          lines: session.lines.length,
+          userId,
+          deviceId,
+        });
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Obtener devolución en curso
+   */
+  public async getReturn(deliveryId: number): Promise<ReturnSession> {
+    return this.requireSession(deliveryId);
+  }
+
+  /**
+   * Registrar artículo devuelto con su clasificación y destino
+   */
+  public async scanItem(
+    deliveryId: number,
+    barcode: string,
+    requestedQty: number | undefined,
+    grade: ReturnGrade,
+    location: string | undefined,
+    lotNumber: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ session: ReturnSession; item: ReturnItem; line: ReturnLine }> {
+    return SessionLock.run(
+      ReturnService.RETURN_PREFIX + deliveryId,
+      async () => {
+        const session = await this.requireSession(deliveryId);
+        const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+        const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+
+        const quantity =
+          requestedQty ?? resolved?.packaging.unitsPerPackage ?? 1;
+        if (quantity <= 0) {
+          throw new AppError(
+            "La cantidad devuelta debe ser mayor que cero",
+            400
+          );
+        }
+
+        const candidates = session.lines.filter(
+          (line) =>
+            line.barcode === cleanBarcode ||
+            (resolved &&
+              line.odooProductId === resolved.product.odoo_product_id)
+        );
+        if (candidates.length === 0) {
+          throw new AppError(
+            `El código ${cleanBarcode} no corresponde a ningún producto de la entrega ${session.deliveryName}`,
+            404
+          );
+        }
+
+        const line =
+          candidates.find(
+            (candidate) =>
+              candidate.returnedQty + quantity <= candidate.deliveredQty
+          ) || candidates[0];
+
+        if (line.returnedQty + quantity > line.deliveredQty) {
+          throw new AppError(
+            `No se pueden devolver más unidades de las entregadas de ${line.productName} (${line.returnedQty}/${line.deliveredQty})`,
+            400
+          );
+        }
+
+        let lot: string | null = null;
+        if (LotService.requiresTracking(line.tracking) || lotNumber) {
+          [{ lotNumber: lot }] = LotService.validateLots(
+            line.tracking,
+            lotNumber ? [{ lotNumber, quantity }] : undefined,
+            line.productName
+          );
+        }
+
+        // Solo los artículos que vuelven a stock se colocan en una ubicación
+        let itemLocation: string | null = null;
+        if (grade === "restock") {
+          const product = await this.findLocalProduct(line.odooProductId);
+          if (!product) {
+            throw new AppError(
+              `El producto ${line.productName} no existe en colocación; clasifíquelo como cuarentena`,
+              400
+            );
+          }
+
+          itemLocation = location
+            ? LocationValidator.validateAndClean(location)
+            : product.location;
+          if (!itemLocation) {
+            throw new AppError(
+              `Indique la ubicación donde se repone ${line.productName}`,
+              400
+            );
+          }
+        }
+
+        const item: ReturnItem = {
+          id: `return_item_${Date.now()}_${Math.random()
+            .toString(36)
+            .substr(2, 9)}`,
+          moveId: line.moveId,
+          quantity,
+          grade,
+          location: itemLocation,
+          lotNumber: lot,
+          scannedBy: userId,
+          scannedAt: Date.now(),
+        };
+
+        session.items.push(item);
+        line.returnedQty += quantity;
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.deliveryId,
+            pickingName: session.deliveryName,
+            action: "return_item_scanned",
+            barcode: cleanBarcode,
+            odooProductId: line.odooProductId,
+            quantity,
+            context: { grade, location: itemLocation, lotNumber: lot },
+          },
+          ipAddress
+        );
+
+        return { session, item, line };
+      }
+    );
+  }
+
+  /**
+   * Eliminar un artículo registrado por error
+   */
+  public async removeItem(
+    deliveryId: number,
+    itemId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReturnSession> {
+    return SessionLock.run(
+      ReturnService.RETURN_PREFIX + deliveryId,
+      async () => {
+        const session = await this.requireSession(deliveryId);
+        const item = session.items.find((i) => i.id === itemId);
+        if (!item) {
+          throw new AppError("Artículo no encontrado en la devolución", 404);
+        }
+
+        const line = session.lines.find((l) => l.moveId === item.moveId);
+        if (line) {
+          line.returnedQty -= item.quantity;
+        }
+        session.items = session.items.filter((i) => i.id !== itemId);
+        await this.saveSession(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.deliveryId,
+            pickingName: session.deliveryName,
+            action: "return_item_removed",
+            odooProductId: line?.odooProductId,
+            quantity: item.quantity,
+            context: { grade: item.grade },
+          },
+          ipAddress
+        );
+
+        return session;
+      }
+    );
+  }
+
+  /**
+   * Crear y validar la devolución en Odoo y reponer los artículos en stock
+   */
+  public async completeReturn(
+    deliveryId: number,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<ReturnResult> {
+    return SessionLock.run(
+      ReturnService.RETURN_PREFIX + deliveryId,
+      async () => {
+        const session = await this.requireSession(deliveryId);
+        if (session.items.length === 0) {
+          throw new AppError(
+            "No se ha registrado ningún artículo devuelto",
+            400
+          );
+        }
+
+        // Las ubicaciones de reposición se comprueban antes de tocar Odoo
+        await this.assertRestockable(session);
+
+        const returnResponse = await this.odooConnector.createReturnPicking(
+          session.deliveryId,
+          session.items.map((item) => ({
+            moveId: item.moveId,
+            quantity: item.quantity,
+            destination: item.grade === "restock" ? "stock" : item.grade,
+            lotNumber: item.lotNumber,
+          })),
+          config.returns.quarantineLocation
+        );
+
+        if (!returnResponse.success || !returnResponse.data) {
+          throw new AppError(
+            `Error creando la devolución en Odoo: ${returnResponse.error}`,
+            502
+          );
+        }
+
+        const returnPickingId = returnResponse.data;
+        const validateResponse = await this.odooConnector.validatePicking(
+          returnPickingId,
+          false
+        );
+
+        if (!validateResponse.success) {
+          throw new AppError(
+            `Error validando la devolución en Odoo: ${validateResponse.error}`,
+            502
+          );
+        }
+
+        await redis.del(ReturnService.RETURN_PREFIX + session.deliveryId);
+
+        // Reponer en la ubicación de cada artículo (historial y etiquetas)
+        const restocked: ReturnResult["restocked"] = [];
+        const failed: ReturnResult["failed"] = [];
+        for (const item of session.items.filter((i) => i.grade === "restock")) {
+          const line = session.lines.find((l) => l.moveId === item.moveId)!;
+          const product = await this.findLocalProduct(line.odooProductId);
+          if (!product) {
+            logger.warn(
+              `Producto devuelto sin registro local: ${line.productName}`,
+              { deliveryId, odooProductId: line.odooProductId }
+            );
+            continue;
+          }
+
+          try {
+            // Entra en la ubicación elegida sin mover la de picking
+            await ProductService.adjustBin(
+              product.id,
+              item.location!,
+              item.quantity,
+              {
+                lots: item.lotNumber
+                  ? [{ lotNumber: item.lotNumber, quantity: item.quantity }]
+                  : undefined,
+                changeReason: `Devolución ${session.deliveryName}`,
+                source: "receipt",
+                reasonCode: "RETURN",
+                reference: session.deliveryName,
+              },
+              userId,
+              deviceId,
+              ipAddress
+            );
+
+            restocked.push({
+              productId: product.id,
+              reference: product.reference,
+              location: item.location!,
+              quantity: item.quantity,
+            });
+          } catch (error) {
+            failed.push({
+              productId: product.id,
+              reference: product.reference,
+              location: item.location!,
+              quantity: item.quantity,
+              error:
+                error instanceof Error ? error.message : "Error desconocido",
+            });
+            logger.warn(
+              `No se pudo reponer ${product.reference} en ${item.location} tras la devolución`,
+              error
+            );
+          }
+        }
+
+        const totals = ReturnService.summarize(session);
+
+        await auditLogger.logEntradaOperation(
+          userId,
+          deviceId,
+          {
+            pickingId: session.deliveryId,
+            pickingName: session.deliveryName,
+            action: "return_completed",
+            context: { returnPickingId, totals, failed },
+          },
+          ipAddress
+        );
+
+        logger.info(`Devolución validada en Odoo: ${session.deliveryName}`, {
+          deliveryId,
+          returnPickingId,
+          totals,
+          userId,
+        });
+
+        return {
+          deliveryName: session.deliveryName,
+          returnPickingId,
+          totals,
+          restocked,
+          failed,
+        };
+      }
+    );
+  }
+
+  /**
+   * Unidades devueltas por clasificación
+   */
+  public static summarize(session: ReturnSession): Record<ReturnGrade, number> {
+    const totals: Record<ReturnGrade, number> = {
+      restock: 0,
+      quarantine: 0,
+      scrap: 0,
+    };
+
+    for (const item of session.items) {
+      totals[item.grade] += item.quantity;
+    }
+
+    return totals;
+  }
+
+  /**
+   * Comprobar que los artículos a reponer pueden entrar en su ubicación:
+   * dada de alta, no bloqueada, fuera de inventarios abiertos y con lotes
+   * válidos
+   */
+  private async assertRestockable(session: ReturnSession): Promise<void> {
+    for (const item of session.items.filter((i) => i.grade === "restock")) {
+      const line = session.lines.find((l) => l.moveId === item.moveId)!;
+      const product = await this.findLocalProduct(line.odooProductId);
+      if (!product) {
+        continue;
+      }
+
+      await InventorySessionService.assertNotFrozen([item.location]);
+      await LocationService.assertUsable(item.location!);
+
+      if (item.lotNumber || product.requiresLotTracking()) {
+        LotService.validateLots(
+          product.tracking,
+          item.lotNumber
+            ? [{ lotNumber: item.lotNumber, quantity: item.quantity }]
+            : undefined,
+          product.reference
+        );
+      }
+    }
+  }
+
+  /**
+   * Buscar el producto local correspondiente a un producto de Odoo
+   */
+  private async findLocalProduct(
+    odooProductId: number
+  ): Promise<Product | null> {
+    return Product.findOne({
+      where: { odoo_product_id: odooProductId, status: "active" },
+    });
+  }
+
+  /**
+   * Obtener sesión de devolución en curso
+   */
+  private async getSession(deliveryId: number): Promise<ReturnSession | null> {
+    const sessionStr = await redis.get(
+      ReturnService.RETURN_PREFIX + deliveryId
+    );
+    return sessionStr ? JSON.parse(sessionStr) : null;
+  }
+
+  /**
+   * Obtener sesión de devolución o fallar
+   */
+  private async requireSession(deliveryId: number): Promise<ReturnSession> {
+    const session = await this.getSession(deliveryId);
+    if (!session) {
+      throw new AppError(
+        "La devolución no está iniciada. Abra la entrega antes de escanear",
+        404
+      );
+    }
+    return session;
+  }
+
+  /**
+   * Guardar sesión de devolución
+   */
+  private async saveSession(session: ReturnSession): Promise<void> {
+    await redis.setex(
+      ReturnService.RETURN_PREFIX + session.deliveryId,
+      ReturnService.RETURN_TTL,
+      JSON.stringify(session)
+    );
+  }
+}
+
+export {
+  ReturnGrade,
+  ReturnLine,
+  ReturnItem,
+  ReturnSession,
+  DeliverySummary,
+  ReturnResult,
+};
@@ -0,0 +1,276 @@
+// src/services/stock-movement.service.ts
+import { Op, Transaction } from "sequelize";
+import Product from "../models/Product";
+import StockMovement, { StockMovementSource } from "../models/StockMovement";
+import { ProductBinService } from "./product-bin.service";
+import { logger } from "../utils/logger";
+
+interface StockMovementContext {
+  source: StockMovementSource;
+  reasonCode?: string | null; // por defecto el del origen
+  reason?: string | null;
+  reference?: string | null;
+  userId: string | null;
+  deviceId?: string | null;
+}
+
+interface StockHistoryFilters {
+  source?: StockMovementSource;
+  location?: string;
+  limit?: number;
+}
+
+interface StockMovementSummary {
+  id: string;
+  location: string | null;
+  quantity: number;
+  balance: number;
+  source: StockMovementSource;
+  reasonCode: string | null;
+  reason: string | null;
+  reference: string | null;
+  userId: string | null;
+  deviceId: string | null;
+  createdAt: Date;
+}
+
+// Stock por ubicación en un momento dado (null = pendiente de ubicar)
+type StockSnapshot = Map<string | null, number>;
+
+/**
+ * Libro de movimientos de stock. `Product.stock` es la suma de los
+ * movimientos del producto: cada cambio se registra comparando el stock
+ * por ubicación antes y después de aplicarlo.
+ */
+export class StockMovementService {
+  public static readonly OPENING_BALANCE_CODE = "OPENING_BALANCE";
+
+  private static readonly DEFAULT_REASON_CODES: Record<
+    StockMovementSource,
+    string
+  > = {
+    manual: "MANUAL_UPDATE",
+    receipt: "RECEIPT",
+    pick: "PICK",
+    sync: "ODOO_SYNC",
+    transfer: "TRANSFER",
+    count: "CYCLE_COUNT",
+  };
+
+  /**
+   * Stock por ubicación antes de un cambio
+   */
+  public static async snapshot(
+    product: Product,
+    transaction?: Transaction
+  ): Promise<StockSnapshot> {
+    const bins = await ProductBinService.getBins(product, transaction);
+    const snapshot: StockSnapshot = new Map();
+
+    if (bins.length === 0) {
+      snapshot.set(null, Number(product.stock));
+    }
+    for (const bin of bins) {
+      snapshot.set(bin.location, Number(bin.quantity));
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Registrar las variaciones entre el stock anterior y el actual.
+   * El primer movimiento de un producto incluye su saldo inicial.
+   */
+  public static async record(
+    product: Product,
+    before: StockSnapshot,
+    context: StockMovementContext,
+    transaction?: Transaction
+  ): Promise<StockMovement[]> {
+    const after = await this.snapshot(product, transaction);
+    const balance = this.total(after);
+    const reasonCode =
+      context.reasonCode || this.DEFAULT_REASON_CODES[context.source];
+
+    const changes = [...new Set([...before.keys(), ...after.keys()])]
+      .map((location) => ({
+        location,
+        quantity: this.round(
+          (after.get(location) || 0) - (before.get(location) || 0)
+        ),
+      }))
+      .filter((change) => change.quantity !== 0);
+
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const hasHistory = await StockMovement.count({
+      where: { product_id: product.id },
+      transaction,
+    });
+    if (!hasHistory && this.total(before) !== 0) {
+      await this.recordOpeningBalance(product, before, transaction);
+    }
+
+    const movements = await StockMovement.bulkCreate(
+      changes.map((change) => ({
+        product_id: product.id,
+        location: change.location,
+        quantity: change.quantity,
+        balance,
+        source: context.source,
+        reason_code: reasonCode,
+        reason: context.reason || null,
+        reference: context.reference || null,
+        user_id: context.userId,
+        device_identifier: context.deviceId || null,
+      })),
+      { transaction }
+    );
+
+    logger.debug(`Movimientos de stock registrados: ${product.reference}`, {
+      productId: product.id,
+      source: context.source,
+      changes,
+    });
+
+    return movements;
+  }
+
+  /**
+   * Historial de movimientos de un producto (más recientes primero)
+   */
+  public static async getHistory(
+    productId: string,
+    filters: StockHistoryFilters = {}
+  ): Promise<StockMovement[]> {
+    const where: any = { product_id: productId };
+    if (filters.source) {
+      where.source = filters.source;
+    }
+    if (filters.location) {
+      where.location = filters.location;
+    }
+
+    return StockMovement.findAll({
+      where,
+      order: [["created_at", "DESC"]],
+      limit: filters.limit || 50,
+    });
+  }
+
+  /**
+   * Cambios de stock recientes (sin traslados entre ubicaciones)
+   */
+  public static async getRecentChanges(
+    productId: string,
+    hours: number,
+    limit: number
+  ): Promise<StockMovement[]> {
+    return StockMovement.findAll({
+      where: {
+        product_id: productId,
+        source: { [Op.ne]: "transfer" },
+        reason_code: { [Op.ne]: this.OPENING_BALANCE_CODE },
+        created_at: { [Op.gte]: new Date(Date.now() - hours * 3600 * 1000) },
+      },
+      order: [["created_at", "DESC"]],
+      limit,
+    });
+  }
+
+  /**
+   * Último cambio de stock del producto (sin traslados ni saldo inicial)
+   */
+  public static async getLatestChange(
+    productId: string
+  ): Promise<StockMovement | null> {
+    return StockMovement.findOne({
+      where: {
+        product_id: productId,
+        source: { [Op.ne]: "transfer" },
+        reason_code: { [Op.ne]: this.OPENING_BALANCE_CODE },
+      },
+      order: [["created_at", "DESC"]],
+    });
+  }
+
+  /**
+   * Stock del producto según el libro de movimientos
+   */
+  public static async getBalance(productId: string): Promise<number> {
+    const total = await StockMovement.sum("quantity", {
+      where: { product_id: productId },
+    });
+    return this.round(Number(total) || 0);
+  }
+
+  /**
+   * Resumen para las respuestas de la API
+   */
+  public static summarize(movement: StockMovement): StockMovementSummary {
+    return {
+      id: movement.id,
+      location: movement.location,
+      quantity: Number(movement.quantity),
+      balance: Number(movement.balance),
+      source: movement.source,
+      reasonCode: movement.reason_code,
+      reason: movement.reason,
+      reference: movement.reference,
+      userId: movement.user_id,
+      deviceId: movement.device_identifier,
+      createdAt: movement.created_at,
+    };
+  }
+
+  /**
+   * Saldo inicial de los productos anteriores al libro de movimientos
+   */
+  private static async recordOpeningBalance(
+    product: Product,
+    before: StockSnapshot,
+    transaction?: Transaction
+  ): Promise<void> {
+    const balance = this.total(before);
+
+    await StockMovement.bulkCreate(
+      [...before.entries()]
+        .filter(([, quantity]) => quantity !== 0)
+        .map(([location, quantity]) => ({
+          product_id: product.id,
+          location,
+          quantity,
+          balance,
+          source: "sync" as StockMovementSource,
+          reason_code: this.OPENING_BALANCE_CODE,
+          user_id: null,
+        })),
+      { transaction }
+    );
+  }
+
+  /**
+   * Suma de cantidades
+   */
+  private static total(snapshot: StockSnapshot): number {
+    return this.round(
+      [...snapshot.values()].reduce((sum, quantity) => sum + quantity, 0)
+    );
+  }
+
+  /**
+   * Redondear a la precisión del stock (3 decimales)
+   */
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export {
+  StockMovementContext,
+  StockHistoryFilters,
+  StockMovementSummary,
+  StockSnapshot,
+};
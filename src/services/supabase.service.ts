@@ -295,6 +295,39 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Obtener logs de auditoría de una acción desde una fecha
+   */
+  async getAuditLogsByAction(
+    action: string,
+    since: Date,
+    metadataFilters: Record<string, string> = {},
+    limit: number = 5000
+  ): Promise<AuditLog[]> {
+    try {
+      let query = supabaseClient
+        .from("audit_logs")
+        .select("*")
+        .eq("action", action)
+        .gte("timestamp", since.toISOString());
+
+      for (const [key, value] of Object.entries(metadataFilters)) {
+        query = query.eq(`metadata->>${key}`, value);
+      }
+
+      const { data, error } = await query
+        .order("timestamp", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      logger.error(`Error obteniendo logs de auditoría (${action}):`, error);
+      return [];
+    }
+  }
+
   /**
    * Limpiar sesiones expiradas
    */
@@ -1,8 +1,11 @@
 // src/services/colocacion/sync.service.ts
 import { Op } from "sequelize";
+import sequelize from "../config/database";
 import Product from "../models/Product";
 import { OdooConnectorService } from "./odoo-connector.service";
 import { CacheService } from "./cache.service";
+import { ProductBinService } from "./product-bin.service";
+import { StockMovementService } from "./stock-movement.service";
 import { redis } from "../config/redis";
 import { logger } from "../utils/logger";
 import { auditLogger } from "../utils/audit-logger";
@@ -204,9 +207,15 @@ export class SyncService {
 
       // Actualizar stock en Odoo
       if (changeType === "stock" || changeType === "both") {
+        // El motivo del último ajuste viaja al inventario de Odoo
+        const movement = await StockMovementService.getLatestChange(product.id);
         const stockResponse = await this.odooConnector.updateProductStock(
           product.odoo_product_id,
-          product.stock
+          product.stock,
+          undefined,
+          movement
+            ? [movement.reason_code, movement.reason].filter(Boolean).join(": ")
+            : undefined
         );
 
         if (!stockResponse.success) {
@@ -396,6 +405,12 @@ export class SyncService {
         odooValue = fieldMap.transform(odooValue);
       }
 
+      // El stock (DECIMAL) llega como texto desde la base de datos
+      if (fieldMap.field === "stock") {
+        localValue = Number(localValue);
+        odooValue = Number(odooValue || 0);
+      }
+
       // Comparar valores
       if (localValue !== odooValue) {
         conflicts.push({
@@ -492,8 +507,9 @@ export class SyncService {
         hasChanges = true;
       }
 
-      if (localProduct.stock !== odooProduct.qty_available) {
-        localProduct.stock = odooProduct.qty_available || 0;
+      const stockChanged =
+        Number(localProduct.stock) !== Number(odooProduct.qty_available || 0);
+      if (stockChanged) {
         hasChanges = true;
       }
 
@@ -503,9 +519,45 @@ export class SyncService {
         hasChanges = true;
       }
 
+      const odooTracking = ["lot", "serial"].includes(odooProduct.tracking)
+        ? odooProduct.tracking
+        : "none";
+      if (localProduct.tracking !== odooTracking) {
+        localProduct.tracking = odooTracking;
+        hasChanges = true;
+      }
+
       if (hasChanges) {
-        localProduct.last_odoo_sync = new Date();
-        await localProduct.save();
+        await sequelize.transaction(async (transaction) => {
+          // El total de Odoo se reparte entre las ubicaciones del producto
+          const stockBefore = stockChanged
+            ? await StockMovementService.snapshot(localProduct, transaction)
+            : null;
+          if (stockChanged) {
+            await ProductBinService.applyLegacyUpdate(
+              localProduct,
+              undefined,
+              Number(odooProduct.qty_available || 0),
+              transaction
+            );
+          }
+
+          localProduct.last_odoo_sync = new Date();
+          await localProduct.save({ transaction });
+
+          if (stockBefore) {
+            await StockMovementService.record(
+              localProduct,
+              stockBefore,
+              {
+                source: "sync",
+                reference: `odoo:${odooProduct.id}`,
+                userId: null,
+              },
+              transaction
+            );
+          }
+        });
 
         logger.debug(
           `Producto actualizado desde Odoo: ${localProduct.reference}`
@@ -0,0 +1,337 @@
+// src/services/unknown-barcode.service.ts
+import { Op } from "sequelize";
+import Product from "../models/Product";
+import ProductBarcode from "../models/ProductBarcode";
+import UnknownBarcode from "../models/UnknownBarcode";
+import { OdooConnectorService } from "./odoo-connector.service";
+import { SupabaseService } from "./supabase.service";
+import {
+  ProductBarcodeService,
+  PackagingType,
+} from "./product-barcode.service";
+import { CacheService } from "./cache.service";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+type UnknownBarcodeStatus = UnknownBarcode["status"];
+
+interface MissContext {
+  userId: string;
+  deviceId: string;
+  module: "colocacion" | "entrada" | "recogida";
+  location?: string | null;
+  context?: string;
+}
+
+interface TopMiss {
+  barcode: string;
+  misses: number;
+  users: number;
+  devices: number;
+  lastSeenAt: string;
+  queueId: string | null;
+  queueStatus: UnknownBarcodeStatus | null;
+}
+
+export class UnknownBarcodeService {
+  private odooConnector: OdooConnectorService;
+  private supabaseService: SupabaseService;
+
+  constructor() {
+    this.odooConnector = new OdooConnectorService();
+    this.supabaseService = new SupabaseService();
+  }
+
+  /**
+   * Registrar lectura de un código de barras sin producto asociado.
+   * No lanza errores para no interrumpir la búsqueda.
+   */
+  public async recordMiss(barcode: string, ctx: MissContext): Promise<void> {
+    try {
+      const location =
+        ctx.location && LocationValidator.validate(ctx.location)
+          ? ctx.location
+          : null;
+      const now = new Date();
+
+      const entry = await UnknownBarcode.findOne({ where: { barcode } });
+
+      if (entry) {
+        entry.scan_count += 1;
+        entry.last_scanned_at = now;
+        entry.last_scanned_by = ctx.userId;
+        entry.last_device_identifier = ctx.deviceId;
+        entry.last_module = ctx.module;
+        entry.last_location = location;
+        entry.last_context = ctx.context || null;
+        // Un código ya resuelto que vuelve a fallar se reabre
+        entry.status = "pending";
+        await entry.save();
+      } else {
+        await UnknownBarcode.create({
+          barcode,
+          first_scanned_at: now,
+          last_scanned_at: now,
+          last_scanned_by: ctx.userId,
+          last_device_identifier: ctx.deviceId,
+          last_module: ctx.module,
+          last_location: location,
+          last_context: ctx.context || null,
+        });
+      }
+
+      logger.debug(`Código desconocido registrado: ${barcode}`, {
+        module: ctx.module,
+        location,
+        userId: ctx.userId,
+      });
+    } catch (error) {
+      logger.error(`Error registrando código desconocido: ${barcode}`, error);
+    }
+  }
+
+  /**
+   * Cola de códigos desconocidos (más leídos primero)
+   */
+  public async getQueue(
+    status: UnknownBarcodeStatus = "pending",
+    limit: number = 50
+  ): Promise<UnknownBarcode[]> {
+    return UnknownBarcode.findAll({
+      where: { status },
+      order: [
+        ["scan_count", "DESC"],
+        ["last_scanned_at", "DESC"],
+      ],
+      limit,
+    });
+  }
+
+  /**
+   * Asociar un código desconocido a un producto existente como código alternativo
+   */
+  public async linkToProduct(
+    unknownId: string,
+    productId: string,
+    type: PackagingType,
+    unitsPerPackage: number | undefined,
+    notes: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ entry: UnknownBarcode; alias: ProductBarcode }> {
+    const entry = await this.requirePending(unknownId);
+
+    const alias = await ProductBarcodeService.addBarcode(
+      productId,
+      { barcode: entry.barcode, type, unitsPerPackage },
+      userId,
+      deviceId,
+      ipAddress
+    );
+
+    entry.status = "linked";
+    entry.resolved_product_id = productId;
+    entry.resolved_by = userId;
+    entry.resolved_at = new Date();
+    entry.resolution_notes = notes || null;
+    await entry.save();
+
+    await auditLogger.logUnknownBarcodeOperation(
+      userId,
+      deviceId,
+      {
+        barcode: entry.barcode,
+        action: "linked",
+        productId,
+        notes,
+      },
+      ipAddress
+    );
+
+    return { entry, alias };
+  }
+
+  /**
+   * Crear producto borrador en Odoo y local para un código desconocido
+   */
+  public async createDraftProduct(
+    unknownId: string,
+    data: { name: string; reference?: string },
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ entry: UnknownBarcode; product: Product }> {
+    const entry = await this.requirePending(unknownId);
+    const barcode = BarcodeValidator.validateAndClean(entry.barcode);
+
+    const existing = await Product.findOne({ where: { barcode } });
+    if (existing) {
+      throw new AppError(
+        `Ya existe un producto local con el código ${barcode}`,
+        409
+      );
+    }
+
+    const odooResponse = await this.odooConnector.createDraftProduct({
+      name: data.name,
+      reference: data.reference || null,
+      barcode,
+    });
+
+    if (!odooResponse.success || !odooResponse.data) {
+      throw new AppError(
+        `Error creando producto en Odoo: ${odooResponse.error}`,
+        502
+      );
+    }
+
+    const product = await Product.create({
+      barcode,
+      reference: data.reference || barcode,
+      description: data.name,
+      location: null,
+      stock: 0,
+      status: "active",
+      odoo_product_id: odooResponse.data,
+    });
+
+    await CacheService.invalidateProduct(barcode);
+
+    entry.status = "created";
+    entry.resolved_product_id = product.id;
+    entry.resolved_by = userId;
+    entry.resolved_at = new Date();
+    entry.resolution_notes = "Producto borrador creado en Odoo";
+    await entry.save();
+
+    await auditLogger.logUnknownBarcodeOperation(
+      userId,
+      deviceId,
+      {
+        barcode,
+        action: "product_created",
+        productId: product.id,
+        odooProductId: odooResponse.data,
+      },
+      ipAddress
+    );
+
+    return { entry, product };
+  }
+
+  /**
+   * Descartar un código desconocido (lectura errónea, etiqueta ajena...)
+   */
+  public async dismiss(
+    unknownId: string,
+    reason: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<UnknownBarcode> {
+    const entry = await this.requirePending(unknownId);
+
+    entry.status = "dismissed";
+    entry.resolved_by = userId;
+    entry.resolved_at = new Date();
+    entry.resolution_notes = reason;
+    await entry.save();
+
+    await auditLogger.logUnknownBarcodeOperation(
+      userId,
+      deviceId,
+      {
+        barcode: entry.barcode,
+        action: "dismissed",
+        notes: reason,
+      },
+      ipAddress
+    );
+
+    return entry;
+  }
+
+  /**
+   * Informe de códigos más buscados sin resultado (a partir de la auditoría)
+   */
+  public async getTopMisses(
+    days: number = 30,
+    limit: number = 20
+  ): Promise<TopMiss[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const logs = await this.supabaseService.getAuditLogsByAction(
+      "product_search",
+      since,
+      { found: "false" }
+    );
+
+    const misses = new Map<
+      string,
+      { count: number; users: Set<string>; devices: Set<string>; last: string }
+    >();
+
+    for (const log of logs) {
+      const barcode = log.metadata?.barcode;
+      if (!barcode) {
+        continue;
+      }
+
+      const miss = misses.get(barcode) || {
+        count: 0,
+        users: new Set<string>(),
+        devices: new Set<string>(),
+        last: log.timestamp,
+      };
+      miss.count++;
+      miss.users.add(log.user_id);
+      miss.devices.add(log.device_identifier);
+      if (log.timestamp > miss.last) {
+        miss.last = log.timestamp;
+      }
+      misses.set(barcode, miss);
+    }
+
+    const top = [...misses.entries()]
+      .sort((a, b) => b[1].count - a[1].count)
+      .slice(0, limit);
+
+    const queueEntries = await UnknownBarcode.findAll({
+      where: { barcode: { [Op.in]: top.map(([barcode]) => barcode) } },
+    });
+    const queueByBarcode = new Map(
+      queueEntries.map((entry) => [entry.barcode, entry])
+    );
+
+    return top.map(([barcode, miss]) => ({
+      barcode,
+      misses: miss.count,
+      users: miss.users.size,
+      devices: miss.devices.size,
+      lastSeenAt: miss.last,
+      queueId: queueByBarcode.get(barcode)?.id || null,
+      queueStatus: queueByBarcode.get(barcode)?.status || null,
+    }));
+  }
+
+  /**
+   * Obtener entrada pendiente de la cola o fallar
+   */
+  private async requirePending(unknownId: string): Promise<UnknownBarcode> {
+    const entry = await UnknownBarcode.findByPk(unknownId);
+    if (!entry) {
+      throw new AppError("Código desconocido no encontrado", 404);
+    }
+
+    if (!entry.isPending()) {
+      throw new AppError("El código ya fue resuelto", 409);
+    }
+
+    return entry;
+  }
+}
+
+export { UnknownBarcodeStatus, MissContext, TopMiss };
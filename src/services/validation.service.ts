@@ -2,8 +2,12 @@
 import { Op } from "sequelize";
 import Product from "../models/Product";
 import ProductLocation from "../models/ProductLocation";
+import { LocationService } from "./location.service";
+import { StockMovementService } from "./stock-movement.service";
+import StockMovement from "../models/StockMovement";
 import { BarcodeValidator } from "../utils/barcode.validator";
 import { LocationValidator } from "../utils/location.validator";
+import { config } from "../config/index";
 import { logger } from "../utils/logger";
 import { AppError } from "../middlewares/error.middleware";
 
@@ -152,6 +156,32 @@ export class ValidationService {
         return result;
       }
 
+      // La ubicación debe existir en el maestro y no estar bloqueada
+      const master = await LocationService.findByCode(newLocation);
+      if (!master) {
+        result.isValid = false;
+        result.errors.push(
+          `La ubicación ${newLocation} no está dada de alta en el maestro de ubicaciones`
+        );
+        return result;
+      }
+
+      if (master.is_blocked) {
+        result.isValid = false;
+        result.errors.push(
+          `La ubicación ${newLocation} está bloqueada: ${
+            master.blocked_reason || "sin motivo"
+          }`
+        );
+        return result;
+      }
+
+      if (master.type === "quarantine" || master.type === "dock") {
+        result.warnings.push(
+          `La ubicación ${newLocation} es de tipo ${master.type}, no de almacenaje`
+        );
+      }
+
       // Verificar historial de ubicaciones recientes
       const recentLocationChanges = await this.getRecentLocationChanges(
         context.productId,
@@ -345,21 +375,24 @@ export class ValidationService {
   }
 
   /**
-   * Obtener cambios recientes de stock (mock - necesitaríamos un modelo de historial de stock)
+   * Obtener cambios recientes de stock (últimas 24 horas, sin traslados)
    */
   private static async getRecentStockChanges(
     productId: string,
     limit: number = 3
-  ): Promise<any[]> {
-    // TODO: Implementar cuando tengamos un modelo de historial de stock
-    // Por ahora retornamos array vacío
-    return [];
+  ): Promise<StockMovement[]> {
+    try {
+      return await StockMovementService.getRecentChanges(productId, 24, limit);
+    } catch (error) {
+      logger.error("Error obteniendo cambios recientes de stock:", error);
+      return [];
+    }
   }
 
   /**
    * Obtener productos en una ubicación específica
    */
-  private static async getProductsInLocation(
+  public static async getProductsInLocation(
     location: string
   ): Promise<Product[]> {
     try {
@@ -397,45 +430,101 @@ export class ValidationService {
         result.isValid = false;
         result.errors.push("Formato de código de barras inválido");
 
-        // Sugerencias basadas en longitud
-        if (cleanedBarcode.length < 13) {
-          result.suggestions?.push(
-            `El código tiene ${cleanedBarcode.length} dígitos. Los códigos EAN13 requieren 13 dígitos.`
-          );
-        } else if (cleanedBarcode.length > 14) {
+        const internalPrefix = config.barcodes.internalPrefix;
+        const upperBarcode = cleanedBarcode.toUpperCase();
+
+        if (/^\d+$/.test(cleanedBarcode)) {
+          // Sugerencias basadas en longitud para códigos numéricos
+          if (cleanedBarcode.length === 7 || cleanedBarcode.length === 11) {
+            const type = cleanedBarcode.length === 7 ? "EAN8" : "UPC-A";
+            result.suggestions?.push(
+              `El código tiene ${
+                cleanedBarcode.length
+              } dígitos. Si falta el dígito de control del ${type}, el código completo sería: ${cleanedBarcode}${BarcodeValidator.calculateGS1CheckDigit(
+                cleanedBarcode
+              )}`
+            );
+          } else if (cleanedBarcode.length < BarcodeValidator.MIN_LENGTH) {
+            result.suggestions?.push(
+              `El código tiene ${cleanedBarcode.length} dígitos. El código numérico más corto admitido es EAN8 (8 dígitos).`
+            );
+          } else if (cleanedBarcode.length < 13) {
+            result.suggestions?.push(
+              `El código tiene ${cleanedBarcode.length} dígitos. Los códigos admitidos tienen 8 (EAN8), 12 (UPC-A), 13 (EAN13) o 14 (DUN14) dígitos.`
+            );
+          } else {
+            result.suggestions?.push(
+              "El código es demasiado largo. Verifique que no tenga caracteres adicionales o que no sea un código GS1-128."
+            );
+          }
+        } else if (upperBarcode.startsWith(internalPrefix)) {
+          // Referencia interna Code128 mal formada
+          if (
+            upperBarcode !== cleanedBarcode &&
+            BarcodeValidator.validate(upperBarcode)
+          ) {
+            result.suggestions?.push(
+              `Las referencias internas van en mayúsculas: ${upperBarcode}`
+            );
+          } else if (
+            cleanedBarcode.length > BarcodeValidator.CODE128_MAX_LENGTH
+          ) {
+            result.suggestions?.push(
+              `Las referencias internas Code128 admiten como máximo ${BarcodeValidator.CODE128_MAX_LENGTH} caracteres.`
+            );
+          } else {
+            result.suggestions?.push(
+              `Las referencias internas Code128 deben ser ${internalPrefix} seguido de letras mayúsculas, dígitos o guiones.`
+            );
+          }
+        } else {
           result.suggestions?.push(
-            "El código es demasiado largo. Verifique que no tenga caracteres adicionales."
-          );
-        }
-
-        // Verificar si contiene caracteres no numéricos
-        if (!/^\d+$/.test(cleanedBarcode)) {
-          result.suggestions?.push(
-            "El código de barras debe contener solo números."
+            `El código de barras debe contener solo números o ser una referencia interna que empiece por ${internalPrefix}.`
           );
         }
 
         return result;
       }
 
-      // Validar dígito de verificación para EAN13
+      // Validar dígito de control según el tipo de código
       const barcodeType = BarcodeValidator.detectType(cleanedBarcode);
-      if (barcodeType === "EAN13") {
-        if (!BarcodeValidator.validateEAN13CheckDigit(cleanedBarcode)) {
-          result.warnings.push(
-            "El dígito de verificación del EAN13 no es correcto"
-          );
+      const typeLabels: Record<string, string> = {
+        EAN8: "EAN8",
+        UPCA: "UPC-A",
+        EAN13: "EAN13",
+        DUN14: "DUN14",
+      };
+
+      if (
+        typeLabels[barcodeType] &&
+        !BarcodeValidator.validateCheckDigit(cleanedBarcode)
+      ) {
+        result.warnings.push(
+          `El dígito de verificación del ${typeLabels[barcodeType]} no es correcto`
+        );
 
-          const correctCheckDigit = BarcodeValidator.calculateEAN13CheckDigit(
-            cleanedBarcode.substring(0, 12)
-          );
-          result.suggestions?.push(
-            `El dígito de verificación correcto sería: ${cleanedBarcode.substring(
-              0,
-              12
-            )}${correctCheckDigit}`
-          );
-        }
+        const base = cleanedBarcode.slice(0, -1);
+        result.suggestions?.push(
+          `El dígito de verificación correcto sería: ${base}${BarcodeValidator.calculateGS1CheckDigit(
+            base
+          )}`
+        );
+      }
+
+      if (barcodeType === "UPCA") {
+        result.suggestions?.push(
+          `Los códigos UPC-A se guardan como EAN13: ${BarcodeValidator.normalize(
+            cleanedBarcode
+          )}`
+        );
+      }
+
+      if (barcodeType === "DUN14" && cleanedBarcode.startsWith("0")) {
+        result.suggestions?.push(
+          `El DUN14 con indicador 0 corresponde a la unidad EAN13: ${cleanedBarcode.substring(
+            1
+          )}`
+        );
       }
     } catch (error) {
       result.isValid = false;
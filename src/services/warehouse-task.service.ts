@@ -0,0 +1,603 @@
+// src/services/warehouse-task.service.ts
+import { Op, fn, col } from "sequelize";
+import WarehouseTask, {
+  WarehouseTaskType,
+  WarehouseTaskPriority,
+  WarehouseTaskStatus,
+} from "../models/WarehouseTask";
+import { config } from "../config/index";
+import { LocationService } from "./location.service";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface WarehouseTaskData {
+  type: WarehouseTaskType;
+  priority?: WarehouseTaskPriority;
+  location?: string | null;
+  zone?: string | null;
+  referenceId?: string | null;
+  description: string;
+  payload?: Record<string, any> | null;
+}
+
+interface WarehouseTaskFilters {
+  statuses?: WarehouseTaskStatus[];
+  zone?: string;
+  type?: WarehouseTaskType;
+  limit?: number;
+}
+
+interface ZoneSummary {
+  zone: string | null;
+  pending: number;
+  assigned: number;
+  claimed: number;
+  total: number;
+}
+
+export class WarehouseTaskService {
+  // Tareas con flujo propio de confirmación (escaneo en su módulo)
+  private static readonly LINKED_TYPES: WarehouseTaskType[] = [
+    "replenishment",
+    "cycle_count",
+  ];
+  private static readonly OPEN_STATUSES: WarehouseTaskStatus[] = [
+    "pending",
+    "assigned",
+    "claimed",
+  ];
+
+  /**
+   * Crear tarea en la cola
+   */
+  public static async createTask(
+    data: WarehouseTaskData,
+    userId: string,
+    deviceId: string = "system",
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const location =
+      data.location && LocationValidator.validate(data.location)
+        ? data.location
+        : null;
+
+    const task = await WarehouseTask.create({
+      type: data.type,
+      priority: data.priority || "normal",
+      location,
+      zone: data.zone || (await this.zoneFor(location)),
+      reference_id: data.referenceId || null,
+      description: data.description,
+      payload: data.payload || null,
+      created_by: userId,
+    });
+
+    await auditLogger.logWarehouseTaskOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "created",
+        location: task.location,
+        context: { priority: task.priority, referenceId: task.reference_id },
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Tareas disponibles para un operario: pendientes o asignadas a él
+   */
+  public static async getAvailableTasks(
+    userId: string,
+    filters: WarehouseTaskFilters = {}
+  ): Promise<WarehouseTask[]> {
+    return WarehouseTask.findAll({
+      where: {
+        ...this.buildFilters(filters),
+        [Op.or]: [
+          { status: "pending" },
+          {
+            status: { [Op.in]: ["assigned", "claimed"] },
+            assigned_to: userId,
+          },
+        ],
+      },
+      order: [
+        ["priority", "DESC"],
+        ["created_at", "ASC"],
+      ],
+      limit: filters.limit || 50,
+    });
+  }
+
+  /**
+   * Cola completa para supervisores
+   */
+  public static async getQueue(
+    filters: WarehouseTaskFilters = {}
+  ): Promise<WarehouseTask[]> {
+    return WarehouseTask.findAll({
+      where: {
+        ...this.buildFilters(filters),
+        status: { [Op.in]: filters.statuses || this.OPEN_STATUSES },
+      },
+      order: [
+        ["priority", "DESC"],
+        ["created_at", "ASC"],
+      ],
+      limit: filters.limit || 100,
+    });
+  }
+
+  /**
+   * Resumen de tareas abiertas por zona
+   */
+  public static async getZoneSummary(): Promise<ZoneSummary[]> {
+    const rows = (await WarehouseTask.findAll({
+      attributes: ["zone", "status", [fn("COUNT", col("id")), "count"]],
+      where: { status: { [Op.in]: this.OPEN_STATUSES } },
+      group: ["zone", "status"],
+      raw: true,
+    })) as unknown as Array<{
+      zone: string | null;
+      status: WarehouseTaskStatus;
+      count: string;
+    }>;
+
+    const zones = new Map<string | null, ZoneSummary>();
+    for (const row of rows) {
+      const summary = zones.get(row.zone) || {
+        zone: row.zone,
+        pending: 0,
+        assigned: 0,
+        claimed: 0,
+        total: 0,
+      };
+      const count = parseInt(row.count);
+      if (
+        row.status === "pending" ||
+        row.status === "assigned" ||
+        row.status === "claimed"
+      ) {
+        summary[row.status] += count;
+      }
+      summary.total += count;
+      zones.set(row.zone, summary);
+    }
+
+    return [...zones.values()].sort((a, b) =>
+      (a.zone || "~").localeCompare(b.zone || "~")
+    );
+  }
+
+  /**
+   * Reclamar tarea desde la PDA
+   */
+  public static async claimTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireTask(taskId);
+
+    if (task.status === "claimed" && !this.isClaimExpired(task)) {
+      if (task.assigned_to === userId && task.assigned_device === deviceId) {
+        return task;
+      }
+      throw new AppError(
+        task.assigned_to === userId
+          ? "La tarea está reclamada desde otro dispositivo"
+          : "La tarea ya está reclamada por otro operario",
+        409
+      );
+    }
+
+    if (task.status === "assigned" && task.assigned_to !== userId) {
+      throw new AppError("La tarea está asignada a otro operario", 409);
+    }
+
+    if (
+      task.status !== "pending" &&
+      task.status !== "assigned" &&
+      task.status !== "claimed"
+    ) {
+      throw new AppError("La tarea ya no está disponible", 409);
+    }
+
+    // Reclamación condicional: si otro operario se adelanta no se pisa
+    const now = new Date();
+    const [claimed] = await WarehouseTask.update(
+      {
+        status: "claimed",
+        assigned_to: userId,
+        assigned_device: deviceId,
+        claimed_at: now,
+        claim_expires_at: this.claimExpiry(),
+      },
+      {
+        where: {
+          id: task.id,
+          [Op.or]: [
+            { status: "pending" },
+            { status: "assigned", assigned_to: userId },
+            { status: "claimed", claim_expires_at: { [Op.lt]: now } },
+          ],
+        },
+      }
+    );
+    if (claimed === 0) {
+      throw new AppError("La tarea ya está reclamada por otro operario", 409);
+    }
+    await task.reload();
+
+    await auditLogger.logWarehouseTaskOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "claimed",
+        location: task.location,
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Devolver a la cola una tarea reclamada
+   */
+  public static async releaseTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireClaim(taskId, userId, deviceId);
+
+    this.unclaim(task);
+    await task.save();
+
+    await auditLogger.logWarehouseTaskOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "released",
+        location: task.location,
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Completar una tarea genérica reclamada
+   */
+  public static async completeTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    result?: Record<string, any>,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireClaim(taskId, userId, deviceId);
+    this.assertGeneric(task, "se confirman");
+
+    return this.finish(task, userId, deviceId, result, ipAddress);
+  }
+
+  /**
+   * Completar una tarea con flujo propio, llamado desde su módulo
+   * tras confirmar la operación
+   */
+  public static async completeLinkedTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    result?: Record<string, any>,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireClaim(taskId, userId, deviceId);
+    return this.finish(task, userId, deviceId, result, ipAddress);
+  }
+
+  /**
+   * Reasignar tarea abierta a otro operario (o devolverla a la cola)
+   */
+  public static async reassignTask(
+    taskId: string,
+    operatorId: string | null,
+    supervisorId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireTask(taskId);
+    if (!task.isOpen()) {
+      throw new AppError("La tarea ya está cerrada", 409);
+    }
+
+    const previous = task.assigned_to;
+
+    task.status = operatorId ? "assigned" : "pending";
+    task.assigned_to = operatorId;
+    task.assigned_by = operatorId ? supervisorId : null;
+    task.assigned_device = null;
+    task.claimed_at = null;
+    task.claim_expires_at = null;
+    await task.save();
+
+    await auditLogger.logWarehouseTaskOperation(
+      supervisorId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "reassigned",
+        location: task.location,
+        assignedTo: operatorId,
+        context: { previous },
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Cancelar tarea genérica abierta (supervisor)
+   */
+  public static async cancelTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    reason?: string,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireTask(taskId);
+    this.assertGeneric(task, "se cancelan");
+
+    return this.cancel(task, userId, deviceId, reason, ipAddress);
+  }
+
+  /**
+   * Cancelar una tarea con flujo propio, llamado desde su módulo
+   */
+  public static async cancelLinkedTask(
+    taskId: string,
+    userId: string,
+    deviceId: string,
+    reason?: string,
+    ipAddress?: string
+  ): Promise<WarehouseTask | null> {
+    const task = await WarehouseTask.findByPk(taskId);
+    if (!task || !task.isOpen()) {
+      return null;
+    }
+    return this.cancel(task, userId, deviceId, reason, ipAddress);
+  }
+
+  /**
+   * Obtener tarea reclamada por el operario desde su dispositivo o fallar
+   */
+  public static async requireClaim(
+    taskId: string,
+    userId: string,
+    deviceId: string
+  ): Promise<WarehouseTask> {
+    const task = await this.requireTask(taskId);
+
+    if (task.status !== "claimed" || task.assigned_to !== userId) {
+      throw new AppError("La tarea no está reclamada por este operario", 409);
+    }
+
+    if (task.assigned_device !== deviceId) {
+      throw new AppError("La tarea está reclamada desde otro dispositivo", 409);
+    }
+
+    if (this.isClaimExpired(task)) {
+      throw new AppError(
+        "La reclamación de la tarea ha caducado. Reclámala de nuevo",
+        409
+      );
+    }
+
+    return task;
+  }
+
+  /**
+   * Reclamación caducada aunque el proceso periódico aún no la haya liberado
+   */
+  private static isClaimExpired(task: WarehouseTask): boolean {
+    return (
+      task.claim_expires_at !== null &&
+      new Date(task.claim_expires_at).getTime() < Date.now()
+    );
+  }
+
+  /**
+   * Devolver a la cola las tareas reclamadas y abandonadas
+   */
+  public static async expireAbandonedClaims(): Promise<number> {
+    const expired = await WarehouseTask.findAll({
+      where: {
+        status: "claimed",
+        claim_expires_at: { [Op.lt]: new Date() },
+      },
+    });
+
+    for (const task of expired) {
+      const operator = task.assigned_to;
+      this.unclaim(task);
+      await task.save();
+
+      await auditLogger.logWarehouseTaskOperation(
+        operator || task.created_by,
+        "system",
+        {
+          taskId: task.id,
+          taskType: task.type,
+          action: "expired",
+          location: task.location,
+          assignedTo: task.assigned_to,
+        }
+      );
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Tareas reclamadas caducadas: ${expired.length}`);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Zona de una ubicación según el maestro de ubicaciones
+   */
+  public static async zoneFor(
+    location: string | null | undefined
+  ): Promise<string | null> {
+    if (!location) {
+      return null;
+    }
+    return (await LocationService.zonesFor([location])).get(location) || null;
+  }
+
+  /**
+   * Cerrar tarea como completada
+   */
+  private static async finish(
+    task: WarehouseTask,
+    userId: string,
+    deviceId: string,
+    result: Record<string, any> | undefined,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    task.status = "completed";
+    task.completed_by = userId;
+    task.completed_at = new Date();
+    task.claim_expires_at = null;
+    task.result = result || null;
+    await task.save();
+
+    await auditLogger.logWarehouseTaskOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "completed",
+        location: task.location,
+        context: result,
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Cerrar tarea como cancelada
+   */
+  private static async cancel(
+    task: WarehouseTask,
+    userId: string,
+    deviceId: string,
+    reason: string | undefined,
+    ipAddress?: string
+  ): Promise<WarehouseTask> {
+    if (!task.isOpen()) {
+      throw new AppError("La tarea ya está cerrada", 409);
+    }
+
+    task.status = "cancelled";
+    task.completed_by = userId;
+    task.completed_at = new Date();
+    task.claim_expires_at = null;
+    task.result = reason ? { reason } : null;
+    await task.save();
+
+    await auditLogger.logWarehouseTaskOperation(
+      userId,
+      deviceId,
+      {
+        taskId: task.id,
+        taskType: task.type,
+        action: "cancelled",
+        location: task.location,
+        context: { reason },
+      },
+      ipAddress
+    );
+
+    return task;
+  }
+
+  /**
+   * Quitar la reclamación: vuelve al operario asignado por el supervisor
+   * o a la cola general
+   */
+  private static unclaim(task: WarehouseTask): void {
+    task.status = task.assigned_by ? "assigned" : "pending";
+    task.assigned_to = task.assigned_by ? task.assigned_to : null;
+    task.assigned_device = null;
+    task.claimed_at = null;
+    task.claim_expires_at = null;
+  }
+
+  /**
+   * Las tareas con flujo propio solo se cierran desde su módulo
+   */
+  private static assertGeneric(task: WarehouseTask, verb: string): void {
+    if (this.LINKED_TYPES.includes(task.type)) {
+      throw new AppError(
+        `Las tareas de tipo ${task.type} ${verb} desde su propio módulo`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Filtros comunes de zona y tipo
+   */
+  private static buildFilters(filters: WarehouseTaskFilters): any {
+    const where: any = {};
+    if (filters.zone) {
+      where.zone = filters.zone;
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+    return where;
+  }
+
+  /**
+   * Fecha de caducidad de una reclamación
+   */
+  private static claimExpiry(): Date {
+    return new Date(Date.now() + config.tasks.claimTimeoutMinutes * 60 * 1000);
+  }
+
+  /**
+   * Obtener tarea o fallar
+   */
+  private static async requireTask(taskId: string): Promise<WarehouseTask> {
+    const task = await WarehouseTask.findByPk(taskId);
+    if (!task) {
+      throw new AppError("Tarea no encontrada", 404);
+    }
+    return task;
+  }
+}
+
+export { WarehouseTaskData, WarehouseTaskFilters, ZoneSummary };
@@ -0,0 +1,663 @@
+// src/services/wave.service.ts
+import { PickingService, PickingSummary } from "./picking.service";
+import { PickPathService } from "./pick-path.service";
+import { LotService, LotQuantity, TrackingType } from "./lot.service";
+import { ProductBarcodeService } from "./product-barcode.service";
+import { UnknownBarcodeService } from "./unknown-barcode.service";
+import { redis } from "../config/redis";
+import { SessionLock } from "../utils/session-lock";
+import { config } from "../config/index";
+import { BarcodeValidator } from "../utils/barcode.validator";
+import { LocationValidator } from "../utils/location.validator";
+import { auditLogger } from "../utils/audit-logger";
+import { logger } from "../utils/logger";
+import { AppError } from "../middlewares/error.middleware";
+
+interface WaveOrder {
+  pickingId: number;
+  pickingName: string;
+  partnerName: string | null;
+  slot: number; // posición de la caja en el carro
+  status: "pending" | "validated" | "released" | "failed";
+  error: string | null;
+}
+
+interface WaveAllocation {
+  pickingId: number;
+  moveId: number;
+  slot: number;
+  expectedQty: number;
+  pickedQty: number;
+  lots: LotQuantity[];
+}
+
+interface WaveInstruction {
+  id: number;
+  location: string | null;
+  odooProductId: number;
+  productName: string;
+  reference: string | null;
+  barcode: string | null;
+  tracking: TrackingType;
+  totalQty: number;
+  pickedQty: number;
+  allocations: WaveAllocation[];
+  shortage: {
+    type: "short" | "backorder";
+    reason: string | null;
+    reportedBy: string;
+    reportedAt: number;
+  } | null;
+}
+
+interface Wave {
+  waveId: string;
+  status: "picking" | "partially_confirmed";
+  operatorId: string;
+  deviceId: string;
+  createdAt: number;
+  orders: WaveOrder[];
+  instructions: WaveInstruction[];
+}
+
+interface PutInstruction {
+  slot: number;
+  pickingName: string;
+  quantity: number;
+}
+
+interface WaveConfirmResult {
+  waveId: string;
+  completed: boolean;
+  orders: Array<{
+    pickingId: number;
+    pickingName: string;
+    status: WaveOrder["status"];
+    error: string | null;
+    summary: PickingSummary | null;
+  }>;
+}
+
+export class WaveService {
+  private pickingService: PickingService;
+  private unknownBarcodeService: UnknownBarcodeService;
+  private static readonly WAVE_PREFIX = "recogida:wave:";
+  private static readonly WAVE_TTL = 43200; // 12 horas
+  private static readonly QTY_TOLERANCE = 0.0005;
+
+  constructor() {
+    this.pickingService = new PickingService();
+    this.unknownBarcodeService = new UnknownBarcodeService();
+  }
+
+  /**
+   * Crear oleada agrupando varios pedidos de salida
+   */
+  public async createWave(
+    pickingIds: number[],
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<Wave> {
+    const ids = [...new Set(pickingIds)];
+    if (ids.length < 2 || ids.length > config.picking.maxWaveOrders) {
+      throw new AppError(
+        `Una oleada debe agrupar entre 2 y ${config.picking.maxWaveOrders} pedidos`,
+        400
+      );
+    }
+
+    const waveId = `wave_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+
+    const orders: WaveOrder[] = [];
+    const instructions = new Map<string, WaveInstruction>();
+
+    try {
+      for (const pickingId of ids) {
+        const session = await this.pickingService.reserveForWave(
+          pickingId,
+          waveId,
+          userId,
+          deviceId
+        );
+        const slot = orders.length + 1;
+
+        orders.push({
+          pickingId: session.pickingId,
+          pickingName: session.pickingName,
+          partnerName: session.partnerName,
+          slot,
+          status: "pending",
+          error: null,
+        });
+
+        // Las líneas del mismo producto en la misma ubicación se recogen juntas
+        for (const line of session.lines) {
+          const key = `${line.location || "-"}:${line.odooProductId}`;
+          const instruction = instructions.get(key) || {
+            id: 0,
+            location: line.location,
+            odooProductId: line.odooProductId,
+            productName: line.productName,
+            reference: line.reference,
+            barcode: line.barcode,
+            tracking: line.tracking,
+            totalQty: 0,
+            pickedQty: 0,
+            allocations: [],
+            shortage: null,
+          };
+
+          instruction.totalQty += line.expectedQty;
+          instruction.allocations.push({
+            pickingId: session.pickingId,
+            moveId: line.moveId,
+            slot,
+            expectedQty: line.expectedQty,
+            pickedQty: 0,
+            lots: [],
+          });
+          instructions.set(key, instruction);
+        }
+      }
+    } catch (error) {
+      for (const order of orders) {
+        await this.pickingService.releaseFromWave(order.pickingId, waveId);
+      }
+      throw error;
+    }
+
+    const wave: Wave = {
+      waveId,
+      status: "picking",
+      operatorId: userId,
+      deviceId,
+      createdAt: Date.now(),
+      orders,
+      instructions: PickPathService.sortByRoute([...instructions.values()]).map(
+        (instruction, index) => ({ ...instruction, id: index + 1 })
+      ),
+    };
+
+    await this.saveWave(wave);
+
+    await auditLogger.logRecogidaOperation(
+      userId,
+      deviceId,
+      {
+        waveId,
+        action: "wave_created",
+        context: {
+          pickings: orders.map((order) => order.pickingName),
+          instructions: wave.instructions.length,
+        },
+      },
+      ipAddress
+    );
+
+    logger.info(`Oleada creada: ${waveId}`, {
+      pickings: orders.length,
+      instructions: wave.instructions.length,
+      userId,
+      deviceId,
+    });
+
+    return wave;
+  }
+
+  /**
+   * Obtener oleada
+   */
+  public async getWave(waveId: string): Promise<Wave> {
+    const waveStr = await redis.get(WaveService.WAVE_PREFIX + waveId);
+    if (!waveStr) {
+      throw new AppError("Oleada no encontrada", 404);
+    }
+    return JSON.parse(waveStr);
+  }
+
+  /**
+   * Registrar recogida de una instrucción e indicar en qué cajas depositarla
+   */
+  public async scanWave(
+    waveId: string,
+    location: string,
+    barcode: string,
+    requestedQty: number | undefined,
+    lotNumber: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{
+    wave: Wave;
+    instruction: WaveInstruction;
+    putTo: PutInstruction[];
+  }> {
+    return SessionLock.run(WaveService.WAVE_PREFIX + waveId, async () => {
+      const wave = await this.requireOperatorWave(waveId, userId);
+      const scannedLocation = LocationValidator.validateAndClean(location);
+      const cleanBarcode = BarcodeValidator.validateAndClean(barcode);
+      const resolved = await ProductBarcodeService.resolve(cleanBarcode);
+
+      const productInstructions = wave.instructions.filter(
+        (i) =>
+          i.barcode === cleanBarcode ||
+          (resolved && i.odooProductId === resolved.product.odoo_product_id)
+      );
+      if (productInstructions.length === 0) {
+        if (!resolved) {
+          await this.unknownBarcodeService.recordMiss(cleanBarcode, {
+            userId,
+            deviceId,
+            module: "recogida",
+            location: scannedLocation,
+            context: waveId,
+          });
+        }
+
+        throw new AppError(
+          `El código ${cleanBarcode} no corresponde a ningún producto de la oleada`,
+          404
+        );
+      }
+
+      const open = productInstructions.filter(
+        (i) => !i.shortage && i.pickedQty < i.totalQty
+      );
+      if (open.length === 0) {
+        throw new AppError(
+          `${productInstructions[0].productName} ya está completo en la oleada`,
+          400
+        );
+      }
+
+      const instruction = open.find(
+        (i) => !i.location || i.location === scannedLocation
+      );
+      if (!instruction) {
+        throw new AppError(
+          `Ubicación incorrecta para ${open[0].productName}: se esperaba ${open[0].location}`,
+          400
+        );
+      }
+
+      const quantity = requestedQty ?? resolved?.packaging.unitsPerPackage ?? 1;
+      if (quantity <= 0) {
+        throw new AppError("La cantidad recogida debe ser mayor que cero", 400);
+      }
+
+      if (
+        instruction.pickedQty + quantity >
+        instruction.totalQty + WaveService.QTY_TOLERANCE
+      ) {
+        throw new AppError(
+          `No se pueden recoger más unidades de las pedidas de ${instruction.productName} (${instruction.pickedQty}/${instruction.totalQty})`,
+          400
+        );
+      }
+
+      let lot: LotQuantity | null = null;
+      if (LotService.requiresTracking(instruction.tracking) || lotNumber) {
+        [lot] = LotService.validateLots(
+          instruction.tracking,
+          lotNumber ? [{ lotNumber, quantity }] : undefined,
+          instruction.productName
+        );
+
+        const alreadyPicked = instruction.allocations.some((a) =>
+          a.lots.some((l) => l.lotNumber === lot!.lotNumber)
+        );
+        if (instruction.tracking === "serial" && alreadyPicked) {
+          throw new AppError(
+            `El número de serie ${lot.lotNumber} ya se ha recogido en esta oleada`,
+            409
+          );
+        }
+      }
+
+      // Repartir las unidades entre los pedidos por orden de caja
+      const putTo: PutInstruction[] = [];
+      let remaining = quantity;
+      for (const allocation of instruction.allocations) {
+        const taken = Math.min(
+          allocation.expectedQty - allocation.pickedQty,
+          remaining
+        );
+        if (taken <= 0) {
+          continue;
+        }
+
+        allocation.pickedQty += taken;
+        if (lot) {
+          const existing = allocation.lots.find(
+            (l) => l.lotNumber === lot!.lotNumber
+          );
+          if (existing) {
+            existing.quantity += taken;
+          } else {
+            allocation.lots.push({ ...lot, quantity: taken });
+          }
+        }
+
+        putTo.push({
+          slot: allocation.slot,
+          pickingName: wave.orders.find(
+            (order) => order.pickingId === allocation.pickingId
+          )!.pickingName,
+          quantity: taken,
+        });
+
+        remaining -= taken;
+        if (remaining <= WaveService.QTY_TOLERANCE) {
+          break;
+        }
+      }
+
+      instruction.pickedQty += quantity;
+      await this.saveWave(wave);
+
+      await auditLogger.logRecogidaOperation(
+        userId,
+        deviceId,
+        {
+          waveId,
+          action: "wave_line_picked",
+          barcode: cleanBarcode,
+          location: scannedLocation,
+          odooProductId: instruction.odooProductId,
+          quantity,
+          context: { putTo, lotNumber: lot?.lotNumber },
+        },
+        ipAddress
+      );
+
+      return { wave, instruction, putTo };
+    });
+  }
+
+  /**
+   * Declarar falta en una instrucción (falta definitiva o pendiente)
+   */
+  public async reportShortage(
+    waveId: string,
+    instructionId: number,
+    type: "short" | "backorder",
+    reason: string | undefined,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<{ wave: Wave; instruction: WaveInstruction }> {
+    return SessionLock.run(WaveService.WAVE_PREFIX + waveId, async () => {
+      const wave = await this.requireOperatorWave(waveId, userId);
+      const instruction = wave.instructions.find((i) => i.id === instructionId);
+      if (!instruction) {
+        throw new AppError("Instrucción no encontrada en la oleada", 404);
+      }
+
+      if (instruction.shortage) {
+        throw new AppError("La instrucción ya tiene una falta registrada", 409);
+      }
+
+      const missing = instruction.totalQty - instruction.pickedQty;
+      if (missing <= WaveService.QTY_TOLERANCE) {
+        throw new AppError("La instrucción ya está completa", 400);
+      }
+
+      instruction.shortage = {
+        type,
+        reason: reason || null,
+        reportedBy: userId,
+        reportedAt: Date.now(),
+      };
+      await this.saveWave(wave);
+
+      await auditLogger.logRecogidaOperation(
+        userId,
+        deviceId,
+        {
+          waveId,
+          action: "wave_shortage_reported",
+          location: instruction.location,
+          odooProductId: instruction.odooProductId,
+          quantity: missing,
+          context: { type, reason },
+        },
+        ipAddress
+      );
+
+      return { wave, instruction };
+    });
+  }
+
+  /**
+   * Confirmar la oleada: repartir lo recogido y validar cada pedido en Odoo
+   */
+  public async confirmWave(
+    waveId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<WaveConfirmResult> {
+    return SessionLock.run(WaveService.WAVE_PREFIX + waveId, async () => {
+      const wave = await this.requireOperatorWave(waveId, userId);
+
+      const pending = wave.instructions.filter(
+        (i) =>
+          !i.shortage && i.totalQty - i.pickedQty > WaveService.QTY_TOLERANCE
+      );
+      if (pending.length > 0) {
+        throw new AppError(
+          `Quedan instrucciones sin recoger ni justificar: ${pending
+            .map((i) => `${i.productName} (${i.location || "sin ubicación"})`)
+            .join(", ")}`,
+          400
+        );
+      }
+
+      const results: WaveConfirmResult["orders"] = [];
+
+      for (const order of wave.orders) {
+        if (order.status === "validated" || order.status === "released") {
+          continue;
+        }
+
+        const allocations = wave.instructions.flatMap((instruction) =>
+          instruction.allocations
+            .filter((a) => a.pickingId === order.pickingId)
+            .map((allocation) => ({ instruction, allocation }))
+        );
+
+        // Pedidos sin ninguna unidad recogida vuelven a quedar libres
+        if (allocations.every(({ allocation }) => allocation.pickedQty <= 0)) {
+          await this.pickingService.releaseFromWave(order.pickingId, waveId);
+          order.status = "released";
+          order.error = null;
+          results.push({ ...this.orderResult(order), summary: null });
+          continue;
+        }
+
+        try {
+          await this.pickingService.applyWavePicks(
+            order.pickingId,
+            waveId,
+            allocations.map(({ instruction, allocation }) => ({
+              moveId: allocation.moveId,
+              quantity: allocation.pickedQty,
+              lots: allocation.lots,
+              shortage: instruction.shortage
+                ? {
+                    type: instruction.shortage.type,
+                    reason: instruction.shortage.reason,
+                  }
+                : null,
+            })),
+            userId
+          );
+
+          const summary = await this.pickingService.validatePicking(
+            order.pickingId,
+            userId,
+            deviceId,
+            ipAddress
+          );
+
+          order.status = "validated";
+          order.error = null;
+          results.push({ ...this.orderResult(order), summary });
+        } catch (error) {
+          order.status = "failed";
+          order.error =
+            error instanceof Error ? error.message : "Error desconocido";
+          results.push({ ...this.orderResult(order), summary: null });
+
+          logger.error(
+            `Error validando pedido ${order.pickingName} de la oleada ${waveId}:`,
+            error
+          );
+        }
+      }
+
+      const completed = wave.orders.every(
+        (order) => order.status === "validated" || order.status === "released"
+      );
+
+      if (completed) {
+        await redis.del(WaveService.WAVE_PREFIX + waveId);
+      } else {
+        wave.status = "partially_confirmed";
+        await this.saveWave(wave);
+      }
+
+      await auditLogger.logRecogidaOperation(
+        userId,
+        deviceId,
+        {
+          waveId,
+          action: "wave_confirmed",
+          context: {
+            completed,
+            orders: results.map((r) => ({
+              pickingName: r.pickingName,
+              status: r.status,
+            })),
+          },
+        },
+        ipAddress
+      );
+
+      return { waveId, completed, orders: results };
+    });
+  }
+
+  /**
+   * Cancelar una oleada sin recogidas y liberar sus pedidos
+   */
+  public async cancelWave(
+    waveId: string,
+    userId: string,
+    deviceId: string,
+    ipAddress?: string
+  ): Promise<void> {
+    return SessionLock.run(WaveService.WAVE_PREFIX + waveId, async () => {
+      const wave = await this.requireOperatorWave(waveId, userId);
+
+      if (
+        wave.status !== "picking" ||
+        wave.instructions.some((i) => i.pickedQty > 0)
+      ) {
+        throw new AppError(
+          "No se puede cancelar una oleada con recogidas registradas",
+          409
+        );
+      }
+
+      for (const order of wave.orders) {
+        await this.pickingService.releaseFromWave(order.pickingId, waveId);
+      }
+
+      await redis.del(WaveService.WAVE_PREFIX + waveId);
+
+      await auditLogger.logRecogidaOperation(
+        userId,
+        deviceId,
+        {
+          waveId,
+          action: "wave_cancelled",
+          context: { pickings: wave.orders.map((order) => order.pickingName) },
+        },
+        ipAddress
+      );
+    });
+  }
+
+  /**
+   * Resumen de progreso de una oleada
+   */
+  public static summarize(wave: Wave): {
+    orders: number;
+    instructions: number;
+    completedInstructions: number;
+    shortageInstructions: number;
+    totalQty: number;
+    pickedQty: number;
+  } {
+    return {
+      orders: wave.orders.length,
+      instructions: wave.instructions.length,
+      completedInstructions: wave.instructions.filter(
+        (i) => i.pickedQty >= i.totalQty
+      ).length,
+      shortageInstructions: wave.instructions.filter((i) => i.shortage).length,
+      totalQty: wave.instructions.reduce((sum, i) => sum + i.totalQty, 0),
+      pickedQty: wave.instructions.reduce((sum, i) => sum + i.pickedQty, 0),
+    };
+  }
+
+  /**
+   * Datos básicos de un pedido para el resultado de confirmación
+   */
+  private orderResult(order: WaveOrder) {
+    return {
+      pickingId: order.pickingId,
+      pickingName: order.pickingName,
+      status: order.status,
+      error: order.error,
+    };
+  }
+
+  /**
+   * Obtener oleada del operario que la recoge o fallar
+   */
+  private async requireOperatorWave(
+    waveId: string,
+    userId: string
+  ): Promise<Wave> {
+    const wave = await this.getWave(waveId);
+    if (wave.operatorId !== userId) {
+      throw new AppError("La oleada está asignada a otro operario", 403);
+    }
+    return wave;
+  }
+
+  /**
+   * Guardar oleada
+   */
+  private async saveWave(wave: Wave): Promise<void> {
+    await redis.setex(
+      WaveService.WAVE_PREFIX + wave.waveId,
+      WaveService.WAVE_TTL,
+      JSON.stringify(wave)
+    );
+  }
+}
+
+export {
+  Wave,
+  WaveOrder,
+  WaveAllocation,
+  WaveInstruction,
+  PutInstruction,
+  WaveConfirmResult,
+};
@@ -9,6 +9,11 @@ interface ColocacionAuditData {
   newLocation: string | null;
   oldStock: number;
   newStock: number;
+  bin?: string; // ubicación actualizada en el stock por ubicación
+  oldBinQuantity?: number;
+  newBinQuantity?: number;
+  reasonCode?: string; // motivo del ajuste de stock
+  reason?: string;
 }
 
 interface SearchAuditData {
@@ -24,6 +29,159 @@ interface LabelAuditData {
   action: "created" | "printed" | "deleted";
 }
 
+interface BarcodeAuditData {
+  productId: string;
+  reference: string;
+  barcode: string;
+  packagingType: "unit" | "inner" | "case";
+  unitsPerPackage: number;
+  action: "added" | "removed";
+}
+
+interface UnknownBarcodeAuditData {
+  barcode: string;
+  action: "linked" | "product_created" | "dismissed";
+  productId?: string;
+  odooProductId?: number;
+  notes?: string;
+}
+
+interface EntradaAuditData {
+  pickingId: number;
+  pickingName: string;
+  action:
+    | "receipt_started"
+    | "line_scanned"
+    | "line_confirmed"
+    | "receipt_validated"
+    | "receipt_submitted"
+    | "discrepancy_accepted"
+    | "discrepancy_rejected"
+    | "return_started"
+    | "return_item_scanned"
+    | "return_item_removed"
+    | "return_completed";
+  barcode?: string;
+  odooProductId?: number;
+  quantity?: number;
+  context?: any;
+}
+
+interface RecogidaAuditData {
+  pickingId?: number;
+  pickingName?: string;
+  waveId?: string;
+  action:
+    | "picking_assigned"
+    | "picking_started"
+    | "line_picked"
+    | "shortage_reported"
+    | "picking_validated"
+    | "wave_created"
+    | "wave_line_picked"
+    | "wave_shortage_reported"
+    | "wave_confirmed"
+    | "wave_cancelled"
+    | "packing_started"
+    | "packing_item_scanned"
+    | "packing_item_removed"
+    | "parcel_opened"
+    | "parcel_closed"
+    | "packing_completed";
+  barcode?: string;
+  location?: string | null;
+  odooProductId?: number;
+  quantity?: number;
+  context?: any;
+}
+
+interface ReplenishmentAuditData {
+  taskId?: string;
+  ruleId?: string;
+  action:
+    | "rule_saved"
+    | "rule_deleted"
+    | "task_created"
+    | "task_completed"
+    | "task_cancelled";
+  productId: string;
+  location?: string | null;
+  sourceLocation?: string | null;
+  quantity?: number;
+  context?: any;
+}
+
+interface WarehouseTaskAuditData {
+  taskId: string;
+  taskType: string;
+  action:
+    | "created"
+    | "claimed"
+    | "released"
+    | "completed"
+    | "reassigned"
+    | "cancelled"
+    | "expired";
+  location?: string | null;
+  assignedTo?: string | null;
+  context?: any;
+}
+
+interface LocationAuditData {
+  code?: string;
+  action:
+    | "created"
+    | "bulk_created"
+    | "updated"
+    | "blocked"
+    | "unblocked"
+    | "deleted"
+    | "moved";
+  count?: number;
+  context?: any;
+}
+
+interface InventorySessionAuditData {
+  sessionId: string;
+  action:
+    | "opened"
+    | "teams_updated"
+    | "counted"
+    | "closed"
+    | "cancelled"
+    | "odoo_posted"
+    | "odoo_failed";
+  location?: string | null;
+  context?: any;
+}
+
+interface ReasonCodeAuditData {
+  code: string;
+  action: "created" | "updated";
+  context?: any;
+}
+
+interface ChangeApprovalAuditData {
+  approvalId: string;
+  productId: string;
+  action: "requested" | "approved" | "rejected" | "failed";
+  context?: any;
+}
+
+interface CycleCountAuditData {
+  countId?: string;
+  planId?: string;
+  action:
+    | "plan_saved"
+    | "tasks_generated"
+    | "submitted"
+    | "posted"
+    | "approved"
+    | "rejected";
+  location?: string | null;
+  context?: any;
+}
+
 class AuditLoggerExtended {
   private supabaseService: SupabaseService;
 
@@ -146,6 +304,83 @@ class AuditLoggerExtended {
     }
   }
 
+  /**
+   * Log de altas y bajas de códigos de barras alternativos
+   */
+  async logBarcodeOperation(
+    userId: string,
+    deviceId: string,
+    barcodeData: BarcodeAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...barcodeData,
+        module: "colocacion",
+        action_type: "barcode_operation",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `barcode_${barcodeData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Código de barras alternativo ${barcodeData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...barcodeData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de código de barras:", error);
+    }
+  }
+
+  /**
+   * Log de resolución de códigos de barras desconocidos
+   */
+  async logUnknownBarcodeOperation(
+    userId: string,
+    deviceId: string,
+    unknownData: UnknownBarcodeAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...unknownData,
+        module: "colocacion",
+        action_type: "unknown_barcode",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `unknown_barcode_${unknownData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Código desconocido ${unknownData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...unknownData,
+      });
+    } catch (error) {
+      logger.error(
+        "Error registrando resolución de código desconocido:",
+        error
+      );
+    }
+  }
+
   /**
    * Log de errores en colocación
    */
@@ -188,6 +423,339 @@ class AuditLoggerExtended {
     }
   }
 
+  /**
+   * Log de operaciones de recepción (módulo entrada)
+   */
+  async logEntradaOperation(
+    userId: string,
+    deviceId: string,
+    entradaData: EntradaAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...entradaData,
+        module: "entrada",
+        action_type: entradaData.action,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `entrada_${entradaData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Operación de entrada ${entradaData.action} registrada`, {
+        type: "audit",
+        module: "entrada",
+        userId,
+        deviceId,
+        ...entradaData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de entrada:", error);
+    }
+  }
+
+  /**
+   * Log de operaciones de preparación de pedidos (módulo recogida)
+   */
+  async logRecogidaOperation(
+    userId: string,
+    deviceId: string,
+    recogidaData: RecogidaAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...recogidaData,
+        module: "recogida",
+        action_type: recogidaData.action,
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `recogida_${recogidaData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Operación de recogida ${recogidaData.action} registrada`, {
+        type: "audit",
+        module: "recogida",
+        userId,
+        deviceId,
+        ...recogidaData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de recogida:", error);
+    }
+  }
+
+  /**
+   * Log de operaciones de reposición de ubicaciones de picking
+   */
+  async logReplenishmentOperation(
+    userId: string,
+    deviceId: string,
+    replenishmentData: ReplenishmentAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...replenishmentData,
+        module: "colocacion",
+        action_type: "replenishment",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `replenishment_${replenishmentData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Operación de reposición ${replenishmentData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...replenishmentData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de reposición:", error);
+    }
+  }
+
+  /**
+   * Log de operaciones de la cola de tareas de almacén
+   */
+  async logWarehouseTaskOperation(
+    userId: string,
+    deviceId: string,
+    taskData: WarehouseTaskAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...taskData,
+        module: "colocacion",
+        action_type: "warehouse_task",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `task_${taskData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Tarea de almacén ${taskData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...taskData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de tarea de almacén:", error);
+    }
+  }
+
+  /**
+   * Log de mantenimiento del maestro de ubicaciones
+   */
+  async logLocationOperation(
+    userId: string,
+    deviceId: string,
+    locationData: LocationAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...locationData,
+        module: "colocacion",
+        action_type: "location",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `location_${locationData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Ubicación ${locationData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...locationData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de ubicación:", error);
+    }
+  }
+
+  /**
+   * Log de inventario cíclico (planes, conteos y ajustes)
+   */
+  async logCycleCountOperation(
+    userId: string,
+    deviceId: string,
+    countData: CycleCountAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...countData,
+        module: "colocacion",
+        action_type: "cycle_count",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `cycle_count_${countData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Inventario cíclico ${countData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...countData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de inventario cíclico:", error);
+    }
+  }
+
+  /**
+   * Log de sesiones de inventario físico
+   */
+  async logInventorySessionOperation(
+    userId: string,
+    deviceId: string,
+    sessionData: InventorySessionAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...sessionData,
+        module: "colocacion",
+        action_type: "inventory_session",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `inventory_${sessionData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Inventario físico ${sessionData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...sessionData,
+      });
+    } catch (error) {
+      logger.error("Error registrando operación de inventario físico:", error);
+    }
+  }
+
+  /**
+   * Log de cambios en el catálogo de códigos de motivo
+   */
+  async logReasonCodeOperation(
+    userId: string,
+    deviceId: string,
+    reasonData: ReasonCodeAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...reasonData,
+        module: "colocacion",
+        action_type: "reason_code",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `reason_code_${reasonData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Código de motivo ${reasonData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...reasonData,
+      });
+    } catch (error) {
+      logger.error("Error registrando código de motivo:", error);
+    }
+  }
+
+  /**
+   * Log de aprobaciones de cambios críticos
+   */
+  async logChangeApprovalOperation(
+    userId: string,
+    deviceId: string,
+    approvalData: ChangeApprovalAuditData,
+    ipAddress?: string
+  ): Promise<void> {
+    try {
+      const metadata = {
+        ...approvalData,
+        module: "colocacion",
+        action_type: "change_approval",
+        timestamp: new Date().toISOString(),
+      };
+
+      await this.supabaseService.createAuditLog({
+        user_id: userId,
+        action: `change_approval_${approvalData.action}`,
+        device_identifier: deviceId,
+        ip_address: ipAddress,
+        metadata,
+      });
+
+      logger.info(`Aprobación de cambio crítico ${approvalData.action}`, {
+        type: "audit",
+        module: "colocacion",
+        userId,
+        deviceId,
+        ...approvalData,
+      });
+    } catch (error) {
+      logger.error("Error registrando aprobación de cambio crítico:", error);
+    }
+  }
+
   /**
    * Log de acceso al módulo de colocación
    */
@@ -1,26 +1,83 @@
 // src/utils/barcode.validator.ts
+import { config } from "../config/index";
 import { AppError } from "../middlewares/error.middleware";
 
+interface GS1ParseResult {
+  raw: string;
+  gtin: string | null; // AI(01) o AI(02)
+  sscc: string | null; // AI(00)
+  lot: string | null; // AI(10)
+  serial: string | null; // AI(21)
+  productionDate: string | null; // AI(11) YYYY-MM-DD
+  bestBeforeDate: string | null; // AI(15) YYYY-MM-DD
+  expiryDate: string | null; // AI(17) YYYY-MM-DD
+  quantity: number | null; // AI(37) o AI(30)
+  elements: Record<string, string>;
+}
+
+interface GS1AIDefinition {
+  length?: number; // longitud fija
+  maxLength?: number; // longitud variable (termina en FNC1/GS)
+}
+
+type BarcodeType = "EAN8" | "UPCA" | "EAN13" | "DUN14" | "CODE128" | "INVALID";
+
 export class BarcodeValidator {
+  // Regex para EAN8 (8 dígitos)
+  private static readonly EAN8_REGEX = /^[0-9]{8}$/;
+
+  // Regex para UPC-A (12 dígitos, se normaliza a EAN13)
+  private static readonly UPCA_REGEX = /^[0-9]{12}$/;
+
   // Regex para EAN13 (13 dígitos)
   private static readonly EAN13_REGEX = /^[0-9]{13}$/;
 
-  // Regex para DUN14 (14 dígitos)
+  // Regex para DUN14 / ITF-14 / GTIN-14 (14 dígitos)
   private static readonly DUN14_REGEX = /^[0-9]{14}$/;
 
+  // Referencias internas Code128: prefijo + mayúsculas, dígitos o guiones
+  private static readonly CODE128_INTERNAL_REGEX = new RegExp(
+    `^${config.barcodes.internalPrefix.replace(
+      /[.*+?^${}()|[\]\\]/g,
+      "\\$&"
+    )}[A-Z0-9-]+$`
+  );
+
+  // Longitudes admitidas (también usadas por el modelo Product)
+  public static readonly MIN_LENGTH = 8;
+  public static readonly CODE128_MAX_LENGTH = 30;
+
+  // Separador de campos variables GS1 (FNC1 transmitido como GS, ASCII 29)
+  private static readonly GS1_SEPARATOR = "\u001d";
+
+  // Identificadores de símbolo AIM para GS1-128, GS1 DataMatrix y GS1 QR
+  private static readonly GS1_SYMBOLOGY_REGEX = /^\](C1|d2|Q3|e0)/;
+
+  // Identificadores de aplicación GS1 soportados
+  private static readonly GS1_AIS: Record<string, GS1AIDefinition> = {
+    "00": { length: 18 }, // SSCC
+    "01": { length: 14 }, // GTIN
+    "02": { length: 14 }, // GTIN de los artículos contenidos
+    "10": { maxLength: 20 }, // Lote
+    "11": { length: 6 }, // Fecha de producción
+    "13": { length: 6 }, // Fecha de envasado
+    "15": { length: 6 }, // Consumo preferente
+    "17": { length: 6 }, // Caducidad
+    "20": { length: 2 }, // Variante
+    "21": { maxLength: 20 }, // Número de serie
+    "30": { maxLength: 8 }, // Cantidad variable
+    "37": { maxLength: 8 }, // Número de unidades contenidas
+  };
+
   /**
-   * Validar formato de código de barras EAN13 o DUN14
+   * Validar formato de código de barras (EAN8, UPC-A, EAN13, DUN14 o Code128 interno)
    */
   public static validate(barcode: string): boolean {
     if (!barcode || typeof barcode !== "string") {
       return false;
     }
 
-    const cleanBarcode = barcode.trim();
-
-    return (
-      this.EAN13_REGEX.test(cleanBarcode) || this.DUN14_REGEX.test(cleanBarcode)
-    );
+    return this.detectType(barcode.trim()) !== "INVALID";
   }
 
   /**
@@ -35,27 +92,45 @@ export class BarcodeValidator {
   }
 
   /**
-   * Validar y limpiar código de barras
+   * Validar y limpiar código de barras (UPC-A se normaliza a EAN13)
    */
   public static validateAndClean(barcode: string): string {
     const cleanedBarcode = this.clean(barcode);
 
     if (!this.validate(cleanedBarcode)) {
       throw new AppError(
-        "Código de barras inválido. Debe ser EAN13 (13 dígitos) o DUN14 (14 dígitos)",
+        `Código de barras inválido. Debe ser EAN8, UPC-A, EAN13, DUN14 o referencia interna ${config.barcodes.internalPrefix}`,
         400
       );
     }
 
-    return cleanedBarcode;
+    return this.normalize(cleanedBarcode);
+  }
+
+  /**
+   * Normalizar código de barras (UPC-A → EAN13 con 0 inicial)
+   */
+  public static normalize(barcode: string): string {
+    const cleanBarcode = this.clean(barcode);
+    return this.detectType(cleanBarcode) === "UPCA"
+      ? `0${cleanBarcode}`
+      : cleanBarcode;
   }
 
   /**
    * Detectar tipo de código de barras
    */
-  public static detectType(barcode: string): "EAN13" | "DUN14" | "INVALID" {
+  public static detectType(barcode: string): BarcodeType {
     const cleanBarcode = this.clean(barcode);
 
+    if (this.EAN8_REGEX.test(cleanBarcode)) {
+      return "EAN8";
+    }
+
+    if (this.UPCA_REGEX.test(cleanBarcode)) {
+      return "UPCA";
+    }
+
     if (this.EAN13_REGEX.test(cleanBarcode)) {
       return "EAN13";
     }
@@ -64,9 +139,39 @@ export class BarcodeValidator {
       return "DUN14";
     }
 
+    if (
+      cleanBarcode.length <= this.CODE128_MAX_LENGTH &&
+      this.CODE128_INTERNAL_REGEX.test(cleanBarcode)
+    ) {
+      return "CODE128";
+    }
+
     return "INVALID";
   }
 
+  /**
+   * Validar dígito de control según el tipo de código
+   * (las referencias Code128 llevan el control dentro del símbolo)
+   */
+  public static validateCheckDigit(barcode: string): boolean {
+    const cleanBarcode = this.clean(barcode);
+
+    switch (this.detectType(cleanBarcode)) {
+      case "EAN8":
+      case "UPCA":
+      case "EAN13":
+      case "DUN14":
+        return (
+          parseInt(cleanBarcode[cleanBarcode.length - 1]) ===
+          this.calculateGS1CheckDigit(cleanBarcode.slice(0, -1))
+        );
+      case "CODE128":
+        return true;
+      default:
+        return false;
+    }
+  }
+
   /**
    * Calcular dígito de verificación EAN13
    */
@@ -103,4 +208,197 @@ export class BarcodeValidator {
 
     return checkDigit === calculatedCheckDigit;
   }
+
+  /**
+   * Calcular dígito de control GS1 (GTIN-8/12/13/14, SSCC)
+   */
+  public static calculateGS1CheckDigit(digits: string): number {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      const digit = parseInt(digits[digits.length - 1 - i]);
+      sum += i % 2 === 0 ? digit * 3 : digit;
+    }
+
+    const remainder = sum % 10;
+    return remainder === 0 ? 0 : 10 - remainder;
+  }
+
+  /**
+   * Detectar si el código leído es un GS1-128 / GS1 DataMatrix con AIs
+   */
+  public static isGS1(barcode: string): boolean {
+    if (!barcode || typeof barcode !== "string") {
+      return false;
+    }
+
+    const value = barcode.trim();
+
+    return (
+      this.GS1_SYMBOLOGY_REGEX.test(value) ||
+      value.includes(this.GS1_SEPARATOR) ||
+      /^\(\d{2,4}\)/.test(value) ||
+      (/^\d{16,}$/.test(value) && /^0[012]/.test(value))
+    );
+  }
+
+  /**
+   * Interpretar los identificadores de aplicación de un código GS1.
+   * Admite separadores FNC1/GS y el formato legible con paréntesis.
+   */
+  public static parseGS1(barcode: string): GS1ParseResult {
+    const raw = barcode.trim().replace(this.GS1_SYMBOLOGY_REGEX, "");
+    const elements: Record<string, string> = {};
+
+    if (raw.startsWith("(")) {
+      const regex = /\((\d{2,4})\)([^(]*)/g;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(raw)) !== null) {
+        this.getGS1Definition(match[1]);
+        elements[match[1]] = match[2].split(this.GS1_SEPARATOR).join("");
+      }
+    } else {
+      const data = raw.replace(/^\u001d+/, "");
+      let position = 0;
+
+      while (position < data.length) {
+        const ai = data.substring(position, position + 2);
+        const definition = this.getGS1Definition(ai);
+        position += 2;
+
+        let value: string;
+        if (definition.length) {
+          value = data.substring(position, position + definition.length);
+          position += definition.length;
+        } else {
+          const separatorIndex = data.indexOf(this.GS1_SEPARATOR, position);
+          const end = separatorIndex === -1 ? data.length : separatorIndex;
+          value = data.substring(position, end);
+          position = end;
+        }
+
+        // Saltar separador tras el campo
+        if (data[position] === this.GS1_SEPARATOR) {
+          position++;
+        }
+
+        elements[ai] = value;
+      }
+    }
+
+    if (Object.keys(elements).length === 0) {
+      throw new AppError("Código GS1 sin identificadores de aplicación", 400);
+    }
+
+    for (const [ai, value] of Object.entries(elements)) {
+      const definition = this.getGS1Definition(ai);
+      if (definition.length && value.length !== definition.length) {
+        throw new AppError(
+          `Longitud inválida en AI(${ai}): se esperaban ${definition.length} caracteres`,
+          400
+        );
+      }
+      if (definition.maxLength && value.length > definition.maxLength) {
+        throw new AppError(
+          `Longitud inválida en AI(${ai}): máximo ${definition.maxLength} caracteres`,
+          400
+        );
+      }
+    }
+
+    const gtin = elements["01"] || elements["02"] || null;
+    if (gtin) {
+      this.assertGS1CheckDigit(gtin, "GTIN");
+    }
+    if (elements["00"]) {
+      this.assertGS1CheckDigit(elements["00"], "SSCC");
+    }
+
+    const quantity = elements["37"] || elements["30"];
+
+    return {
+      raw: barcode.trim(),
+      gtin,
+      sscc: elements["00"] || null,
+      lot: elements["10"] || null,
+      serial: elements["21"] || null,
+      productionDate: elements["11"] ? this.parseGS1Date(elements["11"]) : null,
+      bestBeforeDate: elements["15"] ? this.parseGS1Date(elements["15"]) : null,
+      expiryDate: elements["17"] ? this.parseGS1Date(elements["17"]) : null,
+      quantity: quantity ? parseInt(quantity) : null,
+      elements,
+    };
+  }
+
+  /**
+   * Códigos locales candidatos para un GTIN-14 (EAN8/EAN13 si es indicador 0, y DUN14)
+   */
+  public static gtinToBarcodes(gtin: string): string[] {
+    if (gtin.startsWith("000000")) {
+      return [gtin.substring(6), gtin.substring(1), gtin]; // EAN8
+    }
+    return gtin.startsWith("0") ? [gtin.substring(1), gtin] : [gtin];
+  }
+
+  /**
+   * Obtener definición de un AI GS1 o fallar si no está soportado
+   */
+  private static getGS1Definition(ai: string): GS1AIDefinition {
+    const definition = this.GS1_AIS[ai];
+    if (!definition) {
+      throw new AppError(
+        `Identificador de aplicación GS1 no soportado: ${ai}`,
+        400
+      );
+    }
+    return definition;
+  }
+
+  /**
+   * Verificar dígito de control de un campo numérico GS1
+   */
+  private static assertGS1CheckDigit(value: string, label: string): void {
+    if (!/^\d+$/.test(value)) {
+      throw new AppError(`${label} inválido: ${value}`, 400);
+    }
+
+    const expected = this.calculateGS1CheckDigit(value.slice(0, -1));
+    if (parseInt(value[value.length - 1]) !== expected) {
+      throw new AppError(
+        `Dígito de control inválido en ${label}: ${value}`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Convertir fecha GS1 YYMMDD a YYYY-MM-DD (día 00 = último día del mes)
+   */
+  private static parseGS1Date(value: string): string {
+    if (!/^\d{6}$/.test(value)) {
+      throw new AppError(`Fecha GS1 inválida: ${value}`, 400);
+    }
+
+    const year = 2000 + parseInt(value.substring(0, 2));
+    const month = parseInt(value.substring(2, 4));
+    let day = parseInt(value.substring(4, 6));
+
+    if (month < 1 || month > 12) {
+      throw new AppError(`Fecha GS1 inválida: ${value}`, 400);
+    }
+
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day === 0) {
+      day = lastDay;
+    }
+    if (day > lastDay) {
+      throw new AppError(`Fecha GS1 inválida: ${value}`, 400);
+    }
+
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+      2,
+      "0"
+    )}`;
+  }
 }
+
+export { BarcodeType, GS1ParseResult };
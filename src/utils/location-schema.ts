@@ -0,0 +1,221 @@
+// src/utils/location-schema.ts
+import { config } from "../config/index";
+
+type LocationSegmentName = "aisle" | "block" | "level" | "position";
+
+interface LocationSegment {
+  name: LocationSegmentName;
+  label: string; // nombre para los mensajes
+  kind: "letters" | "digits";
+  length: number;
+  min: string;
+  max: string;
+}
+
+type LocationParts = Record<LocationSegmentName, string | null>;
+
+/**
+ * Esquema del código de ubicación: segmentos de longitud fija concatenados
+ * (pasillo + bloque + nivel y, opcionalmente, posición), cada uno con su
+ * rango admitido. Con la configuración por defecto: A213.
+ */
+export class LocationSchema {
+  public readonly segments: LocationSegment[];
+  private readonly pattern: RegExp;
+
+  constructor(segments: LocationSegment[]) {
+    this.segments = segments;
+    this.pattern = new RegExp(
+      `^${segments
+        .map((s) => `(${s.kind === "letters" ? "[A-Z]" : "\\d"}{${s.length}})`)
+        .join("")}$`
+    );
+  }
+
+  /**
+   * Construir el esquema desde la configuración (config.locations)
+   */
+  public static fromConfig(): LocationSchema {
+    const { aisles, blocks, levels, positions } = config.locations;
+
+    const segments = [
+      this.parseSegment("aisle", "pasillo", aisles),
+      this.parseSegment("block", "bloque", blocks),
+      this.parseSegment("level", "nivel", levels),
+    ];
+    if (positions) {
+      segments.push(this.parseSegment("position", "posición", positions));
+    }
+
+    return new LocationSchema(segments);
+  }
+
+  /**
+   * Interpretar un rango de configuración ("A-Z", "00-99", "0-8")
+   */
+  private static parseSegment(
+    name: LocationSegmentName,
+    label: string,
+    range: string
+  ): LocationSegment {
+    const match = /^([A-Z]+|\d+)-([A-Z]+|\d+)$/.exec(
+      range.trim().toUpperCase()
+    );
+    const [, min, max] = match || [];
+
+    if (
+      !match ||
+      min.length !== max.length ||
+      /\d/.test(min) !== /\d/.test(max) ||
+      min > max
+    ) {
+      throw new Error(
+        `Rango de ${label} inválido en la configuración de ubicaciones: ${range}`
+      );
+    }
+
+    return {
+      name,
+      label,
+      kind: /\d/.test(min) ? "digits" : "letters",
+      length: min.length,
+      min,
+      max,
+    };
+  }
+
+  /**
+   * Segmento por nombre (undefined si el esquema no lo usa)
+   */
+  public get(name: LocationSegmentName): LocationSegment | undefined {
+    return this.segments.find((s) => s.name === name);
+  }
+
+  /**
+   * Descomponer un código en sus segmentos (null si no cumple el esquema)
+   */
+  public split(code: string): LocationParts | null {
+    const match = this.pattern.exec(code);
+    if (!match) {
+      return null;
+    }
+
+    const parts: LocationParts = {
+      aisle: null,
+      block: null,
+      level: null,
+      position: null,
+    };
+    for (const [index, segment] of this.segments.entries()) {
+      const value = match[index + 1];
+      if (!this.inRange(segment, value)) {
+        return null;
+      }
+      parts[segment.name] = value;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Unir segmentos en un código (sin validar)
+   */
+  public join(parts: Partial<LocationParts>): string {
+    return this.segments.map((s) => parts[s.name] || "").join("");
+  }
+
+  /**
+   * Comprobar que un valor pertenece al rango del segmento
+   */
+  public inRange(segment: LocationSegment, value: string): boolean {
+    const charset = segment.kind === "letters" ? /^[A-Z]+$/ : /^\d+$/;
+    return (
+      value.length === segment.length &&
+      charset.test(value) &&
+      value >= segment.min &&
+      value <= segment.max
+    );
+  }
+
+  /**
+   * Ajustar un número a la longitud del segmento (nivel 3 -> "3" o "03")
+   */
+  public pad(segment: LocationSegment, value: number): string {
+    return value.toString().padStart(segment.length, "0");
+  }
+
+  /**
+   * Posición ordinal de un valor dentro del segmento (A -> 0, B -> 1...)
+   */
+  public indexOf(segment: LocationSegment, value: string): number {
+    return this.ordinal(segment, value) - this.ordinal(segment, segment.min);
+  }
+
+  /**
+   * Valores consecutivos de un segmento entre dos extremos (incluidos)
+   */
+  public values(
+    segment: LocationSegment,
+    from: string = segment.min,
+    to: string = segment.max
+  ): string[] {
+    const first = this.ordinal(segment, from);
+    const last = this.ordinal(segment, to);
+    const values: string[] = [];
+
+    for (let ordinal = first; ordinal <= last; ordinal++) {
+      values.push(this.fromOrdinal(segment, ordinal));
+    }
+    return values;
+  }
+
+  /**
+   * Descripción legible del formato para los mensajes de error
+   */
+  public describe(): string {
+    return this.segments
+      .map((s) => `${s.label} (${s.min}-${s.max})`)
+      .join(" + ");
+  }
+
+  /**
+   * Código de ejemplo con el primer valor de cada segmento
+   */
+  public example(): string {
+    return this.segments.map((s) => s.min).join("");
+  }
+
+  /**
+   * Valor numérico de un segmento (letras en base 26)
+   */
+  private ordinal(segment: LocationSegment, value: string): number {
+    if (segment.kind === "digits") {
+      return parseInt(value, 10);
+    }
+    return [...value].reduce(
+      (total, char) => total * 26 + (char.charCodeAt(0) - 65),
+      0
+    );
+  }
+
+  /**
+   * Valor de un segmento a partir de su número
+   */
+  private fromOrdinal(segment: LocationSegment, ordinal: number): string {
+    if (segment.kind === "digits") {
+      return this.pad(segment, ordinal);
+    }
+
+    let value = "";
+    for (let i = 0; i < segment.length; i++) {
+      value = String.fromCharCode(65 + (ordinal % 26)) + value;
+      ordinal = Math.floor(ordinal / 26);
+    }
+    return value;
+  }
+}
+
+// Esquema configurado para todo el almacén
+export const locationSchema = LocationSchema.fromConfig();
+
+export { LocationSegment, LocationSegmentName, LocationParts };
@@ -1,9 +1,17 @@
 // src/utils/location.validator.ts
 import { AppError } from "../middlewares/error.middleware";
+import { locationSchema } from "./location-schema";
+
+interface ParsedLocation {
+  aisle: string;
+  block: string;
+  level: number;
+  position: string | null; // solo si el esquema define posición
+}
 
 export class LocationValidator {
-  // Regex para formato de ubicación: Letra + 2 dígitos + dígito 0-5
-  private static readonly LOCATION_REGEX = /^[A-Z]\d{2}[0-5]$/;
+  // Formato configurable: pasillo + bloque + nivel [+ posición] (config.locations)
+  public static readonly schema = locationSchema;
 
   /**
    * Validar formato de ubicación
@@ -13,7 +21,7 @@ export class LocationValidator {
       return false;
     }
 
-    return this.LOCATION_REGEX.test(location.trim().toUpperCase());
+    return this.schema.split(location.trim().toUpperCase()) !== null;
   }
 
   /**
@@ -35,7 +43,7 @@ export class LocationValidator {
 
     if (!this.validate(cleanedLocation)) {
       throw new AppError(
-        "Formato de ubicación inválido. Debe ser: Letra + 2 dígitos + altura (0-5). Ejemplo: A213",
+        `Formato de ubicación inválido. Debe ser: ${this.describeFormat()}`,
         400
       );
     }
@@ -43,20 +51,39 @@ export class LocationValidator {
     return cleanedLocation;
   }
 
+  /**
+   * Formato esperado con un ejemplo, para mensajes de error
+   */
+  public static describeFormat(): string {
+    return `${this.schema.describe()}. Ejemplo: ${this.schema.example()}`;
+  }
+
+  /**
+   * Validador para los campos de ubicación de los modelos
+   * (el valor debe llegar ya limpio)
+   */
+  public static readonly modelValidator = (value: string): void => {
+    if (
+      value !== LocationValidator.clean(value) ||
+      !LocationValidator.validate(value)
+    ) {
+      throw new Error(
+        `Formato de ubicación inválido: ${value}. Debe ser: ${LocationValidator.describeFormat()}`
+      );
+    }
+  };
+
   /**
    * Extraer componentes de la ubicación
    */
-  public static parseLocation(location: string): {
-    aisle: string;
-    block: string;
-    level: number;
-  } {
-    const cleanedLocation = this.validateAndClean(location);
+  public static parseLocation(location: string): ParsedLocation {
+    const parts = this.schema.split(this.validateAndClean(location))!;
 
     return {
-      aisle: cleanedLocation[0], // Primera letra
-      block: cleanedLocation.substring(1, 3), // Dos dígitos
-      level: parseInt(cleanedLocation[3]), // Último dígito (0-5)
+      aisle: parts.aisle!,
+      block: parts.block!,
+      level: parseInt(parts.level!, 10),
+      position: parts.position,
     };
   }
 
@@ -66,40 +93,119 @@ export class LocationValidator {
   public static buildLocation(
     aisle: string,
     block: string,
-    level: number
+    level: number,
+    position: string | null = null
   ): string {
+    const aisleSegment = this.schema.get("aisle")!;
+    const blockSegment = this.schema.get("block")!;
+    const levelSegment = this.schema.get("level")!;
+    const positionSegment = this.schema.get("position");
+
     // Validar componentes
-    if (!/^[A-Z]$/.test(aisle)) {
-      throw new AppError("El pasillo debe ser una letra mayúscula (A-Z)", 400);
+    if (!this.schema.inRange(aisleSegment, aisle)) {
+      throw new AppError(
+        `El pasillo debe estar entre ${aisleSegment.min} y ${aisleSegment.max}`,
+        400
+      );
     }
 
-    if (!/^\d{2}$/.test(block)) {
-      throw new AppError("El bloque debe ser de 2 dígitos (00-99)", 400);
+    if (!this.schema.inRange(blockSegment, block)) {
+      throw new AppError(
+        `El bloque debe estar entre ${blockSegment.min} y ${blockSegment.max}`,
+        400
+      );
     }
 
-    if (level < 0 || level > 5) {
-      throw new AppError("El nivel debe estar entre 0 y 5", 400);
+    const levelValue = this.schema.pad(levelSegment, level);
+    if (
+      !Number.isInteger(level) ||
+      !this.schema.inRange(levelSegment, levelValue)
+    ) {
+      throw new AppError(
+        `El nivel debe estar entre ${levelSegment.min} y ${levelSegment.max}`,
+        400
+      );
     }
 
-    const location = `${aisle}${block}${level}`;
+    if (positionSegment) {
+      if (!position || !this.schema.inRange(positionSegment, position)) {
+        throw new AppError(
+          `La posición debe estar entre ${positionSegment.min} y ${positionSegment.max}`,
+          400
+        );
+      }
+    } else if (position) {
+      throw new AppError("El esquema de ubicaciones no define posición", 400);
+    }
+
+    const location = this.schema.join({
+      aisle,
+      block,
+      level: levelValue,
+      position,
+    });
     return this.validateAndClean(location);
   }
 
+  /**
+   * Primera ubicación del esquema (cabecera del almacén)
+   */
+  public static firstLocation(): ParsedLocation {
+    const position = this.schema.get("position");
+
+    return {
+      aisle: this.schema.get("aisle")!.min,
+      block: this.schema.get("block")!.min,
+      level: parseInt(this.schema.get("level")!.min, 10),
+      position: position ? position.min : null,
+    };
+  }
+
+  /**
+   * Número de orden de un pasillo (A = 0, B = 1...; también con dos letras)
+   */
+  public static aisleIndex(aisle: string): number {
+    return this.schema.indexOf(this.schema.get("aisle")!, aisle);
+  }
+
+  /**
+   * Niveles admitidos por el esquema
+   */
+  public static levelRange(): { min: number; max: number } {
+    const level = this.schema.get("level")!;
+    return { min: parseInt(level.min, 10), max: parseInt(level.max, 10) };
+  }
+
   /**
    * Obtener ubicaciones adyacentes
    */
   public static getAdjacentLocations(location: string): string[] {
-    const { aisle, block, level } = this.parseLocation(location);
+    const { aisle, block, level, position } = this.parseLocation(location);
+    const { min, max } = this.levelRange();
     const adjacent: string[] = [];
 
     // Niveles adyacentes en el mismo bloque
-    if (level > 0) {
-      adjacent.push(`${aisle}${block}${level - 1}`);
+    if (level > min) {
+      adjacent.push(this.buildLocation(aisle, block, level - 1, position));
     }
-    if (level < 5) {
-      adjacent.push(`${aisle}${block}${level + 1}`);
+    if (level < max) {
+      adjacent.push(this.buildLocation(aisle, block, level + 1, position));
+    }
+
+    // Posiciones contiguas en el mismo nivel
+    const positionSegment = this.schema.get("position");
+    if (positionSegment && position) {
+      const index = this.schema.indexOf(positionSegment, position);
+      const positions = this.schema.values(positionSegment);
+      for (const neighbour of [positions[index - 1], positions[index + 1]]) {
+        if (neighbour) {
+          adjacent.push(this.buildLocation(aisle, block, level, neighbour));
+        }
+      }
     }
 
     return adjacent;
   }
 }
+
+export { ParsedLocation };
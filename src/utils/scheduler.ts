@@ -4,6 +4,10 @@ import { SupabaseService } from "../services/supabase.service";
 import { SyncService } from "../services/sync.service";
 import { PrintQueueService } from "../services/print-queue.service";
 import { OptimisticUpdateService } from "../services/optimistic-update.service";
+import { LotService } from "../services/lot.service";
+import { WarehouseTaskService } from "../services/warehouse-task.service";
+import { CycleCountService } from "../services/cycle-count.service";
+import { ChangeApprovalService } from "../services/change-approval.service";
 import { logger } from "./logger";
 
 const supabaseService = new SupabaseService();
@@ -148,6 +152,73 @@ export const setupScheduledTasks = () => {
     }
   );
 
+  // Aviso de existencias próximas a caducar cada mañana a las 07:00
+  cron.schedule(
+    "0 7 * * *",
+    async () => {
+      try {
+        logger.info("Ejecutando revisión de caducidades");
+        const alert = await LotService.flagExpiringStock();
+        logger.info("Revisión de caducidades completada", {
+          expired: alert.expired.length,
+          expiring: alert.expiring.length,
+        });
+      } catch (error) {
+        logger.error("Error en revisión de caducidades:", error);
+      }
+    },
+    {
+      timezone: "Europe/Madrid",
+    }
+  );
+
+  // Devolver a la cola las tareas reclamadas y abandonadas cada 5 minutos
+  cron.schedule(
+    "*/5 * * * *",
+    async () => {
+      try {
+        await WarehouseTaskService.expireAbandonedClaims();
+      } catch (error) {
+        logger.error("Error caducando tareas reclamadas:", error);
+      }
+    },
+    {
+      timezone: "Europe/Madrid",
+    }
+  );
+
+  // Conteos del inventario cíclico cada mañana a las 06:00
+  cron.schedule(
+    "0 6 * * *",
+    async () => {
+      try {
+        logger.info("Generando conteos del inventario cíclico");
+        const generated = await CycleCountService.generateDailyTasks();
+        logger.info("Conteos del inventario cíclico generados", { generated });
+      } catch (error) {
+        logger.error("Error generando conteos del inventario cíclico:", error);
+      }
+    },
+    {
+      timezone: "Europe/Madrid",
+    }
+  );
+
+  // Caducar solicitudes de aprobación sin revisar cada hora
+  cron.schedule(
+    "15 * * * *",
+    async () => {
+      try {
+        await ChangeApprovalService.expireStale();
+      } catch (error) {
+        logger.error("Error caducando solicitudes de aprobación:", error);
+      }
+    },
+    {
+      timezone: "Europe/Madrid",
+    }
+  );
+
   logger.info("Tareas programadas configuradas:");
   logger.info("- Logout forzado diario: 16:00 (CET)");
   logger.info("- Limpieza de sesiones: cada hora");
@@ -156,6 +227,10 @@ export const setupScheduledTasks = () => {
   logger.info("- Limpieza de trabajos de impresión: cada 10 minutos");
   logger.info("- Limpieza de actualizaciones optimistas: cada 5 minutos");
   logger.info("- Verificación de conectividad: cada hora");
+  logger.info("- Revisión de caducidades: 07:00 (CET)");
+  logger.info("- Caducidad de tareas reclamadas: cada 5 minutos");
+  logger.info("- Conteos del inventario cíclico: 06:00 (CET)");
+  logger.info("- Caducidad de solicitudes de aprobación: cada hora");
 };
 
 /**
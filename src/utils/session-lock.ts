@@ -0,0 +1,77 @@
+// src/utils/session-lock.ts
+import { v4 as uuidv4 } from "uuid";
+import { redis } from "../config/redis";
+import { AppError } from "../middlewares/error.middleware";
+import { logger } from "./logger";
+
+// Borra el lock solo si sigue siendo nuestro (no el de otro proceso tras caducar)
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+export class SessionLock {
+  private static readonly LOCK_SUFFIX = ":lock";
+  private static readonly LOCK_TTL = 60000; // ms (cubre las validaciones en Odoo)
+  private static readonly RETRY_DELAY = 100; // ms
+  private static readonly MAX_WAIT = 5000; // ms
+
+  /**
+   * Ejecutar una lectura-modificación-escritura de una sesión en Redis con
+   * exclusión mutua, para que dos escaneos simultáneos no se pisen
+   */
+  public static async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const lockKey = key + SessionLock.LOCK_SUFFIX;
+    const token = uuidv4();
+
+    await SessionLock.acquire(lockKey, token);
+    try {
+      return await fn();
+    } finally {
+      await SessionLock.release(lockKey, token);
+    }
+  }
+
+  /**
+   * Esperar al lock (SET NX PX) hasta el tiempo máximo
+   */
+  private static async acquire(lockKey: string, token: string): Promise<void> {
+    const deadline = Date.now() + SessionLock.MAX_WAIT;
+
+    while (true) {
+      const result = await redis.set(
+        lockKey,
+        token,
+        "PX",
+        SessionLock.LOCK_TTL,
+        "NX"
+      );
+      if (result === "OK") {
+        return;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new AppError(
+          "La operación está siendo modificada desde otro dispositivo, inténtelo de nuevo",
+          409
+        );
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, SessionLock.RETRY_DELAY)
+      );
+    }
+  }
+
+  /**
+   * Liberar el lock si sigue siendo nuestro
+   */
+  private static async release(lockKey: string, token: string): Promise<void> {
+    try {
+      await redis.eval(RELEASE_SCRIPT, 1, lockKey, token);
+    } catch (error) {
+      logger.error(`Error liberando lock de sesión ${lockKey}:`, error);
+    }
+  }
+}